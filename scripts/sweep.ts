@@ -0,0 +1,65 @@
+/**
+ * Parameter sweep CLI: runs the headless simulation over a grid or random
+ * sweep and writes one row of metrics per run.
+ *
+ * Usage: npm run sweep -- <spec.json> [--config public/config.json] [--out results.csv] [--verbose]
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { processConfig } from '../src/config/ConfigLoader';
+import { ParameterSweep } from '../src/simulation/ParameterSweep';
+import type { ISweepSpec } from '../src/types';
+
+const DEFAULT_CONFIG_PATH = 'public/config.json';
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const specPath = args.find(arg => !arg.startsWith('--') && !isOptionValue(args, arg));
+  if (!specPath) {
+    console.error('Usage: npm run sweep -- <spec.json> [--config public/config.json] [--out results.csv] [--verbose]');
+    process.exit(1);
+  }
+
+  const spec = JSON.parse(readFileSync(specPath, 'utf8')) as ISweepSpec;
+  const configPath = getOption(args, '--config') ?? DEFAULT_CONFIG_PATH;
+  const config = processConfig(JSON.parse(readFileSync(configPath, 'utf8')));
+  const output = getOption(args, '--out') ?? spec.output ?? 'sweep-results.csv';
+
+  const sweep = new ParameterSweep(spec, config);
+  process.stderr.write(`Running ${sweep.runCount} runs of ${spec.duration}s\n`);
+
+  // The simulation logs setup details per run; keep the output readable
+  const log = console.log;
+  if (!args.includes('--verbose')) {
+    console.log = () => {};
+  }
+
+  const started = Date.now();
+  const results = sweep.run((result, index, total) => {
+    const params = Object.entries(result.parameters).map(([path, value]) => `${path}=${value}`).join(' ');
+    process.stderr.write(
+      `[${index + 1}/${total}] seed=${result.seed} ${params} ` +
+      `polarization=${result.metrics.polarization.toFixed(3)} survival=${result.metrics.survival.toFixed(3)}\n`
+    );
+  });
+  console.log = log;
+
+  writeFileSync(output, output.endsWith('.json') ? JSON.stringify(results, null, 2) : ParameterSweep.toCSV(results));
+  process.stderr.write(`Wrote ${results.length} rows to ${output} in ${((Date.now() - started) / 1000).toFixed(1)}s\n`);
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function isOptionValue(args: string[], arg: string): boolean {
+  const index = args.indexOf(arg);
+  return index > 0 && (args[index - 1] === '--config' || args[index - 1] === '--out');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -6,19 +6,78 @@ import { EnvironmentRenderer } from './rendering/EnvironmentRenderer';
 import { TrailEffect } from './rendering/TrailEffect';
 import { GlowEffect } from './rendering/GlowEffect';
 import { Canvas2DRenderer } from './rendering/Canvas2DRenderer';
+import { Camera } from './rendering/Camera';
+import { ViewUniform } from './rendering/ViewUniform';
+import { ForceVectorRenderer } from './rendering/ForceVectorRenderer';
+import { ForceArrows, MAX_FORCE_BIRDS } from './rendering/ForceArrows';
 import { ControlPanel } from './ui/ControlPanel';
 import { Statistics } from './ui/Statistics';
-import { Wind, AttractorManager, FoodSourceManager, createPredator, BasePredator, clearOrcaPacks } from './environment';
+import { StatsChart } from './ui/StatsChart';
+import { Minimap } from './ui/Minimap';
+import { BirdInspector } from './ui/BirdInspector';
+import { ForceLegend } from './ui/ForceLegend';
+import {
+  Wind,
+  AttractorManager,
+  FoodSourceManager,
+  TerritoryManager,
+  DayNightCycle,
+  createPredator,
+  BasePredator,
+  clearOrcaPacks,
+  createObstacle,
+  createObstacleLayout
+} from './environment';
 import { createAttractor } from './environment/Attractor';
-import type { ILoadedConfig, ISimulationConfig, IEnvironmentConfig, IRenderingConfig } from './types';
-
-// Version: 2.4.0 - Increased maximum bird population to 20000
-
-const MAX_BIRDS = 20000;
+import { SessionRecorder, SessionPlayer } from './replay';
+import { SnapshotStore, SNAPSHOT_FORMAT_VERSION } from './snapshot';
+import { CaptureManager } from './capture';
+import { assignConfig } from './config';
+import { fitRect } from './utils/MathUtils';
+import { Random } from './utils/Random';
+import type {
+  ILoadedConfig,
+  ISimulationConfig,
+  IEnvironmentConfig,
+  IRenderingConfig,
+  ICaptureSettings,
+  IPredatorKillEvent,
+  IWorldSnapshot,
+  PredatorType,
+  IOrderMetrics,
+  ISimulationStats,
+  IControlPanelCallbacks,
+  IObstacle,
+  IVector2,
+  IBirdInspection,
+  ObstacleShape,
+  CameraFollowMode,
+  ISessionConfig,
+  ISessionRecording,
+  SessionEvent,
+  SessionInput,
+  SessionPanelAction
+} from './types';
+
+// Version: 2.5.0 - GPU spatial grid raises maximum bird population to 100000
+
+const MAX_BIRDS = 100000;
+
+// Pointer travel (pixels) that turns a press on the canvas into a pan instead of a click
+const DRAG_THRESHOLD = 4;
+
+// Zoom change per pixel of wheel scroll
+const WHEEL_ZOOM_RATE = 0.0015;
+
+// Screen distance (pixels) within which a click picks a bird to inspect
+const PICK_RADIUS = 30;
+
+// Seconds between inspector panel refreshes (each rebuilds the spatial grid)
+const INSPECTOR_REFRESH_INTERVAL = 0.1;
 
 /**
  * Main application orchestrator.
- * Version: 2.4.0 - Increased maximum bird population to 20000.
+ * Version: 2.5.0 - GPU spatial grid raises maximum bird population to 100000.
  */
 export class App {
   // Flux GPU context
@@ -29,8 +88,10 @@ export class App {
   // Simulation
   private flock: Flock;
   private wind: Wind;
+  private dayNight: DayNightCycle;
   private attractors: AttractorManager;
   private foodManager: FoodSourceManager | null = null;
+  private territoryManager: TerritoryManager | null = null;
   private predators: BasePredator[] = [];
 
   // Rendering (flux-based or Canvas2D fallback)
@@ -39,11 +100,37 @@ export class App {
   private trailEffect: TrailEffect | null = null;
   private glowEffect: GlowEffect | null = null;
   private canvas2DRenderer: Canvas2DRenderer | null = null;
+  private forceVectorRenderer: ForceVectorRenderer | null = null;
   private useWebGPU: boolean = false;
 
+  // Force-vector debug overlay, packed once per frame for either renderer
+  private forceArrows: ForceArrows = new ForceArrows();
+
+  // Camera over the world (view only: pans and zooms are not recorded)
+  private camera: Camera;
+  private viewUniform: ViewUniform | null = null;
+  private followMode: CameraFollowMode = 'none';
+  private followBirdIndex: number = -1;
+  private followPredatorId: number = -1;
+
+  // Canvas press that may become a pan; a pan swallows the click that ends it
+  private drag: { x: number; y: number; panning: boolean } | null = null;
+  private suppressClick: boolean = false;
+
+  // Bird inspector (view only: selections are not recorded). The id catches
+  // a flock replaced by a reset, snapshot or playback.
+  private selectedBird: number = -1;
+  private selectedBirdId: number = -1;
+  private inspection: IBirdInspection | null = null;
+  private inspectionTimer: number = 0;
+
   // UI
   private controlPanel: ControlPanel;
   private statistics: Statistics;
+  private statsChart: StatsChart;
+  private minimap: Minimap;
+  private inspector: BirdInspector;
+  private forceLegend: ForceLegend;
 
   // Configuration
   private simConfig: ISimulationConfig;
@@ -56,6 +143,37 @@ export class App {
   private running: boolean = false;
   private gpuAvailable: boolean = false;
 
+  // Random source of the simulation, reseeded on every restart
+  private rng: Random = new Random();
+
+  // Order metrics, recomputed whenever the CPU copy of the flock changes
+  private orderMetrics: IOrderMetrics | undefined;
+
+  // Simulated world size (configured, or following the window; playback
+  // keeps the recorded size)
+  private worldWidth: number;
+  private worldHeight: number;
+
+  // Session recording and playback
+  private recorder: SessionRecorder = new SessionRecorder();
+  private player: SessionPlayer | null = null;
+  private lastRecording: ISessionRecording | null = null;
+  private playbackSpeed: number = 1;
+  private pendingSeek: number | null = null;
+  private applyingSession: boolean = false;
+  private panelCallbacks: IControlPanelCallbacks = {};
+
+  // World snapshots and quick-save slots
+  private snapshots: SnapshotStore = new SnapshotStore();
+
+  // Canvas capture (captureView holds the settings the canvas is sized for)
+  private capture: CaptureManager = new CaptureManager();
+  private captureView: ICaptureSettings | null = null;
+  private canvasTransparent: boolean = false;
+
+  // Polygon or wall being placed (committed with Enter, cancelled with Escape)
+  private obstacleDraft: IObstacle | null = null;
+
   constructor(container: HTMLElement, config: ILoadedConfig) {
     console.log('App v2.2.0 - WebGPU with Canvas2D fallback');
     this.container = container;
@@ -63,19 +181,53 @@ export class App {
     this.simConfig = { ...config.simulation };
     this.envConfig = { ...config.environment };
     this.renderConfig = { ...config.rendering };
+    const worldSize = this.getConfiguredWorldSize();
+    this.worldWidth = worldSize.width;
+    this.worldHeight = worldSize.height;
+    this.camera = new Camera(this.worldWidth, this.worldHeight, window.innerWidth, window.innerHeight);
+
+    // Seed before anything draws random numbers
+    this.applySeed();
 
     // Initialize simulation components
     this.flock = new Flock(
-      window.innerWidth,
-      window.innerHeight,
+      this.worldWidth,
+      this.worldHeight,
       MAX_BIRDS,
       this.simConfig,
-      this.envConfig
+      this.envConfig,
+      this.rng
     );
 
-    this.wind = new Wind(this.envConfig);
+    // Keep index-based references valid when birds die
+    this.flock.addBirdRemovedListener((removedIndex, movedFromIndex) => {
+      this.foodManager?.remapBirdIndex(removedIndex, movedFromIndex);
+      for (const predator of this.predators) {
+        predator.remapBirdIndex(removedIndex, movedFromIndex);
+      }
+
+      // A followed bird that died is replaced by the one nearest the view center
+      if (this.followBirdIndex === removedIndex) {
+        this.followBirdIndex = -1;
+      } else if (movedFromIndex >= 0 && this.followBirdIndex === movedFromIndex) {
+        this.followBirdIndex = removedIndex;
+      }
+
+      // An inspected bird that died is deselected
+      if (this.selectedBird === removedIndex) {
+        this.selectBird(-1);
+      } else if (movedFromIndex >= 0 && this.selectedBird === movedFromIndex) {
+        this.selectedBird = removedIndex;
+      }
+    });
+
+    this.wind = new Wind(this.envConfig, this.rng);
     this.attractors = new AttractorManager();
 
+    // Time of day drives roosting, night vision and nocturnal predators
+    this.dayNight = new DayNightCycle(this.envConfig.dayNight, this.worldWidth, this.worldHeight, this.rng);
+    this.flock.setDayNightCycle(this.dayNight);
+
     // Initialize UI
     this.controlPanel = new ControlPanel(
       this.simConfig,
@@ -85,6 +237,23 @@ export class App {
     );
 
     this.statistics = new Statistics();
+    this.statsChart = new StatsChart(this.renderConfig.chartWindow);
+    this.statsChart.setVisible(this.renderConfig.showCharts);
+    this.minimap = new Minimap();
+    this.minimap.setNavigateCallback((x, y) => {
+      this.setFollowMode('none');
+      this.camera.centerOn(x, y);
+    });
+    this.inspector = new BirdInspector();
+    this.inspector.setFollowCallback((follow) => {
+      this.setFollowMode(follow ? 'bird' : 'none');
+      if (follow) {
+        this.followBirdIndex = this.selectedBird;
+      }
+      this.inspectionTimer = 0;
+    });
+    this.inspector.setCloseCallback(() => this.selectBird(-1));
+    this.forceLegend = new ForceLegend();
   }
 
   /**
@@ -150,10 +319,12 @@ export class App {
       // Initialize WebGPU renderers with error handling
       console.log('Initializing WebGPU renderers...');
       try {
-        this.flockRenderer = new FlockRenderer(this.flux, this.renderConfig, MAX_BIRDS);
-        this.envRenderer = new EnvironmentRenderer(this.flux, window.innerWidth, window.innerHeight);
+        this.viewUniform = new ViewUniform(this.flux);
+        this.flockRenderer = new FlockRenderer(this.flux, this.viewUniform, this.renderConfig, MAX_BIRDS);
+        this.envRenderer = new EnvironmentRenderer(this.flux, this.viewUniform, window.innerWidth, window.innerHeight);
         this.trailEffect = new TrailEffect(
           this.flux,
+          this.viewUniform,
           MAX_BIRDS,
           this.renderConfig.trailLength,
           this.renderConfig.trailColor
@@ -162,9 +333,11 @@ export class App {
         this.trailEffect.setEnabled(this.renderConfig.trailEnabled);
         
         // Initialize glow effect for fireflies (smaller, more subtle radius)
-        this.glowEffect = new GlowEffect(this.flux, MAX_BIRDS, 12);
+        this.glowEffect = new GlowEffect(this.flux, this.viewUniform, MAX_BIRDS, 12);
         this.glowEffect.setEnabled(this.renderConfig.glowEnabled || this.envConfig.fireflyEnabled);
         
+        this.forceVectorRenderer = new ForceVectorRenderer(this.flux, this.viewUniform);
+        
         console.log('✓ WebGPU renderers initialized');
       } catch (error) {
         console.error('WebGPU renderer initialization failed:', error);
@@ -172,10 +345,12 @@ export class App {
         webgpuAvailable = false;
         this.useWebGPU = false;
         this.flux = null;
+        this.viewUniform = null;
         this.flockRenderer = null;
         this.envRenderer = null;
         this.trailEffect = null;
         this.glowEffect = null;
+        this.forceVectorRenderer = null;
       }
 
       if (webgpuAvailable && this.flux) {
@@ -186,9 +361,9 @@ export class App {
 
         if (gpuCaps.available) {
           console.log('✓ WebGPU compute available:', gpuCaps.adapter);
-          this.statistics.updateGpuStatus(true, 'Render + Compute');
-          // Initialize GPU simulation with shared Flux device
-          await this.flock.initGPUWithFlux(this.flux);
+          // Initialize GPU simulation with shared Flux device (zero-copy rendering)
+          const computeReady = await this.flock.initGPUWithFlux(this.flux);
+          this.statistics.updateGpuStatus(true, computeReady ? 'Render + Compute' : 'Render Only');
         } else {
           console.warn('WebGPU compute not available:', gpuCaps.reason);
           this.statistics.updateGpuStatus(true, 'Render Only');
@@ -220,6 +395,10 @@ export class App {
       this.initFoodSystem();
     }
 
+    if (this.envConfig.territories?.enabled) {
+      this.initTerritorySystem();
+    }
+
     if (this.envConfig.predatorEnabled) {
       this.spawnPredators();
     }
@@ -231,7 +410,7 @@ export class App {
    * Setup control panel callbacks.
    */
   private setupControlPanelCallbacks(): void {
-    this.controlPanel.setCallbacks({
+    this.panelCallbacks = {
       onPresetChange: (presetKey) => {
         console.log('Preset changed:', presetKey);
         this.flock.updateConfig(this.simConfig, this.envConfig);
@@ -258,6 +437,7 @@ export class App {
         } else if (!enabled && this.foodManager) {
           this.foodManager.clear();
           this.foodManager = null;
+          this.flock.setFoodManager(null);
         }
       },
 
@@ -266,10 +446,18 @@ export class App {
         this.wind.updateConfig(this.envConfig);
         this.flockRenderer?.updateConfig(this.renderConfig);
         this.canvas2DRenderer?.updateConfig(this.renderConfig);
+        for (const predator of this.predators) {
+          predator.setLethal(this.envConfig.lethalPredation);
+        }
+        this.territoryManager?.updateConfig(this.envConfig.territories);
+        this.dayNight.updateConfig(this.envConfig.dayNight);
         this.trailEffect?.setEnabled(this.renderConfig.trailEnabled);
         this.trailEffect?.updateConfig(this.renderConfig.trailLength, this.renderConfig.trailColor);
         // Update glow effect based on glow or firefly settings
         this.glowEffect?.setEnabled(this.renderConfig.glowEnabled || this.envConfig.fireflyEnabled);
+        this.statsChart.setWindow(this.renderConfig.chartWindow);
+        this.statsChart.setVisible(this.renderConfig.showCharts);
+        this.updateWorldSize();
       },
 
       onPauseResume: (paused) => {
@@ -278,9 +466,11 @@ export class App {
       },
 
       onReset: () => {
+        this.applySeed(); // A seeded run restarts from the same scenario
         this.flock.reset();
         this.flock.spawnBirds(this.simConfig.birdCount);
         this.statistics.resetTime();
+        this.statsChart.clear();
         this.attractors.clear();
         this.predators = [];
         clearOrcaPacks(); // Clear orca pack coordination
@@ -304,6 +494,13 @@ export class App {
       },
 
       onTerritoryToggle: (enabled) => {
+        if (enabled && !this.territoryManager) {
+          this.initTerritorySystem();
+        } else if (!enabled && this.territoryManager) {
+          this.territoryManager.clear();
+          this.territoryManager = null;
+          this.flock.setTerritoryManager(null);
+        }
         console.log('Territories', enabled ? 'enabled' : 'disabled');
       },
 
@@ -323,8 +520,149 @@ export class App {
           this.spawnPredators();
           console.log('Predator count changed to:', count);
         }
+      },
+
+      onObstacleLayout: (layout) => {
+        // A new array, so the flock repacks the obstacle geometry
+        this.envConfig.obstacles.items = createObstacleLayout(layout, this.worldWidth, this.worldHeight);
+        this.obstacleDraft = null;
+        console.log(`Obstacle layout: ${layout} (${this.envConfig.obstacles.items.length} obstacles)`);
+      },
+
+      onObstaclesClear: () => {
+        this.envConfig.obstacles.items = [];
+        this.obstacleDraft = null;
+        console.log('Obstacles cleared');
+      }
+    };
+
+    this.controlPanel.setCallbacks({
+      ...this.recordPanelCallbacks(this.panelCallbacks),
+
+      onRecordToggle: (recording) => {
+        if (recording) {
+          this.startRecording();
+        } else {
+          this.stopRecording();
+        }
+      },
+
+      onRecordingExport: () => {
+        const recording = this.recorder.getRecording() ?? this.lastRecording;
+        return recording ? JSON.stringify(recording) : null;
+      },
+
+      onRecordingLoad: (json) => {
+        try {
+          this.startPlayback(SessionPlayer.parse(json));
+        } catch (error) {
+          console.error('Failed to load recording:', error);
+        }
+      },
+
+      onPlaybackToggle: (playing) => {
+        if (this.player) {
+          this.player.setPlaying(playing);
+        } else if (playing && this.lastRecording) {
+          this.startPlayback(this.lastRecording);
+        }
+      },
+
+      onPlaybackSeek: (position) => {
+        // Handled by the frame loop so seeking never overlaps a playback frame
+        this.pendingSeek = position;
+      },
+
+      onPlaybackSpeedChange: (speed) => {
+        this.playbackSpeed = speed;
+        this.player?.setSpeed(speed);
+      },
+
+      onPlaybackStop: () => {
+        this.stopPlayback();
+      },
+
+      onSnapshotExport: () => JSON.stringify(this.captureSnapshot()),
+
+      onSnapshotLoad: (json) => {
+        try {
+          this.loadSnapshot(SnapshotStore.parse(json));
+        } catch (error) {
+          console.error('Failed to load snapshot:', error);
+        }
+      },
+
+      onQuickSave: (slot) => {
+        if (this.snapshots.save(slot, this.captureSnapshot())) {
+          console.log(`Snapshot saved to slot ${slot + 1}`);
+        }
+        this.controlPanel.setSnapshotSlots(this.snapshots.listSlots());
+      },
+
+      onQuickLoad: (slot) => {
+        const snapshot = this.snapshots.load(slot);
+        if (snapshot) {
+          this.loadSnapshot(snapshot);
+        } else {
+          console.warn(`Snapshot slot ${slot + 1} is empty`);
+        }
+      },
+
+      onScreenshot: (settings) => {
+        this.capture.requestScreenshot(settings);
+      },
+
+      onFrameCaptureToggle: (capturing, settings) => {
+        if (!capturing) {
+          this.capture.stopFrames();
+          return;
+        }
+        void this.capture.startFrames(settings).then((started) => {
+          if (started) console.log(`Capturing frames at ${settings.fps} fps`);
+        });
+      },
+
+      onVideoCaptureToggle: (recording, settings) => {
+        if (!recording) {
+          this.capture.stopVideo();
+        } else if (this.capture.startVideo(settings)) {
+          console.log('Recording video');
+        }
+      },
+
+      onCameraFollow: (mode) => {
+        this.setFollowMode(mode);
+      },
+
+      onCameraReset: () => {
+        this.setFollowMode('none');
+        this.camera.reset();
       }
     });
+    this.controlPanel.setSnapshotSlots(this.snapshots.listSlots());
+  }
+
+  /**
+   * Wrap control panel callbacks so a recording captures them, together with
+   * the config they were fired for. Pause/resume is left out: paused frames
+   * aren't recorded.
+   */
+  private recordPanelCallbacks(callbacks: IControlPanelCallbacks): IControlPanelCallbacks {
+    const wrapped: Record<string, unknown> = { ...callbacks };
+
+    for (const [name, callback] of Object.entries(callbacks)) {
+      if (name === 'onPauseResume' || typeof callback !== 'function') continue;
+
+      wrapped[name] = (...args: unknown[]) => {
+        // Pane refreshes while applying a recorded config must not re-run side effects
+        if (this.applyingSession) return;
+        this.recorder.captureConfig(this.getSessionConfig(), true);
+        this.recorder.record({ type: 'panel', action: name as SessionPanelAction, args });
+        return (callback as (...args: unknown[]) => unknown)(...args);
+      };
+    }
+
+    return wrapped as IControlPanelCallbacks;
   }
 
   /**
@@ -341,6 +679,14 @@ export class App {
         e.preventDefault();
         this.handleClick(e, true);
       });
+
+      // Wheel zooms about the cursor; dragging with the left or middle button pans
+      this.canvas.addEventListener('wheel', (e) => this.handleWheel(e), { passive: false });
+      this.canvas.addEventListener('mousedown', (e) => this.handleMouseDown(e));
+      window.addEventListener('mousemove', (e) => this.handleMouseMove(e));
+      window.addEventListener('mouseup', () => {
+        this.drag = null;
+      });
     }
 
     // Keyboard
@@ -350,10 +696,10 @@ export class App {
   /**
    * Initialize food system.
    */
-  private initFoodSystem(): void {
+  private initFoodSystem(): FoodSourceManager {
     this.foodManager = new FoodSourceManager(
-      window.innerWidth,
-      window.innerHeight,
+      this.worldWidth,
+      this.worldHeight,
       {
         respawnTime: this.envConfig.foodRespawnTime,
         maxFeeders: this.envConfig.maxFeedersPerFood,
@@ -361,13 +707,357 @@ export class App {
         feedingDuration: this.envConfig.feedingDuration,
         attractionRadius: this.envConfig.foodAttractionRadius,
         foodEnergyRestore: this.simConfig.foodEnergyRestore
-      }
+      },
+      this.rng
     );
 
     this.foodManager.spawnFood(this.envConfig.foodCount, this.envConfig.foodRadius);
     
     // Connect food manager to flock for feeding behavior
     this.flock.setFoodManager(this.foodManager);
+    return this.foodManager;
+  }
+
+  /**
+   * Initialize territory system and assign home territories.
+   */
+  private initTerritorySystem(): TerritoryManager {
+    this.territoryManager = new TerritoryManager(
+      this.envConfig.territories,
+      this.worldWidth,
+      this.worldHeight,
+      this.rng
+    );
+    this.flock.setTerritoryManager(this.territoryManager);
+    return this.territoryManager;
+  }
+
+  /**
+   * Seed the simulation's random source from simulation.seed (unseeded when null).
+   */
+  private applySeed(): void {
+    const seed = this.simConfig.seed ?? null;
+    this.rng.setSeed(seed);
+    if (seed !== null) {
+      console.log(`Random seed: ${seed}`);
+    }
+  }
+
+  /**
+   * Live configuration, as captured by session recordings.
+   */
+  private getSessionConfig(): ISessionConfig {
+    return {
+      simulation: this.simConfig,
+      environment: this.envConfig,
+      rendering: this.renderConfig
+    };
+  }
+
+  /**
+   * Record a user input if a recording is in progress.
+   */
+  private recordInput(input: SessionInput): void {
+    if (!this.recorder.isRecording) return;
+    // Settings changed without a panel callback must replay before the input
+    this.recorder.captureConfig(this.getSessionConfig());
+    this.recorder.record(input);
+  }
+
+  /**
+   * Start recording from a freshly restarted, seeded world.
+   */
+  private startRecording(): void {
+    this.stopPlayback();
+
+    // Replays need a seed; pick one for unseeded runs
+    if (this.simConfig.seed === null || this.simConfig.seed === undefined) {
+      this.simConfig.seed = Math.floor(this.rng.next() * 0x7fffffff);
+    }
+
+    this.recorder.start(this.getSessionConfig(), this.simConfig.seed, this.worldWidth, this.worldHeight);
+    this.restartWorld();
+    console.log(`Recording started (seed ${this.simConfig.seed})`);
+  }
+
+  /**
+   * Finish the recording in progress and keep it for export and playback.
+   */
+  private stopRecording(): void {
+    const recording = this.recorder.stop();
+    if (!recording) return;
+    this.lastRecording = recording;
+    console.log(`Recording stopped (${recording.frames.length} frames, ${recording.events.length} events)`);
+  }
+
+  /**
+   * Replay a recording from its first frame.
+   */
+  private startPlayback(recording: ISessionRecording): void {
+    this.stopRecording();
+    this.lastRecording = recording;
+    this.player = new SessionPlayer(recording);
+    this.player.setSpeed(this.playbackSpeed);
+    this.pendingSeek = null;
+    this.restoreSessionStart(recording);
+    console.log(`Playback started (${recording.frames.length} frames)`);
+  }
+
+  /**
+   * Leave playback. The world carries on live from where playback stopped.
+   */
+  private stopPlayback(): void {
+    if (!this.player) return;
+    this.player = null;
+    this.updateWorldSize();
+    console.log('Playback stopped');
+  }
+
+  /**
+   * Restore the recorded config, seed and world size and restart the world.
+   */
+  private restoreSessionStart(recording: ISessionRecording): void {
+    this.applySessionConfig(recording.config);
+    this.simConfig.seed = recording.seed;
+    this.panelCallbacks.onConfigChange?.();
+    this.resizeWorld(recording.width, recording.height);
+    this.restartWorld();
+  }
+
+  /**
+   * Rebuild the world from the current config and seed. Systems are created
+   * in a fixed order, so a seeded restart always produces the same world.
+   */
+  private restartWorld(): void {
+    this.applySeed();
+    this.flock.updateConfig(this.simConfig, this.envConfig);
+    this.flock.reset();
+
+    this.wind = new Wind(this.envConfig, this.rng);
+    this.dayNight = new DayNightCycle(this.envConfig.dayNight, this.worldWidth, this.worldHeight, this.rng);
+    this.flock.setDayNightCycle(this.dayNight);
+    this.attractors.clear();
+
+    this.flock.spawnBirds(this.simConfig.birdCount);
+
+    this.foodManager?.clear();
+    this.foodManager = null;
+    this.flock.setFoodManager(null);
+    if (this.envConfig.foodEnabled) {
+      this.initFoodSystem();
+    }
+
+    this.territoryManager?.clear();
+    this.territoryManager = null;
+    this.flock.setTerritoryManager(null);
+    if (this.envConfig.territories?.enabled) {
+      this.initTerritorySystem();
+    }
+
+    this.predators = [];
+    clearOrcaPacks();
+    if (this.envConfig.predatorEnabled) {
+      this.spawnPredators();
+    }
+
+    this.orderMetrics = undefined;
+    this.statistics.resetTime();
+    this.statsChart.clear();
+  }
+
+  /**
+   * Play the recorded frames due for this display frame.
+   */
+  private async updatePlayback(deltaTime: number): Promise<void> {
+    const player = this.player;
+    if (!player) return;
+
+    if (this.pendingSeek !== null) {
+      const position = this.pendingSeek;
+      this.pendingSeek = null;
+      await this.seekPlayback(player, position);
+      return;
+    }
+
+    const due = player.advance(deltaTime);
+    let simulated = 0;
+    for (let n = 0; n < due && this.player === player; n++) {
+      simulated += await this.playFrame(player);
+    }
+
+    if (due > 0) {
+      this.updateStatistics(simulated, true);
+    }
+  }
+
+  /**
+   * Apply the events before the next recorded frame and simulate it.
+   * @returns The frame's delta time
+   */
+  private async playFrame(player: SessionPlayer): Promise<number> {
+    for (const event of player.takeEvents()) {
+      this.applySessionEvent(event);
+    }
+
+    const deltaTime = player.nextFrame();
+    await this.simulateFrame(deltaTime);
+    return deltaTime;
+  }
+
+  /**
+   * Jump to a playback position. Seeking backwards replays from the start.
+   * @param position Target position (0-1)
+   */
+  private async seekPlayback(player: SessionPlayer, position: number): Promise<void> {
+    const target = Math.round(Math.max(0, Math.min(1, position)) * player.frameCount);
+
+    if (target < player.currentFrame) {
+      player.rewind();
+      this.restoreSessionStart(player.recording);
+    }
+    while (player.currentFrame < target && this.player === player) {
+      await this.playFrame(player);
+    }
+
+    this.updateStatistics(0, true);
+  }
+
+  /**
+   * Apply one recorded input.
+   */
+  private applySessionEvent(event: SessionEvent): void {
+    switch (event.type) {
+      case 'config':
+        this.applySessionConfig(event.config);
+        break;
+      case 'panel': {
+        const callback = this.panelCallbacks[event.action] as ((...args: unknown[]) => unknown) | undefined;
+        callback?.(...event.args);
+        break;
+      }
+      case 'click':
+        this.applyClick(event.x, event.y, event.repulsor, event.shift);
+        break;
+      case 'key':
+        this.applyKey(event.key);
+        break;
+      case 'resize':
+        this.resizeWorld(event.width, event.height);
+        break;
+    }
+  }
+
+  /**
+   * Copy a recorded config into the live config objects and show it in the panel.
+   */
+  private applySessionConfig(config: ISessionConfig): void {
+    assignConfig(this.simConfig, config.simulation);
+    assignConfig(this.envConfig, config.environment);
+    assignConfig(this.renderConfig, config.rendering);
+
+    this.applyingSession = true;
+    this.controlPanel.refresh();
+    this.applyingSession = false;
+  }
+
+  /**
+   * Show the recording/playback state in the control panel.
+   */
+  private updateSessionStatus(): void {
+    const player = this.player;
+    let status = 'Idle';
+
+    if (player) {
+      const state = player.isFinished ? 'Finished' : player.isPlaying ? 'Playing' : 'Paused';
+      status = `${state} ${Math.round(player.position * 100)}%`;
+    } else if (this.recorder.isRecording) {
+      status = `Recording ${Math.floor(this.recorder.recordedTime)}s`;
+    }
+
+    this.controlPanel.setSessionState(status, this.recorder.isRecording, player?.isPlaying ?? false);
+  }
+
+  /**
+   * Capture the full world state. In GPU mode birds come from the last CPU readback.
+   */
+  private captureSnapshot(): IWorldSnapshot {
+    return {
+      version: SNAPSHOT_FORMAT_VERSION,
+      savedAt: new Date().toISOString(),
+      width: this.worldWidth,
+      height: this.worldHeight,
+      config: JSON.parse(JSON.stringify(this.getSessionConfig())),
+      flock: this.flock.serialize(),
+      predators: this.predators.map(predator => predator.serialize()),
+      food: this.foodManager?.serialize() ?? null,
+      territories: this.territoryManager?.serialize() ?? null,
+      attractors: this.attractors.serialize(),
+      wind: this.wind.serialize(),
+      dayNight: this.dayNight.serialize()
+    };
+  }
+
+  /**
+   * Restore a snapshot, falling back to a fresh world if its data is invalid.
+   * Recording and playback end first: a restored world can't be replayed.
+   */
+  private loadSnapshot(snapshot: IWorldSnapshot): void {
+    this.stopPlayback();
+    this.stopRecording();
+
+    try {
+      this.restoreSnapshot(snapshot);
+      console.log(`Snapshot restored (${snapshot.flock.birds.count} birds, saved ${snapshot.savedAt})`);
+    } catch (error) {
+      console.error('Failed to restore snapshot:', error);
+      this.restartWorld();
+    }
+  }
+
+  /**
+   * Replace the world with a snapshot. Birds keep their saved positions at the
+   * current world size; birds outside a smaller window steer back in.
+   * @throws Error if the bird data is invalid
+   */
+  private restoreSnapshot(snapshot: IWorldSnapshot): void {
+    this.applySessionConfig(snapshot.config);
+    this.panelCallbacks.onConfigChange?.();
+
+    this.wind.deserialize(snapshot.wind);
+    this.dayNight.deserialize(snapshot.dayNight);
+
+    // Systems first: connecting territories re-assigns the current birds
+    this.foodManager?.clear();
+    this.foodManager = null;
+    this.flock.setFoodManager(null);
+    if (snapshot.food) {
+      this.initFoodSystem().deserialize(snapshot.food);
+    }
+
+    this.territoryManager?.clear();
+    this.territoryManager = null;
+    this.flock.setTerritoryManager(null);
+    if (snapshot.territories) {
+      this.initTerritorySystem().deserialize(snapshot.territories);
+    }
+
+    this.predators = [];
+    clearOrcaPacks();
+    for (const state of snapshot.predators) {
+      const predator = this.addPredator(state.id, state.type, state.position.x, state.position.y, state.packId ?? undefined);
+      predator.deserialize(state);
+    }
+
+    // Flock last; deserializing clears its attractors, so they are restored after
+    this.flock.deserialize(snapshot.flock);
+    this.attractors.deserialize(snapshot.attractors);
+    for (const attractor of this.attractors.getAll()) {
+      this.flock.addAttractor(attractor);
+    }
+
+    this.orderMetrics = undefined;
+    this.statistics.resetTime();
+    this.statsChart.clear();
   }
 
   /**
@@ -379,39 +1069,143 @@ export class App {
     clearOrcaPacks(); // Clear existing pack coordination
 
     const margin = 100;
-    const preset = this.config.predatorPresets[this.envConfig.predatorType];
 
     for (let i = 0; i < count; i++) {
-      const x = margin + Math.random() * (window.innerWidth - margin * 2);
-      const y = margin + Math.random() * (window.innerHeight - margin * 2);
-      const predator = createPredator(i, this.envConfig.predatorType, x, y, preset);
-      this.predators.push(predator);
+      const x = margin + this.rng.next() * (this.worldWidth - margin * 2);
+      const y = margin + this.rng.next() * (this.worldHeight - margin * 2);
+      this.addPredator(i, this.envConfig.predatorType, x, y);
     }
 
     console.log(`Spawned ${count} ${this.envConfig.predatorType} predator(s)`);
   }
 
+  /**
+   * Create a predator from its preset and add it to the world.
+   * @param packId Pack to join (pack hunters only)
+   */
+  private addPredator(id: number, type: PredatorType, x: number, y: number, packId?: string): BasePredator {
+    const predator = createPredator(id, type, x, y, this.rng, this.config.predatorPresets[type], packId);
+    predator.setLethal(this.envConfig.lethalPredation);
+    predator.setKillCallback((event) => this.handlePredatorKill(event));
+    predator.setObstacles(this.flock.getObstacles());
+    this.predators.push(predator);
+    return predator;
+  }
+
+  /**
+   * Remove prey killed by a lethal predator strike.
+   */
+  private handlePredatorKill(event: IPredatorKillEvent): void {
+    this.flock.killBird(event.birdIndex, 'predation');
+  }
+
   /**
    * Handle window resize.
    */
   private handleResize(): void {
-    const width = window.innerWidth;
-    const height = window.innerHeight;
+    this.resizeCanvas();
+    this.camera.setViewportSize(window.innerWidth, window.innerHeight);
+    this.updateWorldSize();
+  }
 
-    if (this.canvas) {
-      this.canvas.width = width;
-      this.canvas.height = height;
+  /**
+   * Get the configured world size; a side set to 0 follows the window.
+   */
+  private getConfiguredWorldSize(): { width: number; height: number } {
+    return {
+      width: this.simConfig.worldWidth || window.innerWidth,
+      height: this.simConfig.worldHeight || window.innerHeight
+    };
+  }
+
+  /**
+   * Resize the world when the configured size (or the window it follows)
+   * changed. Playback keeps the recorded world size.
+   */
+  private updateWorldSize(): void {
+    if (this.player) return;
+
+    const { width, height } = this.getConfiguredWorldSize();
+    if (width === this.worldWidth && height === this.worldHeight) return;
+    this.recordInput({ type: 'resize', width, height });
+    this.resizeWorld(width, height);
+  }
+
+  /**
+   * Size the canvas to the window, or to the output size of the capture in
+   * progress. The renderers fit the window-sized screen area into it.
+   */
+  private resizeCanvas(): void {
+    if (!this.canvas) return;
+
+    let width = window.innerWidth;
+    let height = window.innerHeight;
+    const view = this.captureView;
+    if (view && (view.width > 0 || view.height > 0)) {
+      // A missing side follows the window aspect ratio
+      const aspect = window.innerWidth / window.innerHeight;
+      width = view.width || Math.round(view.height * aspect);
+      height = view.height || Math.round(view.width / aspect);
     }
 
+    this.canvas.width = width;
+    this.canvas.height = height;
+
     if (this.useWebGPU) {
       this.flux?.resize(width, height);
-      this.envRenderer?.resize(width, height);
+      this.envRenderer?.resize(window.innerWidth, window.innerHeight);
+      this.configureCanvasAlpha(view?.transparent ?? false);
     } else {
       this.canvas2DRenderer?.resize(width, height);
     }
-    
+  }
+
+  /**
+   * Switch the canvas between the normal view and the output size and
+   * background of a capture. Oversized output is scaled down to fit the window.
+   */
+  private applyCaptureView(settings: ICaptureSettings | null): void {
+    if (settings === this.captureView || !this.canvas) return;
+    this.captureView = settings;
+
+    const style = this.canvas.style;
+    style.width = settings ? '100vw' : '';
+    style.height = settings ? '100vh' : '';
+    style.objectFit = settings ? 'contain' : '';
+
+    this.canvas2DRenderer?.setTransparentBackground(settings?.transparent ?? false);
+    this.resizeCanvas();
+  }
+
+  /**
+   * Let the WebGPU canvas composite with alpha while a capture has a
+   * transparent background. Only reconfigures when that changes, and after
+   * resizes while it is on.
+   */
+  private configureCanvasAlpha(transparent: boolean): void {
+    if (!transparent && !this.canvasTransparent) return;
+    this.canvasTransparent = transparent;
+
+    const context = this.canvas?.getContext('webgpu');
+    if (!context || !this.flux) return;
+    context.configure({
+      device: this.flux.device,
+      format: this.flux.preferredFormat,
+      alphaMode: transparent ? 'premultiplied' : 'opaque'
+    });
+  }
+
+  /**
+   * Resize the simulated world.
+   */
+  private resizeWorld(width: number, height: number): void {
+    this.worldWidth = width;
+    this.worldHeight = height;
     this.flock.resize(width, height);
     this.foodManager?.resize(width, height);
+    this.territoryManager?.resize(width, height);
+    this.dayNight.resize(width, height);
+    this.camera.setWorldSize(width, height);
   }
 
   /**
@@ -419,16 +1213,47 @@ export class App {
    * - Left click: Add attractor
    * - Shift+Left click: Spawn food (if food enabled)
    * - Right click: Add repulsor
+   * With an obstacle tool selected, left clicks place obstacles instead.
+   * While picking birds, left clicks select the bird to inspect.
    */
   private handleClick(e: MouseEvent, isRepulsor: boolean = false): void {
     if (!this.canvas) return;
+
+    // The click ending a pan
+    if (this.suppressClick && !isRepulsor) {
+      this.suppressClick = false;
+      return;
+    }
     
     const rect = this.canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    const { x, y } = this.camera.screenToWorld(e.clientX - rect.left, e.clientY - rect.top);
+
+    // Picking is view only, so it also works during playback
+    if (this.controlPanel.isPickingBirds() && !isRepulsor) {
+      this.selectBird(this.flock.findNearestBird(x, y, PICK_RADIUS / this.camera.zoom));
+      return;
+    }
 
+    // Inputs during playback would make it diverge from the recording
+    if (this.player) return;
+
+    // Placed obstacles are recorded with the config they change
+    const { tool, size } = this.controlPanel.getObstacleTool();
+    if (tool !== 'none' && !isRepulsor) {
+      this.placeObstaclePoint(tool, x, y, size);
+      return;
+    }
+
+    this.recordInput({ type: 'click', x, y, repulsor: isRepulsor, shift: e.shiftKey });
+    this.applyClick(x, y, isRepulsor, e.shiftKey);
+  }
+
+  /**
+   * Apply a click at world coordinates (also used to replay recorded clicks).
+   */
+  private applyClick(x: number, y: number, isRepulsor: boolean, shiftKey: boolean): void {
     // Shift+Click to spawn food
-    if (e.shiftKey && !isRepulsor && this.envConfig.foodEnabled) {
+    if (shiftKey && !isRepulsor && this.envConfig.foodEnabled) {
       // Initialize food system if not already
       if (!this.foodManager) {
         this.initFoodSystem();
@@ -459,18 +1284,273 @@ export class App {
     }
   }
 
+  /**
+   * Zoom the camera about the cursor.
+   */
+  private handleWheel(e: WheelEvent): void {
+    if (!this.canvas) return;
+    e.preventDefault();
+
+    // Line-based scrolling (Firefox) reports much smaller deltas
+    const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+    const rect = this.canvas.getBoundingClientRect();
+    this.camera.zoomAt(e.clientX - rect.left, e.clientY - rect.top, Math.exp(-delta * WHEEL_ZOOM_RATE));
+  }
+
+  /**
+   * Start a press that pans the camera once it moves past DRAG_THRESHOLD.
+   */
+  private handleMouseDown(e: MouseEvent): void {
+    if (e.button !== 0 && e.button !== 1) return;
+    if (e.button === 1) {
+      // Keep the browser's middle-button autoscroll out of the way
+      e.preventDefault();
+    }
+    this.drag = { x: e.clientX, y: e.clientY, panning: false };
+    this.suppressClick = false;
+  }
+
+  /**
+   * Pan the camera while the canvas is dragged. Panning stops following.
+   */
+  private handleMouseMove(e: MouseEvent): void {
+    const drag = this.drag;
+    if (!drag) return;
+
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    if (!drag.panning) {
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      drag.panning = true;
+      this.suppressClick = true;
+      this.setFollowMode('none');
+    }
+
+    this.camera.panBy(dx, dy);
+    drag.x = e.clientX;
+    drag.y = e.clientY;
+  }
+
+  /**
+   * Follow a bird or a predator (or nothing). The target is picked next frame:
+   * the inspected bird, or the one nearest the view center.
+   */
+  private setFollowMode(mode: CameraFollowMode): void {
+    this.followMode = mode;
+    this.followBirdIndex = -1;
+    this.followPredatorId = -1;
+    this.controlPanel.setCameraFollow(mode);
+  }
+
+  /**
+   * Ease the camera after the followed bird or predator.
+   */
+  private updateCamera(deltaTime: number): void {
+    const target = this.getFollowTarget();
+    if (target) {
+      this.camera.follow(target.x, target.y, deltaTime);
+    }
+  }
+
+  /**
+   * Position of the followed bird or predator, picking the inspected bird or
+   * the one nearest the view center when there is none yet (or it is gone).
+   */
+  private getFollowTarget(): IVector2 | null {
+    const center = this.camera.center;
+
+    if (this.followMode === 'bird') {
+      const birdArrays = this.flock.getBirdArrays();
+      if (this.followBirdIndex < 0 || this.followBirdIndex >= birdArrays.count) {
+        this.followBirdIndex = this.selectedBird >= 0
+          ? this.selectedBird
+          : this.flock.findNearestBird(center.x, center.y);
+      }
+      const index = this.followBirdIndex;
+      return index >= 0 ? { x: birdArrays.positionX[index], y: birdArrays.positionY[index] } : null;
+    }
+
+    if (this.followMode === 'predator' && this.envConfig.predatorEnabled) {
+      let predator = this.predators.find(p => p.id === this.followPredatorId);
+      if (!predator) {
+        let nearestDistSq = Infinity;
+        for (const candidate of this.predators) {
+          const dx = candidate.position.x - center.x;
+          const dy = candidate.position.y - center.y;
+          if (dx * dx + dy * dy < nearestDistSq) {
+            nearestDistSq = dx * dx + dy * dy;
+            predator = candidate;
+          }
+        }
+        this.followPredatorId = predator?.id ?? -1;
+      }
+      return predator ? predator.position : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Select a bird to inspect, or clear the selection with -1.
+   */
+  private selectBird(index: number): void {
+    this.selectedBird = index;
+    this.selectedBirdId = index >= 0 ? this.flock.getBirdArrays().id[index] : -1;
+    this.inspection = null;
+    this.inspectionTimer = 0;
+    if (index < 0) {
+      this.inspector.hide();
+    }
+  }
+
+  /**
+   * Track the inspected bird: refresh the panel a few times a second and
+   * keep the overlay on the bird every frame.
+   */
+  private updateInspection(deltaTime: number): void {
+    const birds = this.flock.getBirdArrays();
+    const index = this.selectedBird;
+    if (index < 0) return;
+    if (index >= birds.count || birds.id[index] !== this.selectedBirdId) {
+      this.selectBird(-1);
+      return;
+    }
+
+    this.inspectionTimer -= deltaTime;
+    if (!this.inspection || this.inspectionTimer <= 0) {
+      this.inspectionTimer = INSPECTOR_REFRESH_INTERVAL;
+      this.inspection = this.flock.inspectBird(index);
+      if (this.inspection) {
+        const following = this.followMode === 'bird' && this.followBirdIndex === index;
+        this.inspector.show(this.inspection, following);
+      }
+      return;
+    }
+
+    // Between refreshes only the overlay moves with the bird
+    this.inspection.position.x = birds.positionX[index];
+    this.inspection.position.y = birds.positionY[index];
+    this.inspection.heading = birds.heading[index];
+  }
+
+  /**
+   * Pack the force arrows of the birds the overlay shows: an even sample of
+   * the flock, or the birds around the inspected bird (or the view center).
+   */
+  private updateForceArrows(): void {
+    const recorder = this.flock.getForceRecorder();
+    const show = this.renderConfig.showForceVectors;
+    const available = recorder !== null && !this.flock.isUsingGPU;
+    this.forceLegend.setVisible(show, available ? '' : 'CPU simulation only');
+    if (!show || !recorder || !available) {
+      this.forceArrows.clear();
+      return;
+    }
+
+    const birdArrays = this.flock.getBirdArrays();
+    let birds: number[];
+    if (this.renderConfig.forceVectorBirds === 'region') {
+      const center = this.inspection?.position ?? this.camera.center;
+      birds = this.flock.findBirdsInRadius(center.x, center.y, this.renderConfig.forceVectorRadius, MAX_FORCE_BIRDS);
+    } else {
+      const samples = Math.min(this.renderConfig.forceVectorSamples, birdArrays.count);
+      birds = [];
+      for (let s = 0; s < samples; s++) {
+        birds.push(Math.floor(s * birdArrays.count / samples));
+      }
+    }
+
+    this.forceArrows.build(birdArrays, recorder, birds, this.renderConfig.forceVectorScale);
+  }
+
   /**
    * Handle keyboard input.
    */
   private handleKeyDown(e: KeyboardEvent): void {
-    switch (e.key.toLowerCase()) {
-      case ' ':
+    const key = e.key.toLowerCase();
+
+    // Space pauses playback instead of the live simulation
+    if (key === ' ') {
+      if (this.player) {
+        this.player.setPlaying(!this.player.isPlaying);
+      } else {
         this.running = !this.running;
-        break;
+      }
+      return;
+    }
+
+    // Escape clears the inspected bird (unless it cancels an obstacle)
+    if (key === 'escape' && this.selectedBird >= 0 && !this.obstacleDraft) {
+      this.selectBird(-1);
+      return;
+    }
+
+    if (this.player) return;
+
+    // Finish or cancel the polygon or wall being placed
+    if (this.obstacleDraft && (key === 'enter' || key === 'escape')) {
+      if (key === 'enter') {
+        this.commitObstacleDraft();
+      } else {
+        this.obstacleDraft = null;
+      }
+      return;
+    }
+
+    if (this.applyKey(key)) {
+      this.recordInput({ type: 'key', key });
+    }
+  }
+
+  /**
+   * Place a circle, or add a point to the polygon or wall being placed.
+   * @param size Circle radius or half the wall thickness
+   */
+  private placeObstaclePoint(shape: ObstacleShape, x: number, y: number, size: number): void {
+    const items = this.envConfig.obstacles.items;
+
+    if (shape === 'circle') {
+      this.obstacleDraft = null;
+      this.envConfig.obstacles.items = [...items, createObstacle('circle', [{ x, y }], size, items)];
+      return;
+    }
+
+    // Switching tools starts a new shape
+    if (this.obstacleDraft?.shape !== shape) {
+      this.obstacleDraft = createObstacle(shape, [], size, items);
+    }
+    this.obstacleDraft.points.push({ x, y });
+  }
+
+  /**
+   * Add the polygon or wall being placed to the obstacles.
+   */
+  private commitObstacleDraft(): void {
+    const draft = this.obstacleDraft;
+    this.obstacleDraft = null;
+    if (!draft) return;
+
+    const minPoints = draft.shape === 'polygon' ? 3 : 2;
+    if (draft.points.length < minPoints) {
+      console.warn(`A ${draft.shape} needs at least ${minPoints} points`);
+      return;
+    }
+
+    const items = this.envConfig.obstacles.items;
+    this.envConfig.obstacles.items = [...items, createObstacle(draft.shape, draft.points, draft.radius, items)];
+  }
+
+  /**
+   * Apply a key toggle (also used to replay recorded keys).
+   * @returns False if the key has no action
+   */
+  private applyKey(key: string): boolean {
+    switch (key) {
       case 'r':
         this.flock.spawnBirds(this.simConfig.birdCount);
         this.statistics.resetTime();
-        break;
+        this.statsChart.clear();
+        return true;
       case 'g':
         if (this.gpuAvailable && this.useWebGPU) {
           this.flock.setUseGPU(!this.flock.isUsingGPU);
@@ -480,159 +1560,206 @@ export class App {
             this.statistics.updateGpuStatus(true, 'Render Only (CPU Sim)');
           }
         }
-        break;
+        return true;
+      default:
+        return false;
     }
   }
 
   /**
-   * Update day/night cycle.
+   * Update day/night cycle and pass the darkness on to predators.
    */
   private updateDayNightCycle(deltaTime: number): void {
-    if (!this.envConfig.dayNight?.enabled || this.envConfig.dayNight.freezeTime) {
-      return;
-    }
+    this.dayNight.update(deltaTime);
 
-    const cycleDuration = this.envConfig.dayNight.cycleDuration || 120;
-    const timeStep = deltaTime / cycleDuration;
-    
-    // Advance time of day
-    this.envConfig.dayNight.timeOfDay += timeStep;
-    
-    // Wrap around at 1.0
-    if (this.envConfig.dayNight.timeOfDay >= 1) {
-      this.envConfig.dayNight.timeOfDay -= 1;
+    const darkness = this.dayNight.getDarkness();
+    const nightBoost = this.dayNight.getProfile().nightPredatorBoost;
+    for (const predator of this.predators) {
+      predator.setDarkness(darkness, nightBoost);
     }
+  }
 
-    // Optional: adjust background color based on time
-    // timeOfDay: 0 = midnight (dark), 0.5 = noon (bright), 1 = midnight
-    const t = this.envConfig.dayNight.timeOfDay;
-    const brightness = Math.sin(t * Math.PI); // 0 at midnight, 1 at noon
-    
-    // Interpolate between night color (0x050510) and day color (0x1a2030)
-    const nightR = 0x05, nightG = 0x05, nightB = 0x10;
-    const dayR = 0x1a, dayG = 0x20, dayB = 0x30;
-    
-    const r = Math.round(nightR + (dayR - nightR) * brightness);
-    const g = Math.round(nightG + (dayG - nightG) * brightness);
-    const b = Math.round(nightB + (dayB - nightB) * brightness);
-    
-    this.renderConfig.backgroundColor = (r << 16) | (g << 8) | b;
+  /**
+   * Point the WebGPU renderers at the GPU-resident bird buffers while the
+   * flock simulates on the GPU, or back at the CPU arrays otherwise.
+   */
+  private attachSimulationBuffers(): void {
+    const buffers = this.flock.getSimulationBuffers();
+    this.flockRenderer?.setSimulationBuffers(buffers);
+    this.trailEffect?.setSimulationBuffers(buffers);
+    this.glowEffect?.setSimulationBuffers(buffers);
   }
 
   /**
    * Main game loop.
    */
   private async update(currentTime: number): Promise<void> {
-    const deltaTime = Math.min((currentTime - this.lastTime) / 1000, 0.1);
+    const frameTime = Math.min((currentTime - this.lastTime) / 1000, 0.1);
     this.lastTime = currentTime;
 
     // Update FPS
-    this.statistics.updateFps(deltaTime);
+    this.statistics.updateFps(frameTime);
+
+    // A frame sequence advances exactly one capture frame per rendered frame,
+    // however long rendering and writing the frame takes
+    const deltaTime = this.capture.isCapturingFrames ? this.capture.frameDelta : frameTime;
+    const advancing = this.player ? this.player.isPlaying : this.running;
+
+    // Per-rule forces are only recorded while the overlay shows them
+    this.flock.setForceRecording(this.renderConfig.showForceVectors);
+
+    if (this.player) {
+      await this.updatePlayback(deltaTime);
+    } else if (this.running) {
+      this.recorder.captureConfig(this.getSessionConfig());
+      this.recorder.recordFrame(deltaTime);
+      const synced = await this.simulateFrame(deltaTime, this.capture.isCapturingFrames);
+      this.updateStatistics(deltaTime, synced);
+    }
+    this.updateSessionStatus();
+    this.controlPanel.setCaptureState(
+      this.capture.getStatus(),
+      this.capture.isCapturingFrames,
+      this.capture.isRecordingVideo
+    );
 
-    if (this.running) {
-      // Update simulation
-      this.flock.update(deltaTime);
+    // Render
+    this.updateCamera(frameTime);
+    this.updateInspection(frameTime);
+    this.updateForceArrows();
+    this.attachSimulationBuffers();
+    this.applyCaptureView(this.capture.getViewSettings());
+    this.render();
 
-      // Sync GPU data back to CPU for rendering
-      if (this.flock.isUsingGPU) {
-        await this.flock.syncFromGPU();
-      }
+    // Read back the frame before the browser presents it
+    if (this.canvas) {
+      await this.capture.captureFrame(this.canvas, advancing);
+    }
 
-      // Update wind
-      this.wind.update(deltaTime);
+    // Schedule next frame
+    requestAnimationFrame((t) => this.update(t));
+  }
 
-      // Update day/night cycle
-      this.updateDayNightCycle(deltaTime);
+  /**
+   * Advance the simulation and the systems around it by one frame.
+   * @param exact Step exactly deltaTime (frame sequences), not via the accumulator
+   * @returns True if the CPU copy of the flock was refreshed
+   */
+  private async simulateFrame(deltaTime: number, exact: boolean = false): Promise<boolean> {
+    // Update simulation
+    if (exact) {
+      this.flock.updateExact(deltaTime);
+    } else {
+      this.flock.update(deltaTime);
+    }
 
-      // Update attractors
-      this.attractors.update(deltaTime);
-      this.flock.updateAttractors(deltaTime);
+    // Refresh the CPU copy for stats, predators and food (rate-limited;
+    // rendering reads the GPU buffers directly)
+    const synced = this.flock.isUsingGPU ? await this.flock.syncFromGPU() : true;
 
-      // Update predators
-      if (this.predators.length > 0 && this.envConfig.predatorEnabled) {
-        const birdArrays = this.flock.getBirdArrays();
-        
-        for (const predator of this.predators) {
-          predator.update(
-            deltaTime,
-            birdArrays,
-            window.innerWidth,
-            window.innerHeight
-          );
-
-          // Apply panic from each predator (uses effective radius - reduced in silent mode)
-          const panicStrength = predator.isSilent() ? 0.2 : 0.5;
-          this.flock.applyPanicAtPosition(
-            predator.position.x,
-            predator.position.y,
-            predator.panicRadius, // Already adjusted by getEffectivePanicRadius()
-            panicStrength
-          );
-        }
-        
-        // Set primary predator position for flock panic response
-        const primaryPredator = this.predators[0];
-        this.flock.setPredatorPosition(
-          primaryPredator.position,
-          primaryPredator.panicRadius
-        );
-      } else {
-        // Clear predator influence
-        this.flock.setPredatorPosition(null);
-      }
+    // Update wind
+    this.wind.update(deltaTime);
 
-      // Update food
-      if (this.foodManager && this.envConfig.foodEnabled) {
-        this.foodManager.update(deltaTime, this.flock.getBirdArrays());
-      }
+    // Update day/night cycle
+    this.updateDayNightCycle(deltaTime);
 
-      // Update trail effect
-      if (this.renderConfig.trailEnabled) {
-        this.trailEffect?.update(this.flock.getBirdArrays());
-      }
+    // Update attractors
+    this.attractors.update(deltaTime);
+    this.flock.updateAttractors(deltaTime);
 
-      // Update statistics with extended data
-      const extStats = this.flock.getExtendedStats();
-      const primaryPredator = this.predators[0];
+    // Update predators
+    if (this.predators.length > 0 && this.envConfig.predatorEnabled) {
+      const birdArrays = this.flock.getBirdArrays();
       
-      // Get day/night time if enabled
-      const timeOfDay = this.envConfig.dayNight?.enabled 
-        ? this.envConfig.dayNight.timeOfDay 
-        : undefined;
+      for (const predator of this.predators) {
+        predator.setBoundaryMode(this.simConfig.boundaryMode ?? 'reflect');
+        predator.update(
+          deltaTime,
+          birdArrays,
+          this.worldWidth,
+          this.worldHeight
+        );
+      }
       
-      this.statistics.update(
-        {
-          fps: this.statistics.getFps(),
-          birdCount: this.flock.birdCount,
-          avgDensity: extStats.avgDensity,
-          avgVelocity: extStats.avgSpeed,
-          avgEnergy: extStats.avgEnergy,
-          simulationTime: 0,
-          // Predator stats (show primary predator state)
-          predatorState: primaryPredator?.state,
-          predatorType: this.envConfig.predatorEnabled ? this.envConfig.predatorType : undefined,
-          predatorEnergy: primaryPredator?.energy,
-          activePredators: this.predators.length,
-          // Food stats
-          activeFoodSources: this.foodManager?.getActiveFoodCount() ?? 0,
-          feedingBirds: extStats.feedingBirds,
-          // Gender and social stats
-          maleCount: extStats.maleCount,
-          femaleCount: extStats.femaleCount,
-          activeMatingPairs: extStats.matingPairs,
-          activeFights: extStats.fightingPairs,
-          // Time
-          timeOfDay
-        },
-        deltaTime
-      );
+      // Panic and flee forces are applied per step inside the simulation (CPU or GPU)
+      this.flock.setPredators(this.predators);
+    } else {
+      this.flock.setPredators([]);
     }
 
-    // Render
-    this.render();
+    // Update food
+    if (this.foodManager && this.envConfig.foodEnabled) {
+      this.foodManager.update(deltaTime, this.flock.getBirdArrays());
+    }
 
-    // Schedule next frame
-    requestAnimationFrame((t) => this.update(t));
+    // Update trail effect
+    if (this.renderConfig.trailEnabled) {
+      this.trailEffect?.update(this.flock.getBirdArrays());
+    }
+
+    return synced;
+  }
+
+  /**
+   * Update the statistics panel and history charts.
+   * @param synced Whether the CPU copy of the flock changed since the last update
+   */
+  private updateStatistics(deltaTime: number, synced: boolean): void {
+    // Update statistics with extended data
+    const extStats = this.flock.getExtendedStats();
+    const lifecycleStats = this.envConfig.lifecycle?.enabled || this.envConfig.lethalPredation
+      ? this.flock.getLifecycleStats()
+      : undefined;
+    const primaryPredator = this.predators[0];
+    let successfulHunts = 0;
+    let failedHunts = 0;
+    for (const predator of this.predators) {
+      successfulHunts += predator.successfulHunts;
+      failedHunts += predator.failedHunts;
+    }
+    if (synced || !this.orderMetrics) {
+      this.orderMetrics = this.flock.getOrderMetrics();
+    }
+    
+    // Get day/night time if enabled
+    const timeOfDay = this.envConfig.dayNight?.enabled 
+      ? this.envConfig.dayNight.timeOfDay 
+      : undefined;
+    
+    const stats: ISimulationStats = {
+      fps: this.statistics.getFps(),
+      birdCount: this.flock.birdCount,
+      avgDensity: extStats.avgDensity,
+      avgVelocity: extStats.avgSpeed,
+      avgEnergy: extStats.avgEnergy,
+      avgPanic: extStats.avgPanic,
+      simulationTime: 0,
+      // Predator stats (show primary predator state)
+      predatorState: primaryPredator?.state,
+      predatorType: this.envConfig.predatorEnabled ? this.envConfig.predatorType : undefined,
+      predatorEnergy: primaryPredator?.energy,
+      activePredators: this.predators.length,
+      successfulHunts,
+      failedHunts,
+      // Food stats
+      activeFoodSources: this.foodManager?.getActiveFoodCount() ?? 0,
+      feedingBirds: extStats.feedingBirds,
+      // Gender and social stats
+      maleCount: extStats.maleCount,
+      femaleCount: extStats.femaleCount,
+      activeMatingPairs: extStats.matingPairs,
+      activeFights: extStats.fightingPairs,
+      // Population lifecycle
+      totalBirths: lifecycleStats?.births,
+      totalDeaths: lifecycleStats?.deaths,
+      // Collective order
+      order: this.orderMetrics,
+      // Time
+      timeOfDay
+    };
+
+    this.statistics.update(stats, deltaTime);
+    this.statsChart.record(stats, deltaTime);
   }
 
   /**
@@ -643,6 +1770,14 @@ export class App {
     const screenWidth = window.innerWidth;
     const screenHeight = window.innerHeight;
 
+    // The minimap is only shown while part of the world is off screen
+    const showMinimap = this.renderConfig.showMinimap && !this.camera.showsWholeWorld;
+    this.minimap.setVisible(showMinimap);
+    if (showMinimap) {
+      const predators = this.envConfig.predatorEnabled ? this.predators : [];
+      this.minimap.draw(birdArrays, predators, this.worldWidth, this.worldHeight, this.camera.getVisibleRect());
+    }
+
     // Use Canvas2D fallback if WebGPU is not available
     if (!this.useWebGPU || !this.flux) {
       this.renderCanvas2D(birdArrays, screenWidth, screenHeight);
@@ -650,11 +1785,12 @@ export class App {
     }
 
     // WebGPU rendering path
-    // Convert background color to RGBA
-    const bg = this.renderConfig.backgroundColor;
+    // Convert background color (blended by time of day) to RGBA
+    const bg = this.dayNight.getBackgroundColor(this.renderConfig.backgroundColor);
     const bgR = ((bg >> 16) & 0xFF) / 255;
     const bgG = ((bg >> 8) & 0xFF) / 255;
     const bgB = (bg & 0xFF) / 255;
+    const bgA = this.captureView?.transparent ? 0 : 1;
 
     // Create render pass
     const batch = this.flux.batch('frame');
@@ -663,13 +1799,21 @@ export class App {
     const renderPass = batch.renderPass({
       colorAttachments: [{
         view,
-        clearValue: { r: bgR, g: bgG, b: bgB, a: 1 },
+        clearValue: { r: bgR * bgA, g: bgG * bgA, b: bgB * bgA, a: bgA },
         loadOp: 'clear',
         storeOp: 'store',
       }],
     });
 
     const pass = renderPass.native;
+    this.viewUniform?.update(this.camera);
+
+    // Fit the screen area into the canvas (they differ when a capture
+    // overrides the output resolution)
+    if (this.captureView && this.canvas) {
+      const fit = fitRect(screenWidth, screenHeight, this.canvas.width, this.canvas.height);
+      pass.setViewport(fit.x, fit.y, screenWidth * fit.scale, screenHeight * fit.scale, 0, 1);
+    }
 
     // Render trails (behind everything)
     if (this.renderConfig.trailEnabled && this.trailEffect) {
@@ -684,7 +1828,7 @@ export class App {
       this.glowEffect!.render(pass, birdArrays, screenWidth, screenHeight, glowColor);
     }
 
-    // Render environment (wind, food, attractors)
+    // Render environment (wind, territories, food, attractors)
     if (this.envRenderer) {
       this.envRenderer.renderWind(
         pass,
@@ -693,6 +1837,15 @@ export class App {
         this.envConfig.windEnabled
       );
 
+      if (this.territoryManager && this.shouldShowTerritories()) {
+        this.envRenderer.renderTerritories(pass, this.territoryManager.getTerritories());
+      }
+
+      if (this.envConfig.obstacles.enabled || this.obstacleDraft) {
+        const obstacles = this.envConfig.obstacles.enabled ? this.envConfig.obstacles.items : [];
+        this.envRenderer.renderObstacles(pass, obstacles, this.obstacleDraft);
+      }
+
       if (this.foodManager && this.envConfig.foodEnabled) {
         this.envRenderer.renderFood(pass, this.foodManager.getFoodSources());
       }
@@ -710,6 +1863,14 @@ export class App {
       this.flockRenderer.render(pass, birdArrays, screenWidth, screenHeight);
     }
 
+    // Force arrows and the inspected bird on top of the flock
+    if (this.forceArrows.count > 0 && this.forceVectorRenderer) {
+      this.forceVectorRenderer.render(pass, this.forceArrows, 1.5 / this.camera.zoom);
+    }
+    if (this.inspection && this.envRenderer) {
+      this.envRenderer.renderInspection(pass, this.inspection);
+    }
+
     renderPass.end();
     batch.submit();
   }
@@ -729,6 +1890,15 @@ export class App {
       this.canvas2DRenderer.updateTrails(birdArrays);
     }
 
+    this.canvas2DRenderer.setView(this.camera.getTransform());
+    this.canvas2DRenderer.setInspection(this.inspection);
+    this.canvas2DRenderer.setForceArrows(this.forceArrows.count > 0 ? this.forceArrows : null);
+
+    // Background follows time of day
+    this.canvas2DRenderer.setBackgroundColor(
+      this.dayNight.getBackgroundColor(this.renderConfig.backgroundColor)
+    );
+
     // Get food sources
     const foodSources = this.foodManager?.getFoodSources() || [];
 
@@ -737,6 +1907,11 @@ export class App {
       ? this.predators 
       : [];
 
+    // Get territories
+    const territories = this.territoryManager && this.shouldShowTerritories()
+      ? this.territoryManager.getTerritories()
+      : [];
+
     // Render everything
     this.canvas2DRenderer.render(
       birdArrays,
@@ -747,10 +1922,20 @@ export class App {
       predators,
       this.envConfig.windEnabled,
       this.wind.getDirection(),
-      this.wind.getSpeed()
+      this.wind.getSpeed(),
+      territories,
+      this.envConfig.obstacles.enabled ? this.envConfig.obstacles.items : [],
+      this.obstacleDraft
     );
   }
 
+  /**
+   * Check if territory zones should be drawn.
+   */
+  private shouldShowTerritories(): boolean {
+    return this.renderConfig.showTerritories && (this.envConfig.territories?.showZones ?? false);
+  }
+
   /**
    * Start the application.
    */
@@ -772,11 +1957,15 @@ export class App {
    */
   destroy(): void {
     this.stop();
+    this.capture.stopFrames();
+    this.capture.stopVideo();
     this.flock.destroy();
     this.flockRenderer?.destroy();
     this.envRenderer?.destroy();
     this.trailEffect?.destroy();
     this.canvas2DRenderer?.destroy();
+    this.forceVectorRenderer?.destroy();
+    this.viewUniform?.destroy();
     this.controlPanel.destroy();
     this.flux?.destroy();
   }
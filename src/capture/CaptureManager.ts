@@ -0,0 +1,316 @@
+import type { ICaptureSettings } from '../types';
+
+// Settings shown in the capture folder at startup
+export const DEFAULT_CAPTURE_SETTINGS: ICaptureSettings = {
+  fps: 30,
+  width: 0,
+  height: 0,
+  transparent: false,
+  duration: 10
+};
+
+// WebM encodings to try, best first (VP9 and VP8 keep the alpha channel)
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// Milliseconds of video per recorded chunk
+const VIDEO_CHUNK_INTERVAL = 1000;
+
+// Digits in frame sequence file names
+const FRAME_NUMBER_DIGITS = 5;
+
+/** File System Access folder picker (Chromium only, missing from the DOM typings) */
+type DirectoryPicker = (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+type CaptureMode = 'idle' | 'frames' | 'video';
+
+/**
+ * Captures the simulation canvas as PNG screenshots, fixed-timestep PNG frame
+ * sequences and WebM video.
+ *
+ * Works on the canvas itself, so it covers both the WebGPU and the Canvas2D
+ * renderer. Frames are read back right after rendering, before yielding to the
+ * browser, because a WebGPU canvas is only readable until it is presented.
+ *
+ * During a frame sequence the caller simulates exactly frameDelta per rendered
+ * frame and waits for captureFrame(), so the frames play back at the capture
+ * frame rate however slowly they render. Frames are written to a folder picked
+ * by the user where the browser supports it and downloaded one by one otherwise.
+ * Video is recorded in real time with MediaRecorder, starting with the first
+ * frame rendered at the capture size.
+ */
+export class CaptureManager {
+  private mode: CaptureMode = 'idle';
+  private settings: ICaptureSettings = { ...DEFAULT_CAPTURE_SETTINGS };
+  private screenshotPending: boolean = false;
+
+  // Frame sequence
+  private frameIndex: number = 0;
+  private frameCount: number = 0;
+  private directory: FileSystemDirectoryHandle | null = null;
+  private sequenceName: string = '';
+
+  // Video (the recorder starts with the first captured frame)
+  private recorder: MediaRecorder | null = null;
+  private videoMimeType: string = '';
+  private videoStartTime: number = 0;
+
+  /**
+   * Check if a frame sequence is being captured.
+   */
+  get isCapturingFrames(): boolean {
+    return this.mode === 'frames';
+  }
+
+  /**
+   * Check if video is being recorded.
+   */
+  get isRecordingVideo(): boolean {
+    return this.mode === 'video';
+  }
+
+  /**
+   * Simulation time per frame of a frame sequence.
+   */
+  get frameDelta(): number {
+    return 1 / this.settings.fps;
+  }
+
+  /**
+   * Settings to render the next frame with, or null for the normal view.
+   */
+  getViewSettings(): ICaptureSettings | null {
+    return this.screenshotPending || this.mode !== 'idle' ? this.settings : null;
+  }
+
+  /**
+   * Save the next rendered frame as a PNG. While a frame sequence or video is
+   * running, the screenshot uses its settings.
+   */
+  requestScreenshot(settings: ICaptureSettings): void {
+    if (this.mode === 'idle' && !this.screenshotPending) {
+      this.settings = normalizeSettings(settings);
+    }
+    this.screenshotPending = true;
+  }
+
+  /**
+   * Start a frame sequence. Asks for an output folder where supported, so it
+   * must be called from a user gesture.
+   * @returns False if another capture is running or the folder picker was cancelled
+   */
+  async startFrames(settings: ICaptureSettings): Promise<boolean> {
+    if (this.mode !== 'idle') return false;
+
+    let directory: FileSystemDirectoryHandle | null = null;
+    const win = window as Window & { showDirectoryPicker?: DirectoryPicker };
+    if (win.showDirectoryPicker) {
+      try {
+        directory = await win.showDirectoryPicker({ id: 'swarm-capture', mode: 'readwrite' });
+      } catch (error) {
+        console.warn('Frame capture cancelled:', error);
+        return false;
+      }
+    } else {
+      console.warn('Folder access unavailable, frames will be downloaded one by one');
+    }
+
+    // Another capture may have started while the picker was open
+    if (this.mode !== 'idle') return false;
+
+    this.settings = normalizeSettings(settings);
+    this.directory = directory;
+    this.frameIndex = 0;
+    this.frameCount = Math.ceil(this.settings.duration * this.settings.fps);
+    this.sequenceName = `swarm-${timestamp()}`;
+    this.mode = 'frames';
+    return true;
+  }
+
+  /**
+   * Stop the frame sequence. Frames already rendered are still written.
+   */
+  stopFrames(): void {
+    if (this.mode !== 'frames') return;
+    console.log(`Captured ${this.frameIndex} frames`);
+    this.mode = 'idle';
+    this.directory = null;
+  }
+
+  /**
+   * Start recording the canvas as WebM.
+   * @returns False if another capture is running or WebM recording is unsupported
+   */
+  startVideo(settings: ICaptureSettings): boolean {
+    if (this.mode !== 'idle') return false;
+
+    const mimeType = typeof MediaRecorder !== 'undefined'
+      ? WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+      : undefined;
+    if (!mimeType) {
+      console.warn('WebM recording is not supported in this browser');
+      return false;
+    }
+
+    this.settings = normalizeSettings(settings);
+    this.videoMimeType = mimeType;
+    this.videoStartTime = performance.now();
+    this.mode = 'video';
+    return true;
+  }
+
+  /**
+   * Stop recording and download the video.
+   */
+  stopVideo(): void {
+    if (this.mode !== 'video') return;
+    this.recorder?.stop();
+    this.recorder = null;
+    this.mode = 'idle';
+  }
+
+  /**
+   * Capture the frame just rendered: read it back for a pending screenshot or
+   * the frame sequence, and start the video recorder if it is due. Must be
+   * called before yielding to the browser after rendering.
+   * @param advanced Whether the simulation advanced this frame; paused frames
+   *   are left out of the frame sequence
+   */
+  async captureFrame(canvas: HTMLCanvasElement, advanced: boolean = true): Promise<void> {
+    if (this.mode === 'video' && !this.recorder) {
+      this.recorder = this.startRecorder(canvas);
+    }
+
+    const screenshot = this.screenshotPending;
+    const sequenceFrame = this.mode === 'frames' && advanced;
+    if (!screenshot && !sequenceFrame) return;
+
+    // Start the readback now, while the frame is still in the canvas
+    const png = canvasToPNG(canvas);
+    this.screenshotPending = false;
+
+    const directory = this.directory;
+    const fileName = `${this.sequenceName}-${String(this.frameIndex).padStart(FRAME_NUMBER_DIGITS, '0')}.png`;
+    if (sequenceFrame) {
+      this.frameIndex++;
+      if (this.frameCount > 0 && this.frameIndex >= this.frameCount) {
+        this.stopFrames();
+      }
+    }
+
+    try {
+      const blob = await png;
+      if (screenshot) {
+        downloadBlob(`swarm-${timestamp()}.png`, blob);
+      }
+      if (sequenceFrame) {
+        await writeFile(directory, fileName, blob);
+      }
+    } catch (error) {
+      console.warn('Frame capture failed:', error);
+      this.stopFrames();
+    }
+  }
+
+  /**
+   * Describe the running capture for the control panel.
+   */
+  getStatus(): string {
+    switch (this.mode) {
+      case 'frames':
+        return this.frameCount > 0
+          ? `Frame ${this.frameIndex}/${this.frameCount}`
+          : `Frame ${this.frameIndex}`;
+      case 'video':
+        return `Recording ${Math.floor((performance.now() - this.videoStartTime) / 1000)}s`;
+      default:
+        return 'Idle';
+    }
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Record the canvas until stopVideo(), then download the video.
+   */
+  private startRecorder(canvas: HTMLCanvasElement): MediaRecorder {
+    const stream = canvas.captureStream(this.settings.fps);
+    const recorder = new MediaRecorder(stream, { mimeType: this.videoMimeType });
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      downloadBlob(`swarm-${timestamp()}.webm`, new Blob(chunks, { type: 'video/webm' }));
+      console.log('Video exported');
+    };
+
+    recorder.start(VIDEO_CHUNK_INTERVAL);
+    return recorder;
+  }
+}
+
+/**
+ * Clamp settings to usable values.
+ */
+function normalizeSettings(settings: ICaptureSettings): ICaptureSettings {
+  return {
+    fps: Math.max(1, Math.round(settings.fps)),
+    width: Math.max(0, Math.round(settings.width)),
+    height: Math.max(0, Math.round(settings.height)),
+    transparent: settings.transparent,
+    duration: Math.max(0, settings.duration)
+  };
+}
+
+/**
+ * Encode the canvas as PNG. The pixels are read when this is called.
+ */
+function canvasToPNG(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Canvas could not be encoded as PNG'));
+      }
+    }, 'image/png');
+  });
+}
+
+/**
+ * Write a file into the capture folder, or download it without one.
+ */
+async function writeFile(directory: FileSystemDirectoryHandle | null, name: string, blob: Blob): Promise<void> {
+  if (!directory) {
+    downloadBlob(name, blob);
+    return;
+  }
+  const handle = await directory.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(blob);
+  await writable.close();
+}
+
+/**
+ * Save a blob as a file through a temporary download link.
+ */
+function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Large files are still being read when click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * File-name-safe timestamp.
+ */
+function timestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
@@ -0,0 +1 @@
+export { CaptureManager, DEFAULT_CAPTURE_SETTINGS } from './CaptureManager';
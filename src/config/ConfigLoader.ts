@@ -26,10 +26,22 @@ function convertColorValue(value: string | number): number {
   return value;
 }
 
+/**
+ * Convert the night background color of a day/night profile in place.
+ */
+function convertDayNightProfileColors(profile: unknown): void {
+  if (!profile || typeof profile !== 'object') return;
+  const fields = profile as Record<string, unknown>;
+  if (fields.nightBackgroundColor !== undefined) {
+    fields.nightBackgroundColor = convertColorValue(fields.nightBackgroundColor as string | number);
+  }
+}
+
 /**
  * Process raw JSON config, converting color strings to numbers.
+ * Exported for Node tools that read config.json from disk.
  */
-function processConfig(raw: Record<string, unknown>): ILoadedConfig {
+export function processConfig(raw: Record<string, unknown>): ILoadedConfig {
   const config = JSON.parse(JSON.stringify(raw)) as Record<string, unknown>;
 
   // Process rendering colors
@@ -56,6 +68,16 @@ function processConfig(raw: Record<string, unknown>): ILoadedConfig {
         rendering[field] = convertColorValue(rendering[field] as string | number);
       }
     }
+
+    if (Array.isArray(rendering.speciesColors)) {
+      rendering.speciesColors = (rendering.speciesColors as (string | number)[]).map(convertColorValue);
+    }
+  }
+
+  // Process day/night profile colors
+  if (config.environment && typeof config.environment === 'object') {
+    const dayNight = (config.environment as Record<string, unknown>).dayNight as Record<string, unknown> | undefined;
+    convertDayNightProfileColors(dayNight?.profile);
   }
 
   // Process predator preset colors
@@ -76,6 +98,9 @@ function processConfig(raw: Record<string, unknown>): ILoadedConfig {
         presets[key].birdColor = convertColorValue(presets[key].birdColor as string | number);
       }
 
+      // Process creature preset day/night profile colors (if present)
+      convertDayNightProfileColors(presets[key].dayNightProfile);
+
       // Process creature preset rendering override colors (if present)
       const presetRendering = presets[key].rendering;
       if (presetRendering && typeof presetRendering === 'object') {
@@ -117,6 +142,7 @@ export function getDefaultConfig(): ILoadedConfig {
       cohesionWeight: 1.0,
       separationWeight: 1.5,
       fieldOfView: 270,
+      boundaryMode: 'reflect',
       boundaryMargin: 150,
       boundaryForce: 1.5,
       boundaryCurvePower: 1.5,
@@ -124,6 +150,10 @@ export function getDefaultConfig(): ILoadedConfig {
       wallDampingFactor: 0.8,
       minEscapeSpeed: 0.3,
       simulationSpeed: 1.0,
+      gpuReadbackRate: 10,
+      seed: null,
+      worldWidth: 0,
+      worldHeight: 0,
       noiseStrength: 0.05,
       wanderStrength: 0.1,
       energyEnabled: false,
@@ -141,6 +171,7 @@ export function getDefaultConfig(): ILoadedConfig {
       predatorEnabled: false,
       predatorType: 'hawk',
       predatorCount: 1,
+      lethalPredation: false,
       panicRadius: 150,
       panicDecay: 0.05,
       panicSpread: 0.5,
@@ -179,14 +210,27 @@ export function getDefaultConfig(): ILoadedConfig {
         enabled: false,
         cycleDuration: 120,
         timeOfDay: 0.5,
-        freezeTime: false
+        freezeTime: false,
+        profile: {
+          roosting: true,
+          roostCount: 3,
+          roostRadius: 80,
+          roostStrength: 1.0,
+          nightSpeedFactor: 0.5,
+          nightPerception: 0.6,
+          nightPredatorBoost: 1.5,
+          fireflyNightOnly: true,
+          nightBackgroundColor: 0x050510
+        }
       },
       // Territories
       territories: {
         enabled: false,
         showZones: true,
         defaultRadius: 150,
-        pullStrength: 0.5
+        pullStrength: 0.5,
+        count: 4,
+        defenseStrength: 1.0
       },
       // Multi-species ecosystem
       ecosystem: {
@@ -194,7 +238,94 @@ export function getDefaultConfig(): ILoadedConfig {
         speciesCount: 2,
         interactionRange: 100,
         huntingForce: 1.0,
-        fleeingForce: 1.5
+        fleeingForce: 1.5,
+        species: [
+          {
+            name: 'Sparrows',
+            maxSpeed: 13,
+            maxForce: 0.6,
+            perceptionRadius: 45,
+            separationRadius: 15,
+            alignmentWeight: 1.4,
+            cohesionWeight: 1.1,
+            separationWeight: 1.2,
+            fieldOfView: 270,
+            share: 0.45
+          },
+          {
+            name: 'Shrikes',
+            maxSpeed: 16,
+            maxForce: 0.8,
+            perceptionRadius: 60,
+            separationRadius: 20,
+            alignmentWeight: 1.0,
+            cohesionWeight: 0.6,
+            separationWeight: 1.4,
+            fieldOfView: 240,
+            share: 0.15
+          },
+          {
+            name: 'Swallows',
+            maxSpeed: 15,
+            maxForce: 0.7,
+            perceptionRadius: 50,
+            separationRadius: 14,
+            alignmentWeight: 1.8,
+            cohesionWeight: 0.8,
+            separationWeight: 1.1,
+            fieldOfView: 300,
+            share: 0.25
+          },
+          {
+            name: 'Crows',
+            maxSpeed: 14,
+            maxForce: 0.6,
+            perceptionRadius: 55,
+            separationRadius: 18,
+            alignmentWeight: 1.2,
+            cohesionWeight: 1.0,
+            separationWeight: 1.3,
+            fieldOfView: 270,
+            share: 0.1
+          },
+          {
+            name: 'Falcons',
+            maxSpeed: 18,
+            maxForce: 0.9,
+            perceptionRadius: 70,
+            separationRadius: 25,
+            alignmentWeight: 0.6,
+            cohesionWeight: 0.4,
+            separationWeight: 1.5,
+            fieldOfView: 220,
+            share: 0.05
+          }
+        ],
+        // Rows hunt columns: shrikes and crows take sparrows, falcons take everything smaller
+        foodWeb: [
+          [0, 0, 0, 0, 0],
+          [1, 0, 0, 0, 0],
+          [0, 0, 0, 0, 0],
+          [0.5, 0, 0.5, 0, 0],
+          [1, 0.5, 1, 0.5, 0]
+        ]
+      },
+      // Population lifecycle
+      lifecycle: {
+        enabled: false,
+        offspringPerMating: 2,
+        birthChance: 0.5,
+        starvationRate: 0.5,
+        mortalityRate: 0,
+        maxAge: 0
+      },
+      // Static obstacles and walls
+      obstacles: {
+        enabled: true,
+        avoidanceForce: 1.5,
+        avoidanceMargin: 60,
+        lookAhead: 1.0,
+        items: []
       }
     },
     rendering: {
@@ -212,6 +343,7 @@ export function getDefaultConfig(): ILoadedConfig {
       panicColor: 0xff4444,
       maleColor: 0x4488ff,
       femaleColor: 0xff88aa,
+      speciesColors: [0x5dade2, 0xf1948a, 0xf9e79f, 0xbb8fce, 0xf0b27a, 0x76d7c4, 0xaab7b8, 0xf5cba7],
       trailEnabled: false,
       trailLength: 20,
       trailColor: 0x00ff88,
@@ -225,7 +357,17 @@ export function getDefaultConfig(): ILoadedConfig {
       showWindParticles: false,
       showPredatorRange: true,
       showFoodSources: true,
-      showTerritories: true
+      showTerritories: true,
+      // Statistics history charts
+      showCharts: false,
+      chartWindow: 60,
+      showMinimap: true,
+      // Force-vector debug overlay
+      showForceVectors: false,
+      forceVectorBirds: 'sample',
+      forceVectorSamples: 100,
+      forceVectorRadius: 150,
+      forceVectorScale: 60
     },
     creaturePresets: {
       starlings: {
@@ -239,7 +381,13 @@ export function getDefaultConfig(): ILoadedConfig {
         cohesionWeight: 1.0,
         separationWeight: 1.5,
         fieldOfView: 270,
-        particleSize: 1.0
+        particleSize: 1.0,
+        dayNightProfile: {
+          roostCount: 1,
+          roostRadius: 120,
+          roostStrength: 1.4,
+          nightSpeedFactor: 0.35
+        }
       },
       insects: {
         name: 'Insect Swarm',
@@ -252,7 +400,10 @@ export function getDefaultConfig(): ILoadedConfig {
         cohesionWeight: 1.5,
         separationWeight: 2.0,
         fieldOfView: 360,
-        particleSize: 0.5
+        particleSize: 0.5,
+        dayNightProfile: {
+          roosting: false
+        }
       },
       fish: {
         name: 'Fish School',
@@ -265,7 +416,11 @@ export function getDefaultConfig(): ILoadedConfig {
         cohesionWeight: 1.2,
         separationWeight: 1.0,
         fieldOfView: 300,
-        particleSize: 1.2
+        particleSize: 1.2,
+        dayNightProfile: {
+          roosting: false,
+          nightPerception: 0.5
+        }
       }
     },
     predatorPresets: {
@@ -346,4 +501,25 @@ export function cloneRenderingConfig(config: IRenderingConfig): IRenderingConfig
   return { ...config };
 }
 
+/**
+ * Copy config values into an existing config object. Nested objects are
+ * updated in place, so UI bindings and systems holding them stay attached.
+ */
+export function assignConfig<T extends object>(target: T, source: T): void {
+  const fields = target as Record<string, unknown>;
+  for (const [key, value] of Object.entries(source)) {
+    const current = fields[key];
+    if (isPlainObject(value) && isPlainObject(current)) {
+      assignConfig(current, value);
+    } else {
+      fields[key] = structuredClone(value);
+    }
+  }
+}
 
+/**
+ * Check for a non-array object.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -46,8 +46,10 @@ export class PresetManager {
               fireflyCouplingStrength: envConfig.fireflyCouplingStrength,
               fireflySyncRadius: envConfig.fireflySyncRadius,
               fireflyFlashDuration: envConfig.fireflyFlashDuration,
-              dayNight: envConfig.dayNight
-            }
+              dayNight: envConfig.dayNight,
+              obstacles: structuredClone(envConfig.obstacles)
+            },
+            ...(envConfig.dayNight?.profile ? { dayNightProfile: { ...envConfig.dayNight.profile } } : {})
           }
         : {}),
       ...(renderConfig
@@ -225,7 +227,8 @@ export class PresetManager {
         r.colorMode !== 'panic' &&
         r.colorMode !== 'gender' &&
         r.colorMode !== 'mating' &&
-        r.colorMode !== 'firefly'
+        r.colorMode !== 'firefly' &&
+        r.colorMode !== 'species'
       ) return false;
 
       if (r.glowEnabled !== undefined && typeof r.glowEnabled !== 'boolean') return false;
@@ -259,6 +262,41 @@ export class PresetManager {
         if (typeof dn.timeOfDay !== 'number') return false;
         if (typeof dn.freezeTime !== 'boolean') return false;
       }
+
+      if (e.obstacles !== undefined) {
+        if (typeof e.obstacles !== 'object' || e.obstacles === null) return false;
+        const o = e.obstacles as Record<string, unknown>;
+        if (typeof o.enabled !== 'boolean') return false;
+        for (const field of ['avoidanceForce', 'avoidanceMargin', 'lookAhead']) {
+          if (typeof o[field] !== 'number') return false;
+        }
+        if (!Array.isArray(o.items)) return false;
+        for (const item of o.items as unknown[]) {
+          if (typeof item !== 'object' || item === null) return false;
+          const ob = item as Record<string, unknown>;
+          if (typeof ob.id !== 'number' || typeof ob.radius !== 'number') return false;
+          if (ob.shape !== 'circle' && ob.shape !== 'polygon' && ob.shape !== 'wall') return false;
+          if (!Array.isArray(ob.points)) return false;
+          for (const point of ob.points as unknown[]) {
+            const pt = point as Record<string, unknown> | null;
+            if (typeof pt?.x !== 'number' || typeof pt.y !== 'number') return false;
+          }
+        }
+      }
+    }
+
+    if (p.dayNightProfile !== undefined) {
+      if (typeof p.dayNightProfile !== 'object' || p.dayNightProfile === null) return false;
+      const dp = p.dayNightProfile as Record<string, unknown>;
+      for (const field of ['roosting', 'fireflyNightOnly']) {
+        if (dp[field] !== undefined && typeof dp[field] !== 'boolean') return false;
+      }
+      for (const field of [
+        'roostCount', 'roostRadius', 'roostStrength', 'nightSpeedFactor',
+        'nightPerception', 'nightPredatorBoost', 'nightBackgroundColor'
+      ]) {
+        if (dp[field] !== undefined && typeof dp[field] !== 'number') return false;
+      }
     }
 
     return true;
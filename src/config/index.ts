@@ -1,11 +1,13 @@
 export {
   loadConfig,
+  processConfig,
   setConfig,
   getConfig,
   getDefaultConfig,
   cloneSimulationConfig,
   cloneEnvironmentConfig,
-  cloneRenderingConfig
+  cloneRenderingConfig,
+  assignConfig
 } from './ConfigLoader';
 
 export { PresetManager, getPresetManager } from './PresetManager';
@@ -93,6 +93,24 @@ export class AttractorManager {
     this.attractors.clear();
   }
 
+  /**
+   * Serialize all attractors.
+   */
+  serialize(): IAttractor[] {
+    return this.getAll().map(attractor => ({ ...attractor }));
+  }
+
+  /**
+   * Replace all attractors. New attractors get ids after the restored ones.
+   */
+  deserialize(attractors: IAttractor[]): void {
+    this.clear();
+    for (const attractor of attractors) {
+      this.add({ ...attractor });
+      nextAttractorId = Math.max(nextAttractorId, attractor.id + 1);
+    }
+  }
+
   /**
    * Calculate combined force from all attractors at a position.
    */
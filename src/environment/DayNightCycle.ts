@@ -0,0 +1,228 @@
+import { lerp, lerpColor, smoothstep } from '../utils/MathUtils';
+import type { Random } from '../utils/Random';
+import type { IDayNightConfig, IDayNightProfile, IDayNightSnapshot, ISteeringTarget, IVector2 } from '../types';
+import type { BirdArrays } from '../simulation/Bird';
+
+// Time-of-day phases (0 = midnight, 0.5 = noon), matching the statistics panel labels
+const DAWN_START = 0.2;
+const DAWN_END = 0.3;
+const DUSK_START = 0.7;
+const DUSK_END = 0.8;
+
+// Roosts are placed inside this fraction of the world, away from the walls
+const ROOST_INSET = 0.2;
+
+// Below this pull the roost target is dropped in favour of other steering
+const MIN_ROOST_WEIGHT = 0.01;
+
+/**
+ * Default behaviour profile for creature presets that don't declare one.
+ */
+export const DEFAULT_DAY_NIGHT_PROFILE: IDayNightProfile = {
+  roosting: true,
+  roostCount: 3,
+  roostRadius: 80,
+  roostStrength: 1.0,
+  nightSpeedFactor: 0.5,
+  nightPerception: 0.6,
+  nightPredatorBoost: 1.5,
+  fireflyNightOnly: true,
+  nightBackgroundColor: 0x050510
+};
+
+/**
+ * Day/night cycle: advances the clock and turns time of day into behaviour.
+ *
+ * Birds converge on roost points from dusk and slow down, perception shrinks
+ * in the dark, nocturnal predators gain an edge and fireflies flash only at
+ * night. All modifiers are neutral while the cycle is disabled.
+ */
+export class DayNightCycle {
+  private config: IDayNightConfig;
+  private worldWidth: number;
+  private worldHeight: number;
+  private rng: Random;
+  private roosts: IVector2[] = [];
+
+  constructor(config: IDayNightConfig, worldWidth: number, worldHeight: number, rng: Random) {
+    this.config = config;
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+    this.rng = rng;
+    this.placeRoosts();
+  }
+
+  /**
+   * Advance time of day.
+   */
+  update(dt: number): void {
+    if (!this.isEnabled() || this.config.freezeTime) return;
+
+    const cycleDuration = this.config.cycleDuration || 120;
+    this.config.timeOfDay += dt / cycleDuration;
+
+    // Wrap around at 1.0
+    if (this.config.timeOfDay >= 1) {
+      this.config.timeOfDay -= 1;
+    }
+  }
+
+  /**
+   * Check if the cycle is active.
+   */
+  isEnabled(): boolean {
+    return this.config?.enabled ?? false;
+  }
+
+  /**
+   * Get the active behaviour profile.
+   */
+  getProfile(): IDayNightProfile {
+    return this.config?.profile ?? DEFAULT_DAY_NIGHT_PROFILE;
+  }
+
+  /**
+   * Daylight level: 1 during the day, 0 at night, smooth through dawn and dusk.
+   */
+  getDaylight(): number {
+    if (!this.isEnabled()) return 1;
+
+    const t = this.config.timeOfDay;
+    return t < 0.5
+      ? smoothstep(DAWN_START, DAWN_END, t)
+      : 1 - smoothstep(DUSK_START, DUSK_END, t);
+  }
+
+  /**
+   * Darkness level (0 = day, 1 = night).
+   */
+  getDarkness(): number {
+    return 1 - this.getDaylight();
+  }
+
+  /**
+   * Perception radius multiplier.
+   */
+  getPerceptionScale(): number {
+    return lerp(1, this.getProfile().nightPerception, this.getDarkness());
+  }
+
+  /**
+   * Max speed multiplier (birds slow down while roosting).
+   */
+  getSpeedScale(): number {
+    const profile = this.getProfile();
+    return profile.roosting ? lerp(1, profile.nightSpeedFactor, this.getDarkness()) : 1;
+  }
+
+  /**
+   * Firefly glow multiplier (0 hides flashes in daylight).
+   */
+  getFireflyVisibility(): number {
+    return this.getProfile().fireflyNightOnly ? this.getDarkness() : 1;
+  }
+
+  /**
+   * Background color for the current time, fading from the day color to the night color.
+   */
+  getBackgroundColor(dayColor: number): number {
+    const darkness = this.getDarkness();
+    if (darkness <= 0) return dayColor;
+    return lerpColor(dayColor, this.getProfile().nightBackgroundColor, darkness);
+  }
+
+  /**
+   * Get roost points.
+   */
+  getRoosts(): IVector2[] {
+    return this.roosts;
+  }
+
+  /**
+   * Get the roost steering target for a bird (nearest roost).
+   * @returns False if the bird is not roosting
+   */
+  getSteeringTarget(birdIndex: number, birdArrays: BirdArrays, out: ISteeringTarget): boolean {
+    const profile = this.getProfile();
+    if (!profile.roosting || this.roosts.length === 0) return false;
+
+    const weight = profile.roostStrength * this.getDarkness();
+    if (weight < MIN_ROOST_WEIGHT) return false;
+
+    const x = birdArrays.positionX[birdIndex];
+    const y = birdArrays.positionY[birdIndex];
+    let nearest = this.roosts[0];
+    let minDistSq = Infinity;
+
+    for (const roost of this.roosts) {
+      const dx = roost.x - x;
+      const dy = roost.y - y;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < minDistSq) {
+        minDistSq = distSq;
+        nearest = roost;
+      }
+    }
+
+    out.mode = 'arrive';
+    out.x = nearest.x;
+    out.y = nearest.y;
+    out.radius = profile.roostRadius;
+    out.weight = weight;
+    return true;
+  }
+
+  /**
+   * Update configuration. A different roost count re-places the roosts.
+   */
+  updateConfig(config: IDayNightConfig): void {
+    this.config = config;
+    if (Math.floor(this.getProfile().roostCount) !== this.roosts.length) {
+      this.placeRoosts();
+    }
+  }
+
+  /**
+   * Resize world bounds and re-place the roosts.
+   */
+  resize(width: number, height: number): void {
+    this.worldWidth = width;
+    this.worldHeight = height;
+    this.placeRoosts();
+  }
+
+  /**
+   * Serialize the time of day and roost points.
+   */
+  serialize(): IDayNightSnapshot {
+    return {
+      timeOfDay: this.config.timeOfDay,
+      roosts: this.roosts.map(roost => ({ x: roost.x, y: roost.y }))
+    };
+  }
+
+  /**
+   * Restore the time of day and roost points.
+   */
+  deserialize(snapshot: IDayNightSnapshot): void {
+    this.config.timeOfDay = snapshot.timeOfDay;
+    this.roosts = snapshot.roosts.map(roost => ({ x: roost.x, y: roost.y }));
+  }
+
+  /**
+   * Scatter roost points across the inner part of the world.
+   */
+  private placeRoosts(): void {
+    const count = Math.max(0, Math.floor(this.getProfile().roostCount));
+    const insetX = this.worldWidth * ROOST_INSET;
+    const insetY = this.worldHeight * ROOST_INSET;
+
+    this.roosts = [];
+    for (let i = 0; i < count; i++) {
+      this.roosts.push({
+        x: insetX + this.rng.next() * (this.worldWidth - insetX * 2),
+        y: insetY + this.rng.next() * (this.worldHeight - insetY * 2)
+      });
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { Vector2 } from '../utils/Vector2';
-import type { IFoodSource } from '../types';
+import type { Random } from '../utils/Random';
+import type { IFoodSnapshot, IFoodSource, ISteeringTarget } from '../types';
 import type { BirdArrays } from '../simulation/Bird';
 
 /**
@@ -18,6 +19,7 @@ export class FoodSourceManager {
   private feedingDuration: number;
   private attractionRadius: number;
   private foodEnergyRestore: number;
+  private rng: Random;
 
   constructor(
     worldWidth: number,
@@ -29,7 +31,8 @@ export class FoodSourceManager {
       feedingDuration: number;
       attractionRadius: number;
       foodEnergyRestore: number;
-    }
+    },
+    rng: Random
   ) {
     this.worldWidth = worldWidth;
     this.worldHeight = worldHeight;
@@ -39,6 +42,7 @@ export class FoodSourceManager {
     this.feedingDuration = config.feedingDuration;
     this.attractionRadius = config.attractionRadius;
     this.foodEnergyRestore = config.foodEnergyRestore;
+    this.rng = rng;
   }
 
   /**
@@ -48,8 +52,8 @@ export class FoodSourceManager {
     const margin = 150;
 
     for (let i = 0; i < count; i++) {
-      const x = margin + Math.random() * (this.worldWidth - margin * 2);
-      const y = margin + Math.random() * (this.worldHeight - margin * 2);
+      const x = margin + this.rng.next() * (this.worldWidth - margin * 2);
+      const y = margin + this.rng.next() * (this.worldHeight - margin * 2);
 
       this.addFoodSource(x, y, radius);
     }
@@ -314,6 +318,63 @@ export class FoodSourceManager {
     };
   }
 
+  /**
+   * Get the steering target for a bird's current feeding state.
+   * - approaching: arrive at the food, slowing inside the gather radius
+   * - gathering: head in if a feeder slot is free, otherwise orbit at the gather radius
+   * - feeding: hold position over the food
+   * @returns False if the bird has no food to steer toward
+   */
+  getSteeringTarget(birdIndex: number, birdArrays: BirdArrays, out: ISteeringTarget): boolean {
+    out.mode = 'none';
+
+    const state = birdArrays.feedingState[birdIndex];
+    const targetId = birdArrays.targetFoodId[birdIndex];
+    if (state === 0 || targetId < 0) return false;
+
+    const food = this.foodSources.get(targetId);
+    if (!food || food.consumed) return false;
+
+    out.x = (food.position as any).x;
+    out.y = (food.position as any).y;
+
+    switch (state) {
+      case 1: // approaching
+        out.mode = 'arrive';
+        out.radius = this.gatherRadius;
+        break;
+      case 2: // gathering
+        if (food.feeders.size < this.maxFeeders) {
+          out.mode = 'arrive';
+          out.radius = food.radius * 0.5;
+        } else {
+          out.mode = 'orbit';
+          out.radius = this.gatherRadius;
+        }
+        break;
+      case 3: // feeding
+        out.mode = 'arrive';
+        out.radius = food.radius * 0.5;
+        break;
+    }
+
+    return out.mode !== 'none';
+  }
+
+  /**
+   * Keep feeder indices valid after a bird is swap-removed from BirdArrays.
+   * @param removedIndex Index of the removed bird
+   * @param movedFromIndex Old index of the bird moved into removedIndex (-1 if none)
+   */
+  remapBirdIndex(removedIndex: number, movedFromIndex: number): void {
+    for (const food of this.foodSources.values()) {
+      food.feeders.delete(removedIndex);
+      if (movedFromIndex >= 0 && food.feeders.delete(movedFromIndex)) {
+        food.feeders.add(removedIndex);
+      }
+    }
+  }
+
   /**
    * Get all food sources.
    */
@@ -358,6 +419,35 @@ export class FoodSourceManager {
     this.foodSources.clear();
   }
 
+  /**
+   * Serialize all food sources, including which birds are feeding at each.
+   */
+  serialize(): IFoodSnapshot {
+    return {
+      nextId: this.nextId,
+      sources: Array.from(this.foodSources.values(), food => ({
+        ...food,
+        position: { x: food.position.x, y: food.position.y },
+        feeders: Array.from(food.feeders)
+      }))
+    };
+  }
+
+  /**
+   * Replace all food sources.
+   */
+  deserialize(snapshot: IFoodSnapshot): void {
+    this.foodSources.clear();
+    for (const source of snapshot.sources) {
+      this.foodSources.set(source.id, {
+        ...source,
+        position: new Vector2(source.position.x, source.position.y),
+        feeders: new Set(source.feeders)
+      });
+    }
+    this.nextId = snapshot.nextId;
+  }
+
   /**
    * Update configuration.
    */
@@ -0,0 +1,474 @@
+import { clamp, smoothstep } from '../utils/MathUtils';
+import type { IObstacle, IObstacleConfig, IVector2, ObstacleLayout, ObstacleShape } from '../types';
+
+// Segment slots shared by all obstacles (a circle takes one, a wall one per
+// polyline segment, a polygon one per edge)
+export const MAX_OBSTACLE_SEGMENTS = 256;
+
+// Floats per segment: ax, ay, bx, by, radius, filled (polygon edge), last of its obstacle, pad
+export const OBSTACLE_SEGMENT_STRIDE = 8;
+
+// Distance birds are kept from obstacle surfaces
+export const OBSTACLE_CLEARANCE = 4;
+
+// Smallest circle or wall radius the placement tools create
+const MIN_OBSTACLE_RADIUS = 4;
+
+/**
+ * Signed distance to the nearest obstacle surface (negative inside) and the
+ * outward surface normal there.
+ */
+export interface IObstacleContact {
+  distance: number;
+  normalX: number;
+  normalY: number;
+}
+
+/**
+ * Static obstacles birds and predators steer around and collide with.
+ *
+ * Every obstacle is packed into capsule segments: a circle is a zero-length
+ * segment, a wall a chain of segments as thick as the wall, and a polygon its
+ * edges, with the inside found by crossing parity. The packed segments are
+ * shared with the GPU flocking and physics passes, which evaluate the same
+ * signed distance field.
+ *
+ * The field follows the obstacle config it was last synced with. Geometry is
+ * only repacked when the items array is replaced, so edits must assign a new
+ * array rather than change the existing one.
+ */
+export class ObstacleField {
+  private config: IObstacleConfig;
+  private items: IObstacle[] | null = null;
+  private data: Float32Array = new Float32Array(MAX_OBSTACLE_SEGMENTS * OBSTACLE_SEGMENT_STRIDE);
+  private count: number = 0;
+
+  // Scratch contacts for the current and look-ahead positions
+  private contact: IObstacleContact = { distance: Infinity, normalX: 0, normalY: 0 };
+  private aheadContact: IObstacleContact = { distance: Infinity, normalX: 0, normalY: 0 };
+
+  constructor(config: IObstacleConfig) {
+    this.config = config;
+    this.sync(config);
+  }
+
+  /**
+   * Follow the obstacle config, repacking the geometry if its items changed.
+   * @returns True if the packed segments changed
+   */
+  sync(config: IObstacleConfig): boolean {
+    this.config = config;
+    if (config.items === this.items) return false;
+
+    this.items = config.items;
+    this.count = packObstacleSegments(config.items, this.data);
+    return true;
+  }
+
+  /**
+   * Check if obstacles are enabled and any are placed.
+   */
+  get isActive(): boolean {
+    return this.config.enabled && this.count > 0;
+  }
+
+  /**
+   * Number of packed segments.
+   */
+  get segmentCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Packed segments (OBSTACLE_SEGMENT_STRIDE floats each) for the GPU.
+   */
+  getSegmentData(): Float32Array {
+    return this.data;
+  }
+
+  /**
+   * Signed distance from a point to the nearest obstacle surface.
+   * @param out Receives the distance and the outward normal
+   * @returns The distance (Infinity without obstacles)
+   */
+  sample(x: number, y: number, out: IObstacleContact): number {
+    const data = this.data;
+    let best = Infinity;
+    let bestNx = 0;
+    let bestNy = 0;
+
+    // Distance to the obstacle being scanned
+    let groupDist = Infinity;
+    let groupNx = 0;
+    let groupNy = 0;
+    let inside = false;
+
+    for (let s = 0; s < this.count; s++) {
+      const o = s * OBSTACLE_SEGMENT_STRIDE;
+      const ax = data[o];
+      const ay = data[o + 1];
+      const abx = data[o + 2] - ax;
+      const aby = data[o + 3] - ay;
+
+      // Closest point on the segment
+      const lenSq = abx * abx + aby * aby;
+      const t = lenSq > 0 ? clamp(((x - ax) * abx + (y - ay) * aby) / lenSq, 0, 1) : 0;
+      const dx = x - (ax + abx * t);
+      const dy = y - (ay + aby * t);
+      const len = Math.sqrt(dx * dx + dy * dy);
+
+      const dist = len - data[o + 4];
+      if (dist < groupDist) {
+        groupDist = dist;
+        groupNx = len > 1e-6 ? dx / len : 1;
+        groupNy = len > 1e-6 ? dy / len : 0;
+      }
+
+      // Polygon edges crossed by a ray towards +x
+      if (data[o + 5] > 0.5 && (ay > y) !== (ay + aby > y) && x < ax + (y - ay) * abx / aby) {
+        inside = !inside;
+      }
+
+      if (data[o + 6] > 0.5) {
+        // Inside a polygon the nearest edge lies outwards
+        if (inside) {
+          groupDist = -groupDist;
+          groupNx = -groupNx;
+          groupNy = -groupNy;
+        }
+        if (groupDist < best) {
+          best = groupDist;
+          bestNx = groupNx;
+          bestNy = groupNy;
+        }
+        groupDist = Infinity;
+        inside = false;
+      }
+    }
+
+    out.distance = best;
+    out.normalX = bestNx;
+    out.normalY = bestNy;
+    return best;
+  }
+
+  /**
+   * Steering force away from obstacles near the bird or in its path.
+   * The bird is turned along the surface rather than straight back, with a
+   * smoothstep weight that grows towards the surface.
+   * @param out Receives the steering force
+   * @returns False if no obstacle is within the margin
+   */
+  avoid(
+    x: number,
+    y: number,
+    vx: number,
+    vy: number,
+    maxSpeed: number,
+    maxForce: number,
+    out: IVector2
+  ): boolean {
+    if (!this.isActive) return false;
+
+    const speed = Math.sqrt(vx * vx + vy * vy);
+    const probe = speed > 0.1 ? this.config.lookAhead * this.config.avoidanceMargin * Math.min(1, speed / maxSpeed) : 0;
+    const contact = this.nearestAhead(x, y, vx, vy, speed, probe);
+    const strength = this.avoidanceStrength(contact.distance);
+    if (strength <= 0) return false;
+
+    // Desired heading slides along the surface and leans away from it
+    let dirX = speed > 0.1 ? vx / speed : contact.normalX;
+    let dirY = speed > 0.1 ? vy / speed : contact.normalY;
+    const into = Math.min(0, dirX * contact.normalX + dirY * contact.normalY);
+    dirX += contact.normalX * (strength - into);
+    dirY += contact.normalY * (strength - into);
+    const dirLen = Math.sqrt(dirX * dirX + dirY * dirY);
+    if (dirLen < 1e-6) return false;
+
+    // Reynolds steering, limited and weighted
+    let steerX = dirX / dirLen * maxSpeed - vx;
+    let steerY = dirY / dirLen * maxSpeed - vy;
+    const steerMag = Math.sqrt(steerX * steerX + steerY * steerY);
+    if (steerMag > maxForce) {
+      steerX = steerX / steerMag * maxForce;
+      steerY = steerY / steerMag * maxForce;
+    }
+
+    const weight = this.config.avoidanceForce * strength;
+    out.x = steerX * weight;
+    out.y = steerY * weight;
+    return true;
+  }
+
+  /**
+   * Bend a desired velocity around obstacles in its path, keeping its speed.
+   * Used by predators, whose own turn limits smooth the result.
+   * @param lookAhead Distance ahead to check for obstacles
+   */
+  steerAround(position: IVector2, desired: IVector2, lookAhead: number): void {
+    if (!this.isActive) return;
+
+    const speed = Math.sqrt(desired.x * desired.x + desired.y * desired.y);
+    if (speed < 0.01) return;
+
+    const contact = this.nearestAhead(position.x, position.y, desired.x, desired.y, speed, lookAhead);
+    const strength = this.avoidanceStrength(contact.distance);
+    if (strength <= 0) return;
+
+    let dirX = desired.x / speed;
+    let dirY = desired.y / speed;
+    const into = Math.min(0, dirX * contact.normalX + dirY * contact.normalY);
+    dirX += contact.normalX * (strength - into);
+    dirY += contact.normalY * (strength - into);
+    const dirLen = Math.sqrt(dirX * dirX + dirY * dirY);
+    if (dirLen < 1e-6) return;
+
+    desired.x = dirX / dirLen * speed;
+    desired.y = dirY / dirLen * speed;
+  }
+
+  /**
+   * Push a position out of obstacles and bounce its velocity off the surface.
+   * @param clearance Distance to keep from the surface
+   * @param restitution Share of the speed into the surface kept on bounce
+   * @param friction Damping of the speed along the surface
+   * @returns True if the position was inside the clearance
+   */
+  collide(
+    position: IVector2,
+    velocity: IVector2,
+    clearance: number,
+    restitution: number,
+    friction: number
+  ): boolean {
+    if (!this.isActive) return false;
+
+    const contact = this.contact;
+    const distance = this.sample(position.x, position.y, contact);
+    if (distance >= clearance) return false;
+
+    const nx = contact.normalX;
+    const ny = contact.normalY;
+    position.x += nx * (clearance - distance);
+    position.y += ny * (clearance - distance);
+
+    const normalSpeed = velocity.x * nx + velocity.y * ny;
+    if (normalSpeed < 0) {
+      const tangentX = velocity.x - nx * normalSpeed;
+      const tangentY = velocity.y - ny * normalSpeed;
+      velocity.x = tangentX * friction - nx * normalSpeed * restitution;
+      velocity.y = tangentY * friction - ny * normalSpeed * restitution;
+    }
+    return true;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Nearest surface at the current position or at the look-ahead probe,
+   * whichever is closer.
+   */
+  private nearestAhead(
+    x: number,
+    y: number,
+    vx: number,
+    vy: number,
+    speed: number,
+    probe: number
+  ): IObstacleContact {
+    const contact = this.contact;
+    this.sample(x, y, contact);
+    if (probe <= 0) return contact;
+
+    const ahead = this.aheadContact;
+    this.sample(x + vx / speed * probe, y + vy / speed * probe, ahead);
+    return ahead.distance < contact.distance ? ahead : contact;
+  }
+
+  /**
+   * Avoidance weight for a surface distance: 0 at the margin, 1 at the surface.
+   */
+  private avoidanceStrength(distance: number): number {
+    const margin = this.config.avoidanceMargin;
+    if (distance >= margin) return 0;
+    return distance <= 0 ? 1 : smoothstep(0, 1, 1 - distance / margin);
+  }
+}
+
+/**
+ * Pack one obstacle into capsule segments.
+ * @param first Index of the first free segment slot
+ * @returns Number of segments written (0 if the obstacle is incomplete or doesn't fit)
+ */
+export function packObstacle(obstacle: IObstacle, data: Float32Array, first: number): number {
+  const points = obstacle.points;
+  const count = segmentCount(obstacle);
+  if (count === 0 || first + count > MAX_OBSTACLE_SEGMENTS) return 0;
+
+  const filled = obstacle.shape === 'polygon' ? 1 : 0;
+  const radius = filled ? 0 : Math.max(0, obstacle.radius);
+
+  for (let s = 0; s < count; s++) {
+    const a = points[s];
+    const b = obstacle.shape === 'circle' ? a : points[(s + 1) % points.length];
+    const o = (first + s) * OBSTACLE_SEGMENT_STRIDE;
+    data[o] = a.x;
+    data[o + 1] = a.y;
+    data[o + 2] = b.x;
+    data[o + 3] = b.y;
+    data[o + 4] = radius;
+    data[o + 5] = filled;
+    data[o + 6] = s === count - 1 ? 1 : 0;
+    data[o + 7] = 0;
+  }
+  return count;
+}
+
+/**
+ * Pack obstacles into capsule segments, dropping those past MAX_OBSTACLE_SEGMENTS.
+ * @returns Number of segments written
+ */
+export function packObstacleSegments(items: readonly IObstacle[], data: Float32Array): number {
+  let count = 0;
+  let dropped = 0;
+
+  for (const obstacle of items) {
+    const needed = segmentCount(obstacle);
+    if (count + needed > MAX_OBSTACLE_SEGMENTS) {
+      dropped++;
+      continue;
+    }
+    count += packObstacle(obstacle, data, count);
+  }
+
+  if (dropped > 0) {
+    console.warn(`${dropped} obstacle(s) dropped: at most ${MAX_OBSTACLE_SEGMENTS} segments fit`);
+  }
+  return count;
+}
+
+/**
+ * Segments an obstacle packs into (0 while it has too few points).
+ */
+function segmentCount(obstacle: IObstacle): number {
+  const points = obstacle.points.length;
+  switch (obstacle.shape) {
+    case 'circle':
+      return points >= 1 ? 1 : 0;
+    case 'wall':
+      return points >= 2 ? points - 1 : 0;
+    case 'polygon':
+      return points >= 3 ? points : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Create an obstacle with an id not used by the existing ones.
+ */
+export function createObstacle(
+  shape: ObstacleShape,
+  points: IVector2[],
+  radius: number,
+  existing: readonly IObstacle[]
+): IObstacle {
+  const id = existing.reduce((max, obstacle) => Math.max(max, obstacle.id), -1) + 1;
+  return {
+    id,
+    shape,
+    points: points.map(p => ({ x: p.x, y: p.y })),
+    radius: shape === 'polygon' ? 0 : Math.max(MIN_OBSTACLE_RADIUS, radius)
+  };
+}
+
+/**
+ * Build a built-in obstacle arrangement for a world size. Layouts are
+ * deterministic, so they don't disturb the seeded random sequence.
+ */
+export function createObstacleLayout(layout: ObstacleLayout, width: number, height: number): IObstacle[] {
+  const items: IObstacle[] = [];
+  const add = (shape: ObstacleShape, points: IVector2[], radius: number) => {
+    items.push(createObstacle(shape, points, radius, items));
+  };
+
+  switch (layout) {
+    case 'buildings': {
+      // Two rows of city blocks with streets between them
+      const cols = 4;
+      const rows = 2;
+      const sizes = [1, 0.75, 1.2, 0.9];
+      for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+          const scale = sizes[(r + c) % sizes.length];
+          const w = width * 0.08 * scale;
+          const h = height * 0.14 * sizes[(r * 2 + c + 1) % sizes.length];
+          const cx = width * (c + 1) / (cols + 1);
+          const cy = height * (r + 1) / (rows + 1);
+          add('polygon', [
+            { x: cx - w / 2, y: cy - h / 2 },
+            { x: cx + w / 2, y: cy - h / 2 },
+            { x: cx + w / 2, y: cy + h / 2 },
+            { x: cx - w / 2, y: cy + h / 2 }
+          ], 0);
+        }
+      }
+      break;
+    }
+
+    case 'reef': {
+      // Irregular rocks with a coral ridge along the lower third
+      const rocks = [
+        { x: 0.2, y: 0.3, r: 0.07 },
+        { x: 0.45, y: 0.45, r: 0.09 },
+        { x: 0.75, y: 0.28, r: 0.06 },
+        { x: 0.82, y: 0.6, r: 0.05 },
+        { x: 0.3, y: 0.62, r: 0.045 }
+      ];
+      const unit = Math.min(width, height);
+      rocks.forEach((rock, i) => {
+        const sides = 7;
+        const points: IVector2[] = [];
+        for (let k = 0; k < sides; k++) {
+          const angle = (k / sides) * Math.PI * 2;
+          const radius = rock.r * unit * (0.75 + 0.25 * Math.sin(k * 2.3 + i * 1.7));
+          points.push({ x: rock.x * width + Math.cos(angle) * radius, y: rock.y * height + Math.sin(angle) * radius });
+        }
+        add('polygon', points, 0);
+      });
+
+      const ridge: IVector2[] = [];
+      for (let k = 0; k <= 8; k++) {
+        const t = k / 8;
+        ridge.push({ x: width * (0.1 + t * 0.8), y: height * (0.8 + Math.sin(t * Math.PI * 3) * 0.04) });
+      }
+      add('wall', ridge, 8);
+      break;
+    }
+
+    case 'forest': {
+      // Trunks on a jittered grid, leaving gaps to fly through
+      const cols = 9;
+      const rows = 5;
+      for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+          const i = r * cols + c;
+          const jitter = (n: number) => {
+            const h = Math.sin(i * 12.9898 + n * 78.233) * 43758.5453;
+            return h - Math.floor(h);
+          };
+          if (jitter(0) < 0.25) continue;
+          add('circle', [{
+            x: width * (c + 0.5 + (jitter(1) - 0.5) * 0.6) / cols,
+            y: height * (r + 0.5 + (jitter(2) - 0.5) * 0.6) / rows
+          }], 10 + jitter(3) * 12);
+        }
+      }
+      break;
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,388 @@
+import type { Random } from '../utils/Random';
+import type { ITerritory, ITerritoryConfig, ISteeringTarget } from '../types';
+import type { BirdArrays } from '../simulation/Bird';
+
+// Zone colors, cycled per territory
+const TERRITORY_COLORS = [
+  0x4fc3f7, 0xffb74d, 0x81c784, 0xba68c8,
+  0xe57373, 0xfff176, 0x4db6ac, 0xf06292
+];
+
+// k-means refinement passes when clustering birds into territories
+const KMEANS_ITERATIONS = 8;
+
+// Minimum aggression for a resident to defend its territory
+const DEFENSE_AGGRESSION_THRESHOLD = 0.5;
+
+// Max concurrent chases per territory (bounds the pairing cost)
+const MAX_CHASES_PER_TERRITORY = 8;
+
+// Distance at which a defender reaches its intruder
+const CONTACT_DISTANCE = 12;
+
+// Panic given to an intruder when a defender reaches it
+const CONTACT_PANIC = 0.5;
+
+/**
+ * Manages home territories, intrusion and defense.
+ *
+ * Birds are split into territories by species when several species are present,
+ * otherwise by k-means clustering of their positions. Residents with enough
+ * aggression chase intruders, and chased intruders retreat to their own home.
+ * Results are exposed as per-bird steering targets so the CPU and GPU paths
+ * apply the same forces.
+ */
+export class TerritoryManager {
+  private territories: ITerritory[] = [];
+  private config: ITerritoryConfig;
+  private worldWidth: number;
+  private worldHeight: number;
+  private rng: Random;
+  private needsAssignment: boolean = true;
+
+  // Per-bird defense pairing, rebuilt every update
+  private defenseTarget: Int32Array = new Int32Array(0);
+  private chasedBy: Int32Array = new Int32Array(0);
+
+  // Scratch lists per territory
+  private intruderLists: number[][] = [];
+  private defenderLists: number[][] = [];
+
+  constructor(config: ITerritoryConfig, worldWidth: number, worldHeight: number, rng: Random) {
+    this.config = config;
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+    this.rng = rng;
+  }
+
+  /**
+   * Assign home territories to all birds.
+   */
+  assign(birdArrays: BirdArrays): void {
+    const count = birdArrays.count;
+    this.needsAssignment = false;
+    this.territories = [];
+    if (count === 0) return;
+
+    let speciesCount = 0;
+    for (let i = 0; i < count; i++) {
+      speciesCount = Math.max(speciesCount, birdArrays.speciesId[i] + 1);
+    }
+
+    if (speciesCount > 1) {
+      this.assignBySpecies(birdArrays, speciesCount);
+    } else {
+      this.assignByClustering(birdArrays);
+    }
+  }
+
+  /**
+   * Update home assignments and intrusion/defense pairs.
+   * Call once per simulation step before reading steering targets.
+   */
+  update(birdArrays: BirdArrays): void {
+    if (this.needsAssignment) {
+      this.assign(birdArrays);
+    }
+
+    const count = birdArrays.count;
+    const territoryCount = this.territories.length;
+    if (territoryCount === 0) return;
+
+    if (this.defenseTarget.length < birdArrays.maxCount) {
+      this.defenseTarget = new Int32Array(birdArrays.maxCount);
+      this.chasedBy = new Int32Array(birdArrays.maxCount);
+    }
+    this.defenseTarget.fill(-1, 0, count);
+    this.chasedBy.fill(-1, 0, count);
+
+    for (let t = 0; t < territoryCount; t++) {
+      const territory = this.territories[t];
+      territory.residents = 0;
+      territory.intruders = 0;
+      this.intruderLists[t] = this.intruderLists[t] ?? [];
+      this.defenderLists[t] = this.defenderLists[t] ?? [];
+      this.intruderLists[t].length = 0;
+      this.defenderLists[t].length = 0;
+    }
+
+    // Classify birds as residents, defenders or intruders
+    for (let i = 0; i < count; i++) {
+      const x = birdArrays.positionX[i];
+      const y = birdArrays.positionY[i];
+
+      let home = birdArrays.territoryId[i];
+      if (home < 0 || home >= territoryCount) {
+        // Newborns and late arrivals join the nearest territory
+        home = this.findNearest(x, y);
+        birdArrays.territoryId[i] = home;
+      }
+
+      for (let t = 0; t < territoryCount; t++) {
+        if (!this.contains(this.territories[t], x, y)) continue;
+
+        if (t === home) {
+          this.territories[t].residents++;
+          if (birdArrays.aggressionLevel[i] >= DEFENSE_AGGRESSION_THRESHOLD) {
+            this.defenderLists[t].push(i);
+          }
+        } else {
+          this.territories[t].intruders++;
+          this.intruderLists[t].push(i);
+        }
+      }
+    }
+
+    // Pair intruders with the nearest free defender
+    for (let t = 0; t < territoryCount; t++) {
+      const intruders = this.intruderLists[t];
+      const defenders = this.defenderLists[t];
+      let chases = 0;
+
+      for (const intruder of intruders) {
+        if (chases >= MAX_CHASES_PER_TERRITORY) break;
+        if (this.chasedBy[intruder] >= 0) continue;
+
+        const defender = this.findNearestFreeDefender(intruder, defenders, birdArrays);
+        if (defender < 0) break;
+
+        this.defenseTarget[defender] = intruder;
+        this.chasedBy[intruder] = defender;
+        chases++;
+
+        // Contact: the intruder is startled
+        const dx = birdArrays.positionX[intruder] - birdArrays.positionX[defender];
+        const dy = birdArrays.positionY[intruder] - birdArrays.positionY[defender];
+        if (dx * dx + dy * dy < CONTACT_DISTANCE * CONTACT_DISTANCE) {
+          birdArrays.panicLevel[intruder] = Math.max(birdArrays.panicLevel[intruder], CONTACT_PANIC);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the territory steering target for a bird.
+   * Defenders chase their intruder, chased intruders retreat home,
+   * everyone else is pulled back when outside their home zone.
+   * @returns False if the bird has no territory steering
+   */
+  getSteeringTarget(birdIndex: number, birdArrays: BirdArrays, out: ISteeringTarget): boolean {
+    out.mode = 'none';
+
+    const home = this.territories[birdArrays.territoryId[birdIndex]];
+    if (!home || birdIndex >= this.defenseTarget.length) return false;
+
+    const intruder = this.defenseTarget[birdIndex];
+    if (intruder >= 0) {
+      out.mode = 'arrive';
+      out.x = birdArrays.positionX[intruder];
+      out.y = birdArrays.positionY[intruder];
+      out.radius = 0;
+      out.weight = this.config.defenseStrength * birdArrays.aggressionLevel[birdIndex];
+      return true;
+    }
+
+    out.x = home.x;
+    out.y = home.y;
+    out.radius = home.radius;
+
+    if (this.chasedBy[birdIndex] >= 0) {
+      out.mode = 'arrive';
+      out.weight = this.config.defenseStrength;
+      return true;
+    }
+
+    if (this.config.pullStrength <= 0) return false;
+
+    out.mode = 'home';
+    out.weight = this.config.pullStrength;
+    return true;
+  }
+
+  /**
+   * Get all territories.
+   */
+  getTerritories(): ITerritory[] {
+    return this.territories;
+  }
+
+  /**
+   * Update configuration. Changing the territory count triggers reassignment.
+   */
+  updateConfig(config: ITerritoryConfig): void {
+    if (config.count !== this.config.count) {
+      this.needsAssignment = true;
+    }
+    this.config = config;
+
+    for (const territory of this.territories) {
+      territory.radius = config.defaultRadius;
+    }
+  }
+
+  /**
+   * Resize world bounds.
+   */
+  resize(width: number, height: number): void {
+    this.worldWidth = width;
+    this.worldHeight = height;
+  }
+
+  /**
+   * Clear all territories.
+   */
+  clear(): void {
+    this.territories = [];
+    this.needsAssignment = true;
+  }
+
+  /**
+   * Serialize the territories (home assignments live in BirdArrays).
+   */
+  serialize(): ITerritory[] {
+    return this.territories.map(territory => ({ ...territory }));
+  }
+
+  /**
+   * Restore territories in place of a fresh assignment.
+   */
+  deserialize(territories: ITerritory[]): void {
+    this.territories = territories.map(territory => ({ ...territory }));
+    this.needsAssignment = false;
+  }
+
+  /**
+   * One territory per species, evenly spaced on a ring around the world center.
+   */
+  private assignBySpecies(birdArrays: BirdArrays, speciesCount: number): void {
+    const cx = this.worldWidth / 2;
+    const cy = this.worldHeight / 2;
+    const ringRadius = Math.min(this.worldWidth, this.worldHeight) * 0.3;
+
+    for (let s = 0; s < speciesCount; s++) {
+      const angle = (s / speciesCount) * Math.PI * 2;
+      this.territories.push(this.createTerritory(
+        s,
+        cx + Math.cos(angle) * ringRadius,
+        cy + Math.sin(angle) * ringRadius
+      ));
+    }
+
+    for (let i = 0; i < birdArrays.count; i++) {
+      birdArrays.territoryId[i] = birdArrays.speciesId[i];
+    }
+  }
+
+  /**
+   * k-means clustering of bird positions into config.count territories.
+   */
+  private assignByClustering(birdArrays: BirdArrays): void {
+    const count = birdArrays.count;
+    const k = Math.max(1, Math.min(Math.floor(this.config.count), count));
+
+    // Seed centers with distinct random birds
+    const seeds = new Set<number>();
+    while (seeds.size < k) {
+      seeds.add(Math.floor(this.rng.next() * count));
+    }
+    let id = 0;
+    for (const seed of seeds) {
+      this.territories.push(this.createTerritory(id++, birdArrays.positionX[seed], birdArrays.positionY[seed]));
+    }
+
+    const sumX = new Float64Array(k);
+    const sumY = new Float64Array(k);
+    const members = new Int32Array(k);
+
+    for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+      sumX.fill(0);
+      sumY.fill(0);
+      members.fill(0);
+
+      for (let i = 0; i < count; i++) {
+        const x = birdArrays.positionX[i];
+        const y = birdArrays.positionY[i];
+        const t = this.findNearest(x, y);
+        birdArrays.territoryId[i] = t;
+        sumX[t] += x;
+        sumY[t] += y;
+        members[t]++;
+      }
+
+      // Move centers to cluster means (empty clusters keep their center)
+      for (let t = 0; t < k; t++) {
+        if (members[t] === 0) continue;
+        this.territories[t].x = sumX[t] / members[t];
+        this.territories[t].y = sumY[t] / members[t];
+      }
+    }
+  }
+
+  /**
+   * Create a territory with default radius and palette color.
+   */
+  private createTerritory(id: number, x: number, y: number): ITerritory {
+    return {
+      id,
+      x,
+      y,
+      radius: this.config.defaultRadius,
+      color: TERRITORY_COLORS[id % TERRITORY_COLORS.length],
+      residents: 0,
+      intruders: 0
+    };
+  }
+
+  /**
+   * Index of the territory whose center is nearest to a point.
+   */
+  private findNearest(x: number, y: number): number {
+    let nearest = 0;
+    let minDistSq = Infinity;
+
+    for (let t = 0; t < this.territories.length; t++) {
+      const dx = x - this.territories[t].x;
+      const dy = y - this.territories[t].y;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < minDistSq) {
+        minDistSq = distSq;
+        nearest = t;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Nearest defender not already chasing someone.
+   */
+  private findNearestFreeDefender(intruder: number, defenders: number[], birdArrays: BirdArrays): number {
+    const ix = birdArrays.positionX[intruder];
+    const iy = birdArrays.positionY[intruder];
+    let best = -1;
+    let minDistSq = Infinity;
+
+    for (const defender of defenders) {
+      if (this.defenseTarget[defender] >= 0) continue;
+
+      const dx = birdArrays.positionX[defender] - ix;
+      const dy = birdArrays.positionY[defender] - iy;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < minDistSq) {
+        minDistSq = distSq;
+        best = defender;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Check if a point lies inside a territory.
+   */
+  private contains(territory: ITerritory, x: number, y: number): boolean {
+    const dx = x - territory.x;
+    const dy = y - territory.y;
+    return dx * dx + dy * dy < territory.radius * territory.radius;
+  }
+}
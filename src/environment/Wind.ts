@@ -1,5 +1,6 @@
-import { fbm, degToRad } from '../utils/MathUtils';
-import type { IEnvironmentConfig } from '../types';
+import { degToRad } from '../utils/MathUtils';
+import type { Random } from '../utils/Random';
+import type { IEnvironmentConfig, IWindSnapshot } from '../types';
 
 /**
  * Wind system with turbulence.
@@ -10,8 +11,10 @@ export class Wind {
   private turbulence: number = 0;
   private time: number = 0;
   private enabled: boolean = true;
+  private rng: Random;
 
-  constructor(config: IEnvironmentConfig) {
+  constructor(config: IEnvironmentConfig, rng: Random) {
+    this.rng = rng;
     this.updateConfig(config);
   }
 
@@ -32,6 +35,20 @@ export class Wind {
     this.time += dt;
   }
 
+  /**
+   * Serialize the turbulence clock.
+   */
+  serialize(): IWindSnapshot {
+    return { time: this.time };
+  }
+
+  /**
+   * Restore the turbulence clock.
+   */
+  deserialize(snapshot: IWindSnapshot): void {
+    this.time = snapshot.time;
+  }
+
   /**
    * Get wind force at a position.
    * Includes base wind + turbulence noise.
@@ -51,14 +68,14 @@ export class Wind {
       const timeScale = 0.2;
 
       // Angle variation from noise
-      const angleNoise = fbm(
+      const angleNoise = this.rng.fbm(
         x * noiseScale + this.time * timeScale,
         y * noiseScale,
         3
       ) * Math.PI * this.turbulence;
 
       // Speed variation from noise
-      const speedNoise = fbm(
+      const speedNoise = this.rng.fbm(
         x * noiseScale + 1000,
         y * noiseScale + this.time * timeScale,
         3
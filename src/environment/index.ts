@@ -1,5 +1,15 @@
 export { BasePredator, createPredator, clearOrcaPacks } from './predators';
 export { FoodSourceManager } from './FoodSource';
+export { TerritoryManager } from './Territory';
 export { Wind } from './Wind';
+export { DayNightCycle, DEFAULT_DAY_NIGHT_PROFILE } from './DayNightCycle';
 export { AttractorManager, createAttractor } from './Attractor';
 
+export {
+  ObstacleField,
+  createObstacle,
+  createObstacleLayout,
+  MAX_OBSTACLE_SEGMENTS,
+  OBSTACLE_SEGMENT_STRIDE,
+  OBSTACLE_CLEARANCE
+} from './Obstacle';
@@ -1,25 +1,33 @@
 import { Vector2 } from '../../utils/Vector2';
-import { clamp } from '../../utils/MathUtils';
+import { clamp, wrapValue } from '../../utils/MathUtils';
+import type { Random } from '../../utils/Random';
+import { WorldWrap } from '../../utils/WorldWrap';
 import type {
+  BoundaryMode,
   PredatorType,
   PredatorBehaviorState,
+  IPredatorSnapshot,
   IPredatorState,
   IPredatorStats,
   ITargetScore,
-  IVector2
+  IVector2,
+  PredatorKillCallback
 } from '../../types';
 import type { BirdArrays } from '../../simulation/Bird';
+import type { ObstacleField } from '../Obstacle';
 
 /**
  * Interface for pack coordination between predators.
  */
 export interface IPackCoordinator {
+  readonly packId: string;
   getPackMembers(): BasePredator[];
   getPackCenter(): IVector2;
   getAssignedSector(predatorId: number): number;
   isAttackSlotAvailable(): boolean;
   claimAttackSlot(predatorId: number): boolean;
   releaseAttackSlot(predatorId: number): void;
+  hasAttackSlot(predatorId: number): boolean;
 }
 
 /**
@@ -59,6 +67,18 @@ const MARINE_PHYSICS: IPredatorPhysics = {
   drag: 0.04
 };
 
+// Share of the full energy gain a predator gets from fully exhausted prey
+const MIN_PREY_ENERGY_VALUE = 0.4;
+
+// Distance ahead predators check for obstacles at full speed
+const OBSTACLE_LOOKAHEAD = 80;
+
+// Distance predators are kept from obstacle surfaces (they are larger than birds)
+const OBSTACLE_CLEARANCE = 20;
+
+// Distance past the world edge at which predators re-enter in the open boundary mode
+const OPEN_BOUNDARY_MARGIN = 150;
+
 /**
  * Base class for predator AI with state machine behavior.
  * Version: 3.0.0 - Enhanced physics with inertia, turn radius, and realistic movement.
@@ -99,6 +119,7 @@ export abstract class BasePredator implements IPredatorState {
   protected stateTimer: number = 0;
   protected recoveryTimer: number = 0;
   protected targetLockTime: number = 0; // How long we've been pursuing current target
+  protected elapsedTime: number = 0; // Simulated time (wander stays off the wall clock)
 
   // Configuration
   protected stats: IPredatorStats;
@@ -112,6 +133,26 @@ export abstract class BasePredator implements IPredatorState {
   // Pack coordination (optional, for pack hunters like orca)
   protected packCoordinator: IPackCoordinator | null = null;
 
+  // Lethal predation: successful strikes kill the prey
+  protected lethal: boolean = false;
+  protected onKill: PredatorKillCallback | null = null;
+
+  // Night-time edge for nocturnal hunters (owls): speed and strike multiplier
+  protected nocturnal: boolean = false;
+  protected nightAdvantage: number = 1;
+
+  // Static obstacles to steer around and bounce off (shared with the flock)
+  protected obstacles: ObstacleField | null = null;
+
+  // World edge behaviour, following the flock's boundary mode
+  protected boundaryMode: BoundaryMode = 'reflect';
+
+  // Periodic offsets to birds and targets, set from the mode each update
+  protected worldWrap: WorldWrap = new WorldWrap();
+
+  // Random source of the owning simulation
+  protected rng: Random;
+
   // Temporary vectors
   protected tempVec = new Vector2();
   protected tempVec2 = new Vector2();
@@ -124,12 +165,14 @@ export abstract class BasePredator implements IPredatorState {
     stats: IPredatorStats,
     maxSpeed: number,
     panicRadius: number,
-    color: number
+    color: number,
+    rng: Random
   ) {
     this.id = id;
     this.type = type;
+    this.rng = rng;
     this.position = new Vector2(x, y);
-    this.velocity = Vector2.random().mult(maxSpeed * 0.3);
+    this.velocity = Vector2.random(rng).mult(maxSpeed * 0.3);
     this.stats = stats;
     this.maxSpeed = maxSpeed;
     this.baseMaxSpeed = maxSpeed;
@@ -143,6 +186,23 @@ export abstract class BasePredator implements IPredatorState {
     this.physics = this.isMarinePredator() ? { ...MARINE_PHYSICS } : { ...AERIAL_PHYSICS };
   }
 
+  /**
+   * Distance to a point, across the edges in a wrapped world.
+   */
+  protected distanceTo(point: IVector2): number {
+    const dx = this.worldWrap.deltaX(point.x - this.position.x);
+    const dy = this.worldWrap.deltaY(point.y - this.position.y);
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  /**
+   * Write the offset from this predator to a point into out (shortest way
+   * across the edges in a wrapped world).
+   */
+  protected offsetTo(point: IVector2, out: Vector2): Vector2 {
+    return out.set(this.worldWrap.deltaX(point.x - this.position.x), this.worldWrap.deltaY(point.y - this.position.y));
+  }
+
   /**
    * Check if this is a marine predator.
    */
@@ -157,6 +217,132 @@ export abstract class BasePredator implements IPredatorState {
     this.packCoordinator = coordinator;
   }
 
+  /**
+   * Enable or disable lethal strikes.
+   */
+  setLethal(enabled: boolean): void {
+    this.lethal = enabled;
+  }
+
+  /**
+   * Set callback invoked when a lethal strike kills its prey.
+   * The callback is responsible for removing the bird from the flock.
+   */
+  setKillCallback(callback: PredatorKillCallback | null): void {
+    this.onKill = callback;
+  }
+
+  /**
+   * Set the obstacles to steer around and collide with.
+   */
+  setObstacles(obstacles: ObstacleField | null): void {
+    this.obstacles = obstacles;
+  }
+
+  /**
+   * Set how the world edges treat this predator (see ISimulationConfig.boundaryMode).
+   */
+  setBoundaryMode(mode: BoundaryMode): void {
+    this.boundaryMode = mode;
+  }
+
+  /**
+   * Set current darkness from the day/night cycle.
+   * Nocturnal predators get faster and strike more reliably as it gets dark.
+   * @param darkness 0 = full day, 1 = full night
+   * @param nightBoost Multiplier reached at full night
+   */
+  setDarkness(darkness: number, nightBoost: number): void {
+    this.nightAdvantage = this.nocturnal ? 1 + (nightBoost - 1) * darkness : 1;
+  }
+
+  /**
+   * Keep the target index valid after a bird is swap-removed from BirdArrays.
+   * @param removedIndex Index of the removed bird
+   * @param movedFromIndex Old index of the bird moved into removedIndex (-1 if none)
+   */
+  remapBirdIndex(removedIndex: number, movedFromIndex: number): void {
+    if (this.targetBirdId === removedIndex) {
+      this.targetBirdId = -1;
+    } else if (movedFromIndex >= 0 && this.targetBirdId === movedFromIndex) {
+      this.targetBirdId = removedIndex;
+    }
+  }
+
+  /**
+   * Serialize the hunting state. Configuration (stats, physics, lethality)
+   * comes from the predator type and is not included.
+   */
+  serialize(): IPredatorSnapshot {
+    return {
+      id: this.id,
+      type: this.type,
+      position: { x: this.position.x, y: this.position.y },
+      velocity: { x: this.velocity.x, y: this.velocity.y },
+      targetVelocity: { x: this.targetVelocity.x, y: this.targetVelocity.y },
+      state: this.state,
+      energy: this.energy,
+      target: this.target ? { x: this.target.x, y: this.target.y } : null,
+      targetBirdId: this.targetBirdId,
+      successfulHunts: this.successfulHunts,
+      failedHunts: this.failedHunts,
+      stateTimer: this.stateTimer,
+      recoveryTimer: this.recoveryTimer,
+      targetLockTime: this.targetLockTime,
+      elapsedTime: this.elapsedTime,
+      maxSpeed: this.maxSpeed,
+      silentMode: this.silentMode,
+      visualIntensity: this.visualIntensity,
+      speedStretch: this.speedStretch,
+      smoothedHeading: this.smoothedHeading,
+      packId: this.packCoordinator?.packId ?? null,
+      hasAttackSlot: this.packCoordinator?.hasAttackSlot(this.id) ?? false,
+      behavior: this.serializeBehavior()
+    };
+  }
+
+  /**
+   * Restore the hunting state. Create the predator with the same type and
+   * pack first so pack membership matches.
+   */
+  deserialize(snapshot: IPredatorSnapshot): void {
+    this.position.set(snapshot.position.x, snapshot.position.y);
+    this.velocity.set(snapshot.velocity.x, snapshot.velocity.y);
+    this.targetVelocity.set(snapshot.targetVelocity.x, snapshot.targetVelocity.y);
+    this.state = snapshot.state;
+    this.energy = snapshot.energy;
+    this.target = snapshot.target ? new Vector2(snapshot.target.x, snapshot.target.y) : null;
+    this.targetBirdId = snapshot.targetBirdId;
+    this.successfulHunts = snapshot.successfulHunts;
+    this.failedHunts = snapshot.failedHunts;
+    this.stateTimer = snapshot.stateTimer;
+    this.recoveryTimer = snapshot.recoveryTimer;
+    this.targetLockTime = snapshot.targetLockTime;
+    this.elapsedTime = snapshot.elapsedTime;
+    this.maxSpeed = snapshot.maxSpeed;
+    this.silentMode = snapshot.silentMode;
+    this.panicRadius = this.getEffectivePanicRadius();
+    this.visualIntensity = snapshot.visualIntensity;
+    this.speedStretch = snapshot.speedStretch;
+    this.smoothedHeading = snapshot.smoothedHeading;
+    if (snapshot.hasAttackSlot) {
+      this.packCoordinator?.claimAttackSlot(this.id);
+    }
+    this.deserializeBehavior(snapshot.behavior);
+  }
+
+  /**
+   * Species-specific hunting state for snapshots. Override in subclasses with extra state.
+   */
+  protected serializeBehavior(): Record<string, number> {
+    return {};
+  }
+
+  /**
+   * Restore species-specific hunting state from serializeBehavior().
+   */
+  protected deserializeBehavior(_behavior: Record<string, number>): void {}
+
   /**
    * Get effective panic radius (reduced in silent mode).
    */
@@ -195,6 +381,10 @@ export abstract class BasePredator implements IPredatorState {
     worldHeight: number
   ): void {
     this.stateTimer += dt;
+    this.elapsedTime += dt;
+
+    const wrap = this.boundaryMode === 'wrap';
+    this.worldWrap.set(wrap ? worldWidth : 0, wrap ? worldHeight : 0);
     
     // Track target lock time
     if (this.targetBirdId >= 0) {
@@ -262,7 +452,7 @@ export abstract class BasePredator implements IPredatorState {
 
     // Update max speed based on energy (tired predator is slower)
     const energyFactor = 0.6 + this.energy * 0.4;
-    this.maxSpeed = this.baseMaxSpeed * energyFactor;
+    this.maxSpeed = this.baseMaxSpeed * energyFactor * this.nightAdvantage;
 
     // Regenerate energy when not actively hunting
     if (this.state === 'idle' || this.state === 'scanning' || this.state === 'circling') {
@@ -349,6 +539,12 @@ export abstract class BasePredator implements IPredatorState {
       effectiveMaxSpeed *= 0.4;
     }
 
+    // Bend the desired velocity around obstacles ahead
+    if (this.obstacles) {
+      const lookAhead = OBSTACLE_LOOKAHEAD * Math.min(1, speed / Math.max(1, effectiveMaxSpeed));
+      this.obstacles.steerAround(this.position, this.targetVelocity, lookAhead);
+    }
+
     // Apply turn radius constraint at high speeds
     // At max speed, predator can't turn as sharply
     if (speed > 1 && this.targetVelocity.magSq() > 0.01) {
@@ -394,7 +590,7 @@ export abstract class BasePredator implements IPredatorState {
         this.velocity.setMag(minSpeed);
       } else {
         // Give small push in random direction
-        this.velocity.set(Math.random() - 0.5, Math.random() - 0.5).setMag(minSpeed);
+        this.velocity.set(this.rng.next() - 0.5, this.rng.next() - 0.5).setMag(minSpeed);
       }
     }
 
@@ -402,6 +598,16 @@ export abstract class BasePredator implements IPredatorState {
     this.position.x += this.velocity.x * dt;
     this.position.y += this.velocity.y * dt;
 
+    // Wrapped and open worlds have no walls: leave one edge, come back at the
+    // opposite one (open worlds a margin out of view, like the birds)
+    if (this.boundaryMode === 'wrap' || this.boundaryMode === 'open') {
+      const outside = this.boundaryMode === 'open' ? OPEN_BOUNDARY_MARGIN : 0;
+      this.position.x = wrapValue(this.position.x, -outside, worldWidth + outside);
+      this.position.y = wrapValue(this.position.y, -outside, worldHeight + outside);
+      this.obstacles?.collide(this.position, this.velocity, OBSTACLE_CLEARANCE, 0.7, 0.98);
+      return;
+    }
+
     // Soft boundary with realistic banking turn
     const margin = 120;
     const boundaryForce = 0.5;
@@ -422,8 +628,8 @@ export abstract class BasePredator implements IPredatorState {
       this.velocity.y -= boundaryForce * urgency * urgency;
     }
 
-    // Hard clamp with velocity reflection
-    const pad = 30;
+    // Hard clamp with velocity reflection (soft edges only clamp far outside the world)
+    const pad = this.boundaryMode === 'soft' ? -margin : 30;
     if (this.position.x < pad) {
       this.position.x = pad;
       this.velocity.x = Math.abs(this.velocity.x) * 0.7;
@@ -439,6 +645,9 @@ export abstract class BasePredator implements IPredatorState {
       this.position.y = worldHeight - pad;
       this.velocity.y = -Math.abs(this.velocity.y) * 0.7;
     }
+
+    // Obstacles: push out and bounce off the surface
+    this.obstacles?.collide(this.position, this.velocity, OBSTACLE_CLEARANCE, 0.7, 0.98);
   }
 
   /**
@@ -470,8 +679,8 @@ export abstract class BasePredator implements IPredatorState {
     const searchRadiusSq = searchRadius * searchRadius;
 
     for (let i = 0; i < count; i++) {
-      const dx = birdArrays.positionX[i] - this.position.x;
-      const dy = birdArrays.positionY[i] - this.position.y;
+      const dx = this.worldWrap.deltaX(birdArrays.positionX[i] - this.position.x);
+      const dy = this.worldWrap.deltaY(birdArrays.positionY[i] - this.position.y);
       const distSq = dx * dx + dy * dy;
 
       if (distSq < searchRadiusSq) {
@@ -490,7 +699,7 @@ export abstract class BasePredator implements IPredatorState {
    * Seek towards target position with realistic steering.
    */
   protected seekTarget(target: IVector2, speedMultiplier: number = 1): void {
-    this.tempVec.copy(target).sub(this.position);
+    this.offsetTo(target, this.tempVec);
     const dist = this.tempVec.mag();
 
     if (dist > 0) {
@@ -510,7 +719,7 @@ export abstract class BasePredator implements IPredatorState {
    */
   protected seekWithIntercept(target: IVector2, targetVel: IVector2, speedMultiplier: number = 1): void {
     // Predict where target will be
-    const dist = this.position.dist(target);
+    const dist = this.distanceTo(target);
     const closingSpeed = this.maxSpeed * speedMultiplier;
     const interceptTime = dist / closingSpeed * 0.5; // Look ahead
     
@@ -525,8 +734,7 @@ export abstract class BasePredator implements IPredatorState {
    */
   protected wander(strength: number = 0.5): void {
     // Perlin-like smooth wander using sin waves
-    const time = performance.now() * 0.001;
-    const wanderAngle = Math.sin(time * 0.5 + this.id * 100) * Math.PI * 0.3;
+    const wanderAngle = Math.sin(this.elapsedTime * 0.5 + this.id * 100) * Math.PI * 0.3;
     
     const currentHeading = this.velocity.heading();
     const targetHeading = currentHeading + wanderAngle * strength;
@@ -555,7 +763,7 @@ export abstract class BasePredator implements IPredatorState {
    * Burst acceleration for attacks.
    */
   protected burst(target: IVector2, burstMultiplier: number = 1): void {
-    this.tempVec.copy(target).sub(this.position);
+    this.offsetTo(target, this.tempVec);
     const dist = this.tempVec.mag();
     
     if (dist > 0) {
@@ -576,7 +784,7 @@ export abstract class BasePredator implements IPredatorState {
     this.wander(0.3);
 
     // Periodically scan for targets
-    if (this.stateTimer > 2 + Math.random() * 3) {
+    if (this.stateTimer > 2 + this.rng.next() * 3) {
       this.enterState('scanning');
     }
   }
@@ -609,7 +817,7 @@ export abstract class BasePredator implements IPredatorState {
     // Approach at moderate speed
     this.seekTarget(this.target!, 0.6);
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     // Transition to hunting when close enough
     if (dist < this.panicRadius * 0.8) {
@@ -635,7 +843,7 @@ export abstract class BasePredator implements IPredatorState {
     // Chase at full speed
     this.seekTarget(this.target!, 1.0);
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     // Close enough to attack
     if (dist < 30) {
@@ -656,11 +864,10 @@ export abstract class BasePredator implements IPredatorState {
       this.energy = Math.max(0, this.energy - this.stats.attackCost);
 
       // Calculate contextual success chance
-      const successChance = this.calculateAttackSuccess(birdArrays);
+      const successChance = this.applyNightAdvantage(this.calculateAttackSuccess(birdArrays));
       
-      if (Math.random() < successChance) {
-        this.successfulHunts++;
-        this.energy = Math.min(this.stats.maxEnergy, this.energy + 0.3);
+      if (this.rng.next() < successChance) {
+        this.registerSuccessfulHunt(birdArrays, 0.3);
       } else {
         this.failedHunts++;
       }
@@ -672,6 +879,33 @@ export abstract class BasePredator implements IPredatorState {
     }
   }
 
+  /**
+   * Record a successful strike on the current target.
+   * In lethal mode the energy gain scales with the prey's energy and a kill event is emitted.
+   */
+  protected registerSuccessfulHunt(birdArrays: BirdArrays, energyGain: number): void {
+    this.successfulHunts++;
+
+    const prey = this.targetBirdId;
+    if (!this.lethal || prey < 0 || prey >= birdArrays.count) {
+      this.energy = Math.min(this.stats.maxEnergy, this.energy + energyGain);
+      return;
+    }
+
+    const preyEnergy = birdArrays.energy[prey];
+    const preyValue = MIN_PREY_ENERGY_VALUE + (1 - MIN_PREY_ENERGY_VALUE) * preyEnergy;
+    this.energy = Math.min(this.stats.maxEnergy, this.energy + energyGain * preyValue);
+
+    this.onKill?.({
+      predatorId: this.id,
+      predatorType: this.type,
+      x: birdArrays.positionX[prey],
+      y: birdArrays.positionY[prey],
+      birdIndex: prey,
+      preyEnergy
+    });
+  }
+
   /**
    * Calculate contextual attack success rate based on predator and prey state.
    */
@@ -700,6 +934,13 @@ export abstract class BasePredator implements IPredatorState {
     return clamp(finalChance, 0.2, 0.95);
   }
 
+  /**
+   * Scale an attack success chance by the night-time advantage.
+   */
+  protected applyNightAdvantage(chance: number): number {
+    return Math.min(0.95, chance * this.nightAdvantage);
+  }
+
   protected updateDiving(dt: number, birdArrays: BirdArrays): void {
     // Override in falcon/hawk for dive attacks
     this.updateHunting(dt, birdArrays);
@@ -725,8 +966,8 @@ export abstract class BasePredator implements IPredatorState {
     this.target!.y = birdArrays.positionY[this.targetBirdId];
 
     // Move perpendicular/away from target (gaining altitude simulation)
-    const dx = this.position.x - this.target!.x;
-    const dy = this.position.y - this.target!.y;
+    const dx = this.worldWrap.deltaX(this.position.x - this.target!.x);
+    const dy = this.worldWrap.deltaY(this.position.y - this.target!.y);
     const dist = Math.sqrt(dx * dx + dy * dy);
 
     if (dist > 0) {
@@ -762,8 +1003,8 @@ export abstract class BasePredator implements IPredatorState {
     const orbitRadius = this.panicRadius * 0.7;
     const orbitSpeed = 0.5; // radians per second
     const angle = Math.atan2(
-      this.position.y - this.target!.y,
-      this.position.x - this.target!.x
+      this.worldWrap.deltaY(this.position.y - this.target!.y),
+      this.worldWrap.deltaX(this.position.x - this.target!.x)
     ) + orbitSpeed * dt;
 
     const targetX = this.target!.x + Math.cos(angle) * orbitRadius;
@@ -845,8 +1086,8 @@ export abstract class BasePredator implements IPredatorState {
     const searchRadiusSq = searchRadius * searchRadius;
 
     for (let i = 0; i < birdArrays.count; i++) {
-      const dx = birdArrays.positionX[i] - this.position.x;
-      const dy = birdArrays.positionY[i] - this.position.y;
+      const dx = this.worldWrap.deltaX(birdArrays.positionX[i] - this.position.x);
+      const dy = this.worldWrap.deltaY(birdArrays.positionY[i] - this.position.y);
       const distSq = dx * dx + dy * dy;
 
       if (distSq < searchRadiusSq) {
@@ -873,8 +1114,8 @@ export abstract class BasePredator implements IPredatorState {
 
     for (let i = 0; i < birdArrays.count; i++) {
       if (i === birdIndex) continue;
-      const dx = birdArrays.positionX[i] - bx;
-      const dy = birdArrays.positionY[i] - by;
+      const dx = this.worldWrap.deltaX(birdArrays.positionX[i] - bx);
+      const dy = this.worldWrap.deltaY(birdArrays.positionY[i] - by);
       if (dx * dx + dy * dy < radiusSq) {
         count++;
       }
@@ -1,5 +1,6 @@
 import { BasePredator, IPackCoordinator } from './BasePredator';
 import { Vector2 } from '../../utils/Vector2';
+import type { Random } from '../../utils/Random';
 import type {
   PredatorType,
   IPredatorStats,
@@ -109,9 +110,9 @@ class HawkPredator extends BasePredator {
 
   constructor(
     id: number, type: PredatorType, x: number, y: number,
-    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number
+    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number, rng: Random
   ) {
-    super(id, type, x, y, stats, maxSpeed, panicRadius, color);
+    super(id, type, x, y, stats, maxSpeed, panicRadius, color, rng);
     this.baseAttackSuccessRate = 0.65;
     
     // Hawk physics: balanced, good acceleration and agility
@@ -121,10 +122,23 @@ class HawkPredator extends BasePredator {
     this.physics.glideFactor = 0.96;
   }
 
+  protected serializeBehavior(): Record<string, number> {
+    return {
+      patrolAngle: this.patrolAngle,
+      flockCenterX: this.flockCenter.x,
+      flockCenterY: this.flockCenter.y
+    };
+  }
+
+  protected deserializeBehavior(behavior: Record<string, number>): void {
+    this.patrolAngle = behavior.patrolAngle ?? 0;
+    this.flockCenter = { x: behavior.flockCenterX ?? 0, y: behavior.flockCenterY ?? 0 };
+  }
+
   protected scoreBird(birdIndex: number, birdArrays: BirdArrays): ITargetScore {
     const bx = birdArrays.positionX[birdIndex];
     const by = birdArrays.positionY[birdIndex];
-    const dist = this.position.dist({ x: bx, y: by });
+    const dist = this.distanceTo({ x: bx, y: by });
 
     // Count actual neighbors for isolation score
     const neighborCount = this.getBirdNeighborCount(birdIndex, birdArrays, 40);
@@ -182,7 +196,7 @@ class HawkPredator extends BasePredator {
     this.seekTarget({ x: targetX, y: targetY }, 0.5);
     this.wander(0.2);
 
-    if (this.stateTimer > 2 + Math.random() * 2) {
+    if (this.stateTimer > 2 + this.rng.next() * 2) {
       this.enterState('scanning');
     }
   }
@@ -201,7 +215,7 @@ class HawkPredator extends BasePredator {
     }
 
     // Swoop attack - increase speed as we close in
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
     const speedMult = 1.0 + (1 - dist / this.panicRadius) * 0.3;
     this.seekTarget(this.target!, speedMult);
 
@@ -227,9 +241,9 @@ class FalconPredator extends BasePredator {
 
   constructor(
     id: number, type: PredatorType, x: number, y: number,
-    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number
+    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number, rng: Random
   ) {
-    super(id, type, x, y, stats, maxSpeed, panicRadius, color);
+    super(id, type, x, y, stats, maxSpeed, panicRadius, color, rng);
     this.baseAttackSuccessRate = 0.75; // High success when stoop is executed
     
     // Falcon-specific physics: very fast, less agile at high speed
@@ -239,10 +253,23 @@ class FalconPredator extends BasePredator {
     this.physics.drag = 0.015; // Streamlined for speed
   }
 
+  protected serializeBehavior(): Record<string, number> {
+    return {
+      diveSpeed: this.diveSpeed,
+      stoopStartX: this.stoopStartPos.x,
+      stoopStartY: this.stoopStartPos.y
+    };
+  }
+
+  protected deserializeBehavior(behavior: Record<string, number>): void {
+    this.diveSpeed = behavior.diveSpeed ?? 0;
+    this.stoopStartPos.set(behavior.stoopStartX ?? 0, behavior.stoopStartY ?? 0);
+  }
+
   protected scoreBird(birdIndex: number, birdArrays: BirdArrays): ITargetScore {
     const bx = birdArrays.positionX[birdIndex];
     const by = birdArrays.positionY[birdIndex];
-    const dist = this.position.dist({ x: bx, y: by });
+    const dist = this.distanceTo({ x: bx, y: by });
 
     const density = birdArrays.localDensity[birdIndex];
     const isolationScore = 1 - density;
@@ -252,12 +279,12 @@ class FalconPredator extends BasePredator {
     const vy = birdArrays.velocityY[birdIndex];
     const futureX = bx + vx * 0.8;
     const futureY = by + vy * 0.8;
-    const futureDist = this.position.dist({ x: futureX, y: futureY });
+    const futureDist = this.distanceTo({ x: futureX, y: futureY });
     const interceptScore = 1 - Math.min(futureDist / (this.panicRadius * 2), 1);
 
     // Prefer targets moving away (good for stoop angle)
-    const toTargetX = bx - this.position.x;
-    const toTargetY = by - this.position.y;
+    const toTargetX = this.worldWrap.deltaX(bx - this.position.x);
+    const toTargetY = this.worldWrap.deltaY(by - this.position.y);
     const targetSpeed = Math.sqrt(vx * vx + vy * vy);
     let movingAwayScore = 0.5;
     if (targetSpeed > 0.1) {
@@ -311,8 +338,8 @@ class FalconPredator extends BasePredator {
     this.target!.y = birdArrays.positionY[this.targetBirdId];
 
     // Move away and upward (perpendicular to target direction)
-    const dx = this.position.x - this.target!.x;
-    const dy = this.position.y - this.target!.y;
+    const dx = this.worldWrap.deltaX(this.position.x - this.target!.x);
+    const dy = this.worldWrap.deltaY(this.position.y - this.target!.y);
     const dist = Math.sqrt(dx * dx + dy * dy);
 
     if (dist > 0) {
@@ -364,7 +391,7 @@ class FalconPredator extends BasePredator {
     // Use burst for explosive attack - falcon commits fully to the dive
     this.burst(this.target!, this.diveSpeed / (this.maxSpeed * this.stats.burstMultiplier));
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     if (dist < 30) {
       this.diveSpeed = 0;
@@ -405,9 +432,9 @@ class EaglePredator extends BasePredator {
 
   constructor(
     id: number, type: PredatorType, x: number, y: number,
-    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number
+    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number, rng: Random
   ) {
-    super(id, type, x, y, stats, maxSpeed, panicRadius, color);
+    super(id, type, x, y, stats, maxSpeed, panicRadius, color, rng);
     this.baseAttackSuccessRate = 0.55; // Lower base, but high on exhausted targets
     
     // Eagle physics: heavy, powerful, excellent endurance soaring
@@ -418,10 +445,31 @@ class EaglePredator extends BasePredator {
     this.physics.drag = 0.015;
   }
 
+  remapBirdIndex(removedIndex: number, movedFromIndex: number): void {
+    super.remapBirdIndex(removedIndex, movedFromIndex);
+    if (this.previousTargetId === removedIndex) {
+      this.previousTargetId = -1;
+    } else if (movedFromIndex >= 0 && this.previousTargetId === movedFromIndex) {
+      this.previousTargetId = removedIndex;
+    }
+  }
+
+  protected serializeBehavior(): Record<string, number> {
+    return {
+      previousTargetId: this.previousTargetId,
+      targetSwitchPenalty: this.targetSwitchPenalty
+    };
+  }
+
+  protected deserializeBehavior(behavior: Record<string, number>): void {
+    this.previousTargetId = behavior.previousTargetId ?? -1;
+    this.targetSwitchPenalty = behavior.targetSwitchPenalty ?? 0;
+  }
+
   protected scoreBird(birdIndex: number, birdArrays: BirdArrays): ITargetScore {
     const bx = birdArrays.positionX[birdIndex];
     const by = birdArrays.positionY[birdIndex];
-    const dist = this.position.dist({ x: bx, y: by });
+    const dist = this.distanceTo({ x: bx, y: by });
 
     // Eagle heavily prioritizes low-energy (tired) birds
     const energy = birdArrays.energy[birdIndex];
@@ -497,7 +545,7 @@ class EaglePredator extends BasePredator {
     const targetEnergy = birdArrays.energy[this.targetBirdId];
     
     // Follow at moderate distance
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
     
     if (dist > this.panicRadius * 0.8) {
       this.seekTarget(this.target!, 0.65);
@@ -530,7 +578,7 @@ class EaglePredator extends BasePredator {
     // Sustained pursuit at moderate speed
     this.seekTarget(this.target!, 0.85);
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     if (dist < 30) {
       this.enterState('attacking');
@@ -569,10 +617,11 @@ class OwlPredator extends BasePredator {
 
   constructor(
     id: number, type: PredatorType, x: number, y: number,
-    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number
+    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number, rng: Random
   ) {
-    super(id, type, x, y, stats, maxSpeed, panicRadius, color);
+    super(id, type, x, y, stats, maxSpeed, panicRadius, color, rng);
     this.baseAttackSuccessRate = 0.80; // Very high success on ambush
+    this.nocturnal = true; // Hunts best after dark
     
     // Owl physics: slow but highly maneuverable, silent flight
     this.physics.acceleration = 18;
@@ -582,10 +631,18 @@ class OwlPredator extends BasePredator {
     this.physics.glideFactor = 0.98; // Excellent glide
   }
 
+  protected serializeBehavior(): Record<string, number> {
+    return { waitTime: this.waitTime };
+  }
+
+  protected deserializeBehavior(behavior: Record<string, number>): void {
+    this.waitTime = behavior.waitTime ?? 0;
+  }
+
   protected scoreBird(birdIndex: number, birdArrays: BirdArrays): ITargetScore {
     const bx = birdArrays.positionX[birdIndex];
     const by = birdArrays.positionY[birdIndex];
-    const dist = this.position.dist({ x: bx, y: by });
+    const dist = this.distanceTo({ x: bx, y: by });
 
     // Owl strongly prefers unaware (non-panicked) targets
     const panicLevel = birdArrays.panicLevel[birdIndex];
@@ -597,7 +654,7 @@ class OwlPredator extends BasePredator {
     // Check if target is moving toward us (even better)
     const vx = birdArrays.velocityX[birdIndex];
     const vy = birdArrays.velocityY[birdIndex];
-    const toUs = { x: this.position.x - bx, y: this.position.y - by };
+    const toUs = { x: this.worldWrap.deltaX(this.position.x - bx), y: this.worldWrap.deltaY(this.position.y - by) };
     const speed = Math.sqrt(vx * vx + vy * vy);
     let approachingScore = 0.5;
     if (speed > 0.1 && dist > 0) {
@@ -672,7 +729,7 @@ class OwlPredator extends BasePredator {
     this.target!.x = birdArrays.positionX[this.targetBirdId];
     this.target!.y = birdArrays.positionY[this.targetBirdId];
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     // Strike when target is very close!
     if (dist < 45) {
@@ -696,13 +753,13 @@ class OwlPredator extends BasePredator {
 
     // BURST speed attack!
     const burstSpeed = this.maxSpeed * this.stats.burstMultiplier;
-    this.tempVec.copy(this.target!).sub(this.position);
+    this.offsetTo(this.target!, this.tempVec);
     if (this.tempVec.mag() > 0) {
       this.tempVec.setMag(burstSpeed);
       this.velocity.lerp(this.tempVec, 0.25);
     }
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     if (dist < 25) {
       this.enterState('attacking');
@@ -740,9 +797,9 @@ class SharkPredator extends BasePredator {
 
   constructor(
     id: number, type: PredatorType, x: number, y: number,
-    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number
+    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number, rng: Random
   ) {
-    super(id, type, x, y, stats, maxSpeed, panicRadius, color);
+    super(id, type, x, y, stats, maxSpeed, panicRadius, color, rng);
     this.baseAttackSuccessRate = 0.60;
     this.baseCircleRadius = panicRadius * 1.2;
     this.circleRadius = this.baseCircleRadius;
@@ -755,10 +812,24 @@ class SharkPredator extends BasePredator {
     this.physics.deceleration = 4; // Slow to stop
   }
 
+  protected serializeBehavior(): Record<string, number> {
+    return {
+      circleAngle: this.circleAngle,
+      circleRadius: this.circleRadius,
+      bumpCount: this.bumpCount
+    };
+  }
+
+  protected deserializeBehavior(behavior: Record<string, number>): void {
+    this.circleAngle = behavior.circleAngle ?? 0;
+    this.circleRadius = behavior.circleRadius ?? this.baseCircleRadius;
+    this.bumpCount = behavior.bumpCount ?? 0;
+  }
+
   protected scoreBird(birdIndex: number, birdArrays: BirdArrays): ITargetScore {
     const bx = birdArrays.positionX[birdIndex];
     const by = birdArrays.positionY[birdIndex];
-    const dist = this.position.dist({ x: bx, y: by });
+    const dist = this.distanceTo({ x: bx, y: by });
 
     const density = birdArrays.localDensity[birdIndex];
     const edgeScore = 1 - density;
@@ -799,8 +870,8 @@ class SharkPredator extends BasePredator {
       this.targetBirdId = target.birdId;
       this.target = new Vector2(flockCenter.x, flockCenter.y);
       this.circleAngle = Math.atan2(
-        this.position.y - flockCenter.y,
-        this.position.x - flockCenter.x
+        this.worldWrap.deltaY(this.position.y - flockCenter.y),
+        this.worldWrap.deltaX(this.position.x - flockCenter.x)
       );
       this.circleRadius = this.baseCircleRadius;
       this.bumpCount = 0;
@@ -838,7 +909,7 @@ class SharkPredator extends BasePredator {
     for (let i = 0; i < birdArrays.count; i++) {
       const bx = birdArrays.positionX[i];
       const by = birdArrays.positionY[i];
-      const d = this.position.dist({ x: bx, y: by });
+      const d = this.distanceTo({ x: bx, y: by });
       if (d < closestDist && birdArrays.localDensity[i] < 0.5) {
         closestDist = d;
         closestId = i;
@@ -870,13 +941,13 @@ class SharkPredator extends BasePredator {
     this.target!.y = birdArrays.positionY[this.targetBirdId];
 
     const burstSpeed = this.maxSpeed * this.stats.burstMultiplier;
-    this.tempVec.copy(this.target!).sub(this.position);
+    this.offsetTo(this.target!, this.tempVec);
     if (this.tempVec.mag() > 0) {
       this.tempVec.setMag(burstSpeed);
       this.velocity.lerp(this.tempVec, 0.15);
     }
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     if (dist < 30) {
       this.enterState('attacking');
@@ -905,9 +976,9 @@ class OrcaPredator extends BasePredator {
 
   constructor(
     id: number, type: PredatorType, x: number, y: number,
-    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number
+    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number, rng: Random
   ) {
-    super(id, type, x, y, stats, maxSpeed, panicRadius, color);
+    super(id, type, x, y, stats, maxSpeed, panicRadius, color, rng);
     this.baseAttackSuccessRate = 0.70; // Pack coordination = high success
     
     // Orca physics: large, powerful, moderately maneuverable
@@ -918,10 +989,18 @@ class OrcaPredator extends BasePredator {
     this.physics.deceleration = 5;
   }
 
+  protected serializeBehavior(): Record<string, number> {
+    return { assignedSector: this.assignedSector };
+  }
+
+  protected deserializeBehavior(behavior: Record<string, number>): void {
+    this.assignedSector = behavior.assignedSector ?? 0;
+  }
+
   protected scoreBird(birdIndex: number, birdArrays: BirdArrays): ITargetScore {
     const bx = birdArrays.positionX[birdIndex];
     const by = birdArrays.positionY[birdIndex];
-    const dist = this.position.dist({ x: bx, y: by });
+    const dist = this.distanceTo({ x: bx, y: by });
 
     const density = birdArrays.localDensity[birdIndex];
     const edgeScore = 1 - density;
@@ -1037,7 +1116,7 @@ class OrcaPredator extends BasePredator {
     // Fast coordinated attack
     this.seekTarget(this.target!, 1.1);
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     if (dist < 35) {
       this.enterState('attacking');
@@ -1068,9 +1147,9 @@ class BarracudaPredator extends BasePredator {
 
   constructor(
     id: number, type: PredatorType, x: number, y: number,
-    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number
+    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number, rng: Random
   ) {
-    super(id, type, x, y, stats, maxSpeed, panicRadius, color);
+    super(id, type, x, y, stats, maxSpeed, panicRadius, color, rng);
     this.baseAttackSuccessRate = 0.55; // Lower base, relies on surprise
     
     // Barracuda physics: extremely fast acceleration, moderate agility
@@ -1081,10 +1160,22 @@ class BarracudaPredator extends BasePredator {
     this.physics.deceleration = 8; // Quick to stop for ambush
   }
 
+  protected serializeBehavior(): Record<string, number> {
+    return {
+      chainStrikes: this.chainStrikes,
+      burstTimer: this.burstTimer
+    };
+  }
+
+  protected deserializeBehavior(behavior: Record<string, number>): void {
+    this.chainStrikes = behavior.chainStrikes ?? 0;
+    this.burstTimer = behavior.burstTimer ?? 0;
+  }
+
   protected scoreBird(birdIndex: number, birdArrays: BirdArrays): ITargetScore {
     const bx = birdArrays.positionX[birdIndex];
     const by = birdArrays.positionY[birdIndex];
-    const dist = this.position.dist({ x: bx, y: by });
+    const dist = this.distanceTo({ x: bx, y: by });
 
     // Barracuda prefers confused/scattered fish
     const panicLevel = birdArrays.panicLevel[birdIndex];
@@ -1095,7 +1186,7 @@ class BarracudaPredator extends BasePredator {
     // Prefer targets moving perpendicular (easier to intercept)
     const vx = birdArrays.velocityX[birdIndex];
     const vy = birdArrays.velocityY[birdIndex];
-    const toTarget = { x: bx - this.position.x, y: by - this.position.y };
+    const toTarget = { x: this.worldWrap.deltaX(bx - this.position.x), y: this.worldWrap.deltaY(by - this.position.y) };
     const speed = Math.sqrt(vx * vx + vy * vy);
     let perpScore = 0.5;
     if (speed > 0.1 && dist > 0) {
@@ -1161,7 +1252,7 @@ class BarracudaPredator extends BasePredator {
     this.target!.x = birdArrays.positionX[this.targetBirdId];
     this.target!.y = birdArrays.positionY[this.targetBirdId];
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     // BURST when close enough
     if (dist < this.panicRadius * 0.8) {
@@ -1192,7 +1283,7 @@ class BarracudaPredator extends BasePredator {
     // Use explosive burst physics for barracuda's lightning attack
     this.burst(this.target!, 1.0);
 
-    const dist = this.position.dist(this.target!);
+    const dist = this.distanceTo(this.target!);
 
     if (dist < 25) {
       this.enterState('attacking');
@@ -1215,11 +1306,10 @@ class BarracudaPredator extends BasePredator {
     if (this.stateTimer > 0.3) {
       this.energy = Math.max(0, this.energy - this.stats.attackCost);
 
-      const successChance = this.calculateAttackSuccess(birdArrays);
+      const successChance = this.applyNightAdvantage(this.calculateAttackSuccess(birdArrays));
       
-      if (Math.random() < successChance) {
-        this.successfulHunts++;
-        this.energy = Math.min(this.stats.maxEnergy, this.energy + 0.25);
+      if (this.rng.next() < successChance) {
+        this.registerSuccessfulHunt(birdArrays, 0.25);
       } else {
         this.failedHunts++;
       }
@@ -1248,9 +1338,9 @@ class SeaLionPredator extends BasePredator {
 
   constructor(
     id: number, type: PredatorType, x: number, y: number,
-    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number
+    stats: IPredatorStats, maxSpeed: number, panicRadius: number, color: number, rng: Random
   ) {
-    super(id, type, x, y, stats, maxSpeed, panicRadius, color);
+    super(id, type, x, y, stats, maxSpeed, panicRadius, color, rng);
     this.baseAttackSuccessRate = 0.60;
     
     // Sea Lion physics: agile, playful, high endurance
@@ -1261,10 +1351,24 @@ class SeaLionPredator extends BasePredator {
     this.physics.glideFactor = 0.94;
   }
 
+  protected serializeBehavior(): Record<string, number> {
+    return {
+      pursuitTime: this.pursuitTime,
+      lastTargetId: this.lastTargetId,
+      targetSwitchCount: this.targetSwitchCount
+    };
+  }
+
+  protected deserializeBehavior(behavior: Record<string, number>): void {
+    this.pursuitTime = behavior.pursuitTime ?? 0;
+    this.lastTargetId = behavior.lastTargetId ?? -1;
+    this.targetSwitchCount = behavior.targetSwitchCount ?? 0;
+  }
+
   protected scoreBird(birdIndex: number, birdArrays: BirdArrays): ITargetScore {
     const bx = birdArrays.positionX[birdIndex];
     const by = birdArrays.positionY[birdIndex];
-    const dist = this.position.dist({ x: bx, y: by });
+    const dist = this.distanceTo({ x: bx, y: by });
 
     const density = birdArrays.localDensity[birdIndex];
     const isolationScore = 1 - density;
@@ -1304,8 +1408,8 @@ class SeaLionPredator extends BasePredator {
     this.wander(0.5);
 
     // Erratic direction changes
-    if (Math.random() < 0.02) {
-      this.velocity.rotate((Math.random() - 0.5) * Math.PI * 0.5);
+    if (this.rng.next() < 0.02) {
+      this.velocity.rotate((this.rng.next() - 0.5) * Math.PI * 0.5);
     }
 
     if (this.stateTimer > 2) {
@@ -1350,7 +1454,7 @@ class SeaLionPredator extends BasePredator {
     }
 
     // High maneuverability - aggressive lerp
-    this.tempVec.copy(this.target!).sub(this.position);
+    this.offsetTo(this.target!, this.tempVec);
     const dist = this.tempVec.mag();
 
     if (dist > 0) {
@@ -1359,8 +1463,8 @@ class SeaLionPredator extends BasePredator {
     }
 
     // Occasional erratic burst
-    if (Math.random() < 0.03) {
-      this.velocity.rotate((Math.random() - 0.5) * 0.3);
+    if (this.rng.next() < 0.03) {
+      this.velocity.rotate((this.rng.next() - 0.5) * 0.3);
       this.velocity.mult(1.15);
     }
 
@@ -1392,9 +1496,14 @@ class SeaLionPredator extends BasePredator {
 // ============================================================================
 
 class OrcaPackCoordinator implements IPackCoordinator {
+  readonly packId: string;
   private members: OrcaPredator[] = [];
   private attackSlot: number = -1;
 
+  constructor(packId: string) {
+    this.packId = packId;
+  }
+
   addMember(orca: OrcaPredator): void {
     this.members.push(orca);
     orca.setPackCoordinator(this);
@@ -1442,6 +1551,10 @@ class OrcaPackCoordinator implements IPackCoordinator {
       this.attackSlot = -1;
     }
   }
+
+  hasAttackSlot(predatorId: number): boolean {
+    return this.attackSlot === predatorId;
+  }
 }
 
 // ============================================================================
@@ -1459,6 +1572,7 @@ export function createPredator(
   type: PredatorType,
   x: number,
   y: number,
+  rng: Random,
   preset?: IPredatorPreset,
   packId?: string
 ): BasePredator {
@@ -1467,39 +1581,39 @@ export function createPredator(
 
   switch (type) {
     case 'hawk':
-      return new HawkPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color);
+      return new HawkPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color, rng);
     
     case 'falcon':
-      return new FalconPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color);
+      return new FalconPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color, rng);
     
     case 'eagle':
-      return new EaglePredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color);
+      return new EaglePredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color, rng);
     
     case 'owl':
-      return new OwlPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color);
+      return new OwlPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color, rng);
     
     case 'shark':
-      return new SharkPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color);
+      return new SharkPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color, rng);
     
     case 'orca': {
-      const orca = new OrcaPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color);
+      const orca = new OrcaPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color, rng);
       // Set up pack coordination
       const pid = packId || 'default';
       if (!orcaPacks.has(pid)) {
-        orcaPacks.set(pid, new OrcaPackCoordinator());
+        orcaPacks.set(pid, new OrcaPackCoordinator(pid));
       }
       orcaPacks.get(pid)!.addMember(orca);
       return orca;
     }
     
     case 'barracuda':
-      return new BarracudaPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color);
+      return new BarracudaPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color, rng);
     
     case 'sea-lion':
-      return new SeaLionPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color);
+      return new SeaLionPredator(id, type, x, y, stats, p.maxSpeed, p.panicRadius, p.color, rng);
     
     default:
-      return new HawkPredator(id, 'hawk', x, y, PREDATOR_STATS.hawk, DEFAULT_PRESETS.hawk.maxSpeed, DEFAULT_PRESETS.hawk.panicRadius, DEFAULT_PRESETS.hawk.color);
+      return new HawkPredator(id, 'hawk', x, y, PREDATOR_STATS.hawk, DEFAULT_PRESETS.hawk.maxSpeed, DEFAULT_PRESETS.hawk.panicRadius, DEFAULT_PRESETS.hawk.color, rng);
   }
 }
 
@@ -24,6 +24,12 @@ async function main(): Promise<void> {
     // Load configuration
     console.log('Loading configuration...');
     const config = await loadConfig('/config.json');
+
+    // ?seed=<number> makes the run reproducible
+    const seedParam = new URLSearchParams(window.location.search).get('seed');
+    if (seedParam !== null && seedParam.trim() !== '' && Number.isFinite(Number(seedParam))) {
+      config.simulation.seed = Number(seedParam);
+    }
     setConfig(config);
     console.log('Configuration loaded:', config.simulation.birdCount, 'birds');
 
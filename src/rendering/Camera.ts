@@ -0,0 +1,246 @@
+import type { IVector2 } from '../types';
+import { clamp } from '../utils/MathUtils';
+
+// Version: 1.0.0 - Pan, zoom and follow over a world decoupled from the canvas
+
+// Closest zoom (screen pixels per world unit)
+const MAX_ZOOM = 8;
+
+// Share of the remaining distance to a followed target covered per second
+const FOLLOW_RATE = 6;
+
+/**
+ * Scale and offset mapping world coordinates to the screen area:
+ * screen = world * scale + offset.
+ */
+export interface IViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * 2D camera over the simulated world.
+ *
+ * The screen area (the window, which renderers fit into the canvas) shows the
+ * world at a zoom factor around a center point. The camera can be zoomed about
+ * the cursor, panned, and eased after a moving target. Zooming out stops once
+ * the whole world is visible, and the view never leaves the world on an axis
+ * the world fills.
+ */
+export class Camera {
+  private worldWidth: number;
+  private worldHeight: number;
+  private viewportWidth: number;
+  private viewportHeight: number;
+
+  // View state
+  private centerX: number;
+  private centerY: number;
+  private _zoom: number = 1;
+
+  constructor(worldWidth: number, worldHeight: number, viewportWidth: number, viewportHeight: number) {
+    this.worldWidth = worldWidth;
+    this.worldHeight = worldHeight;
+    this.viewportWidth = viewportWidth;
+    this.viewportHeight = viewportHeight;
+    this.centerX = worldWidth / 2;
+    this.centerY = worldHeight / 2;
+    this.reset();
+  }
+
+  /** Screen pixels per world unit */
+  get zoom(): number {
+    return this._zoom;
+  }
+
+  /** World point at the middle of the screen */
+  get center(): IVector2 {
+    return { x: this.centerX, y: this.centerY };
+  }
+
+  /** Whether the whole world is on screen */
+  get showsWholeWorld(): boolean {
+    return this.viewportWidth / this._zoom >= this.worldWidth - 1e-6
+      && this.viewportHeight / this._zoom >= this.worldHeight - 1e-6;
+  }
+
+  /**
+   * Show the whole world (at most at 1:1) around its center.
+   */
+  reset(): void {
+    this._zoom = this.getMinZoom();
+    this.centerX = this.worldWidth / 2;
+    this.centerY = this.worldHeight / 2;
+    this.constrain();
+  }
+
+  /**
+   * Set the simulated world size. A view showing the whole world keeps doing so.
+   */
+  setWorldSize(width: number, height: number): void {
+    const fitted = this._zoom <= this.getMinZoom() + 1e-6;
+    this.worldWidth = width;
+    this.worldHeight = height;
+    this.refit(fitted);
+  }
+
+  /**
+   * Set the size of the screen area the world is shown in.
+   */
+  setViewportSize(width: number, height: number): void {
+    const fitted = this._zoom <= this.getMinZoom() + 1e-6;
+    this.viewportWidth = width;
+    this.viewportHeight = height;
+    this.refit(fitted);
+  }
+
+  /**
+   * Center the view on a world point.
+   */
+  centerOn(x: number, y: number): void {
+    this.centerX = x;
+    this.centerY = y;
+    this.constrain();
+  }
+
+  /**
+   * Move the view by a distance in screen pixels (dragging the world along).
+   */
+  panBy(dx: number, dy: number): void {
+    this.centerOn(this.centerX - dx / this._zoom, this.centerY - dy / this._zoom);
+  }
+
+  /**
+   * Scale the zoom, keeping the world point under a screen point in place.
+   */
+  zoomAt(screenX: number, screenY: number, factor: number): void {
+    const anchorX = this.screenToWorldX(screenX);
+    const anchorY = this.screenToWorldY(screenY);
+
+    this._zoom = clamp(this._zoom * factor, this.getMinZoom(), MAX_ZOOM);
+
+    // Put the anchor back under the cursor
+    this.centerX = anchorX - (screenX - this.viewportWidth / 2) / this._zoom;
+    this.centerY = anchorY - (screenY - this.viewportHeight / 2) / this._zoom;
+    this.constrain();
+  }
+
+  /**
+   * Ease the view towards a moving target. Jumps longer than the view
+   * (a target wrapping around the world) are followed instantly.
+   */
+  follow(x: number, y: number, deltaTime: number): void {
+    const dx = x - this.centerX;
+    const dy = y - this.centerY;
+    if (Math.abs(dx) * this._zoom > this.viewportWidth || Math.abs(dy) * this._zoom > this.viewportHeight) {
+      this.centerOn(x, y);
+      return;
+    }
+
+    const t = Math.min(1, deltaTime * FOLLOW_RATE);
+    this.centerOn(this.centerX + dx * t, this.centerY + dy * t);
+  }
+
+  /**
+   * Convert a screen point to world coordinates.
+   */
+  screenToWorld(screenX: number, screenY: number, out: IVector2 = { x: 0, y: 0 }): IVector2 {
+    out.x = this.screenToWorldX(screenX);
+    out.y = this.screenToWorldY(screenY);
+    return out;
+  }
+
+  /**
+   * Convert a world point to screen coordinates.
+   */
+  worldToScreen(worldX: number, worldY: number, out: IVector2 = { x: 0, y: 0 }): IVector2 {
+    const view = this.getTransform();
+    out.x = worldX * view.scale + view.x;
+    out.y = worldY * view.scale + view.y;
+    return out;
+  }
+
+  /**
+   * Get the world-to-screen scale and offset (for Canvas2D transforms).
+   */
+  getTransform(): IViewTransform {
+    return {
+      scale: this._zoom,
+      x: this.viewportWidth / 2 - this.centerX * this._zoom,
+      y: this.viewportHeight / 2 - this.centerY * this._zoom
+    };
+  }
+
+  /**
+   * Get the visible part of the world.
+   */
+  getVisibleRect(): { x: number; y: number; width: number; height: number } {
+    const width = this.viewportWidth / this._zoom;
+    const height = this.viewportHeight / this._zoom;
+    return { x: this.centerX - width / 2, y: this.centerY - height / 2, width, height };
+  }
+
+  /**
+   * Write the world-to-clip-space matrix as a WGSL mat3x3<f32> (three
+   * columns padded to four floats). Clip y points up, screen y down.
+   */
+  writeViewMatrix(out: Float32Array): void {
+    const view = this.getTransform();
+    const sx = 2 / this.viewportWidth;
+    const sy = 2 / this.viewportHeight;
+
+    out.fill(0);
+    out[0] = view.scale * sx;
+    out[5] = -view.scale * sy;
+    out[8] = view.x * sx - 1;
+    out[9] = 1 - view.y * sy;
+    out[10] = 1;
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private screenToWorldX(screenX: number): number {
+    return this.centerX + (screenX - this.viewportWidth / 2) / this._zoom;
+  }
+
+  private screenToWorldY(screenY: number): number {
+    return this.centerY + (screenY - this.viewportHeight / 2) / this._zoom;
+  }
+
+  /**
+   * Farthest zoom: the whole world just fits the screen area, or 1:1 for a
+   * world smaller than the screen.
+   */
+  private getMinZoom(): number {
+    return Math.min(1, this.viewportWidth / this.worldWidth, this.viewportHeight / this.worldHeight);
+  }
+
+  /**
+   * Re-apply the zoom and position limits after a size change.
+   */
+  private refit(fitted: boolean): void {
+    if (fitted) {
+      this._zoom = this.getMinZoom();
+    }
+    this._zoom = clamp(this._zoom, this.getMinZoom(), MAX_ZOOM);
+    this.constrain();
+  }
+
+  /**
+   * Keep the view inside the world on each axis it fills, centered otherwise.
+   */
+  private constrain(): void {
+    const halfWidth = this.viewportWidth / this._zoom / 2;
+    const halfHeight = this.viewportHeight / this._zoom / 2;
+
+    this.centerX = halfWidth * 2 >= this.worldWidth
+      ? this.worldWidth / 2
+      : clamp(this.centerX, halfWidth, this.worldWidth - halfWidth);
+    this.centerY = halfHeight * 2 >= this.worldHeight
+      ? this.worldHeight / 2
+      : clamp(this.centerY, halfHeight, this.worldHeight - halfHeight);
+  }
+}
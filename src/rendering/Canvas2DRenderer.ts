@@ -6,10 +6,12 @@
  * Uses standard Canvas 2D API for compatibility with all browsers.
  */
 
-import type { IRenderingConfig, IAttractor, IFoodSource } from '../types';
+import type { IRenderingConfig, IAttractor, IFoodSource, ITerritory, IObstacle, IBirdInspection } from '../types';
 import type { BirdArrays } from '../simulation/Bird';
 import type { BasePredator } from '../environment';
-import { lerpColor, clamp } from '../utils/MathUtils';
+import { lerpColor, clamp, fitRect } from '../utils/MathUtils';
+import type { IViewTransform } from './Camera';
+import { FORCE_ARROW_STRIDE, type ForceArrows } from './ForceArrows';
 
 // Version: 2.0.0
 
@@ -33,6 +35,21 @@ export class Canvas2DRenderer {
   // Time for animations
   private time: number = 0;
 
+  // Background color override (e.g. day/night blend), null uses config
+  private backgroundOverride: number | null = null;
+
+  // Clear to transparent instead of filling the background (for capture)
+  private transparentBackground: boolean = false;
+
+  // Camera transform from world to screen coordinates
+  private view: IViewTransform = { scale: 1, x: 0, y: 0 };
+
+  // Bird shown by the inspector, drawn over the flock
+  private inspection: IBirdInspection | null = null;
+
+  // Force-vector debug overlay
+  private forceArrows: ForceArrows | null = null;
+
   constructor(canvas: HTMLCanvasElement, config: IRenderingConfig, maxBirds: number) {
     console.log('Canvas2DRenderer v2.0.0 - Initializing (firefly glow support)');
     this.canvas = canvas;
@@ -73,6 +90,42 @@ export class Canvas2DRenderer {
     }
   }
 
+  /**
+   * Override the background color for upcoming frames.
+   * @param color Color to clear with, or null to use the configured color
+   */
+  setBackgroundColor(color: number | null): void {
+    this.backgroundOverride = color;
+  }
+
+  /**
+   * Leave the background transparent instead of filling it.
+   */
+  setTransparentBackground(transparent: boolean): void {
+    this.transparentBackground = transparent;
+  }
+
+  /**
+   * Set the camera transform applied to everything drawn in world space.
+   */
+  setView(view: IViewTransform): void {
+    this.view = view;
+  }
+
+  /**
+   * Set the force arrows to draw over the flock, or null for none.
+   */
+  setForceArrows(arrows: ForceArrows | null): void {
+    this.forceArrows = arrows;
+  }
+
+  /**
+   * Set the inspected bird to mark, or null for none.
+   */
+  setInspection(inspection: IBirdInspection | null): void {
+    this.inspection = inspection;
+  }
+
   /**
    * Update trail positions.
    */
@@ -102,27 +155,61 @@ export class Canvas2DRenderer {
     predators: BasePredator[] = [],
     windEnabled: boolean = false,
     windDirection: number = 0,
-    windSpeed: number = 0
+    windSpeed: number = 0,
+    territories: ITerritory[] = [],
+    obstacles: IObstacle[] = [],
+    obstacleDraft: IObstacle | null = null
   ): void {
     this.time += 0.016;
     const ctx = this.ctx;
 
-    // Clear with background
-    const bg = this.config.backgroundColor;
-    const bgR = (bg >> 16) & 0xFF;
-    const bgG = (bg >> 8) & 0xFF;
-    const bgB = bg & 0xFF;
-    ctx.fillStyle = `rgb(${bgR}, ${bgG}, ${bgB})`;
-    ctx.fillRect(0, 0, screenWidth, screenHeight);
+    // Clear the whole canvas with background
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    if (this.transparentBackground) {
+      ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    } else {
+      const bg = this.backgroundOverride ?? this.config.backgroundColor;
+      const bgR = (bg >> 16) & 0xFF;
+      const bgG = (bg >> 8) & 0xFF;
+      const bgB = bg & 0xFF;
+      ctx.fillStyle = `rgb(${bgR}, ${bgG}, ${bgB})`;
+      ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    }
+
+    // Fit the screen area into the canvas (they differ when a capture
+    // overrides the output resolution) and clip to it
+    const fit = fitRect(screenWidth, screenHeight, this.canvas.width, this.canvas.height);
+    ctx.setTransform(fit.scale, 0, 0, fit.scale, fit.x, fit.y);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, screenWidth, screenHeight);
+    ctx.clip();
+
+    // Render wind indicator (stays in screen space)
+    if (windEnabled && windSpeed > 0) {
+      this.renderWind(windDirection, windSpeed, screenWidth, screenHeight);
+    }
+
+    // The rest is drawn in world space through the camera
+    const view = this.view;
+    ctx.transform(view.scale, 0, 0, view.scale, view.x, view.y);
 
     // Render trails
     if (this.trailEnabled) {
       this.renderTrails(birdArrays.count);
     }
 
-    // Render wind indicator
-    if (windEnabled && windSpeed > 0) {
-      this.renderWind(windDirection, windSpeed, screenWidth, screenHeight);
+    // Render territory zones
+    for (const territory of territories) {
+      this.renderTerritory(territory);
+    }
+
+    // Render obstacles and the one being placed
+    for (const obstacle of obstacles) {
+      this.renderObstacle(obstacle, 1);
+    }
+    if (obstacleDraft) {
+      this.renderObstacle(obstacleDraft, 0.5);
     }
 
     // Render food sources
@@ -142,6 +229,16 @@ export class Canvas2DRenderer {
 
     // Render birds
     this.renderBirds(birdArrays);
+
+    // Force arrows and the inspected bird on top
+    if (this.forceArrows) {
+      this.renderForceArrows(this.forceArrows);
+    }
+    if (this.inspection) {
+      this.renderInspection(this.inspection);
+    }
+
+    ctx.restore();
   }
 
   private renderTrails(count: number): void {
@@ -249,6 +346,13 @@ export class Canvas2DRenderer {
           color = lerpColor(dimColor, glowColor, clamp(glowIntensity, 0, 1));
           break;
         }
+        case 'species': {
+          const palette = this.config.speciesColors ?? [];
+          if (palette.length > 0) {
+            color = palette[(birdArrays.speciesId?.[i] ?? 0) % palette.length];
+          }
+          break;
+        }
         default:
           color = this.config.particleColor;
       }
@@ -297,6 +401,143 @@ export class Canvas2DRenderer {
     }
   }
 
+  private renderForceArrows(arrows: ForceArrows): void {
+    const ctx = this.ctx;
+    const data = arrows.data;
+
+    // Keep arrows a constant width on screen
+    const width = 1.5 / this.view.scale;
+    ctx.lineWidth = width;
+    ctx.globalAlpha = 0.9;
+
+    for (let a = 0; a < arrows.count; a++) {
+      const offset = a * FORCE_ARROW_STRIDE;
+      const x0 = data[offset];
+      const y0 = data[offset + 1];
+      const x1 = data[offset + 2];
+      const y1 = data[offset + 3];
+      const color = `#${arrows.getColor(a).toString(16).padStart(6, '0')}`;
+
+      // Shaft
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x0, y0);
+      ctx.lineTo(x1, y1);
+      ctx.stroke();
+
+      // Head
+      const angle = Math.atan2(y1 - y0, x1 - x0);
+      const head = Math.min(Math.hypot(x1 - x0, y1 - y0) * 0.4, width * 4);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x1 - Math.cos(angle - 0.5) * head, y1 - Math.sin(angle - 0.5) * head);
+      ctx.lineTo(x1 - Math.cos(angle + 0.5) * head, y1 - Math.sin(angle + 0.5) * head);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    ctx.globalAlpha = 1;
+  }
+
+  private renderInspection(inspection: IBirdInspection): void {
+    const ctx = this.ctx;
+    const { x, y } = inspection.position;
+    const halfFov = Math.min(Math.PI, inspection.fieldOfView * Math.PI / 360);
+
+    // Keep outlines a constant width on screen
+    ctx.lineWidth = 1.5 / this.view.scale;
+
+    // Field of view
+    ctx.fillStyle = 'rgba(0, 212, 255, 0.08)';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    ctx.arc(x, y, inspection.perceptionRadius, inspection.heading - halfFov, inspection.heading + halfFov);
+    ctx.closePath();
+    ctx.fill();
+
+    // Perception and separation radii
+    ctx.strokeStyle = 'rgba(0, 212, 255, 0.35)';
+    ctx.beginPath();
+    ctx.arc(x, y, inspection.perceptionRadius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.strokeStyle = 'rgba(255, 102, 102, 0.5)';
+    ctx.beginPath();
+    ctx.arc(x, y, inspection.separationRadius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // Highlight
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.beginPath();
+    ctx.arc(x, y, 12, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  private renderTerritory(territory: ITerritory): void {
+    const ctx = this.ctx;
+    const r = (territory.color >> 16) & 0xFF;
+    const g = (territory.color >> 8) & 0xFF;
+    const b = territory.color & 0xFF;
+
+    // Border brightens while intruders are present
+    const borderAlpha = territory.intruders > 0 ? 0.7 : 0.35;
+    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.06)`;
+    ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${borderAlpha})`;
+    ctx.lineWidth = 2;
+
+    ctx.beginPath();
+    ctx.arc(territory.x, territory.y, territory.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  private renderObstacle(obstacle: IObstacle, alpha: number): void {
+    const ctx = this.ctx;
+    const points = obstacle.points;
+    if (points.length === 0) return;
+
+    ctx.fillStyle = `rgba(92, 86, 78, ${0.9 * alpha})`;
+    ctx.strokeStyle = `rgba(160, 150, 135, ${0.8 * alpha})`;
+    ctx.lineWidth = 2;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+
+    ctx.beginPath();
+    if (obstacle.shape === 'circle') {
+      ctx.arc(points[0].x, points[0].y, obstacle.radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      return;
+    }
+
+    ctx.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length; i++) {
+      ctx.lineTo(points[i].x, points[i].y);
+    }
+
+    if (obstacle.shape === 'polygon') {
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+    } else {
+      // Walls are strokes as thick as the wall, outlined underneath
+      ctx.lineWidth = obstacle.radius * 2 + 2;
+      ctx.stroke();
+      ctx.strokeStyle = ctx.fillStyle;
+      ctx.lineWidth = obstacle.radius * 2 - 2;
+      ctx.stroke();
+    }
+
+    // Single points of a draft wall or polygon
+    if (points.length === 1) {
+      ctx.fillStyle = `rgba(160, 150, 135, ${0.8 * alpha})`;
+      ctx.beginPath();
+      ctx.arc(points[0].x, points[0].y, 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
   private renderAttractor(attractor: IAttractor): void {
     const ctx = this.ctx;
     const x = attractor.x;
@@ -1,6 +1,8 @@
 import type { Flux } from '@flux-gpu/core';
-import type { IAttractor, IFoodSource } from '../types';
+import type { IAttractor, IFoodSource, ITerritory, IObstacle, IBirdInspection } from '../types';
 import type { BasePredator } from '../environment/predators/BasePredator';
+import { packObstacle, MAX_OBSTACLE_SEGMENTS, OBSTACLE_SEGMENT_STRIDE } from '../environment/Obstacle';
+import { VIEW_SHADER, type ViewUniform } from './ViewUniform';
 
 // Version: 1.1.0 - Fixed WGSL shader compatibility
 
@@ -20,18 +22,19 @@ struct InstanceData {
   radius: f32,
   color: u32,
   alpha: f32,
-  style: f32, // 0 = filled, 1 = ring
-  _pad: vec2f,
+  style: f32, // 0 = filled, 1 = ring, 2 = filled sector
+  sector: vec2f, // Sector direction and half-angle (radians)
 }
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
 @group(0) @binding(1) var<storage, read> instances: array<InstanceData>;
-
+${VIEW_SHADER}
 struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) color: vec4f,
   @location(1) local_pos: vec2f,
   @location(2) style: f32,
+  @location(3) sector: vec2f,
 }
 
 fn unpack_color(packed: u32) -> vec3f {
@@ -66,14 +69,12 @@ fn vs_main(
   
   let world_pos = inst.position + local_pos * inst.radius;
   
-  let clip_x = (world_pos.x / uniforms.screen_width) * 2.0 - 1.0;
-  let clip_y = 1.0 - (world_pos.y / uniforms.screen_height) * 2.0;
-  
   var output: VertexOutput;
-  output.position = vec4f(clip_x, clip_y, 0.0, 1.0);
+  output.position = world_to_clip(world_pos);
   output.color = vec4f(unpack_color(inst.color), inst.alpha);
   output.local_pos = local_pos;
   output.style = inst.style;
+  output.sector = inst.sector;
   return output;
 }
 
@@ -81,7 +82,8 @@ fn vs_main(
 fn fs_main(
   @location(0) color: vec4f,
   @location(1) local_pos: vec2f,
-  @location(2) style: f32
+  @location(2) style: f32,
+  @location(3) sector: vec2f
 ) -> @location(0) vec4f {
   let dist = length(local_pos);
   
@@ -90,6 +92,16 @@ fn fs_main(
     discard;
   }
   
+  // Sector style - filled wedge within the half-angle of its direction
+  if (style > 1.5) {
+    let angle = atan2(local_pos.y, local_pos.x) - sector.x;
+    if (abs(atan2(sin(angle), cos(angle))) > sector.y) {
+      discard;
+    }
+    let edge_alpha = 1.0 - smoothstep(0.95, 1.0, dist);
+    return vec4f(color.rgb, color.a * edge_alpha);
+  }
+  
   // Ring style - only draw edge
   if (style > 0.5) {
     let ring_width = 0.15;
@@ -134,7 +146,7 @@ struct PredatorData {
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
 @group(0) @binding(1) var<storage, read> predators: array<PredatorData>;
-
+${VIEW_SHADER}
 struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) color: vec4f,
@@ -295,8 +307,6 @@ fn vs_main(
   );
   
   let world_pos = pred.position + rotated;
-  let clip_x = (world_pos.x / uniforms.screen_width) * 2.0 - 1.0;
-  let clip_y = 1.0 - (world_pos.y / uniforms.screen_height) * 2.0;
   
   // Dynamic color based on state and intensity
   var base_color = unpack_color(pred.color);
@@ -326,7 +336,7 @@ fn vs_main(
   let edge_glow = intensity * 0.3;
   
   var output: VertexOutput;
-  output.position = vec4f(clip_x, clip_y, 0.0, 1.0);
+  output.position = world_to_clip(world_pos);
   output.color = vec4f(final_color + edge_glow, 1.0);
   output.local_uv = local_pos / pred.size;
   return output;
@@ -410,8 +420,139 @@ fn fs_main(@location(0) color: vec4f) -> @location(0) vec4f {
 }
 `;
 
+/**
+ * WGSL shader for obstacles: one bounding quad per obstacle, filled by
+ * evaluating its capsule segments as a signed distance field.
+ */
+const OBSTACLE_SHADER = `
+struct Uniforms {
+  screen_width: f32,
+  screen_height: f32,
+  time: f32,
+  _padding: f32,
+}
+
+struct ObstacleInstance {
+  bounds_min: vec2f,
+  bounds_max: vec2f,
+  first_segment: f32,
+  segment_count: f32,
+  alpha: f32,
+  _pad: f32,
+}
+
+// Capsule segments as packed by ObstacleField
+struct Segment {
+  a: vec2f,
+  b: vec2f,
+  radius: f32,
+  filled: f32,
+  last: f32,
+  _pad: f32,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> instances: array<ObstacleInstance>;
+@group(0) @binding(2) var<storage, read> segments: array<Segment>;
+${VIEW_SHADER}
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) world_pos: vec2f,
+  @location(1) @interpolate(flat) segment_range: vec2u,
+  @location(2) @interpolate(flat) alpha: f32,
+}
+
+@vertex
+fn vs_main(
+  @builtin(vertex_index) vertex_idx: u32,
+  @builtin(instance_index) instance_idx: u32
+) -> VertexOutput {
+  let inst = instances[instance_idx];
+
+  // Bounding quad corners
+  var corner = vec2f(0.0, 0.0);
+  if (vertex_idx == 1u || vertex_idx == 3u) {
+    corner = vec2f(1.0, 0.0);
+  } else if (vertex_idx == 2u || vertex_idx == 5u) {
+    corner = vec2f(0.0, 1.0);
+  } else if (vertex_idx == 4u) {
+    corner = vec2f(1.0, 1.0);
+  }
+
+  let world_pos = mix(inst.bounds_min, inst.bounds_max, corner);
+
+  var output: VertexOutput;
+  output.position = world_to_clip(world_pos);
+  output.world_pos = world_pos;
+  output.segment_range = vec2u(u32(inst.first_segment), u32(inst.segment_count));
+  output.alpha = inst.alpha;
+  return output;
+}
+
+@fragment
+fn fs_main(
+  @location(0) world_pos: vec2f,
+  @location(1) @interpolate(flat) segment_range: vec2u,
+  @location(2) @interpolate(flat) alpha: f32
+) -> @location(0) vec4f {
+  let p = world_pos;
+  var dist = 1e9;
+  var inside = false;
+
+  for (var s = segment_range.x; s < segment_range.x + segment_range.y; s++) {
+    let seg = segments[s];
+    let ab = seg.b - seg.a;
+    let len_sq = dot(ab, ab);
+    var t = 0.0;
+    if (len_sq > 0.0) {
+      t = clamp(dot(p - seg.a, ab) / len_sq, 0.0, 1.0);
+    }
+    dist = min(dist, length(p - (seg.a + ab * t)) - seg.radius);
+
+    // Polygon edges crossed by a ray towards +x
+    if (seg.filled > 0.5 && (seg.a.y > p.y) != (seg.b.y > p.y) &&
+        p.x < seg.a.x + (p.y - seg.a.y) * ab.x / ab.y) {
+      inside = !inside;
+    }
+  }
+  if (inside) {
+    dist = -dist;
+  }
+
+  // Anti-aliased outline over the fill
+  let coverage = 1.0 - smoothstep(0.0, 1.0, dist);
+  if (coverage <= 0.0) {
+    discard;
+  }
+  let outline = 1.0 - smoothstep(1.0, 2.0, abs(dist + 1.0));
+  let fill_color = vec3f(0.36, 0.34, 0.31);
+  let outline_color = vec3f(0.63, 0.59, 0.53);
+  let color = mix(fill_color, outline_color, outline);
+  return vec4f(color, mix(0.9, 0.8, outline) * coverage * alpha);
+}
+`;
+
 const MAX_INSTANCES = 100;
 const MAX_PREDATORS = 10;
+const MAX_TERRITORIES = 16;
+
+// Obstacle quads: every placed obstacle plus the one being placed
+const MAX_OBSTACLE_INSTANCES = MAX_OBSTACLE_SEGMENTS + 1;
+
+// Segment slots: placed obstacles, then the one being placed
+const MAX_RENDER_SEGMENTS = MAX_OBSTACLE_SEGMENTS * 2;
+
+// Floats per obstacle quad: bounds min/max, first segment, segment count, alpha, pad
+const OBSTACLE_INSTANCE_STRIDE = 8;
+
+// Radius of the lines and points previewing an incomplete obstacle
+const DRAFT_LINE_RADIUS = 2;
+
+// Inspected bird: highlight, field of view, perception and separation
+const INSPECTION_INSTANCES = 4;
+
+// Radius of the ring marking the inspected bird
+const INSPECTION_HIGHLIGHT_RADIUS = 12;
 
 /**
  * Renders environment elements using flux-gpu.
@@ -419,6 +560,7 @@ const MAX_PREDATORS = 10;
  */
 export class EnvironmentRenderer {
   private flux: Flux;
+  private view: ViewUniform;
   private worldWidth: number;
   private worldHeight: number;
 
@@ -426,37 +568,58 @@ export class EnvironmentRenderer {
   private envPipeline: GPURenderPipeline | null = null;
   private predatorPipeline: GPURenderPipeline | null = null;
   private windPipeline: GPURenderPipeline | null = null;
+  private obstaclePipeline: GPURenderPipeline | null = null;
 
   // Buffers
   private envUniformBuffer: GPUBuffer | null = null;
   private envInstanceBuffer: GPUBuffer | null = null;
+  private territoryInstanceBuffer: GPUBuffer | null = null;
+  private inspectionInstanceBuffer: GPUBuffer | null = null;
   private predatorUniformBuffer: GPUBuffer | null = null;
   private predatorBuffer: GPUBuffer | null = null;
   private windUniformBuffer: GPUBuffer | null = null;
+  private obstacleUniformBuffer: GPUBuffer | null = null;
+  private obstacleInstanceBuffer: GPUBuffer | null = null;
+  private obstacleSegmentBuffer: GPUBuffer | null = null;
 
   // Bind groups
   private envBindGroup: GPUBindGroup | null = null;
+  private territoryBindGroup: GPUBindGroup | null = null;
+  private inspectionBindGroup: GPUBindGroup | null = null;
   private predatorBindGroup: GPUBindGroup | null = null;
   private windBindGroup: GPUBindGroup | null = null;
+  private obstacleBindGroup: GPUBindGroup | null = null;
 
   // CPU staging
   private envInstanceData: Float32Array;
+  private territoryInstanceData: Float32Array;
+  private inspectionInstanceData: Float32Array;
   private predatorData: Float32Array;
+  private obstacleInstanceData: Float32Array;
+  private obstacleSegmentData: Float32Array;
 
   // State
   private showWind: boolean = true;
 
-  constructor(flux: Flux, worldWidth: number, worldHeight: number) {
+  constructor(flux: Flux, view: ViewUniform, worldWidth: number, worldHeight: number) {
     console.log('EnvironmentRenderer v1.1.0 initialized');
     this.flux = flux;
+    this.view = view;
     this.worldWidth = worldWidth;
     this.worldHeight = worldHeight;
 
     // Allocate CPU buffers
-    // InstanceData: pos(2) + radius(1) + color(1) + alpha(1) + style(1) + pad(2) = 8 floats
+    // InstanceData: pos(2) + radius(1) + color(1) + alpha(1) + style(1) + sector(2) = 8 floats
     this.envInstanceData = new Float32Array(MAX_INSTANCES * 8);
+    // Territories: zone fill + border ring per territory
+    this.territoryInstanceData = new Float32Array(MAX_TERRITORIES * 2 * 8);
+    // Inspected bird overlay
+    this.inspectionInstanceData = new Float32Array(INSPECTION_INSTANCES * 8);
     // PredatorData: pos(2) + heading(1) + size(1) + color(1) + state(1) + intensity(1) + stretch(1) + type(1) + energy(1) + pad(2) = 12 floats
     this.predatorData = new Float32Array(MAX_PREDATORS * 12);
+    // Obstacles: one quad per obstacle over its packed capsule segments
+    this.obstacleInstanceData = new Float32Array(MAX_OBSTACLE_INSTANCES * OBSTACLE_INSTANCE_STRIDE);
+    this.obstacleSegmentData = new Float32Array(MAX_RENDER_SEGMENTS * OBSTACLE_SEGMENT_STRIDE);
 
     this.initGPUResources();
   }
@@ -494,8 +657,38 @@ export class EnvironmentRenderer {
       ],
     });
 
+    // Territories get their own instance buffer so they don't overwrite food/attractor instances
+    this.territoryInstanceBuffer = device.createBuffer({
+      size: MAX_TERRITORIES * 2 * 32,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'territory-instances',
+    });
+
+    this.territoryBindGroup = device.createBindGroup({
+      layout: envBindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.envUniformBuffer } },
+        { binding: 1, resource: { buffer: this.territoryInstanceBuffer } },
+      ],
+    });
+
+    // The inspection overlay likewise keeps its own instances
+    this.inspectionInstanceBuffer = device.createBuffer({
+      size: INSPECTION_INSTANCES * 32,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'inspection-instances',
+    });
+
+    this.inspectionBindGroup = device.createBindGroup({
+      layout: envBindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.envUniformBuffer } },
+        { binding: 1, resource: { buffer: this.inspectionInstanceBuffer } },
+      ],
+    });
+
     this.envPipeline = device.createRenderPipeline({
-      layout: device.createPipelineLayout({ bindGroupLayouts: [envBindGroupLayout] }),
+      layout: device.createPipelineLayout({ bindGroupLayouts: [envBindGroupLayout, this.view.layout] }),
       vertex: { module: envShader, entryPoint: 'vs_main' },
       fragment: {
         module: envShader,
@@ -542,7 +735,7 @@ export class EnvironmentRenderer {
     });
 
     this.predatorPipeline = device.createRenderPipeline({
-      layout: device.createPipelineLayout({ bindGroupLayouts: [predatorBindGroupLayout] }),
+      layout: device.createPipelineLayout({ bindGroupLayouts: [predatorBindGroupLayout, this.view.layout] }),
       vertex: { module: predatorShader, entryPoint: 'vs_main' },
       fragment: {
         module: predatorShader,
@@ -596,6 +789,61 @@ export class EnvironmentRenderer {
       },
       primitive: { topology: 'triangle-list' },
     });
+
+    // === Obstacle pipeline ===
+    const obstacleShader = this.flux.shader(OBSTACLE_SHADER, 'obstacle-shader');
+
+    this.obstacleUniformBuffer = device.createBuffer({
+      size: 16,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      label: 'obstacle-uniforms',
+    });
+
+    this.obstacleInstanceBuffer = device.createBuffer({
+      size: MAX_OBSTACLE_INSTANCES * OBSTACLE_INSTANCE_STRIDE * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'obstacle-instances',
+    });
+
+    this.obstacleSegmentBuffer = device.createBuffer({
+      size: MAX_RENDER_SEGMENTS * OBSTACLE_SEGMENT_STRIDE * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'obstacle-segments',
+    });
+
+    const obstacleBindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+        { binding: 2, visibility: GPUShaderStage.FRAGMENT, buffer: { type: 'read-only-storage' } },
+      ],
+    });
+
+    this.obstacleBindGroup = device.createBindGroup({
+      layout: obstacleBindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.obstacleUniformBuffer } },
+        { binding: 1, resource: { buffer: this.obstacleInstanceBuffer } },
+        { binding: 2, resource: { buffer: this.obstacleSegmentBuffer } },
+      ],
+    });
+
+    this.obstaclePipeline = device.createRenderPipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: [obstacleBindGroupLayout, this.view.layout] }),
+      vertex: { module: obstacleShader, entryPoint: 'vs_main' },
+      fragment: {
+        module: obstacleShader,
+        entryPoint: 'fs_main',
+        targets: [{
+          format: this.flux.preferredFormat,
+          blend: {
+            color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+            alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+          },
+        }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
   }
 
   /**
@@ -732,11 +980,118 @@ export class EnvironmentRenderer {
 
     renderPass.setPipeline(this.predatorPipeline);
     renderPass.setBindGroup(0, this.predatorBindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
     
     // Draw 10 triangles (fan) per predator = 30 vertices
     renderPass.draw(30, count);
   }
 
+  /**
+   * Render territory zones.
+   * Borders brighten while a territory has intruders.
+   */
+  renderTerritories(
+    renderPass: GPURenderPassEncoder,
+    territories: ITerritory[]
+  ): void {
+    if (territories.length === 0 || !this.envPipeline || !this.territoryBindGroup) {
+      return;
+    }
+
+    let instanceCount = 0;
+    const colorView = new DataView(this.territoryInstanceData.buffer);
+
+    for (const territory of territories) {
+      if (instanceCount >= MAX_TERRITORIES * 2) break;
+
+      // Faint zone fill
+      let offset = instanceCount * 8;
+      this.territoryInstanceData[offset] = territory.x;
+      this.territoryInstanceData[offset + 1] = territory.y;
+      this.territoryInstanceData[offset + 2] = territory.radius;
+      colorView.setUint32((offset + 3) * 4, territory.color, true);
+      this.territoryInstanceData[offset + 4] = 0.06;
+      this.territoryInstanceData[offset + 5] = 0; // filled
+      instanceCount++;
+
+      // Border ring
+      offset = instanceCount * 8;
+      this.territoryInstanceData[offset] = territory.x;
+      this.territoryInstanceData[offset + 1] = territory.y;
+      this.territoryInstanceData[offset + 2] = territory.radius;
+      colorView.setUint32((offset + 3) * 4, territory.color, true);
+      this.territoryInstanceData[offset + 4] = territory.intruders > 0 ? 0.7 : 0.35;
+      this.territoryInstanceData[offset + 5] = 1; // ring
+      instanceCount++;
+    }
+
+    // Upload data
+    const uniformData = new Float32Array([
+      this.worldWidth,
+      this.worldHeight,
+      performance.now() / 1000,
+      0,
+    ]);
+    this.flux.device.queue.writeBuffer(this.envUniformBuffer!, 0, uniformData);
+    this.flux.device.queue.writeBuffer(this.territoryInstanceBuffer!, 0, this.territoryInstanceData.buffer, 0, instanceCount * 32);
+
+    renderPass.setPipeline(this.envPipeline);
+    renderPass.setBindGroup(0, this.territoryBindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
+    renderPass.draw(6, instanceCount);
+  }
+
+  /**
+   * Render the inspected bird: a highlight ring, its field of view, and its
+   * perception and separation radii.
+   */
+  renderInspection(
+    renderPass: GPURenderPassEncoder,
+    inspection: IBirdInspection
+  ): void {
+    if (!this.envPipeline || !this.inspectionBindGroup) {
+      return;
+    }
+
+    const { x, y } = inspection.position;
+    const halfFov = Math.min(Math.PI, inspection.fieldOfView * Math.PI / 360);
+    const colorView = new DataView(this.inspectionInstanceData.buffer);
+    const instances: Array<[number, number, number, number, number, number]> = [
+      // radius, color, alpha, style, sector direction, sector half-angle
+      [inspection.perceptionRadius, 0x00d4ff, 0.08, 2, inspection.heading, halfFov],
+      [inspection.perceptionRadius, 0x00d4ff, 0.35, 1, 0, 0],
+      [inspection.separationRadius, 0xff6666, 0.5, 1, 0, 0],
+      [INSPECTION_HIGHLIGHT_RADIUS, 0xffffff, 0.9, 1, 0, 0]
+    ];
+
+    instances.forEach(([radius, color, alpha, style, direction, halfAngle], i) => {
+      const offset = i * 8;
+      this.inspectionInstanceData[offset] = x;
+      this.inspectionInstanceData[offset + 1] = y;
+      this.inspectionInstanceData[offset + 2] = radius;
+      colorView.setUint32((offset + 3) * 4, color, true);
+      this.inspectionInstanceData[offset + 4] = alpha;
+      this.inspectionInstanceData[offset + 5] = style;
+      this.inspectionInstanceData[offset + 6] = direction;
+      this.inspectionInstanceData[offset + 7] = halfAngle;
+    });
+
+    // Upload data
+    const uniformData = new Float32Array([
+      this.worldWidth,
+      this.worldHeight,
+      performance.now() / 1000,
+      0,
+    ]);
+    this.flux.device.queue.writeBuffer(this.envUniformBuffer!, 0, uniformData);
+    this.flux.device.queue.writeBuffer(this.inspectionInstanceBuffer!, 0, this.inspectionInstanceData.buffer, 0, INSPECTION_INSTANCES * 32);
+
+    renderPass.setPipeline(this.envPipeline);
+    renderPass.setBindGroup(0, this.inspectionBindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
+    renderPass.draw(6, INSPECTION_INSTANCES);
+  }
+
   /**
    * Render food sources.
    */
@@ -809,6 +1164,7 @@ export class EnvironmentRenderer {
 
     renderPass.setPipeline(this.envPipeline);
     renderPass.setBindGroup(0, this.envBindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
     renderPass.draw(6, instanceCount);
   }
 
@@ -870,6 +1226,80 @@ export class EnvironmentRenderer {
 
     renderPass.setPipeline(this.envPipeline);
     renderPass.setBindGroup(0, this.envBindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
+    renderPass.draw(6, instanceCount);
+  }
+
+  /**
+   * Render obstacles, and the one being placed faded out.
+   */
+  renderObstacles(
+    renderPass: GPURenderPassEncoder,
+    obstacles: IObstacle[],
+    draft: IObstacle | null = null
+  ): void {
+    if ((obstacles.length === 0 && !draft) || !this.obstaclePipeline || !this.obstacleBindGroup) {
+      return;
+    }
+
+    let instanceCount = 0;
+    let segmentCount = 0;
+
+    const addInstance = (obstacle: IObstacle, alpha: number, segmentLimit: number) => {
+      if (instanceCount >= MAX_OBSTACLE_INSTANCES || segmentCount >= segmentLimit) return;
+
+      const written = packObstacle(obstacle, this.obstacleSegmentData, segmentCount);
+      if (written === 0 || segmentCount + written > segmentLimit) return;
+
+      // Bounds of the points, grown by the thickness and the outline
+      const pad = obstacle.radius + 2;
+      let minX = Infinity;
+      let minY = Infinity;
+      let maxX = -Infinity;
+      let maxY = -Infinity;
+      for (const p of obstacle.points) {
+        minX = Math.min(minX, p.x);
+        minY = Math.min(minY, p.y);
+        maxX = Math.max(maxX, p.x);
+        maxY = Math.max(maxY, p.y);
+      }
+
+      const offset = instanceCount * OBSTACLE_INSTANCE_STRIDE;
+      this.obstacleInstanceData[offset] = minX - pad;
+      this.obstacleInstanceData[offset + 1] = minY - pad;
+      this.obstacleInstanceData[offset + 2] = maxX + pad;
+      this.obstacleInstanceData[offset + 3] = maxY + pad;
+      this.obstacleInstanceData[offset + 4] = segmentCount;
+      this.obstacleInstanceData[offset + 5] = written;
+      this.obstacleInstanceData[offset + 6] = alpha;
+      this.obstacleInstanceData[offset + 7] = 0;
+      instanceCount++;
+      segmentCount += written;
+    };
+
+    for (const obstacle of obstacles) {
+      addInstance(obstacle, 1, MAX_OBSTACLE_SEGMENTS);
+    }
+    if (draft) {
+      addInstance(previewObstacle(draft), 0.5, MAX_RENDER_SEGMENTS);
+    }
+
+    if (instanceCount === 0) return;
+
+    // Upload data
+    const uniformData = new Float32Array([
+      this.worldWidth,
+      this.worldHeight,
+      performance.now() / 1000,
+      0,
+    ]);
+    this.flux.device.queue.writeBuffer(this.obstacleUniformBuffer!, 0, uniformData);
+    this.flux.device.queue.writeBuffer(this.obstacleInstanceBuffer!, 0, this.obstacleInstanceData.buffer, 0, instanceCount * OBSTACLE_INSTANCE_STRIDE * 4);
+    this.flux.device.queue.writeBuffer(this.obstacleSegmentBuffer!, 0, this.obstacleSegmentData.buffer, 0, segmentCount * OBSTACLE_SEGMENT_STRIDE * 4);
+
+    renderPass.setPipeline(this.obstaclePipeline);
+    renderPass.setBindGroup(0, this.obstacleBindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
     renderPass.draw(6, instanceCount);
   }
 
@@ -894,8 +1324,30 @@ export class EnvironmentRenderer {
   destroy(): void {
     this.envUniformBuffer?.destroy();
     this.envInstanceBuffer?.destroy();
+    this.territoryInstanceBuffer?.destroy();
+    this.inspectionInstanceBuffer?.destroy();
     this.predatorUniformBuffer?.destroy();
     this.predatorBuffer?.destroy();
     this.windUniformBuffer?.destroy();
+    this.obstacleUniformBuffer?.destroy();
+    this.obstacleInstanceBuffer?.destroy();
+    this.obstacleSegmentBuffer?.destroy();
   }
 }
+
+/**
+ * Obstacle shape to draw while placing: a polygon or wall without enough
+ * points yet is previewed as a thin line or point.
+ */
+function previewObstacle(draft: IObstacle): IObstacle {
+  const complete = draft.shape === 'circle' ||
+    (draft.shape === 'wall' && draft.points.length >= 2) ||
+    (draft.shape === 'polygon' && draft.points.length >= 3);
+  if (complete) return draft;
+
+  return {
+    ...draft,
+    shape: draft.points.length === 1 ? 'circle' : 'wall',
+    radius: DRAFT_LINE_RADIUS
+  };
+}
@@ -1,9 +1,48 @@
 import type { Flux, FluxRenderPipeline } from '@flux-gpu/core';
 import { lerpColor, clamp } from '../utils/MathUtils';
-import type { IRenderingConfig } from '../types';
+import type { IRenderingConfig, IGPUSimulationBuffers } from '../types';
 import type { BirdArrays } from '../simulation/Bird';
+import { VIEW_SHADER, type ViewUniform } from './ViewUniform';
 
-// Version: 2.1.0 - Fixed WGSL shader for WebGPU compatibility
+// Version: 2.2.0 - Zero-copy rendering from the GPU simulation buffers
+
+/**
+ * Fragment stage shared by both bird shaders: brightens flashing fireflies.
+ */
+const BIRD_FRAGMENT = `
+@fragment
+fn fs_main(
+  @location(0) color: vec4f,
+  @location(1) glow_factor: f32
+) -> @location(0) vec4f {
+  // Base color
+  var final_color = color;
+  
+  // Apply glow effect: brighten the color based on glow factor
+  // This creates a luminous effect when fireflies flash
+  if (glow_factor > 0.01) {
+    // Boost brightness for glow
+    let glow_boost = 1.0 + glow_factor * 2.0;
+    final_color = vec4f(
+      min(1.0, color.r * glow_boost),
+      min(1.0, color.g * glow_boost),
+      min(1.0, color.b * glow_boost),
+      color.a
+    );
+    
+    // Add a slight additive glow (HDR-like effect)
+    let additive = glow_factor * 0.3;
+    final_color = vec4f(
+      min(1.0, final_color.r + additive),
+      min(1.0, final_color.g + additive * 0.8),
+      min(1.0, final_color.b + additive * 0.2),
+      final_color.a
+    );
+  }
+  
+  return final_color;
+}
+`;
 
 /**
  * WGSL shader for instanced bird rendering with firefly glow support.
@@ -34,7 +73,7 @@ struct BirdData {
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
 @group(0) @binding(1) var<storage, read> birds: array<BirdData>;
-
+${VIEW_SHADER}
 struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) color: vec4f,
@@ -84,57 +123,161 @@ fn vs_main(
   // World position
   let world_pos = bird.position + rotated;
   
-  // Convert to clip space (-1 to 1)
-  let clip_x = (world_pos.x / uniforms.screen_width) * 2.0 - 1.0;
-  let clip_y = 1.0 - (world_pos.y / uniforms.screen_height) * 2.0;
-  
   var output: VertexOutput;
-  output.position = vec4f(clip_x, clip_y, 0.0, 1.0);
+  output.position = world_to_clip(world_pos);
   output.color = unpack_color(bird.color);
   output.glow_factor = bird.glow_intensity * uniforms.glow_enabled * uniforms.glow_intensity_mult;
   return output;
 }
 
-@fragment
-fn fs_main(
+${BIRD_FRAGMENT}`;
+
+/**
+ * WGSL shader for rendering straight from the simulation buffers.
+ * Colors are derived on the GPU from state, velocity, glow and species;
+ * modes that depend on CPU-only state (gender, mating) read a per-bird color buffer.
+ */
+const RESIDENT_BIRD_SHADER = `
+struct Uniforms {
+  screen_width: f32,
+  screen_height: f32,
+  particle_size: f32,
+  time: f32,
+  glow_enabled: f32,
+  glow_intensity_mult: f32,
+  color_mode: u32,
+  constant_glow: f32,
+  color_low: u32,
+  color_high: u32,
+  palette_size: u32,
+  padding: u32,
+  palette: array<vec4u, 2>,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> positions: array<vec2f>;
+@group(0) @binding(2) var<storage, read> velocities: array<vec2f>;
+@group(0) @binding(3) var<storage, read> states: array<vec4f>;
+@group(0) @binding(4) var<storage, read> glow: array<f32>;
+@group(0) @binding(5) var<storage, read> species: array<u32>;
+@group(0) @binding(6) var<storage, read> colors: array<u32>;
+${VIEW_SHADER}
+// Color modes (see RESIDENT_COLOR_MODES)
+const MODE_DENSITY = 1u;
+const MODE_SPEED = 2u;
+const MODE_PANIC = 3u;
+const MODE_FIREFLY = 4u;
+const MODE_SPECIES = 5u;
+const MODE_CPU = 6u;
+
+struct VertexOutput {
+  @builtin(position) position: vec4f,
   @location(0) color: vec4f,
-  @location(1) glow_factor: f32
-) -> @location(0) vec4f {
-  // Base color
-  var final_color = color;
+  @location(1) glow_factor: f32,
+}
+
+// Unpack RGBA color from u32
+fn unpack_color(packed: u32) -> vec4f {
+  let r = f32((packed >> 16u) & 0xFFu) / 255.0;
+  let g = f32((packed >> 8u) & 0xFFu) / 255.0;
+  let b = f32(packed & 0xFFu) / 255.0;
+  return vec4f(r, g, b, 1.0);
+}
+
+// Tint for the active color mode (low/high are the gradient end colors)
+fn bird_color(idx: u32, firefly_glow: f32) -> vec4f {
+  let low = unpack_color(uniforms.color_low);
+  let high = unpack_color(uniforms.color_high);
+  let mode = uniforms.color_mode;
   
-  // Apply glow effect: brighten the color based on glow factor
-  // This creates a luminous effect when fireflies flash
-  if (glow_factor > 0.01) {
-    // Boost brightness for glow
-    let glow_boost = 1.0 + glow_factor * 2.0;
-    final_color = vec4f(
-      min(1.0, color.r * glow_boost),
-      min(1.0, color.g * glow_boost),
-      min(1.0, color.b * glow_boost),
-      color.a
-    );
-    
-    // Add a slight additive glow (HDR-like effect)
-    let additive = glow_factor * 0.3;
-    final_color = vec4f(
-      min(1.0, final_color.r + additive),
-      min(1.0, final_color.g + additive * 0.8),
-      min(1.0, final_color.b + additive * 0.2),
-      final_color.a
-    );
+  if (mode == MODE_DENSITY) {
+    return mix(low, high, clamp(states[idx].y, 0.0, 1.0));
+  } else if (mode == MODE_SPEED) {
+    return mix(low, high, clamp(length(velocities[idx]) / 20.0, 0.0, 1.0));
+  } else if (mode == MODE_PANIC) {
+    return mix(low, high, clamp(states[idx].x, 0.0, 1.0));
+  } else if (mode == MODE_FIREFLY) {
+    return mix(low, high, firefly_glow);
+  } else if (mode == MODE_SPECIES && uniforms.palette_size > 0u) {
+    let slot = species[idx] % uniforms.palette_size;
+    return unpack_color(uniforms.palette[slot / 4u][slot % 4u]);
+  } else if (mode == MODE_CPU) {
+    return unpack_color(colors[idx]);
   }
+  return low;
+}
+
+@vertex
+fn vs_main(
+  @builtin(vertex_index) vertex_idx: u32,
+  @builtin(instance_index) instance_idx: u32
+) -> VertexOutput {
+  let position = positions[instance_idx];
+  let heading = states[instance_idx].w;
+  let firefly_glow = clamp(glow[instance_idx], 0.0, 1.0);
   
-  return final_color;
+  // Firefly mode glows with the oscillator, plain glow uses a constant intensity
+  var glow_intensity = glow[instance_idx];
+  if (uniforms.color_mode == MODE_FIREFLY) {
+    glow_intensity = firefly_glow;
+  } else if (uniforms.constant_glow >= 0.0) {
+    glow_intensity = uniforms.constant_glow;
+  }
+  
+  // Scale size based on glow intensity for pulsing effect
+  let glow_scale = 1.0 + glow_intensity * uniforms.glow_enabled * 0.3;
+  let size = uniforms.particle_size * 4.0 * glow_scale;
+  
+  // Arrow shape vertices (pointing right at heading=0)
+  var local_pos = vec2f(0.0, 0.0);
+  if (vertex_idx == 0u) {
+    local_pos = vec2f(size, 0.0);  // tip
+  } else if (vertex_idx == 1u) {
+    local_pos = vec2f(-size * 0.5, size * 0.4);  // top-left
+  } else if (vertex_idx == 2u) {
+    local_pos = vec2f(-size * 0.5, -size * 0.4);  // bottom-left
+  }
+  
+  // Rotate by heading
+  let cos_h = cos(heading);
+  let sin_h = sin(heading);
+  let rotated = vec2f(
+    local_pos.x * cos_h - local_pos.y * sin_h,
+    local_pos.x * sin_h + local_pos.y * cos_h
+  );
+  
+  // World position
+  let world_pos = position + rotated;
+  
+  var output: VertexOutput;
+  output.position = world_to_clip(world_pos);
+  output.color = bird_color(instance_idx, firefly_glow);
+  output.glow_factor = glow_intensity * uniforms.glow_enabled * uniforms.glow_intensity_mult;
+  return output;
 }
-`;
+${BIRD_FRAGMENT}`;
+
+// Color mode codes for the resident shader; other modes use the CPU color buffer
+const RESIDENT_COLOR_MODES: Partial<Record<IRenderingConfig['colorMode'], number>> = {
+  solid: 0,
+  density: 1,
+  speed: 2,
+  panic: 3,
+  firefly: 4,
+  species: 5
+};
+const RESIDENT_MODE_CPU = 6;
+
+// Species colors that fit in the resident uniform palette
+const RESIDENT_PALETTE_SIZE = 8;
 
 /**
  * Renders the flock using flux-gpu with GPU instancing.
- * Version: 2.0.0 - Added firefly glow support
+ * Version: 2.2.0 - Added firefly glow support and zero-copy GPU simulation path
  */
 export class FlockRenderer {
   private flux: Flux;
+  private view: ViewUniform;
   private config: IRenderingConfig;
   private maxBirds: number;
 
@@ -145,15 +288,25 @@ export class FlockRenderer {
   private bindGroup: GPUBindGroup | null = null;
   private shader: GPUShaderModule | null = null;
 
+  // Zero-copy path: binds the simulation buffers when the flock runs on the GPU
+  private residentPipeline: GPURenderPipeline | null = null;
+  private residentLayout: GPUBindGroupLayout | null = null;
+  private residentUniformBuffer: GPUBuffer | null = null;
+  private residentColorBuffer: GPUBuffer | null = null;
+  private residentBindGroup: GPUBindGroup | null = null;
+  private simulationBuffers: IGPUSimulationBuffers | null = null;
+  private residentUniforms = new ArrayBuffer(80);
+
   // CPU staging buffer for bird data
   // BirdData: position (2) + heading (1) + color (1) + glow_intensity (1) + padding (3) = 8 floats per bird
   private birdDataCPU: Float32Array;
   private colorCache: Uint32Array;
   private glowCache: Float32Array;
 
-  constructor(flux: Flux, config: IRenderingConfig, maxBirds: number) {
-    console.log('FlockRenderer v2.1.0 initialized (firefly glow support)');
+  constructor(flux: Flux, view: ViewUniform, config: IRenderingConfig, maxBirds: number) {
+    console.log('FlockRenderer v2.2.0 initialized (firefly glow support, zero-copy GPU path)');
     this.flux = flux;
+    this.view = view;
     this.config = config;
     this.maxBirds = maxBirds;
 
@@ -215,9 +368,9 @@ export class FlockRenderer {
       ],
     });
 
-    // Create pipeline layout
+    // Create pipeline layout (camera view matrix in group 1)
     const pipelineLayout = device.createPipelineLayout({
-      bindGroupLayouts: [bindGroupLayout],
+      bindGroupLayouts: [bindGroupLayout, this.view.layout],
     });
 
     // Create render pipeline
@@ -254,6 +407,84 @@ export class FlockRenderer {
     });
 
     this.pipeline = pipeline as unknown as FluxRenderPipeline;
+
+    this.initResidentResources();
+  }
+
+  /**
+   * Create the pipeline that renders straight from the simulation buffers.
+   */
+  private initResidentResources(): void {
+    const device = this.flux.device;
+    const shader = this.flux.shader(RESIDENT_BIRD_SHADER, 'bird-resident-shader');
+
+    // Uniforms: 12 scalars + 8 palette colors = 80 bytes
+    this.residentUniformBuffer = device.createBuffer({
+      size: 80,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      label: 'flock-resident-uniforms',
+    });
+
+    // Per-bird colors for modes computed on the CPU (gender, mating)
+    this.residentColorBuffer = device.createBuffer({
+      size: this.maxBirds * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'bird-colors',
+    });
+
+    const storage = { type: 'read-only-storage' as const };
+    this.residentLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: GPUShaderStage.VERTEX, buffer: storage },
+        { binding: 2, visibility: GPUShaderStage.VERTEX, buffer: storage },
+        { binding: 3, visibility: GPUShaderStage.VERTEX, buffer: storage },
+        { binding: 4, visibility: GPUShaderStage.VERTEX, buffer: storage },
+        { binding: 5, visibility: GPUShaderStage.VERTEX, buffer: storage },
+        { binding: 6, visibility: GPUShaderStage.VERTEX, buffer: storage },
+      ],
+    });
+
+    this.residentPipeline = device.createRenderPipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: [this.residentLayout, this.view.layout] }),
+      vertex: { module: shader, entryPoint: 'vs_main' },
+      fragment: {
+        module: shader,
+        entryPoint: 'fs_main',
+        targets: [{
+          format: this.flux.preferredFormat,
+          blend: {
+            color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+            alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+          },
+        }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
+  }
+
+  /**
+   * Attach the GPU simulation buffers (null to render from the CPU arrays again).
+   */
+  setSimulationBuffers(buffers: IGPUSimulationBuffers | null): void {
+    if (buffers === this.simulationBuffers) return;
+    this.simulationBuffers = buffers;
+    this.residentBindGroup = null;
+
+    if (!buffers || !this.residentLayout) return;
+
+    this.residentBindGroup = this.flux.device.createBindGroup({
+      layout: this.residentLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.residentUniformBuffer! } },
+        { binding: 1, resource: { buffer: buffers.position } },
+        { binding: 2, resource: { buffer: buffers.velocity } },
+        { binding: 3, resource: { buffer: buffers.state } },
+        { binding: 4, resource: { buffer: buffers.glowIntensity } },
+        { binding: 5, resource: { buffer: buffers.species } },
+        { binding: 6, resource: { buffer: this.residentColorBuffer! } },
+      ],
+    });
   }
 
   /**
@@ -350,6 +581,17 @@ export class FlockRenderer {
         }
         break;
 
+      case 'species': {
+        // Species mode: one palette color per species
+        const palette = this.config.speciesColors ?? [];
+        for (let i = 0; i < count; i++) {
+          this.colorCache[i] = palette.length > 0
+            ? palette[birdArrays.speciesId[i] % palette.length]
+            : this.config.particleColor;
+        }
+        break;
+      }
+
       default:
         for (let i = 0; i < count; i++) {
           this.colorCache[i] = this.config.particleColor;
@@ -385,6 +627,11 @@ export class FlockRenderer {
     const count = birdArrays.count;
     if (count === 0) return;
 
+    if (this.residentBindGroup) {
+      this.renderResident(renderPass, birdArrays, screenWidth, screenHeight);
+      return;
+    }
+
     // Calculate colors and glow
     this.calculateTints(birdArrays);
 
@@ -433,14 +680,96 @@ export class FlockRenderer {
     // Render
     renderPass.setPipeline(this.pipeline as unknown as GPURenderPipeline);
     renderPass.setBindGroup(0, this.bindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
     renderPass.draw(3, count); // 3 vertices per triangle, count instances
   }
 
+  /**
+   * Render straight from the simulation buffers; only uniforms (and CPU-derived
+   * colors for gender/mating modes) are uploaded.
+   */
+  private renderResident(
+    renderPass: GPURenderPassEncoder,
+    birdArrays: BirdArrays,
+    screenWidth: number,
+    screenHeight: number
+  ): void {
+    const count = birdArrays.count;
+    const mode = this.config.colorMode;
+    const modeCode = RESIDENT_COLOR_MODES[mode] ?? RESIDENT_MODE_CPU;
+
+    // Gender and mating states live on the CPU only
+    if (modeCode === RESIDENT_MODE_CPU) {
+      this.calculateTints(birdArrays);
+      this.flux.device.queue.writeBuffer(
+        this.residentColorBuffer!,
+        0,
+        this.colorCache.buffer,
+        0,
+        count * 4
+      );
+    }
+
+    // Gradient end colors per mode
+    let colorLow = this.config.particleColor;
+    let colorHigh = this.config.particleColor;
+    switch (mode) {
+      case 'density':
+        colorLow = this.config.lowDensityColor;
+        colorHigh = this.config.highDensityColor;
+        break;
+      case 'speed':
+        colorLow = this.config.slowColor;
+        colorHigh = this.config.fastColor;
+        break;
+      case 'panic':
+        colorLow = this.config.calmColor;
+        colorHigh = this.config.panicColor;
+        break;
+      case 'firefly':
+        colorLow = this.config.fireflyDimColor ?? 0x3d2814;
+        colorHigh = this.config.fireflyGlowColor ?? 0xf7dc6f;
+        break;
+    }
+
+    const glowEnabled = mode === 'firefly' || this.config.glowEnabled;
+    // Constant glow without firefly mode (negative = use the per-bird glow)
+    const constantGlow = mode !== 'firefly' && this.config.glowEnabled
+      ? this.config.glowIntensity ?? 0.5
+      : -1;
+    const palette = (this.config.speciesColors ?? []).slice(0, RESIDENT_PALETTE_SIZE);
+
+    const floats = new Float32Array(this.residentUniforms);
+    const uints = new Uint32Array(this.residentUniforms);
+    floats[0] = screenWidth;
+    floats[1] = screenHeight;
+    floats[2] = this.config.particleSize;
+    floats[3] = performance.now() / 1000;
+    floats[4] = glowEnabled ? 1.0 : 0.0;
+    floats[5] = this.config.glowIntensity ?? 1.0;
+    uints[6] = modeCode;
+    floats[7] = constantGlow;
+    uints[8] = colorLow;
+    uints[9] = colorHigh;
+    uints[10] = palette.length;
+    uints[11] = 0;
+    uints.fill(0, 12, 12 + RESIDENT_PALETTE_SIZE);
+    uints.set(palette, 12);
+    this.flux.device.queue.writeBuffer(this.residentUniformBuffer!, 0, this.residentUniforms);
+
+    renderPass.setPipeline(this.residentPipeline!);
+    renderPass.setBindGroup(0, this.residentBindGroup!);
+    renderPass.setBindGroup(1, this.view.bindGroup);
+    renderPass.draw(3, count);
+  }
+
   /**
    * Clean up resources.
    */
   destroy(): void {
     this.uniformBuffer?.destroy();
     this.birdDataBuffer?.destroy();
+    this.residentUniformBuffer?.destroy();
+    this.residentColorBuffer?.destroy();
   }
 }
@@ -0,0 +1,95 @@
+import type { BirdArrays } from '../simulation/Bird';
+import { FORCE_COMPONENTS, type ForceRecorder } from '../simulation/ForceRecorder';
+import type { ForceComponent, IVector2 } from '../types';
+
+// Version: 1.0.0 - Per-rule force arrows for the debug overlay
+
+/** Arrow color per force component */
+export const FORCE_COLORS: Record<ForceComponent, number> = {
+  alignment: 0x00d4ff,
+  cohesion: 0x44ff44,
+  separation: 0xff6666,
+  boundary: 0xffaa00,
+  wind: 0xaaaaff,
+  wander: 0xcccccc,
+  attractor: 0xff66ff,
+  flee: 0xffff00
+};
+
+// Birds drawn at most
+export const MAX_FORCE_BIRDS = 500;
+
+// Floats per arrow: start x/y, end x/y, color (u32 bits), pad
+export const FORCE_ARROW_STRIDE = 6;
+
+// Shorter arrows (world units) are left out
+const MIN_ARROW_LENGTH = 0.5;
+
+/**
+ * Force arrows of the last CPU step, packed once per frame for whichever
+ * renderer draws them. Each arrow starts at a bird and points along one of its
+ * recorded force components, scaled to world units.
+ */
+export class ForceArrows {
+  readonly data: Float32Array;
+  private colorView: DataView;
+  private _count: number = 0;
+  private force: IVector2 = { x: 0, y: 0 };
+
+  constructor() {
+    this.data = new Float32Array(MAX_FORCE_BIRDS * FORCE_COMPONENTS.length * FORCE_ARROW_STRIDE);
+    this.colorView = new DataView(this.data.buffer);
+  }
+
+  /** Number of packed arrows */
+  get count(): number {
+    return this._count;
+  }
+
+  /**
+   * Pack the arrows of the given birds (at most MAX_FORCE_BIRDS).
+   * @param scale Arrow length per unit of force
+   */
+  build(birdArrays: BirdArrays, recorder: ForceRecorder, birds: ArrayLike<number>, scale: number): void {
+    const birdCount = Math.min(birds.length, MAX_FORCE_BIRDS);
+    const force = this.force;
+    let count = 0;
+
+    for (let b = 0; b < birdCount; b++) {
+      const i = birds[b];
+      const x = birdArrays.positionX[i];
+      const y = birdArrays.positionY[i];
+
+      for (const component of FORCE_COMPONENTS) {
+        recorder.get(component, i, force);
+        const dx = force.x * scale;
+        const dy = force.y * scale;
+        if (dx * dx + dy * dy < MIN_ARROW_LENGTH * MIN_ARROW_LENGTH) continue;
+
+        const offset = count * FORCE_ARROW_STRIDE;
+        this.data[offset] = x;
+        this.data[offset + 1] = y;
+        this.data[offset + 2] = x + dx;
+        this.data[offset + 3] = y + dy;
+        this.colorView.setUint32((offset + 4) * 4, FORCE_COLORS[component], true);
+        count++;
+      }
+    }
+
+    this._count = count;
+  }
+
+  /**
+   * Drop all arrows.
+   */
+  clear(): void {
+    this._count = 0;
+  }
+
+  /**
+   * Read an arrow's color.
+   */
+  getColor(index: number): number {
+    return this.colorView.getUint32((index * FORCE_ARROW_STRIDE + 4) * 4, true);
+  }
+}
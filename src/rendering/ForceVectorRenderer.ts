@@ -0,0 +1,177 @@
+import type { Flux } from '@flux-gpu/core';
+import { FORCE_ARROW_STRIDE, MAX_FORCE_BIRDS, type ForceArrows } from './ForceArrows';
+import { FORCE_COMPONENTS } from '../simulation/ForceRecorder';
+import { VIEW_SHADER, type ViewUniform } from './ViewUniform';
+
+// Version: 1.0.0 - Force-vector debug overlay
+
+/**
+ * WGSL shader drawing force arrows: a shaft quad and a head triangle each.
+ */
+const ARROW_SHADER = `
+struct Uniforms {
+  line_width: f32,
+  _pad0: f32,
+  _pad1: f32,
+  _pad2: f32,
+}
+
+struct Arrow {
+  start: vec2f,
+  end: vec2f,
+  color: u32,
+  _pad: f32,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> arrows: array<Arrow>;
+${VIEW_SHADER}
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) color: vec4f,
+}
+
+fn unpack_color(packed: u32) -> vec3f {
+  let r = f32((packed >> 16u) & 0xFFu) / 255.0;
+  let g = f32((packed >> 8u) & 0xFFu) / 255.0;
+  let b = f32(packed & 0xFFu) / 255.0;
+  return vec3f(r, g, b);
+}
+
+@vertex
+fn vs_main(
+  @builtin(vertex_index) vertex_idx: u32,
+  @builtin(instance_index) instance_idx: u32
+) -> VertexOutput {
+  let arrow = arrows[instance_idx];
+  let delta = arrow.end - arrow.start;
+  let len = max(length(delta), 0.0001);
+  let dir = delta / len;
+  let normal = vec2f(-dir.y, dir.x);
+  let half_width = uniforms.line_width * 0.5;
+  let head_len = min(len * 0.4, uniforms.line_width * 4.0);
+  let shaft_end = arrow.end - dir * head_len;
+
+  // Shaft (vertices 0-5), then the head (6-8)
+  var world_pos = arrow.end;
+  if (vertex_idx == 0u || vertex_idx == 3u) {
+    world_pos = arrow.start + normal * half_width;
+  } else if (vertex_idx == 1u) {
+    world_pos = arrow.start - normal * half_width;
+  } else if (vertex_idx == 2u || vertex_idx == 4u) {
+    world_pos = shaft_end - normal * half_width;
+  } else if (vertex_idx == 5u) {
+    world_pos = shaft_end + normal * half_width;
+  } else if (vertex_idx == 6u) {
+    world_pos = shaft_end + normal * head_len * 0.5;
+  } else if (vertex_idx == 7u) {
+    world_pos = shaft_end - normal * head_len * 0.5;
+  }
+
+  var output: VertexOutput;
+  output.position = world_to_clip(world_pos);
+  output.color = vec4f(unpack_color(arrow.color), 0.9);
+  return output;
+}
+
+@fragment
+fn fs_main(@location(0) color: vec4f) -> @location(0) vec4f {
+  return color;
+}
+`;
+
+// Arrows drawn at most: every component of every drawn bird
+const MAX_ARROWS = MAX_FORCE_BIRDS * FORCE_COMPONENTS.length;
+
+/**
+ * Draws the force-vector debug overlay with WebGPU.
+ */
+export class ForceVectorRenderer {
+  private flux: Flux;
+  private view: ViewUniform;
+
+  // GPU resources
+  private pipeline: GPURenderPipeline | null = null;
+  private uniformBuffer: GPUBuffer | null = null;
+  private arrowBuffer: GPUBuffer | null = null;
+  private bindGroup: GPUBindGroup | null = null;
+  private uniformData = new Float32Array(4);
+
+  constructor(flux: Flux, view: ViewUniform) {
+    this.flux = flux;
+    this.view = view;
+    this.initGPUResources();
+  }
+
+  private initGPUResources(): void {
+    const device = this.flux.device;
+    const shader = this.flux.shader(ARROW_SHADER, 'force-arrow-shader');
+
+    this.uniformBuffer = device.createBuffer({
+      size: 16,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      label: 'force-arrow-uniforms',
+    });
+
+    this.arrowBuffer = device.createBuffer({
+      size: MAX_ARROWS * FORCE_ARROW_STRIDE * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'force-arrows',
+    });
+
+    const bindGroupLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+      ],
+    });
+
+    this.bindGroup = device.createBindGroup({
+      layout: bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuffer } },
+        { binding: 1, resource: { buffer: this.arrowBuffer } },
+      ],
+    });
+
+    this.pipeline = device.createRenderPipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout, this.view.layout] }),
+      vertex: { module: shader, entryPoint: 'vs_main' },
+      fragment: {
+        module: shader,
+        entryPoint: 'fs_main',
+        targets: [{
+          format: this.flux.preferredFormat,
+          blend: {
+            color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+            alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+          },
+        }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
+  }
+
+  /**
+   * Draw the packed arrows.
+   * @param lineWidth Shaft width in world units
+   */
+  render(renderPass: GPURenderPassEncoder, arrows: ForceArrows, lineWidth: number): void {
+    const count = Math.min(arrows.count, MAX_ARROWS);
+    if (count === 0 || !this.pipeline || !this.bindGroup) return;
+
+    this.uniformData[0] = lineWidth;
+    this.flux.device.queue.writeBuffer(this.uniformBuffer!, 0, this.uniformData);
+    this.flux.device.queue.writeBuffer(this.arrowBuffer!, 0, arrows.data.buffer, 0, count * FORCE_ARROW_STRIDE * 4);
+
+    renderPass.setPipeline(this.pipeline);
+    renderPass.setBindGroup(0, this.bindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
+    renderPass.draw(9, count);
+  }
+
+  destroy(): void {
+    this.uniformBuffer?.destroy();
+    this.arrowBuffer?.destroy();
+  }
+}
@@ -1,7 +1,9 @@
 import type { Flux } from '@flux-gpu/core';
 import type { BirdArrays } from '../simulation/Bird';
+import type { IGPUSimulationBuffers } from '../types';
+import { VIEW_SHADER, type ViewUniform } from './ViewUniform';
 
-// Version: 1.0.0 - Firefly glow halo effect
+// Version: 1.1.0 - Glow halos straight from the GPU simulation buffers
 
 /**
  * WGSL shader for rendering glowing halos behind fireflies.
@@ -23,7 +25,7 @@ struct GlowData {
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
 @group(0) @binding(1) var<storage, read> glows: array<GlowData>;
-
+${VIEW_SHADER}
 struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) uv: vec2f,
@@ -86,12 +88,8 @@ fn vs_main(
   // World position
   let world_pos = glow.position + local_pos;
   
-  // Convert to clip space
-  let clip_x = (world_pos.x / uniforms.screen_width) * 2.0 - 1.0;
-  let clip_y = 1.0 - (world_pos.y / uniforms.screen_height) * 2.0;
-  
   var output: VertexOutput;
-  output.position = vec4f(clip_x, clip_y, 0.0, 1.0);
+  output.position = world_to_clip(world_pos);
   output.uv = uv;
   output.intensity = glow.intensity;
   output.color = unpack_color(glow.color_packed);
@@ -126,6 +124,106 @@ fn fs_main(
 }
 `;
 
+/**
+ * Glow shader reading positions and glow intensity from the simulation buffers.
+ * Every bird gets an instance; dim ones collapse off-screen like in the compacted path.
+ */
+const RESIDENT_GLOW_SHADER = `
+struct Uniforms {
+  screen_width: f32,
+  screen_height: f32,
+  base_radius: f32,
+  time: f32,
+  color_packed: u32,
+  padding1: u32,
+  padding2: u32,
+  padding3: u32,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> positions: array<vec2f>;
+@group(0) @binding(2) var<storage, read> glow: array<f32>;
+${VIEW_SHADER}
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) uv: vec2f,
+  @location(1) intensity: f32,
+  @location(2) color: vec3f,
+}
+
+// Unpack RGB color from u32
+fn unpack_color(packed: u32) -> vec3f {
+  let r = f32((packed >> 16u) & 0xFFu) / 255.0;
+  let g = f32((packed >> 8u) & 0xFFu) / 255.0;
+  let b = f32(packed & 0xFFu) / 255.0;
+  return vec3f(r, g, b);
+}
+
+@vertex
+fn vs_main(
+  @builtin(vertex_index) vertex_idx: u32,
+  @builtin(instance_index) instance_idx: u32
+) -> VertexOutput {
+  let raw = glow[instance_idx];
+  
+  // Only fireflies with significant intensity (above 20%) get a halo
+  if (raw <= 0.2) {
+    var output: VertexOutput;
+    output.position = vec4f(-10.0, -10.0, 0.0, 1.0);
+    output.uv = vec2f(0.0, 0.0);
+    output.intensity = 0.0;
+    output.color = vec3f(0.0, 0.0, 0.0);
+    return output;
+  }
+  
+  // Square the intensity for more dramatic on/off effect
+  let intensity = raw * raw;
+  let radius = uniforms.base_radius * (0.8 + intensity * 0.4);
+  
+  // Quad corners (2 triangles = 6 vertices)
+  var uv = vec2f(0.0, 0.0);
+  if (vertex_idx == 0u) {
+    uv = vec2f(-1.0, -1.0);
+  } else if (vertex_idx == 1u || vertex_idx == 3u) {
+    uv = vec2f(1.0, -1.0);
+  } else if (vertex_idx == 2u || vertex_idx == 5u) {
+    uv = vec2f(-1.0, 1.0);
+  } else {
+    uv = vec2f(1.0, 1.0);
+  }
+  let local_pos = uv * radius;
+  
+  // World position
+  let world_pos = positions[instance_idx] + local_pos;
+  
+  var output: VertexOutput;
+  output.position = world_to_clip(world_pos);
+  output.uv = uv;
+  output.intensity = intensity;
+  output.color = unpack_color(uniforms.color_packed);
+  return output;
+}
+
+@fragment
+fn fs_main(
+  @location(0) uv: vec2f,
+  @location(1) intensity: f32,
+  @location(2) color: vec3f
+) -> @location(0) vec4f {
+  let dist = length(uv);
+  if (dist > 1.0) {
+    discard;
+  }
+  
+  // Same soft exponential falloff as the compacted path
+  let falloff = exp(-dist * dist * 3.0);
+  let alpha = falloff * intensity * 0.35;
+  let glow_color = color * (0.8 + intensity * 0.4);
+  
+  return vec4f(glow_color, alpha);
+}
+`;
+
 const MAX_GLOWS = 10000;
 
 /**
@@ -134,6 +232,7 @@ const MAX_GLOWS = 10000;
  */
 export class GlowEffect {
   private flux: Flux;
+  private view: ViewUniform;
   private enabled: boolean = true;
   private baseRadius: number = 20;
   
@@ -143,13 +242,22 @@ export class GlowEffect {
   private glowBuffer: GPUBuffer | null = null;
   private bindGroup: GPUBindGroup | null = null;
   
+  // Zero-copy path over the simulation buffers (no MAX_GLOWS cap)
+  private residentPipeline: GPURenderPipeline | null = null;
+  private residentLayout: GPUBindGroupLayout | null = null;
+  private residentUniformBuffer: GPUBuffer | null = null;
+  private residentBindGroup: GPUBindGroup | null = null;
+  private simulationBuffers: IGPUSimulationBuffers | null = null;
+  private residentUniforms = new ArrayBuffer(32);
+  
   // CPU staging buffer
   // GlowData: position (2) + intensity (1) + color (1) = 4 floats per glow
   private glowDataCPU: Float32Array;
   
-  constructor(flux: Flux, maxCount: number = MAX_GLOWS, baseRadius: number = 20) {
-    console.log('GlowEffect v1.0.0 initialized');
+  constructor(flux: Flux, view: ViewUniform, maxCount: number = MAX_GLOWS, baseRadius: number = 20) {
+    console.log('GlowEffect v1.1.0 initialized');
     this.flux = flux;
+    this.view = view;
     this.baseRadius = baseRadius;
     
     // 4 floats per glow
@@ -196,7 +304,7 @@ export class GlowEffect {
     
     // Render pipeline with soft additive blending for subtle glow
     this.pipeline = device.createRenderPipeline({
-      layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
+      layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout, this.view.layout] }),
       vertex: { module: shader, entryPoint: 'vs_main' },
       fragment: {
         module: shader,
@@ -212,6 +320,67 @@ export class GlowEffect {
       },
       primitive: { topology: 'triangle-list' },
     });
+    
+    this.initResidentResources();
+  }
+  
+  /**
+   * Create the pipeline that reads the simulation buffers directly.
+   */
+  private initResidentResources(): void {
+    const device = this.flux.device;
+    const shader = this.flux.shader(RESIDENT_GLOW_SHADER, 'glow-resident-shader');
+    
+    this.residentUniformBuffer = device.createBuffer({
+      size: 32, // 4 floats + color + 3 padding
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      label: 'glow-resident-uniforms',
+    });
+    
+    this.residentLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+        { binding: 2, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+      ],
+    });
+    
+    this.residentPipeline = device.createRenderPipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: [this.residentLayout, this.view.layout] }),
+      vertex: { module: shader, entryPoint: 'vs_main' },
+      fragment: {
+        module: shader,
+        entryPoint: 'fs_main',
+        targets: [{
+          format: this.flux.preferredFormat,
+          blend: {
+            color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+            alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+          },
+        }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
+  }
+  
+  /**
+   * Attach the GPU simulation buffers (null to render from the CPU arrays again).
+   */
+  setSimulationBuffers(buffers: IGPUSimulationBuffers | null): void {
+    if (buffers === this.simulationBuffers) return;
+    this.simulationBuffers = buffers;
+    this.residentBindGroup = null;
+    
+    if (!buffers || !this.residentLayout) return;
+    
+    this.residentBindGroup = this.flux.device.createBindGroup({
+      layout: this.residentLayout,
+      entries: [
+        { binding: 0, resource: { buffer: this.residentUniformBuffer! } },
+        { binding: 1, resource: { buffer: buffers.position } },
+        { binding: 2, resource: { buffer: buffers.glowIntensity } },
+      ],
+    });
   }
   
   /**
@@ -242,6 +411,11 @@ export class GlowEffect {
       return;
     }
     
+    if (this.residentBindGroup) {
+      this.renderResident(renderPass, birdArrays.count, screenWidth, screenHeight, glowColor);
+      return;
+    }
+    
     const count = Math.min(birdArrays.count, MAX_GLOWS);
     if (count === 0) return;
     
@@ -287,14 +461,43 @@ export class GlowEffect {
     // Render
     renderPass.setPipeline(this.pipeline);
     renderPass.setBindGroup(0, this.bindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
     renderPass.draw(6, activeCount); // 6 vertices per quad, activeCount instances
   }
   
+  /**
+   * Render halos for every bird straight from the simulation buffers.
+   */
+  private renderResident(
+    renderPass: GPURenderPassEncoder,
+    count: number,
+    screenWidth: number,
+    screenHeight: number,
+    glowColor: number
+  ): void {
+    if (count === 0) return;
+    
+    const floats = new Float32Array(this.residentUniforms);
+    const uints = new Uint32Array(this.residentUniforms);
+    floats[0] = screenWidth;
+    floats[1] = screenHeight;
+    floats[2] = this.baseRadius;
+    floats[3] = performance.now() / 1000;
+    uints[4] = glowColor;
+    this.flux.device.queue.writeBuffer(this.residentUniformBuffer!, 0, this.residentUniforms);
+    
+    renderPass.setPipeline(this.residentPipeline!);
+    renderPass.setBindGroup(0, this.residentBindGroup!);
+    renderPass.setBindGroup(1, this.view.bindGroup);
+    renderPass.draw(6, count);
+  }
+  
   /**
    * Clean up resources.
    */
   destroy(): void {
     this.uniformBuffer?.destroy();
     this.glowBuffer?.destroy();
+    this.residentUniformBuffer?.destroy();
   }
 }
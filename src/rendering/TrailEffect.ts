@@ -1,7 +1,13 @@
 import type { Flux } from '@flux-gpu/core';
 import type { BirdArrays } from '../simulation/Bird';
+import type { IGPUSimulationBuffers } from '../types';
+import { VIEW_SHADER, type ViewUniform } from './ViewUniform';
 
-// Version: 1.1.0 - Fixed WGSL shader compatibility
+// Version: 1.3.0 - Trails break where birds wrap across the world edges
+
+// Segments longer than this on either axis are jumps across a wrapped or open
+// world edge; they are left out so trails don't streak across the screen
+const TRAIL_BREAK_DISTANCE = 100;
 
 /**
  * WGSL shader for rendering bird trails as line segments.
@@ -27,7 +33,7 @@ struct TrailSegment {
 
 @group(0) @binding(0) var<uniform> uniforms: Uniforms;
 @group(0) @binding(1) var<storage, read> segments: array<TrailSegment>;
-
+${VIEW_SHADER}
 struct VertexOutput {
   @builtin(position) position: vec4f,
   @location(0) alpha: f32,
@@ -70,11 +76,8 @@ fn vs_main(
     local_pos = seg.end_pos - perp;
   }
   
-  let clip_x = (local_pos.x / uniforms.screen_width) * 2.0 - 1.0;
-  let clip_y = 1.0 - (local_pos.y / uniforms.screen_height) * 2.0;
-  
   var output: VertexOutput;
-  output.position = vec4f(clip_x, clip_y, 0.0, 1.0);
+  output.position = world_to_clip(local_pos);
   output.alpha = seg.alpha;
   return output;
 }
@@ -85,6 +88,93 @@ fn fs_main(@location(0) alpha: f32) -> @location(0) vec4f {
 }
 `;
 
+/**
+ * WGSL shader for trails built from a GPU ring of position snapshots.
+ * Instance i draws segment i / birdCount of bird i % birdCount, oldest first.
+ */
+const RESIDENT_TRAIL_SHADER = `
+struct Uniforms {
+  screen_width: f32,
+  screen_height: f32,
+  trail_color_r: f32,
+  trail_color_g: f32,
+  trail_color_b: f32,
+  filled: f32,
+  oldest: u32,
+  ring_size: u32,
+  stride: u32,
+  bird_count: u32,
+  padding1: u32,
+  padding2: u32,
+}
+
+@group(0) @binding(0) var<uniform> uniforms: Uniforms;
+@group(0) @binding(1) var<storage, read> history: array<vec2f>;
+${VIEW_SHADER}
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) alpha: f32,
+}
+
+@vertex
+fn vs_main(
+  @builtin(vertex_index) vertex_idx: u32,
+  @builtin(instance_index) instance_idx: u32
+) -> VertexOutput {
+  let bird = instance_idx % uniforms.bird_count;
+  let segment = instance_idx / uniforms.bird_count;
+  let frame_start = (uniforms.oldest + segment) % uniforms.ring_size;
+  let frame_end = (frame_start + 1u) % uniforms.ring_size;
+  let start_pos = history[frame_start * uniforms.stride + bird];
+  let end_pos = history[frame_end * uniforms.stride + bird];
+  
+  // Newer segments are brighter and wider
+  let t = f32(segment + 1u) / uniforms.filled;
+  let alpha = t * 0.5;
+  let width = max(0.5, t * 2.0);
+  
+  // Line direction
+  let dir = end_pos - start_pos;
+  let len = length(dir);
+  
+  // Skip empty segments and jumps across wrapped edges
+  if (len < 0.001 || max(abs(dir.x), abs(dir.y)) > ${TRAIL_BREAK_DISTANCE}.0) {
+    var output: VertexOutput;
+    output.position = vec4f(-2.0, -2.0, 0.0, 1.0); // Off screen
+    output.alpha = 0.0;
+    return output;
+  }
+  
+  let norm_dir = dir / len;
+  let perp = vec2f(-norm_dir.y, norm_dir.x) * width;
+  
+  var local_pos = vec2f(0.0, 0.0);
+  if (vertex_idx == 0u) {
+    local_pos = start_pos - perp;
+  } else if (vertex_idx == 1u) {
+    local_pos = start_pos + perp;
+  } else if (vertex_idx == 2u) {
+    local_pos = end_pos - perp;
+  } else if (vertex_idx == 3u) {
+    local_pos = start_pos + perp;
+  } else if (vertex_idx == 4u) {
+    local_pos = end_pos + perp;
+  } else if (vertex_idx == 5u) {
+    local_pos = end_pos - perp;
+  }
+  
+  var output: VertexOutput;
+  output.position = world_to_clip(local_pos);
+  output.alpha = alpha;
+  return output;
+}
+
+@fragment
+fn fs_main(@location(0) alpha: f32) -> @location(0) vec4f {
+  return vec4f(uniforms.trail_color_r, uniforms.trail_color_g, uniforms.trail_color_b, alpha * 0.5);
+}
+`;
+
 interface TrailPoint {
   x: number;
   y: number;
@@ -98,6 +188,7 @@ const MAX_TRAIL_SEGMENTS = 100000; // Max number of trail line segments
  */
 export class TrailEffect {
   private flux: Flux;
+  private view: ViewUniform;
   private enabled: boolean = false;
   private trailLength: number = 20;
   private color: number = 0x00ff88;
@@ -108,6 +199,20 @@ export class TrailEffect {
   private segmentBuffer: GPUBuffer | null = null;
   private bindGroup: GPUBindGroup | null = null;
 
+  // Zero-copy path: position snapshots copied on the GPU into a ring of frames
+  private maxBirds: number;
+  private residentPipeline: GPURenderPipeline | null = null;
+  private residentLayout: GPUBindGroupLayout | null = null;
+  private residentUniformBuffer: GPUBuffer | null = null;
+  private residentBindGroup: GPUBindGroup | null = null;
+  private historyBuffer: GPUBuffer | null = null;
+  private simulationBuffers: IGPUSimulationBuffers | null = null;
+  private historyRingSize: number = 0;
+  private historyHead: number = 0;
+  private historyFilled: number = 0;
+  private historyBirdCount: number = 0;
+  private residentUniforms = new ArrayBuffer(48);
+
   // Trail history per bird (ring buffer)
   private trailHistory: Map<number, TrailPoint[]> = new Map();
 
@@ -115,9 +220,11 @@ export class TrailEffect {
   private segmentData: Float32Array;
   private currentSegmentCount: number = 0;
 
-  constructor(flux: Flux, _maxBirds: number, trailLength: number = 20, color: number = 0x00ff88) {
-    console.log('TrailEffect v1.1.0 initialized');
+  constructor(flux: Flux, view: ViewUniform, maxBirds: number, trailLength: number = 20, color: number = 0x00ff88) {
+    console.log('TrailEffect v1.2.0 initialized');
     this.flux = flux;
+    this.view = view;
+    this.maxBirds = maxBirds;
     this.trailLength = trailLength;
     this.color = color;
 
@@ -160,7 +267,7 @@ export class TrailEffect {
     });
 
     this.pipeline = device.createRenderPipeline({
-      layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout] }),
+      layout: device.createPipelineLayout({ bindGroupLayouts: [bindGroupLayout, this.view.layout] }),
       vertex: { module: shader, entryPoint: 'vs_main' },
       fragment: {
         module: shader,
@@ -175,6 +282,110 @@ export class TrailEffect {
       },
       primitive: { topology: 'triangle-list' },
     });
+
+    this.initResidentResources();
+  }
+
+  /**
+   * Create the pipeline for the GPU history ring (the ring itself is allocated on first use).
+   */
+  private initResidentResources(): void {
+    const device = this.flux.device;
+    const shader = this.flux.shader(RESIDENT_TRAIL_SHADER, 'trail-resident-shader');
+
+    this.residentUniformBuffer = device.createBuffer({
+      size: 48, // 6 floats + 6 u32
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      label: 'trail-resident-uniforms',
+    });
+
+    this.residentLayout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT, buffer: { type: 'uniform' } },
+        { binding: 1, visibility: GPUShaderStage.VERTEX, buffer: { type: 'read-only-storage' } },
+      ],
+    });
+
+    this.residentPipeline = device.createRenderPipeline({
+      layout: device.createPipelineLayout({ bindGroupLayouts: [this.residentLayout, this.view.layout] }),
+      vertex: { module: shader, entryPoint: 'vs_main' },
+      fragment: {
+        module: shader,
+        entryPoint: 'fs_main',
+        targets: [{
+          format: this.flux.preferredFormat,
+          blend: {
+            color: { srcFactor: 'src-alpha', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+            alpha: { srcFactor: 'one', dstFactor: 'one-minus-src-alpha', operation: 'add' },
+          },
+        }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
+  }
+
+  /**
+   * Attach the GPU simulation buffers (null to record trails from the CPU arrays again).
+   * Switching sources starts the trails over.
+   */
+  setSimulationBuffers(buffers: IGPUSimulationBuffers | null): void {
+    if (buffers === this.simulationBuffers) return;
+    this.simulationBuffers = buffers;
+    this.trailHistory.clear();
+    this.historyFilled = 0;
+  }
+
+  /**
+   * (Re)allocate the history ring when the trail length changed.
+   */
+  private ensureHistoryBuffer(): void {
+    if (this.historyBuffer && this.historyRingSize === this.trailLength) return;
+
+    this.historyBuffer?.destroy();
+    this.historyRingSize = this.trailLength;
+    this.historyHead = 0;
+    this.historyFilled = 0;
+
+    // One vec2f per bird per frame
+    this.historyBuffer = this.flux.device.createBuffer({
+      size: this.historyRingSize * this.maxBirds * 8,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'trail-history',
+    });
+
+    this.residentBindGroup = this.flux.device.createBindGroup({
+      layout: this.residentLayout!,
+      entries: [
+        { binding: 0, resource: { buffer: this.residentUniformBuffer! } },
+        { binding: 1, resource: { buffer: this.historyBuffer } },
+      ],
+    });
+  }
+
+  /**
+   * Copy the current GPU positions into the next history frame.
+   * New birds have no history yet, so a growing population restarts the trails.
+   */
+  private updateResident(count: number): void {
+    this.ensureHistoryBuffer();
+    if (count > this.historyBirdCount) {
+      this.historyFilled = 0;
+    }
+    this.historyBirdCount = count;
+    if (count === 0) return;
+
+    const encoder = this.flux.device.createCommandEncoder();
+    encoder.copyBufferToBuffer(
+      this.simulationBuffers!.position,
+      0,
+      this.historyBuffer!,
+      this.historyHead * this.maxBirds * 8,
+      count * 8
+    );
+    this.flux.device.queue.submit([encoder.finish()]);
+
+    this.historyHead = (this.historyHead + 1) % this.historyRingSize;
+    this.historyFilled = Math.min(this.historyFilled + 1, this.historyRingSize);
   }
 
   /**
@@ -185,6 +396,7 @@ export class TrailEffect {
     if (!enabled) {
       this.trailHistory.clear();
       this.currentSegmentCount = 0;
+      this.historyFilled = 0;
     }
   }
 
@@ -204,6 +416,11 @@ export class TrailEffect {
 
     const count = birdArrays.count;
 
+    if (this.simulationBuffers) {
+      this.updateResident(count);
+      return;
+    }
+
     // Update trail history for each bird
     for (let i = 0; i < count; i++) {
       let trail = this.trailHistory.get(i);
@@ -245,6 +462,11 @@ export class TrailEffect {
       return;
     }
 
+    if (this.simulationBuffers) {
+      this.renderResident(renderPass, screenWidth, screenHeight);
+      return;
+    }
+
     // Build segment data
     this.currentSegmentCount = 0;
 
@@ -256,6 +478,10 @@ export class TrailEffect {
 
         const prev = trail[i - 1];
         const curr = trail[i];
+
+        // Break the trail where the bird wrapped across an edge
+        if (Math.abs(curr.x - prev.x) > TRAIL_BREAK_DISTANCE || Math.abs(curr.y - prev.y) > TRAIL_BREAK_DISTANCE) continue;
+
         const alpha = (i / trail.length) * 0.5;
         const width = Math.max(0.5, (i / trail.length) * 2);
 
@@ -302,9 +528,42 @@ export class TrailEffect {
 
     renderPass.setPipeline(this.pipeline);
     renderPass.setBindGroup(0, this.bindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
     renderPass.draw(6, this.currentSegmentCount);
   }
 
+  /**
+   * Render trails from the GPU history ring.
+   */
+  private renderResident(
+    renderPass: GPURenderPassEncoder,
+    screenWidth: number,
+    screenHeight: number
+  ): void {
+    const segments = this.historyFilled - 1;
+    if (segments <= 0 || this.historyBirdCount === 0 || !this.residentBindGroup) return;
+
+    const floats = new Float32Array(this.residentUniforms);
+    const uints = new Uint32Array(this.residentUniforms);
+    floats[0] = screenWidth;
+    floats[1] = screenHeight;
+    floats[2] = ((this.color >> 16) & 0xFF) / 255;
+    floats[3] = ((this.color >> 8) & 0xFF) / 255;
+    floats[4] = (this.color & 0xFF) / 255;
+    floats[5] = this.historyFilled;
+    // Oldest frame still in the ring
+    uints[6] = (this.historyHead - this.historyFilled + this.historyRingSize) % this.historyRingSize;
+    uints[7] = this.historyRingSize;
+    uints[8] = this.maxBirds;
+    uints[9] = this.historyBirdCount;
+    this.flux.device.queue.writeBuffer(this.residentUniformBuffer!, 0, this.residentUniforms);
+
+    renderPass.setPipeline(this.residentPipeline!);
+    renderPass.setBindGroup(0, this.residentBindGroup);
+    renderPass.setBindGroup(1, this.view.bindGroup);
+    renderPass.draw(6, segments * this.historyBirdCount);
+  }
+
   /**
    * Clean up.
    */
@@ -312,5 +571,7 @@ export class TrailEffect {
     this.trailHistory.clear();
     this.uniformBuffer?.destroy();
     this.segmentBuffer?.destroy();
+    this.residentUniformBuffer?.destroy();
+    this.historyBuffer?.destroy();
   }
 }
@@ -0,0 +1,70 @@
+import type { Flux } from '@flux-gpu/core';
+import type { Camera } from './Camera';
+
+// Version: 1.0.0 - Shared camera matrix for the WebGPU renderers
+
+/**
+ * WGSL declarations for the view uniform. Shaders drawing in world space bind
+ * it as group 1 and map positions with world_to_clip().
+ */
+export const VIEW_SHADER = `
+@group(1) @binding(0) var<uniform> view_matrix: mat3x3<f32>;
+
+fn world_to_clip(world_pos: vec2f) -> vec4f {
+  let clip = view_matrix * vec3f(world_pos, 1.0);
+  return vec4f(clip.xy, 0.0, 1.0);
+}
+`;
+
+// mat3x3<f32>: three columns padded to four floats
+const VIEW_MATRIX_FLOATS = 12;
+
+/**
+ * Camera view matrix shared by all world-space WebGPU pipelines.
+ * Updated once per frame; renderers add `layout` to their pipeline layouts
+ * and set `bindGroup` at index 1.
+ */
+export class ViewUniform {
+  readonly layout: GPUBindGroupLayout;
+  readonly bindGroup: GPUBindGroup;
+
+  private flux: Flux;
+  private buffer: GPUBuffer;
+  private matrix = new Float32Array(VIEW_MATRIX_FLOATS);
+
+  constructor(flux: Flux) {
+    const device = flux.device;
+    this.flux = flux;
+
+    this.buffer = device.createBuffer({
+      size: VIEW_MATRIX_FLOATS * 4,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      label: 'view-uniforms',
+    });
+
+    this.layout = device.createBindGroupLayout({
+      entries: [
+        { binding: 0, visibility: GPUShaderStage.VERTEX, buffer: { type: 'uniform' } },
+      ],
+    });
+
+    this.bindGroup = device.createBindGroup({
+      layout: this.layout,
+      entries: [
+        { binding: 0, resource: { buffer: this.buffer } },
+      ],
+    });
+  }
+
+  /**
+   * Upload the camera's current world-to-clip matrix.
+   */
+  update(camera: Camera): void {
+    camera.writeViewMatrix(this.matrix);
+    this.flux.device.queue.writeBuffer(this.buffer, 0, this.matrix);
+  }
+
+  destroy(): void {
+    this.buffer.destroy();
+  }
+}
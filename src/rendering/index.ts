@@ -2,4 +2,8 @@ export { FlockRenderer } from './FlockRenderer';
 export { EnvironmentRenderer } from './EnvironmentRenderer';
 export { TrailEffect } from './TrailEffect';
 export { Canvas2DRenderer } from './Canvas2DRenderer';
+export { Camera } from './Camera';
+export { ViewUniform } from './ViewUniform';
 
+export { ForceArrows, FORCE_COLORS } from './ForceArrows';
+export { ForceVectorRenderer } from './ForceVectorRenderer';
@@ -0,0 +1,148 @@
+import { SESSION_FORMAT_VERSION } from './SessionRecorder';
+import type { ISessionRecording, SessionEvent } from '../types';
+
+/**
+ * Plays back a recorded session frame by frame.
+ *
+ * The player only tracks the position in the recording; the caller restarts
+ * the world from the recorded config and seed, applies the events returned by
+ * takeEvents() and simulates each frame with the recorded delta time.
+ * Playback speed scales how many recorded frames are due per real second.
+ */
+export class SessionPlayer {
+  readonly recording: ISessionRecording;
+
+  // Playback position
+  private frame: number = 0;
+  private eventIndex: number = 0;
+  private clock: number = 0;
+
+  // Controls
+  private playing: boolean = true;
+  private speed: number = 1;
+
+  constructor(recording: ISessionRecording) {
+    this.recording = recording;
+  }
+
+  /**
+   * Parse and validate a recording exported as JSON.
+   * @throws Error if the text is not a session recording of a supported version
+   */
+  static parse(json: string): ISessionRecording {
+    const recording = JSON.parse(json) as Partial<ISessionRecording>;
+
+    if (!recording || typeof recording !== 'object') {
+      throw new Error('Invalid session recording');
+    }
+    if (recording.version !== SESSION_FORMAT_VERSION) {
+      throw new Error(`Unsupported session recording version: ${recording.version}`);
+    }
+    if (
+      typeof recording.seed !== 'number' ||
+      !recording.config?.simulation ||
+      !recording.config.environment ||
+      !Array.isArray(recording.frames) ||
+      !Array.isArray(recording.events)
+    ) {
+      throw new Error('Invalid session recording');
+    }
+
+    return recording as ISessionRecording;
+  }
+
+  /**
+   * Number of recorded frames.
+   */
+  get frameCount(): number {
+    return this.recording.frames.length;
+  }
+
+  /**
+   * Index of the next frame to simulate.
+   */
+  get currentFrame(): number {
+    return this.frame;
+  }
+
+  /**
+   * Playback position (0 = start, 1 = end).
+   */
+  get position(): number {
+    return this.frameCount > 0 ? this.frame / this.frameCount : 1;
+  }
+
+  /**
+   * Check if every frame has been played.
+   */
+  get isFinished(): boolean {
+    return this.frame >= this.frameCount;
+  }
+
+  /**
+   * Check if playback is running.
+   */
+  get isPlaying(): boolean {
+    return this.playing && !this.isFinished;
+  }
+
+  /**
+   * Start or pause playback.
+   */
+  setPlaying(playing: boolean): void {
+    this.playing = playing;
+  }
+
+  /**
+   * Set the playback speed multiplier (1 = recorded speed).
+   */
+  setSpeed(speed: number): void {
+    this.speed = Math.max(0, speed);
+  }
+
+  /**
+   * Go back to the first frame. The world must be restarted as well.
+   */
+  rewind(): void {
+    this.frame = 0;
+    this.eventIndex = 0;
+    this.clock = 0;
+  }
+
+  /**
+   * Advance the playback clock by real time.
+   * @returns Number of recorded frames due
+   */
+  advance(realDeltaTime: number): number {
+    if (!this.isPlaying) return 0;
+
+    this.clock += realDeltaTime * this.speed;
+    const frames = this.recording.frames;
+    let due = 0;
+    while (this.frame + due < frames.length && this.clock >= frames[this.frame + due]) {
+      this.clock -= frames[this.frame + due];
+      due++;
+    }
+    return due;
+  }
+
+  /**
+   * Events to apply before the next frame.
+   */
+  takeEvents(): SessionEvent[] {
+    const events = this.recording.events;
+    const start = this.eventIndex;
+    while (this.eventIndex < events.length && events[this.eventIndex].frame <= this.frame) {
+      this.eventIndex++;
+    }
+    return events.slice(start, this.eventIndex);
+  }
+
+  /**
+   * Move past the next frame.
+   * @returns Its recorded delta time
+   */
+  nextFrame(): number {
+    return this.recording.frames[this.frame++] ?? 0;
+  }
+}
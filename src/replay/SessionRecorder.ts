@@ -0,0 +1,112 @@
+import type { ISessionConfig, ISessionRecording, SessionInput } from '../types';
+
+// Recording format version, bumped when the layout changes
+export const SESSION_FORMAT_VERSION = 1;
+
+/**
+ * JSON replacer that leaves out the running time of day, which the day/night
+ * cycle advances every frame and the replay reproduces on its own.
+ */
+function omitTimeOfDay(key: string, value: unknown): unknown {
+  return key === 'timeOfDay' ? undefined : value;
+}
+
+/**
+ * Records a session for deterministic playback: the starting config and seed,
+ * the delta time of every simulated frame and every user input in between.
+ *
+ * Config changes are captured as full snapshots whenever the live config
+ * differs from the last snapshot, which also catches control panel bindings
+ * that don't fire a callback.
+ */
+export class SessionRecorder {
+  private recording: ISessionRecording | null = null;
+  private lastConfig: string = '';
+  private lastSettings: string = '';
+  private duration: number = 0;
+
+  /**
+   * Check if a recording is in progress.
+   */
+  get isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Recorded simulation time in seconds.
+   */
+  get recordedTime(): number {
+    return this.duration;
+  }
+
+  /**
+   * Start a new recording. The world must be restarted from this config and seed.
+   */
+  start(config: ISessionConfig, seed: number, width: number, height: number): void {
+    this.lastConfig = JSON.stringify(config);
+    this.lastSettings = JSON.stringify(config, omitTimeOfDay);
+    this.duration = 0;
+    this.recording = {
+      version: SESSION_FORMAT_VERSION,
+      seed,
+      width,
+      height,
+      config: JSON.parse(this.lastConfig),
+      frames: [],
+      events: []
+    };
+  }
+
+  /**
+   * Record a config snapshot if the config changed since the last one.
+   * @param includeTime Also count a changed time of day (set for control panel edits)
+   */
+  captureConfig(config: ISessionConfig, includeTime: boolean = false): void {
+    if (!this.recording) return;
+
+    const settings = JSON.stringify(config, omitTimeOfDay);
+    if (settings === this.lastSettings) {
+      if (!includeTime) return;
+      const full = JSON.stringify(config);
+      if (full === this.lastConfig) return;
+    }
+
+    this.lastSettings = settings;
+    this.lastConfig = JSON.stringify(config);
+    this.record({ type: 'config', config: JSON.parse(this.lastConfig) });
+  }
+
+  /**
+   * Record a user input. It replays before the next recorded frame.
+   */
+  record(input: SessionInput): void {
+    if (!this.recording) return;
+    this.recording.events.push({ ...input, frame: this.recording.frames.length });
+  }
+
+  /**
+   * Record the delta time of a simulated frame.
+   */
+  recordFrame(deltaTime: number): void {
+    if (!this.recording) return;
+    this.recording.frames.push(deltaTime);
+    this.duration += deltaTime;
+  }
+
+  /**
+   * Get the recording in progress.
+   */
+  getRecording(): ISessionRecording | null {
+    return this.recording;
+  }
+
+  /**
+   * Finish the recording.
+   * @returns The finished recording, or null if none was in progress
+   */
+  stop(): ISessionRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    return recording;
+  }
+}
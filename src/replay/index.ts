@@ -0,0 +1,2 @@
+export { SessionRecorder, SESSION_FORMAT_VERSION } from './SessionRecorder';
+export { SessionPlayer } from './SessionPlayer';
@@ -1,5 +1,8 @@
 import { Vector2 } from '../utils/Vector2';
+import type { Random } from '../utils/Random';
+import { encodeTypedArray, decodeTypedArray } from '../utils/Encoding';
 import type {
+  IBirdArraysSnapshot,
   IVector2,
   ISimulationConfig,
   Gender,
@@ -56,21 +59,21 @@ export class Bird {
   // Cached values
   private _heading: number = 0;
 
-  constructor(id: number, x: number, y: number) {
+  constructor(id: number, x: number, y: number, rng: Random) {
     this.id = id;
     this.position = new Vector2(x, y);
-    this.velocity = Vector2.random().mult(5);
+    this.velocity = Vector2.random(rng).mult(5);
     this.acceleration = new Vector2();
 
     // 50/50 gender assignment
-    this.gender = Math.random() < 0.5 ? 'male' : 'female';
+    this.gender = rng.next() < 0.5 ? 'male' : 'female';
 
     // Males have aggression for fighting
-    this.aggressionLevel = this.gender === 'male' ? 0.5 + Math.random() * 0.5 : 0;
+    this.aggressionLevel = this.gender === 'male' ? 0.5 + rng.next() * 0.5 : 0;
 
     // Firefly glow: random initial phase and slight frequency variation
-    this.glowPhase = Math.random() * Math.PI * 2;
-    this.naturalFrequency = 0.8 + Math.random() * 0.4; // 0.8 to 1.2 Hz variation
+    this.glowPhase = rng.next() * Math.PI * 2;
+    this.naturalFrequency = 0.8 + rng.next() * 0.4; // 0.8 to 1.2 Hz variation
     this.glowIntensity = Math.sin(this.glowPhase) ** 2; // Initial intensity from phase
 
     // Initial heading from velocity
@@ -386,6 +389,17 @@ export class Bird {
 // BirdArrays - Structure of Arrays for GPU Computation
 // ============================================================================
 
+// Per-bird arrays by name, in declaration order
+const BIRD_ARRAY_FIELDS = [
+  'positionX', 'positionY', 'velocityX', 'velocityY',
+  'accelerationX', 'accelerationY', 'heading',
+  'panicLevel', 'localDensity', 'energy', 'aggressionLevel',
+  'glowPhase', 'naturalFrequency', 'glowIntensity',
+  'feedingTimer', 'matingTimer', 'matingCooldown', 'age',
+  'id', 'speciesId', 'gender', 'feedingState', 'matingState',
+  'targetFoodId', 'targetMateId', 'territoryId'
+] as const;
+
 export class BirdArrays {
   count: number;
   readonly maxCount: number;
@@ -414,6 +428,7 @@ export class BirdArrays {
   feedingTimer: Float32Array;
   matingTimer: Float32Array;
   matingCooldown: Float32Array;
+  age: Float32Array;               // Seconds since spawn/birth
 
   // Identity/Enums (Int32)
   id: Int32Array;
@@ -423,9 +438,20 @@ export class BirdArrays {
   matingState: Int32Array; // 0-6 for different states
   targetFoodId: Int32Array;
   targetMateId: Int32Array;
+  territoryId: Int32Array;  // Home territory (-1 = unassigned)
+
+  // Every per-bird array, for swap-remove copies
+  private readonly fields: Array<Float32Array | Int32Array>;
+
+  // Next unique bird id for births
+  private nextId: number = 0;
+
+  // Random source of the owning simulation
+  private readonly rng: Random;
 
-  constructor(maxCount: number) {
+  constructor(maxCount: number, rng: Random) {
     this.maxCount = maxCount;
+    this.rng = rng;
     this.count = 0;
 
     // Physics
@@ -452,6 +478,7 @@ export class BirdArrays {
     this.feedingTimer = new Float32Array(maxCount);
     this.matingTimer = new Float32Array(maxCount);
     this.matingCooldown = new Float32Array(maxCount);
+    this.age = new Float32Array(maxCount);
 
     // Identity
     this.id = new Int32Array(maxCount);
@@ -461,6 +488,40 @@ export class BirdArrays {
     this.matingState = new Int32Array(maxCount);
     this.targetFoodId = new Int32Array(maxCount);
     this.targetMateId = new Int32Array(maxCount);
+    this.territoryId = new Int32Array(maxCount);
+
+    this.fields = BIRD_ARRAY_FIELDS.map(name => this[name]);
+  }
+
+  /**
+   * Serialize every per-bird array up to count.
+   */
+  serialize(): IBirdArraysSnapshot {
+    const arrays: Record<string, string> = {};
+    for (const name of BIRD_ARRAY_FIELDS) {
+      arrays[name] = encodeTypedArray(this[name], this.count);
+    }
+    return { count: this.count, nextId: this.nextId, arrays };
+  }
+
+  /**
+   * Replace the flock with serialized birds.
+   * @throws Error if the snapshot holds more birds than fit or misses an array
+   */
+  deserialize(snapshot: IBirdArraysSnapshot): void {
+    if (snapshot.count > this.maxCount) {
+      throw new Error(`Snapshot holds ${snapshot.count} birds, at most ${this.maxCount} fit`);
+    }
+
+    for (const name of BIRD_ARRAY_FIELDS) {
+      const encoded = snapshot.arrays[name];
+      if (encoded === undefined || decodeTypedArray(encoded, this[name]) !== snapshot.count) {
+        throw new Error(`Snapshot bird array "${name}" is missing or has the wrong length`);
+      }
+    }
+
+    this.count = snapshot.count;
+    this.nextId = snapshot.nextId;
   }
 
   /**
@@ -496,6 +557,7 @@ export class BirdArrays {
       this.feedingTimer[i] = bird.feedingTimer;
       this.matingTimer[i] = bird.matingTimer;
       this.matingCooldown[i] = bird.matingCooldown;
+      this.age[i] = 0;
 
       // Identity
       this.id[i] = bird.id;
@@ -505,7 +567,10 @@ export class BirdArrays {
       this.matingState[i] = ['none', 'seeking', 'approaching', 'courting', 'mating', 'fighting', 'cooldown'].indexOf(bird.matingState);
       this.targetFoodId[i] = bird.targetFoodId;
       this.targetMateId[i] = bird.targetMateId;
+      this.territoryId[i] = -1;
     }
+
+    this.nextId = this.count;
   }
 
   /**
@@ -545,12 +610,12 @@ export class BirdArrays {
 
     for (let i = 0; i < this.count; i++) {
       // Random position within margins
-      this.positionX[i] = margin + Math.random() * (width - margin * 2);
-      this.positionY[i] = margin + Math.random() * (height - margin * 2);
+      this.positionX[i] = margin + this.rng.next() * (width - margin * 2);
+      this.positionY[i] = margin + this.rng.next() * (height - margin * 2);
 
       // Random velocity
-      const angle = Math.random() * Math.PI * 2;
-      const speed = 3 + Math.random() * 4;
+      const angle = this.rng.next() * Math.PI * 2;
+      const speed = 3 + this.rng.next() * 4;
       this.velocityX[i] = Math.cos(angle) * speed;
       this.velocityY[i] = Math.sin(angle) * speed;
 
@@ -565,28 +630,108 @@ export class BirdArrays {
       this.panicLevel[i] = 0;
       this.localDensity[i] = 0;
       this.energy[i] = 1.0;
-      this.aggressionLevel[i] = Math.random() < 0.5 ? 0.5 + Math.random() * 0.5 : 0;
+      this.aggressionLevel[i] = this.rng.next() < 0.5 ? 0.5 + this.rng.next() * 0.5 : 0;
 
       // Firefly glow state - randomized for natural desynchronization
-      this.glowPhase[i] = Math.random() * Math.PI * 2;
-      this.naturalFrequency[i] = 0.8 + Math.random() * 0.4; // 0.8 to 1.2 Hz
+      this.glowPhase[i] = this.rng.next() * Math.PI * 2;
+      this.naturalFrequency[i] = 0.8 + this.rng.next() * 0.4; // 0.8 to 1.2 Hz
       this.glowIntensity[i] = Math.sin(this.glowPhase[i]) ** 2;
 
       // Timers
       this.feedingTimer[i] = 0;
       this.matingTimer[i] = 0;
       this.matingCooldown[i] = 0;
+      this.age[i] = 0;
 
       // Identity
       this.id[i] = i;
       this.speciesId[i] = 0;
-      this.gender[i] = Math.random() < 0.5 ? 1 : 0;
+      this.gender[i] = this.rng.next() < 0.5 ? 1 : 0;
       this.feedingState[i] = 0;
       this.matingState[i] = 0;
       this.targetFoodId[i] = -1;
       this.targetMateId[i] = -1;
+      this.territoryId[i] = -1;
     }
+
+    this.nextId = this.count;
   }
-}
 
+  /**
+   * Remove bird at index by moving the last bird into its slot.
+   * Mate references are remapped; partners of the removed bird lose their target.
+   * @returns Previous index of the bird moved into `index`, or -1 if none moved
+   */
+  removeAt(index: number): number {
+    if (index < 0 || index >= this.count) return -1;
+
+    const last = this.count - 1;
+    const movedFrom = index !== last ? last : -1;
 
+    if (movedFrom >= 0) {
+      for (const field of this.fields) {
+        field[index] = field[last];
+      }
+    }
+    this.count--;
+
+    for (let i = 0; i < this.count; i++) {
+      const mate = this.targetMateId[i];
+      if (mate === index) {
+        this.targetMateId[i] = -1;
+      } else if (movedFrom >= 0 && mate === movedFrom) {
+        this.targetMateId[i] = index;
+      }
+    }
+
+    return movedFrom;
+  }
+
+  /**
+   * Append a new bird with default state.
+   * @returns Index of the new bird, or -1 if at capacity
+   */
+  append(x: number, y: number, vx: number, vy: number, speciesId: number = 0): number {
+    if (this.count >= this.maxCount) return -1;
+
+    const i = this.count++;
+
+    // Physics
+    this.positionX[i] = x;
+    this.positionY[i] = y;
+    this.velocityX[i] = vx;
+    this.velocityY[i] = vy;
+    this.accelerationX[i] = 0;
+    this.accelerationY[i] = 0;
+    this.heading[i] = Math.atan2(vy, vx);
+
+    // State
+    this.panicLevel[i] = 0;
+    this.localDensity[i] = 0;
+    this.energy[i] = 1.0;
+
+    // Firefly glow state
+    this.glowPhase[i] = this.rng.next();
+    this.naturalFrequency[i] = 0.8 + this.rng.next() * 0.4;
+    this.glowIntensity[i] = 0;
+
+    // Timers
+    this.feedingTimer[i] = 0;
+    this.matingTimer[i] = 0;
+    this.matingCooldown[i] = 0;
+    this.age[i] = 0;
+
+    // Identity
+    this.id[i] = this.nextId++;
+    this.speciesId[i] = speciesId;
+    this.gender[i] = this.rng.next() < 0.5 ? 1 : 0;
+    this.aggressionLevel[i] = this.gender[i] === 1 ? 0.5 + this.rng.next() * 0.5 : 0;
+    this.feedingState[i] = 0;
+    this.matingState[i] = 0;
+    this.targetFoodId[i] = -1;
+    this.targetMateId[i] = -1;
+    this.territoryId[i] = -1;
+
+    return i;
+  }
+}
@@ -2,14 +2,75 @@ import type { Flux } from '@flux-gpu/core';
 import { Bird, BirdArrays } from './Bird';
 import { SpatialGrid } from './SpatialGrid';
 import { SwarmRules } from './SwarmRules';
-import { GPUSimulationRunner } from './gpu/GPUSimulationRunner';
-import { degToRad, fbm } from '../utils/MathUtils';
-import type { ISimulationConfig, IEnvironmentConfig, IAttractor } from '../types';
+import { MatingManager } from './MatingManager';
+import { LifecycleManager } from './LifecycleManager';
+import { SpeciesManager, MAX_SPECIES, SPECIES_TABLE_STRIDE } from './SpeciesManager';
+import { OrderMetrics } from './OrderMetrics';
+import { ForceRecorder } from './ForceRecorder';
+import {
+  GPUSimulationRunner,
+  MAX_THREATS,
+  THREAT_STRIDE,
+  MAX_ATTRACTORS,
+  ATTRACTOR_STRIDE
+} from './gpu/GPUSimulationRunner';
+import { degToRad, wrapValue } from '../utils/MathUtils';
+import { Random } from '../utils/Random';
+import { WorldWrap } from '../utils/WorldWrap';
+import { ObstacleField, OBSTACLE_CLEARANCE } from '../environment/Obstacle';
+import type { FoodSourceManager } from '../environment/FoodSource';
+import type { TerritoryManager } from '../environment/Territory';
+import type { DayNightCycle } from '../environment/DayNightCycle';
+import type { BasePredator } from '../environment/predators/BasePredator';
+import type {
+  ISimulationConfig,
+  IEnvironmentConfig,
+  IAttractor,
+  IVector2,
+  IFlockSnapshot,
+  IOrderMetrics,
+  ISteeringTarget,
+  DeathCause,
+  BirdRemovedCallback,
+  IGPUSimulationBuffers,
+  IBirdInspection
+} from '../types';
+import { ReverseFeedingStateMap, ReverseGenderMap, ReverseMatingStateMap } from '../types';
 
 // Fixed timestep for physics
-const FIXED_TIMESTEP = 1 / 60;
+export const FIXED_TIMESTEP = 1 / 60;
 const MAX_SUBSTEPS = 5;
 
+// CPU readbacks per second in GPU mode when the config doesn't set one
+const DEFAULT_READBACK_RATE = 10;
+
+// Weight of food-seeking steering relative to flocking forces
+const FOOD_STEERING_WEIGHT = 1.5;
+
+// Steering modes as encoded in the GPU steering buffer
+const STEERING_MODE_CODES: Record<ISteeringTarget['mode'], number> = {
+  none: 0,
+  arrive: 1,
+  orbit: 2,
+  home: 3
+};
+
+// Floats per bird in the GPU steering buffer (x, y, mode, radius, weight, pad x3)
+const STEERING_STRIDE = 8;
+
+// Panic at a predator's position (silent hunters startle less)
+const PREDATOR_PANIC = 1.0;
+const SILENT_PREDATOR_PANIC = 0.4;
+
+// Flee steering weight at full panic
+const PREDATOR_FLEE_WEIGHT = 2.0;
+
+// Seconds ahead birds predict a predator's position when fleeing
+const PREDATOR_LOOKAHEAD = 0.5;
+
+// Panic decay per step
+const PANIC_DECAY = 0.98;
+
 /**
  * Manages the flock simulation, handling both CPU and GPU compute paths.
  */
@@ -26,10 +87,18 @@ export class Flock {
   private useGPU: boolean = false;
   private gpuReady: boolean = false;
   
+  // GPU mode keeps bird data resident; the CPU copy is refreshed at a lower rate
+  private readbackTimer: number = 0;
+  private readbackRequested: boolean = true;
+  private pendingLifecycleTime: number = 0;
+  
   // Configuration
   private simConfig: ISimulationConfig;
   private envConfig: IEnvironmentConfig;
   
+  // Simulation config with time-of-day modifiers applied, rebuilt every step
+  private stepConfig: ISimulationConfig;
+  
   // World bounds
   private width: number;
   private height: number;
@@ -38,27 +107,71 @@ export class Flock {
   private time: number = 0;
   private accumulator: number = 0;
   
-  // External forces
+  // Random source shared by every system of this simulation
+  private rng: Random;
+  
+  // Periodic offsets while the boundary mode is wrap, shared the same way
+  private worldWrap: WorldWrap = new WorldWrap();
+  
+  // External forces (GPU attractor copy re-uploaded when the list changes)
   private attractors: IAttractor[] = [];
+  private attractorData: Float32Array = new Float32Array(MAX_ATTRACTORS * ATTRACTOR_STRIDE);
+  private attractorsDirty: boolean = true;
+  
+  // Static obstacles (GPU segments re-uploaded when the geometry changes)
+  private obstacles: ObstacleField;
+  private obstaclesDirty: boolean = true;
+  private obstacleForce: IVector2 = { x: 0, y: 0 };
+  private collisionPosition: IVector2 = { x: 0, y: 0 };
+  private collisionVelocity: IVector2 = { x: 0, y: 0 };
+  
+  // Food foraging and territories (per-bird steering targets)
+  private foodManager: FoodSourceManager | null = null;
+  private territoryManager: TerritoryManager | null = null;
+  private dayNight: DayNightCycle | null = null;
+  private steeringTarget: ISteeringTarget = { mode: 'none', x: 0, y: 0, radius: 0, weight: 0 };
+  private steeringData: Float32Array;
+  private steeringUploaded: boolean = false;
+  
+  // Predators and one-step panic pulses, packed per step for both paths
+  private predators: readonly BasePredator[] = [];
+  private panicPulses: number[] = [];
+  private threatData: Float32Array = new Float32Array(MAX_THREATS * THREAT_STRIDE);
+  private threatCount: number = 0;
+  private panicTarget: Float32Array;
+  
+  // Behavior systems
+  private matingManager: MatingManager;
+  private lifecycle: LifecycleManager;
+  private species: SpeciesManager;
+  private speciesTable: Float32Array;
+  private orderMetrics: OrderMetrics;
   
   // Temp arrays for optimized calculations
   private forceX: Float32Array;
   private forceY: Float32Array;
+  
+  // Per-rule forces of the last CPU step (only while the force overlay is on)
+  private forceRecorder: ForceRecorder | null = null;
+  private ruleForces: Float32Array = new Float32Array(6);
 
   constructor(
     width: number,
     height: number,
     maxBirds: number,
     simConfig: ISimulationConfig,
-    envConfig: IEnvironmentConfig
+    envConfig: IEnvironmentConfig,
+    rng: Random = new Random()
   ) {
     this.width = width;
     this.height = height;
     this.simConfig = simConfig;
     this.envConfig = envConfig;
+    this.stepConfig = simConfig;
+    this.rng = rng;
     
     // Initialize bird arrays (SoA for GPU)
-    this.birdArrays = new BirdArrays(maxBirds);
+    this.birdArrays = new BirdArrays(maxBirds, rng);
     
     // Initialize spatial grid
     this.spatialGrid = new SpatialGrid(width, height, simConfig.perceptionRadius);
@@ -66,6 +179,29 @@ export class Flock {
     // Temp force arrays
     this.forceX = new Float32Array(maxBirds);
     this.forceY = new Float32Array(maxBirds);
+    this.panicTarget = new Float32Array(maxBirds);
+    this.orderMetrics = new OrderMetrics(maxBirds, this.worldWrap);
+    
+    // Per-bird steering targets for the GPU path
+    this.steeringData = new Float32Array(maxBirds * STEERING_STRIDE);
+    
+    // Mating and competition state machine
+    this.matingManager = new MatingManager(simConfig, envConfig, rng, this.worldWrap);
+    
+    // Births, deaths and ageing
+    this.lifecycle = new LifecycleManager(envConfig.lifecycle, simConfig.energyEnabled, rng);
+    
+    // Species assignment, per-species flocking and food web
+    this.species = new SpeciesManager(envConfig.ecosystem, simConfig, this.worldWrap);
+    this.speciesTable = new Float32Array(MAX_SPECIES * SPECIES_TABLE_STRIDE);
+    
+    // Obstacle geometry follows envConfig.obstacles
+    this.obstacles = new ObstacleField(envConfig.obstacles);
+    
+    // Recorded forces move with swap-removed birds
+    this.lifecycle.addBirdRemovedListener((removedIndex, movedFromIndex) => {
+      this.forceRecorder?.moveBird(movedFromIndex, removedIndex);
+    });
   }
 
   /**
@@ -129,6 +265,11 @@ export class Flock {
       console.warn('GPU not ready, staying on CPU');
       return;
     }
+    
+    // The GPU copy went stale while the CPU path was running
+    if (use && !this.useGPU && this.gpuRunner) {
+      this.gpuRunner.uploadData(this.birdArrays);
+    }
     this.useGPU = use;
   }
 
@@ -142,14 +283,17 @@ export class Flock {
     this.birds = [];
     
     for (let i = 0; i < count; i++) {
-      const x = margin + Math.random() * (this.width - margin * 2);
-      const y = margin + Math.random() * (this.height - margin * 2);
-      const bird = new Bird(i, x, y);
+      const x = margin + this.rng.next() * (this.width - margin * 2);
+      const y = margin + this.rng.next() * (this.height - margin * 2);
+      const bird = new Bird(i, x, y, this.rng);
       this.birds.push(bird);
     }
     
     // Sync to SoA
     this.birdArrays.fromBirds(this.birds);
+    this.lifecycle.randomizeAges(this.birdArrays);
+    this.species.assign(this.birdArrays);
+    this.territoryManager?.assign(this.birdArrays);
     
     // Upload to GPU if available
     if (this.gpuReady && this.gpuRunner) {
@@ -168,7 +312,7 @@ export class Flock {
    * Update bird count (respawns if different).
    */
   setBirdCount(count: number): void {
-    if (count !== this.birds.length) {
+    if (count !== this.birdArrays.count) {
       this.spawnBirds(count);
     }
   }
@@ -179,6 +323,10 @@ export class Flock {
   update(deltaTime: number): void {
     this.time += deltaTime;
     
+    if (this.isUsingGPU) {
+      this.readbackTimer += deltaTime;
+    }
+    
     // Fixed timestep accumulation
     this.accumulator += deltaTime;
     let steps = 0;
@@ -195,10 +343,60 @@ export class Flock {
     }
   }
 
+  /**
+   * Update simulation by exactly deltaTime, split into equal steps of about
+   * the fixed timestep, bypassing the accumulator. Frame sequences
+   * use this so every frame covers the same steps (1/24 s is 2.5 fixed steps,
+   * which the accumulator would run as alternating 2 and 3).
+   */
+  updateExact(deltaTime: number): void {
+    this.time += deltaTime;
+    
+    if (this.isUsingGPU) {
+      this.readbackTimer += deltaTime;
+    }
+    
+    const steps = Math.max(1, Math.round(deltaTime / FIXED_TIMESTEP));
+    const dt = deltaTime / steps;
+    for (let i = 0; i < steps; i++) {
+      this.step(dt);
+    }
+  }
+
   /**
    * Single simulation step.
    */
   private step(dt: number): void {
+    // Night shrinks perception and slows roosting birds
+    const perceptionScale = this.dayNight?.getPerceptionScale() ?? 1;
+    const speedScale = this.dayNight?.getSpeedScale() ?? 1;
+    this.stepConfig = perceptionScale === 1 && speedScale === 1
+      ? this.simConfig
+      : {
+          ...this.simConfig,
+          perceptionRadius: this.simConfig.perceptionRadius * perceptionScale,
+          maxSpeed: this.simConfig.maxSpeed * speedScale
+        };
+    
+    // Per-species configs follow live edits to the shared simulation config
+    this.species.refresh(perceptionScale, speedScale);
+    
+    // Territory intrusion/defense pairs feed the steering targets of both paths
+    this.territoryManager?.update(this.birdArrays);
+    
+    // Predators and panic pulses for this step
+    this.packThreats();
+    
+    // Obstacles placed, removed or toggled since the last step
+    if (this.obstacles.sync(this.envConfig.obstacles)) {
+      this.obstaclesDirty = true;
+    }
+    
+    // A wrapped world makes neighbor queries and offsets periodic
+    const wrap = this.simConfig.boundaryMode === 'wrap';
+    this.spatialGrid.setWrap(wrap);
+    this.worldWrap.set(wrap ? this.width : 0, wrap ? this.height : 0);
+    
     if (this.useGPU && this.gpuReady && this.gpuRunner) {
       this.stepGPU(dt);
     } else {
@@ -231,6 +429,18 @@ export class Flock {
     const noiseScale = 0.003;
     const timeScale = 0.5;
     
+    // Walls only exist in reflect mode; soft keeps the steering force alone
+    const boundaryMode = this.simConfig.boundaryMode ?? 'reflect';
+    const steerFromEdges = boundaryMode === 'reflect' || boundaryMode === 'soft';
+    
+    // Multi-species: per-species flocking and a wider query for inter-species interactions
+    const ecosystemEnabled = this.species.isEnabled();
+    const queryRadius = ecosystemEnabled ? this.species.getQueryRadius() : this.stepConfig.perceptionRadius;
+    
+    // Force overlay: per-rule copies of the forces summed below
+    const forces = this.forceRecorder;
+    forces?.clear(count);
+    
     // Calculate forces for all birds
     for (let i = 0; i < count; i++) {
       const px = this.birdArrays.positionX[i];
@@ -240,7 +450,7 @@ export class Flock {
       const neighborIds = this.spatialGrid.getNeighborIds(
         px,
         py,
-        this.simConfig.perceptionRadius,
+        queryRadius,
         i
       );
       
@@ -253,10 +463,41 @@ export class Flock {
         this.birdArrays.velocityY,
         this.birdArrays.heading,
         neighborIds,
-        this.simConfig,
+        ecosystemEnabled ? this.species.getConfig(this.birdArrays.speciesId[i]) : this.stepConfig,
         this.forceX,
-        this.forceY
+        this.forceY,
+        this.worldWrap,
+        ecosystemEnabled ? this.birdArrays.speciesId : undefined,
+        forces ? this.ruleForces : undefined
       );
+      if (forces) {
+        const rule = this.ruleForces;
+        forces.add('alignment', i, rule[0], rule[1]);
+        forces.add('cohesion', i, rule[2], rule[3]);
+        forces.add('separation', i, rule[4], rule[5]);
+      }
+      
+      // Hunting and fleeing between species
+      if (ecosystemEnabled) {
+        this.species.applyInteractions(i, this.birdArrays, neighborIds, this.forceX, this.forceY);
+      }
+      
+      // Panic from panicked neighbors and predators (applied after all birds are read)
+      const birdConfig = ecosystemEnabled ? this.species.getConfig(this.birdArrays.speciesId[i]) : this.stepConfig;
+      const spreadPanic = SwarmRules.propagatePanicOptimized(
+        i,
+        this.birdArrays.positionX,
+        this.birdArrays.positionY,
+        this.birdArrays.panicLevel,
+        neighborIds,
+        this.envConfig.panicSpread,
+        birdConfig.perceptionRadius,
+        this.worldWrap
+      );
+      forces?.mark(i, this.forceX, this.forceY);
+      const threatPanic = this.applyThreats(i, birdConfig);
+      forces?.record('flee', i, this.forceX, this.forceY);
+      this.panicTarget[i] = Math.max(spreadPanic, threatPanic);
       
       // Normalized density for visualization
       this.birdArrays.localDensity[i] = Math.min(1, neighborCount / 20);
@@ -271,25 +512,30 @@ export class Flock {
       const distToBottom = this.height - py;
       const minDistToWall = Math.min(distToLeft, distToRight, distToTop, distToBottom);
       
-      if (minDistToWall < margin) {
+      if (boundaryMode === 'reflect' && minDistToWall < margin) {
         // Calculate proximity factor: 0 at wall, 1 at margin edge
         const wallProximity = Math.max(0, minDistToWall / margin);
         // Apply damping: closer to wall = weaker flocking forces
         const dampedProximity = wallProximity * wallDampingFactor + (1 - wallDampingFactor);
         this.forceX[i] *= dampedProximity;
         this.forceY[i] *= dampedProximity;
+        forces?.scale(i, dampedProximity);
         
         // Anti-cluster jitter: add random perturbation when very close to wall
         // This breaks up clusters that form at boundaries
         if (minDistToWall < margin * 0.3) {
           const jitterStrength = (1 - minDistToWall / (margin * 0.3)) * 0.5;
-          this.forceX[i] += (Math.random() - 0.5) * jitterStrength;
-          this.forceY[i] += (Math.random() - 0.5) * jitterStrength;
+          this.forceX[i] += (this.rng.next() - 0.5) * jitterStrength;
+          this.forceY[i] += (this.rng.next() - 0.5) * jitterStrength;
         }
       }
       
       // Add boundary avoidance
-      this.applyBoundaryForce(i);
+      if (steerFromEdges) {
+        forces?.mark(i, this.forceX, this.forceY);
+        this.applyBoundaryForce(i);
+        forces?.record('boundary', i, this.forceX, this.forceY);
+      }
       
       // Add wind with position-based turbulence
       if (this.envConfig.windEnabled) {
@@ -298,14 +544,14 @@ export class Flock {
         
         if (windTurbulence > 0) {
           // Turbulent angle variation using FBM noise
-          const angleNoise = fbm(
+          const angleNoise = this.rng.fbm(
             px * noiseScale + this.time * timeScale,
             py * noiseScale,
             3
           ) * Math.PI * windTurbulence;
           
           // Turbulent speed variation
-          const speedNoise = fbm(
+          const speedNoise = this.rng.fbm(
             px * noiseScale + 1000,
             py * noiseScale + this.time * timeScale,
             3
@@ -320,24 +566,46 @@ export class Flock {
         
         this.forceX[i] += windX;
         this.forceY[i] += windY;
+        forces?.add('wind', i, windX, windY);
       }
       
       // Add smooth wander using Perlin noise
       const wanderNoiseX = px * 0.01 + this.time * 0.5;
       const wanderNoiseY = py * 0.01 + i * 0.1;
-      const wanderNoise = fbm(wanderNoiseX, wanderNoiseY, 2);
+      const wanderNoise = this.rng.fbm(wanderNoiseX, wanderNoiseY, 2);
       const heading = this.birdArrays.heading[i];
       const wanderAngle = heading + wanderNoise * this.simConfig.noiseStrength * Math.PI;
-      this.forceX[i] += Math.cos(wanderAngle) * this.simConfig.wanderStrength;
-      this.forceY[i] += Math.sin(wanderAngle) * this.simConfig.wanderStrength;
+      const wanderX = Math.cos(wanderAngle) * this.simConfig.wanderStrength;
+      const wanderY = Math.sin(wanderAngle) * this.simConfig.wanderStrength;
+      this.forceX[i] += wanderX;
+      this.forceY[i] += wanderY;
+      forces?.add('wander', i, wanderX, wanderY);
       
       // Add attractor forces
+      forces?.mark(i, this.forceX, this.forceY);
       for (const attractor of this.attractors) {
         this.applyAttractorForce(i, attractor);
       }
+      forces?.record('attractor', i, this.forceX, this.forceY);
+      
+      // Steer around obstacles near the bird or in its path
+      const avoidance = this.obstacleForce;
+      if (this.obstacles.avoid(px, py, this.birdArrays.velocityX[i], this.birdArrays.velocityY[i], birdConfig.maxSpeed, birdConfig.maxForce, avoidance)) {
+        this.forceX[i] += avoidance.x;
+        this.forceY[i] += avoidance.y;
+      }
+      
+      // Add food seeking / gathering orbit / territory steering
+      if (this.resolveSteeringTarget(i)) {
+        this.applySteeringForce(i);
+      }
     }
     
+    // Mating state machine and its steering forces
+    this.matingManager.update(dt, this.birdArrays, this.spatialGrid, this.forceX, this.forceY);
+    
     // Integrate physics
+    const panicDecay = this.threatCount > 0 ? PANIC_DECAY : PANIC_DECAY * (1 - this.envConfig.panicDecay * 0.5);
     const energyEnabled = this.simConfig.energyEnabled;
     const energyDecayRate = this.simConfig.energyDecayRate;
     const minEnergySpeed = this.simConfig.minEnergySpeed;
@@ -360,9 +628,13 @@ export class Flock {
         energyMultiplier = minEnergySpeed + (1 - minEnergySpeed) * energy;
       }
       
-      // Panic boost
+      // Panic from this step's threats and neighbors, then the boost
+      this.birdArrays.panicLevel[i] = Math.max(this.birdArrays.panicLevel[i], Math.min(1, this.panicTarget[i]));
       const panicBoost = 1 + this.birdArrays.panicLevel[i] * 0.5;
-      const effectiveMaxSpeed = this.simConfig.maxSpeed * panicBoost * energyMultiplier;
+      const maxSpeed = ecosystemEnabled
+        ? this.species.getConfig(this.birdArrays.speciesId[i]).maxSpeed
+        : this.stepConfig.maxSpeed;
+      const effectiveMaxSpeed = maxSpeed * panicBoost * energyMultiplier;
       
       // Limit velocity
       if (speed > effectiveMaxSpeed) {
@@ -375,46 +647,76 @@ export class Flock {
       this.birdArrays.positionY[i] += this.birdArrays.velocityY[i] * dt * this.simConfig.simulationSpeed;
       
       // Boundary handling:
-      // - Keep agents inside bounds
-      // - Reflect velocity when hitting walls (prevents "sticking" to borders)
-      const pad = 10;
-      const minX = pad;
-      const maxX = this.width - pad;
-      const minY = pad;
-      const maxY = this.height - pad;
+      // - reflect: keep agents inside bounds and reflect velocity when hitting
+      //   walls (prevents "sticking" to borders)
+      // - wrap: leave one edge, enter at the opposite one
+      // - open: fly past the edges and return from the opposite side once a
+      //   margin out of view
+      // - soft: no walls, the boundary force turns birds back
       const restitution = 0.8;     // bounce energy retained
       const wallFriction = 0.98;   // damp tangential velocity on collision
 
       let x = this.birdArrays.positionX[i];
       let y = this.birdArrays.positionY[i];
 
-      // Left/right walls
-      if (x <= minX) {
-        x = minX;
-        this.birdArrays.velocityX[i] = Math.abs(this.birdArrays.velocityX[i]) * restitution;
-        this.birdArrays.velocityY[i] *= wallFriction;
-      } else if (x >= maxX) {
-        x = maxX;
-        this.birdArrays.velocityX[i] = -Math.abs(this.birdArrays.velocityX[i]) * restitution;
-        this.birdArrays.velocityY[i] *= wallFriction;
-      }
+      if (boundaryMode === 'reflect') {
+        const pad = 10;
+        const minX = pad;
+        const maxX = this.width - pad;
+        const minY = pad;
+        const maxY = this.height - pad;
+
+        // Left/right walls
+        if (x <= minX) {
+          x = minX;
+          this.birdArrays.velocityX[i] = Math.abs(this.birdArrays.velocityX[i]) * restitution;
+          this.birdArrays.velocityY[i] *= wallFriction;
+        } else if (x >= maxX) {
+          x = maxX;
+          this.birdArrays.velocityX[i] = -Math.abs(this.birdArrays.velocityX[i]) * restitution;
+          this.birdArrays.velocityY[i] *= wallFriction;
+        }
 
-      // Top/bottom walls
-      if (y <= minY) {
-        y = minY;
-        this.birdArrays.velocityY[i] = Math.abs(this.birdArrays.velocityY[i]) * restitution;
-        this.birdArrays.velocityX[i] *= wallFriction;
-      } else if (y >= maxY) {
-        y = maxY;
-        this.birdArrays.velocityY[i] = -Math.abs(this.birdArrays.velocityY[i]) * restitution;
-        this.birdArrays.velocityX[i] *= wallFriction;
+        // Top/bottom walls
+        if (y <= minY) {
+          y = minY;
+          this.birdArrays.velocityY[i] = Math.abs(this.birdArrays.velocityY[i]) * restitution;
+          this.birdArrays.velocityX[i] *= wallFriction;
+        } else if (y >= maxY) {
+          y = maxY;
+          this.birdArrays.velocityY[i] = -Math.abs(this.birdArrays.velocityY[i]) * restitution;
+          this.birdArrays.velocityX[i] *= wallFriction;
+        }
+      } else if (boundaryMode === 'wrap') {
+        x = wrapValue(x, 0, this.width);
+        y = wrapValue(y, 0, this.height);
+      } else if (boundaryMode === 'open') {
+        const margin = this.simConfig.boundaryMargin;
+        x = wrapValue(x, -margin, this.width + margin);
+        y = wrapValue(y, -margin, this.height + margin);
       }
 
       this.birdArrays.positionX[i] = x;
       this.birdArrays.positionY[i] = y;
       
+      // Obstacles: push out to the clearance and bounce off the surface
+      if (this.obstacles.isActive) {
+        const position = this.collisionPosition;
+        const velocity = this.collisionVelocity;
+        position.x = x;
+        position.y = y;
+        velocity.x = this.birdArrays.velocityX[i];
+        velocity.y = this.birdArrays.velocityY[i];
+        if (this.obstacles.collide(position, velocity, OBSTACLE_CLEARANCE, restitution, wallFriction)) {
+          this.birdArrays.positionX[i] = position.x;
+          this.birdArrays.positionY[i] = position.y;
+          this.birdArrays.velocityX[i] = velocity.x;
+          this.birdArrays.velocityY[i] = velocity.y;
+        }
+      }
+      
       // Minimum escape velocity: ensure birds have enough speed to escape walls
-      const minEscapeSpeed = (this.simConfig.minEscapeSpeed ?? 0.3) * this.simConfig.maxSpeed;
+      const minEscapeSpeed = (this.simConfig.minEscapeSpeed ?? 0.3) * maxSpeed;
       const currentSpeed = Math.sqrt(
         this.birdArrays.velocityX[i] ** 2 + this.birdArrays.velocityY[i] ** 2
       );
@@ -432,15 +734,15 @@ export class Flock {
         this.birdArrays.heading[i] = Math.atan2(this.birdArrays.velocityY[i], this.birdArrays.velocityX[i]);
       }
       
-      // Decay panic
-      this.birdArrays.panicLevel[i] *= 0.98;
+      // Decay panic (faster once no threat is around)
+      this.birdArrays.panicLevel[i] *= panicDecay;
       if (this.birdArrays.panicLevel[i] < 0.01) {
         this.birdArrays.panicLevel[i] = 0;
       }
       
       // Energy decay based on speed (faster movement = more energy drain)
       if (energyEnabled && this.birdArrays.energy[i] > 0) {
-        const speedFactor = 1 + (speed / this.simConfig.maxSpeed) * 0.5;
+        const speedFactor = 1 + (speed / maxSpeed) * 0.5;
         this.birdArrays.energy[i] -= energyDecayRate * dt * speedFactor;
         if (this.birdArrays.energy[i] < 0) {
           this.birdArrays.energy[i] = 0;
@@ -455,7 +757,12 @@ export class Flock {
     // Update firefly glow synchronization if enabled
     if (this.envConfig.fireflyEnabled) {
       this.updateFireflySynchronization(dt);
+      this.applyFireflyVisibility();
     }
+    
+    // Births and deaths (after integration so removals don't disturb this step)
+    this.lifecycle.update(dt, this.birdArrays, this.matingManager.getCompletedMatings());
+    this.matingManager.clearCompletedMatings();
   }
 
   /**
@@ -514,8 +821,8 @@ export class Flock {
         const ny = this.birdArrays.positionY[neighborId];
         
         // Distance check
-        const dx = nx - px;
-        const dy = ny - py;
+        const dx = this.worldWrap.deltaX(nx - px);
+        const dy = this.worldWrap.deltaY(ny - py);
         const distSq = dx * dx + dy * dy;
         
         if (distSq < syncRadiusSq && distSq > 0.01) {
@@ -697,8 +1004,8 @@ export class Flock {
    * Apply attractor force to bird at index.
    */
   private applyAttractorForce(i: number, attractor: IAttractor): void {
-    const dx = attractor.x - this.birdArrays.positionX[i];
-    const dy = attractor.y - this.birdArrays.positionY[i];
+    const dx = this.worldWrap.deltaX(attractor.x - this.birdArrays.positionX[i]);
+    const dy = this.worldWrap.deltaY(attractor.y - this.birdArrays.positionY[i]);
     const dist = Math.sqrt(dx * dx + dy * dy);
     
     if (dist > attractor.radius || dist < 0.1) return;
@@ -715,127 +1022,312 @@ export class Flock {
     }
   }
 
+  /**
+   * Pick this bird's steering target: roosting at night first, then foraging, then territory.
+   * @returns False if the bird has no steering target
+   */
+  private resolveSteeringTarget(i: number): boolean {
+    const target = this.steeringTarget;
+    
+    if (this.dayNight?.getSteeringTarget(i, this.birdArrays, target)) {
+      return true;
+    }
+    
+    if (this.foodManager?.getSteeringTarget(i, this.birdArrays, target)) {
+      target.weight = FOOD_STEERING_WEIGHT;
+      return true;
+    }
+    
+    return this.territoryManager?.getSteeringTarget(i, this.birdArrays, target) ?? false;
+  }
+
+  /**
+   * Apply the resolved steering target as a force.
+   */
+  private applySteeringForce(i: number): void {
+    const target = this.steeringTarget;
+    const ba = this.birdArrays;
+    const maxSpeed = this.stepConfig.maxSpeed;
+    const maxForce = this.stepConfig.maxForce;
+    
+    switch (target.mode) {
+      case 'arrive':
+        SwarmRules.arriveOptimized(
+          i, ba.positionX, ba.positionY, ba.velocityX, ba.velocityY,
+          target.x, target.y, maxSpeed, maxForce, target.radius, target.weight,
+          this.forceX, this.forceY, this.worldWrap
+        );
+        break;
+      case 'orbit':
+        SwarmRules.orbitOptimized(
+          i, ba.positionX, ba.positionY, ba.velocityX, ba.velocityY,
+          target.x, target.y, target.radius, maxSpeed, maxForce, target.weight,
+          this.forceX, this.forceY, this.worldWrap
+        );
+        break;
+      case 'home':
+        SwarmRules.homePullOptimized(
+          i, ba.positionX, ba.positionY, ba.velocityX, ba.velocityY,
+          target.x, target.y, target.radius, maxSpeed, maxForce, target.weight,
+          this.forceX, this.forceY, this.worldWrap
+        );
+        break;
+    }
+  }
+
+  /**
+   * Upload per-bird steering targets for the GPU flocking pass.
+   * Skipped while no steering source is connected and the buffer is already clear.
+   */
+  private uploadSteeringTargets(): void {
+    if (!this.gpuRunner) return;
+    const hasSources = this.foodManager !== null || this.territoryManager !== null ||
+      (this.dayNight?.isEnabled() ?? false) || this.envConfig.matingEnabled;
+    if (!hasSources && !this.steeringUploaded) return;
+    
+    const count = this.birdArrays.count;
+    const data = this.steeringData;
+    data.fill(0, 0, count * STEERING_STRIDE);
+    
+    if (hasSources) {
+      const target = this.steeringTarget;
+      for (let i = 0; i < count; i++) {
+        // One target per bird on the GPU: a committed mate comes first
+        if (!this.matingManager.getSteeringTarget(i, this.birdArrays, target) && !this.resolveSteeringTarget(i)) continue;
+        const offset = i * STEERING_STRIDE;
+        data[offset] = target.x;
+        data[offset + 1] = target.y;
+        data[offset + 2] = STEERING_MODE_CODES[target.mode];
+        data[offset + 3] = target.radius;
+        data[offset + 4] = target.weight;
+      }
+    }
+    
+    this.gpuRunner.uploadSteeringTargets(data, count);
+    this.steeringUploaded = hasSources;
+  }
+
+  /**
+   * Pack predators and pending panic pulses into the threat buffer.
+   * Layout per threat: x, y, vx, vy, panic radius, panic strength, flee weight, lookahead.
+   */
+  private packThreats(): void {
+    let count = 0;
+    const push = (x: number, y: number, vx: number, vy: number, radius: number, strength: number, lookahead: number): void => {
+      if (count >= MAX_THREATS) return;
+      const offset = count * THREAT_STRIDE;
+      this.threatData[offset] = x;
+      this.threatData[offset + 1] = y;
+      this.threatData[offset + 2] = vx;
+      this.threatData[offset + 3] = vy;
+      this.threatData[offset + 4] = radius;
+      this.threatData[offset + 5] = strength;
+      this.threatData[offset + 6] = PREDATOR_FLEE_WEIGHT;
+      this.threatData[offset + 7] = lookahead;
+      count++;
+    };
+
+    for (const predator of this.predators) {
+      push(
+        predator.position.x, predator.position.y,
+        predator.velocity.x, predator.velocity.y,
+        predator.panicRadius, // Already reduced in silent mode
+        predator.isSilent() ? SILENT_PREDATOR_PANIC : PREDATOR_PANIC,
+        PREDATOR_LOOKAHEAD
+      );
+    }
+
+    const pulses = this.panicPulses;
+    for (let p = 0; p < pulses.length; p += 4) {
+      push(pulses[p], pulses[p + 1], 0, 0, pulses[p + 2], pulses[p + 3], 0);
+    }
+    pulses.length = 0;
+
+    this.threatCount = count;
+  }
+
+  /**
+   * Panic and flee steering from the packed threats (CPU path).
+   * Panic falls off linearly to the threat's radius; birds flee the
+   * threat's predicted position with a weight scaled by that panic.
+   * @returns Strongest panic from any threat in range
+   */
+  private applyThreats(i: number, config: ISimulationConfig): number {
+    const px = this.birdArrays.positionX[i];
+    const py = this.birdArrays.positionY[i];
+    let panic = 0;
+
+    for (let t = 0; t < this.threatCount; t++) {
+      const offset = t * THREAT_STRIDE;
+      const tx = this.threatData[offset];
+      const ty = this.threatData[offset + 1];
+      const radius = this.threatData[offset + 4];
+      const dx = this.worldWrap.deltaX(px - tx);
+      const dy = this.worldWrap.deltaY(py - ty);
+      const distSq = dx * dx + dy * dy;
+      if (distSq >= radius * radius) continue;
+
+      const intensity = this.threatData[offset + 5] * (1 - Math.sqrt(distSq) / radius);
+      panic = Math.max(panic, intensity);
+
+      const lookahead = this.threatData[offset + 7];
+      SwarmRules.fleeOptimized(
+        i,
+        this.birdArrays.positionX, this.birdArrays.positionY,
+        this.birdArrays.velocityX, this.birdArrays.velocityY,
+        tx + this.threatData[offset + 2] * lookahead,
+        ty + this.threatData[offset + 3] * lookahead,
+        config.maxSpeed, config.maxForce,
+        this.threatData[offset + 6] * intensity,
+        this.forceX, this.forceY, this.worldWrap
+      );
+    }
+
+    return panic;
+  }
+
+  /**
+   * Pack attractors for the GPU, newest first when there are more than fit.
+   * Layout per attractor: x, y, radius, strength (negative for repulsors).
+   * @returns Number of attractors packed
+   */
+  private packAttractors(): number {
+    const count = Math.min(this.attractors.length, MAX_ATTRACTORS);
+    
+    for (let a = 0; a < count; a++) {
+      const attractor = this.attractors[this.attractors.length - 1 - a];
+      const offset = a * ATTRACTOR_STRIDE;
+      this.attractorData[offset] = attractor.x;
+      this.attractorData[offset + 1] = attractor.y;
+      this.attractorData[offset + 2] = attractor.radius;
+      this.attractorData[offset + 3] = attractor.isRepulsor ? -attractor.strength : attractor.strength;
+    }
+    
+    return count;
+  }
+
   /**
    * GPU simulation step.
    */
   private stepGPU(dt: number): void {
     if (!this.gpuRunner) return;
     
-    // Update config
-    this.gpuRunner.updateConfig(this.simConfig, this.envConfig, dt);
+    // Predators and panic pulses (the threat count goes into the config)
+    this.gpuRunner.uploadThreats(this.threatData, this.threatCount);
+    
+    // Update config (grid cells cover the widest neighbour query)
+    const queryRadius = this.species.isEnabled() ? this.species.getQueryRadius() : this.stepConfig.perceptionRadius;
+    this.gpuRunner.updateConfig(this.stepConfig, this.envConfig, dt, queryRadius);
+    
+    // Roost, food, territory and mate steering targets come from CPU state machines
+    this.uploadSteeringTargets();
+    
+    // Attractors and repulsors
+    if (this.attractorsDirty) {
+      this.gpuRunner.uploadAttractors(this.attractorData, this.packAttractors());
+      this.attractorsDirty = false;
+    }
+    
+    // Obstacle segments (the enabled flag goes into the config)
+    if (this.obstaclesDirty) {
+      this.gpuRunner.uploadObstacles(this.obstacles.getSegmentData(), this.obstacles.segmentCount);
+      this.obstaclesDirty = false;
+    }
+    
+    // Per-species flocking parameters and food web
+    if (this.species.isEnabled()) {
+      this.species.packSpeciesTable(this.speciesTable);
+      this.gpuRunner.uploadSpeciesTable(this.speciesTable);
+    }
     
     // Run compute shaders
     this.gpuRunner.compute();
     
-    // Firefly synchronization runs on CPU even in GPU mode
-    // (it's lightweight and doesn't need GPU acceleration)
+    // Neighbour-coupled firefly synchronization on the GPU-resident positions
     if (this.envConfig.fireflyEnabled) {
-      this.updateFireflySynchronizationGPUMode(dt);
+      this.gpuRunner.updateFireflyConfig(
+        this.envConfig,
+        this.envConfig.fireflySyncRadius ?? this.simConfig.perceptionRadius,
+        dt,
+        this.dayNight?.getFireflyVisibility() ?? 1
+      );
+      this.gpuRunner.computeFireflies();
     }
+    
+    // Births and deaths need current positions, so they wait for the next readback
+    this.pendingLifecycleTime += dt;
   }
   
   /**
-   * Update firefly glow synchronization for GPU mode.
-   * Version: 2.0.0 - Pulse-coupled oscillators with global flash detection.
-   * 
-   * Uses global flash counting since we can't do spatial queries efficiently
-   * with GPU-computed positions. Creates emergent synchronization through
-   * collective response to flash events.
+   * Dim firefly flashes by time of day (fireflies only flash after dark).
    */
-  private updateFireflySynchronizationGPUMode(dt: number): void {
-    const count = this.birdArrays.count;
-    const couplingStrength = this.envConfig.fireflyCouplingStrength ?? 0.5;
-    const baseFrequency = this.envConfig.fireflyBaseFrequency ?? 1.0;
-    const flashDuration = this.envConfig.fireflyFlashDuration ?? 0.2;
+  private applyFireflyVisibility(): void {
+    const visibility = this.dayNight?.getFireflyVisibility() ?? 1;
+    if (visibility >= 1) return;
     
-    // Flash threshold
-    const FLASH_THRESHOLD = 1.0;
-    
-    // Step 1: Count how many fireflies are currently flashing
-    let flashingCount = 0;
+    const count = this.birdArrays.count;
     for (let i = 0; i < count; i++) {
-      if (this.birdArrays.glowIntensity[i] > 0.8) {
-        flashingCount++;
-      }
+      this.birdArrays.glowIntensity[i] *= visibility;
     }
+  }
+  
+  /**
+   * Read GPU data back into the CPU copy when a readback is due.
+   * Renderers bind the GPU buffers directly, so the CPU copy only feeds stats,
+   * predators, food, mating and lifecycle and is refreshed at simulation.gpuReadbackRate.
+   * Without shared buffers (standalone device) every call reads back.
+   * @param force Read back even if the interval has not elapsed
+   * @returns True if the CPU copy was refreshed
+   */
+  async syncFromGPU(force: boolean = false): Promise<boolean> {
+    if (!this.gpuRunner || !this.gpuReady) return false;
     
-    // Normalized flash signal (0 to 1)
-    const flashSignal = flashingCount / count;
+    const interval = 1 / Math.max(1, this.simConfig.gpuReadbackRate ?? DEFAULT_READBACK_RATE);
+    const resident = this.gpuRunner.getSimulationBuffers() !== null;
+    if (resident && !force && !this.readbackRequested && this.readbackTimer < interval) {
+      return false;
+    }
     
-    // Step 2: Update each firefly's phase
-    for (let i = 0; i < count; i++) {
-      const naturalFreq = this.birdArrays.naturalFrequency[i] * baseFrequency;
-      let phase = this.birdArrays.glowPhase[i];
-      
-      // Phase Response Curve: respond more strongly when closer to flashing
-      const prc = phase * phase; // Quadratic - more response late in cycle
-      
-      // Phase advance from seeing flashes (global coupling)
-      const flashResponse = flashSignal * prc * couplingStrength * 0.15;
-      
-      // Natural phase progression + flash response
-      let newPhase = phase + naturalFreq * dt + flashResponse;
-      
-      // Check for flash (phase crosses threshold)
-      let justFlashed = false;
-      if (newPhase >= FLASH_THRESHOLD) {
-        justFlashed = true;
-        newPhase = newPhase - FLASH_THRESHOLD;
-      }
-      
-      // Clamp phase to [0, 1)
-      while (newPhase >= 1.0) newPhase -= 1.0;
-      while (newPhase < 0) newPhase += 1.0;
-      
-      this.birdArrays.glowPhase[i] = newPhase;
-      
-      // Calculate glow intensity
-      if (newPhase < flashDuration || justFlashed) {
-        // Flash phase: sharp pulse
-        const t = newPhase / flashDuration;
-        if (t < 0.3) {
-          this.birdArrays.glowIntensity[i] = t / 0.3;
-        } else {
-          this.birdArrays.glowIntensity[i] = 1.0 - ((t - 0.3) / 0.7) * 0.8;
-        }
-      } else {
-        // Dim phase: very low glow, slight increase approaching flash
-        const dimProgress = (newPhase - flashDuration) / (1.0 - flashDuration);
-        this.birdArrays.glowIntensity[i] = 0.02 + dimProgress * 0.08;
-      }
+    this.readbackTimer = 0;
+    this.readbackRequested = false;
+    await this.gpuRunner.downloadData(this.birdArrays, this.envConfig.fireflyEnabled);
+    
+    // Mating state machine on the readback; its steering reaches the GPU as
+    // per-bird targets (see uploadSteeringTargets), so the forces are dropped
+    this.refreshSpatialGrid();
+    this.matingManager.update(this.pendingLifecycleTime, this.birdArrays, this.spatialGrid, this.forceX, this.forceY);
+    
+    // Births and deaths since the last readback; push the result straight back
+    if (this.lifecycle.update(this.pendingLifecycleTime, this.birdArrays, this.matingManager.getCompletedMatings())) {
+      this.gpuRunner.uploadData(this.birdArrays);
     }
+    this.matingManager.clearCompletedMatings();
+    this.pendingLifecycleTime = 0;
+    return true;
   }
 
   /**
-   * Sync data from GPU back to CPU (for rendering).
+   * Get the GPU-resident bird buffers for zero-copy rendering.
+   * Null while simulating on the CPU or when the buffers can't be shared.
    */
-  async syncFromGPU(): Promise<void> {
-    if (this.gpuRunner && this.gpuReady) {
-      await this.gpuRunner.downloadData(this.birdArrays);
-    }
+  getSimulationBuffers(): IGPUSimulationBuffers | null {
+    return this.isUsingGPU ? this.gpuRunner?.getSimulationBuffers() ?? null : null;
   }
 
   /**
-   * Apply panic at a position (e.g., from predator).
+   * Startle birds around a position for one step (e.g. a repulsor click).
+   * The pulse is applied like a stationary predator, on CPU and GPU alike.
    */
   applyPanicAtPosition(x: number, y: number, radius: number, strength: number): void {
-    const radiusSq = radius * radius;
-    const count = this.birdArrays.count;
-    
-    for (let i = 0; i < count; i++) {
-      const dx = this.birdArrays.positionX[i] - x;
-      const dy = this.birdArrays.positionY[i] - y;
-      const distSq = dx * dx + dy * dy;
-      
-      if (distSq < radiusSq) {
-        const dist = Math.sqrt(distSq);
-        const panicAmount = strength * (1 - dist / radius);
-        this.birdArrays.panicLevel[i] = Math.max(
-          this.birdArrays.panicLevel[i],
-          Math.min(1, panicAmount)
-        );
-      }
-    }
+    this.panicPulses.push(x, y, radius, strength);
+  }
+
+  /**
+   * Set the predators birds panic at and flee from.
+   * Read every step, so the list can be kept and updated in place.
+   */
+  setPredators(predators: readonly BasePredator[]): void {
+    this.predators = predators;
   }
 
   /**
@@ -843,6 +1335,7 @@ export class Flock {
    */
   addAttractor(attractor: IAttractor): void {
     this.attractors.push(attractor);
+    this.attractorsDirty = true;
   }
 
   /**
@@ -850,6 +1343,7 @@ export class Flock {
    */
   removeAttractor(id: number): void {
     this.attractors = this.attractors.filter(a => a.id !== id);
+    this.attractorsDirty = true;
   }
 
   /**
@@ -860,6 +1354,7 @@ export class Flock {
       this.attractors[i].lifetime -= dt;
       if (this.attractors[i].lifetime <= 0) {
         this.attractors.splice(i, 1);
+        this.attractorsDirty = true;
       }
     }
   }
@@ -882,6 +1377,23 @@ export class Flock {
   updateConfig(simConfig: ISimulationConfig, envConfig: IEnvironmentConfig): void {
     this.simConfig = simConfig;
     this.envConfig = envConfig;
+    this.matingManager.updateConfig(simConfig, envConfig);
+    this.lifecycle.updateConfig(envConfig.lifecycle, simConfig.energyEnabled);
+    if (this.species.updateConfig(envConfig.ecosystem, simConfig)) {
+      this.assignSpecies();
+    }
+  }
+
+  /**
+   * Redistribute birds across species and refresh dependent assignments.
+   */
+  private assignSpecies(): void {
+    this.species.assign(this.birdArrays);
+    this.territoryManager?.assign(this.birdArrays);
+    
+    if (this.gpuReady && this.gpuRunner) {
+      this.gpuRunner.uploadSpecies(this.birdArrays);
+    }
   }
 
   /**
@@ -898,6 +1410,115 @@ export class Flock {
     return this.birdArrays.count;
   }
 
+  /**
+   * Find the bird nearest a point. In GPU mode this reads the last CPU readback.
+   * A finite maxDistance searches only the spatial grid cells around the point.
+   * Distances wrap across the edges in a wrapped world.
+   * @returns Bird index, or -1 if no bird is within maxDistance
+   */
+  findNearestBird(x: number, y: number, maxDistance: number = Infinity): number {
+    const { positionX, positionY, count } = this.birdArrays;
+    let nearest = -1;
+    let nearestDistSq = maxDistance * maxDistance;
+
+    if (Number.isFinite(maxDistance)) {
+      this.refreshSpatialGrid();
+      for (const i of this.spatialGrid.getNeighborIds(x, y, maxDistance)) {
+        const dx = this.worldWrap.deltaX(positionX[i] - x);
+        const dy = this.worldWrap.deltaY(positionY[i] - y);
+        const distSq = dx * dx + dy * dy;
+        if (distSq <= nearestDistSq) {
+          nearestDistSq = distSq;
+          nearest = i;
+        }
+      }
+      return nearest;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const dx = this.worldWrap.deltaX(positionX[i] - x);
+      const dy = this.worldWrap.deltaY(positionY[i] - y);
+      const distSq = dx * dx + dy * dy;
+      if (distSq < nearestDistSq) {
+        nearestDistSq = distSq;
+        nearest = i;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Find the birds within a radius of a point, using the spatial grid.
+   * @param maxCount Stop after this many birds
+   */
+  findBirdsInRadius(x: number, y: number, radius: number, maxCount: number = Infinity): number[] {
+    const { positionX, positionY } = this.birdArrays;
+    const radiusSq = radius * radius;
+    const found: number[] = [];
+
+    this.refreshSpatialGrid();
+    for (const i of this.spatialGrid.getNeighborIds(x, y, radius)) {
+      const dx = this.worldWrap.deltaX(positionX[i] - x);
+      const dy = this.worldWrap.deltaY(positionY[i] - y);
+      if (dx * dx + dy * dy > radiusSq) continue;
+      found.push(i);
+      if (found.length >= maxCount) break;
+    }
+    return found;
+  }
+
+  /**
+   * Read the live state of one bird for the inspector. Neighbors are counted
+   * with the perception radius and field of view its flocking rules use.
+   * @returns null if there is no bird at the index
+   */
+  inspectBird(index: number): IBirdInspection | null {
+    const birds = this.birdArrays;
+    if (index < 0 || index >= birds.count) return null;
+
+    const config = this.species.isEnabled() ? this.species.getConfig(birds.speciesId[index]) : this.stepConfig;
+    const px = birds.positionX[index];
+    const py = birds.positionY[index];
+    const vx = birds.velocityX[index];
+    const vy = birds.velocityY[index];
+    const speed = Math.sqrt(vx * vx + vy * vy);
+
+    // Same neighbor test as SwarmRules
+    this.refreshSpatialGrid();
+    const percRadSq = config.perceptionRadius * config.perceptionRadius;
+    const fovCos = Math.cos(config.fieldOfView * Math.PI / 360);
+    let neighborCount = 0;
+    for (const other of this.spatialGrid.getNeighborIds(px, py, config.perceptionRadius, index)) {
+      const dx = this.worldWrap.deltaX(birds.positionX[other] - px);
+      const dy = this.worldWrap.deltaY(birds.positionY[other] - py);
+      const distSq = dx * dx + dy * dy;
+      if (distSq >= percRadSq || distSq <= 0.0001) continue;
+      if (speed > 0.01 && (vx * dx + vy * dy) / (speed * Math.sqrt(distSq)) < fovCos) continue;
+      neighborCount++;
+    }
+
+    return {
+      index,
+      id: birds.id[index],
+      speciesId: birds.speciesId[index],
+      gender: ReverseGenderMap[birds.gender[index]],
+      position: { x: px, y: py },
+      velocity: { x: vx, y: vy },
+      speed,
+      heading: birds.heading[index],
+      panicLevel: birds.panicLevel[index],
+      energy: birds.energy[index],
+      feedingState: ReverseFeedingStateMap[birds.feedingState[index]] ?? 'none',
+      targetFoodId: birds.targetFoodId[index],
+      matingState: ReverseMatingStateMap[birds.matingState[index]] ?? 'none',
+      targetMateId: birds.targetMateId[index],
+      neighborCount,
+      perceptionRadius: config.perceptionRadius,
+      separationRadius: config.separationRadius,
+      fieldOfView: config.fieldOfView
+    };
+  }
+
   /**
    * Get attractors.
    */
@@ -905,6 +1526,32 @@ export class Flock {
     return this.attractors;
   }
 
+  /**
+   * Record per-rule forces in CPU steps for the force-vector overlay.
+   * The GPU path doesn't record them.
+   */
+  setForceRecording(enabled: boolean): void {
+    if (enabled && !this.forceRecorder) {
+      this.forceRecorder = new ForceRecorder(this.birdArrays.maxCount);
+    } else if (!enabled) {
+      this.forceRecorder = null;
+    }
+  }
+
+  /**
+   * Get the per-rule forces of the last CPU step, or null when not recording.
+   */
+  getForceRecorder(): ForceRecorder | null {
+    return this.forceRecorder;
+  }
+
+  /**
+   * Get the obstacle field (shared with predators, which steer around it too).
+   */
+  getObstacles(): ObstacleField {
+    return this.obstacles;
+  }
+
   /**
    * Get statistics.
    */
@@ -975,9 +1622,9 @@ export class Flock {
     let totalPanic = 0;
     let maleCount = 0;
     let femaleCount = 0;
-    let matingCount = 0;
-    let fightingCount = 0;
+    let matingPairs = 0;
     let feedingCount = 0;
+    const contestedMates = new Set<number>();
     const count = this.birdArrays.count;
     
     for (let i = 0; i < count; i++) {
@@ -997,11 +1644,13 @@ export class Flock {
       }
       
       // Mating state (mating = 4, fighting = 5)
+      // Count each mating pair once; fights are counted per contested female
       const matingState = this.birdArrays.matingState[i];
-      if (matingState === 4) {
-        matingCount++;
-      } else if (matingState === 5) {
-        fightingCount++;
+      const mateId = this.birdArrays.targetMateId[i];
+      if (matingState === 4 && mateId > i) {
+        matingPairs++;
+      } else if (matingState === 5 && mateId >= 0) {
+        contestedMates.add(mateId);
       }
       
       // Feeding state (feeding = 3)
@@ -1017,12 +1666,34 @@ export class Flock {
       avgPanic: count > 0 ? totalPanic / count : 0,
       maleCount,
       femaleCount,
-      matingPairs: Math.floor(matingCount / 2), // Each pair has 2 birds
-      fightingPairs: Math.floor(fightingCount / 2),
+      matingPairs,
+      fightingPairs: contestedMates.size,
       feedingBirds: feedingCount
     };
   }
 
+  /**
+   * Collective order metrics (polarization, milling, nearest-neighbour
+   * distances, clusters). Birds within the perception radius count as linked.
+   * In GPU mode this reads the last CPU readback.
+   */
+  getOrderMetrics(): IOrderMetrics {
+    this.refreshSpatialGrid();
+    return this.orderMetrics.compute(this.birdArrays, this.spatialGrid, this.simConfig.perceptionRadius);
+  }
+
+  /**
+   * The grid is only rebuilt by CPU steps, so refresh it from the current
+   * positions before queries outside a step.
+   */
+  private refreshSpatialGrid(): void {
+    this.spatialGrid.rebuildFromArrays(
+      this.birdArrays.positionX,
+      this.birdArrays.positionY,
+      this.birdArrays.count
+    );
+  }
+
   /**
    * Reset simulation to initial state.
    */
@@ -1034,9 +1705,17 @@ export class Flock {
     // Reset time
     this.time = 0;
     this.accumulator = 0;
+    this.pendingLifecycleTime = 0;
+    this.readbackRequested = true;
+    this.panicPulses.length = 0;
     
     // Clear attractors
     this.attractors = [];
+    this.attractorsDirty = true;
+    
+    // Clear population totals and matings not yet turned into births
+    this.lifecycle.resetStats();
+    this.matingManager.clearCompletedMatings();
     
     // Clear force arrays
     this.forceX.fill(0);
@@ -1049,55 +1728,93 @@ export class Flock {
   }
 
   /**
-   * Set predator position for panic response.
-   * @param position Predator position or null if no predator
-   * @param panicRadius Optional panic radius override
+   * Serialize the birds and the simulation clock.
+   * In GPU mode this reads the last CPU readback.
    */
-  setPredatorPosition(position: { x: number; y: number } | null, panicRadius?: number): void {
-    if (!position) {
-      // Clear predator influence - decay panic for all birds
-      const count = this.birdArrays.count;
-      const decayRate = this.envConfig.panicDecay;
-      for (let i = 0; i < count; i++) {
-        this.birdArrays.panicLevel[i] *= (1 - decayRate * 0.5);
-        if (this.birdArrays.panicLevel[i] < 0.01) {
-          this.birdArrays.panicLevel[i] = 0;
-        }
-      }
-      return;
+  serialize(): IFlockSnapshot {
+    return {
+      birds: this.birdArrays.serialize(),
+      time: this.time,
+      accumulator: this.accumulator
+    };
+  }
+
+  /**
+   * Replace the flock with serialized birds. Attractors and population totals
+   * are cleared as on reset; the GPU copy is re-uploaded.
+   * @throws Error if the bird data is invalid (the flock is left empty)
+   */
+  deserialize(snapshot: IFlockSnapshot): void {
+    this.reset();
+    this.birdArrays.deserialize(snapshot.birds);
+    this.time = snapshot.time;
+    this.accumulator = snapshot.accumulator;
+
+    if (this.gpuReady && this.gpuRunner) {
+      this.gpuRunner.uploadData(this.birdArrays);
     }
+    this.spatialGrid.rebuildFromArrays(
+      this.birdArrays.positionX,
+      this.birdArrays.positionY,
+      this.birdArrays.count
+    );
+  }
 
-    const radius = panicRadius ?? this.envConfig.panicRadius;
-    const radiusSq = radius * radius;
+  /**
+   * Remove a bird from the flock (e.g. killed by a predator).
+   * The last bird is swapped into its slot; removal listeners are notified.
+   */
+  killBird(index: number, cause: DeathCause): void {
     const count = this.birdArrays.count;
+    this.lifecycle.removeBird(this.birdArrays, index, cause);
+    if (this.birdArrays.count === count) return;
+    
+    // Mirror the swap on the GPU; re-uploading could rewind birds to the last readback
+    if (this.gpuReady && this.gpuRunner && this.useGPU) {
+      this.gpuRunner.removeBird(index);
+    }
+  }
 
-    // Apply panic to birds within radius
-    for (let i = 0; i < count; i++) {
-      const dx = this.birdArrays.positionX[i] - position.x;
-      const dy = this.birdArrays.positionY[i] - position.y;
-      const distSq = dx * dx + dy * dy;
+  /**
+   * Register a listener called whenever a bird is removed and indices shift.
+   */
+  addBirdRemovedListener(callback: BirdRemovedCallback): void {
+    this.lifecycle.addBirdRemovedListener(callback);
+  }
 
-      if (distSq < radiusSq) {
-        const dist = Math.sqrt(distSq);
-        const panicIntensity = 1 - dist / radius;
-        this.birdArrays.panicLevel[i] = Math.max(
-          this.birdArrays.panicLevel[i],
-          panicIntensity
-        );
-      }
-    }
+  /**
+   * Get birth and death totals.
+   */
+  getLifecycleStats(): { births: number; deaths: number; deathsByCause: Record<DeathCause, number> } {
+    return this.lifecycle.getStats();
   }
 
   /**
    * Set food manager reference for feeding behavior.
    * @param manager FoodSourceManager instance or null
    */
-  setFoodManager(manager: unknown): void {
-    // Store reference for feeding behavior integration
-    // Using unknown type to avoid circular dependency
+  setFoodManager(manager: FoodSourceManager | null): void {
+    this.foodManager = manager;
     console.log('Food manager', manager ? 'connected' : 'disconnected');
   }
 
+  /**
+   * Set territory manager and assign home territories to the current flock.
+   * @param manager TerritoryManager instance or null
+   */
+  setTerritoryManager(manager: TerritoryManager | null): void {
+    this.territoryManager = manager;
+    manager?.assign(this.birdArrays);
+  }
+
+  /**
+   * Set day/night cycle reference for roosting and night-time modifiers.
+   * @param cycle DayNightCycle instance or null
+   */
+  setDayNightCycle(cycle: DayNightCycle | null): void {
+    this.dayNight = cycle;
+  }
+
   /**
    * Clean up resources.
    */
@@ -0,0 +1,105 @@
+import type { ForceComponent, IVector2 } from '../types';
+
+/** Recorded force components, in drawing order */
+export const FORCE_COMPONENTS: readonly ForceComponent[] = [
+  'alignment',
+  'cohesion',
+  'separation',
+  'boundary',
+  'wind',
+  'wander',
+  'attractor',
+  'flee'
+];
+
+/**
+ * Per-rule force buffers filled by CPU steps for the force-vector overlay.
+ *
+ * Each component has its own interleaved x/y buffer. Recording only observes
+ * the forces: rules still sum into the flock's force accumulators, so a
+ * recorded step moves the birds exactly like an unrecorded one. Rules that
+ * add to the accumulators directly are measured between mark() and record().
+ */
+export class ForceRecorder {
+  private buffers: Record<ForceComponent, Float32Array>;
+
+  // Accumulated force of the current bird at the last mark
+  private markX: number = 0;
+  private markY: number = 0;
+
+  constructor(maxBirds: number) {
+    const buffers = {} as Record<ForceComponent, Float32Array>;
+    for (const component of FORCE_COMPONENTS) {
+      buffers[component] = new Float32Array(maxBirds * 2);
+    }
+    this.buffers = buffers;
+  }
+
+  /**
+   * Zero every component of the first count birds before a step.
+   */
+  clear(count: number): void {
+    for (const component of FORCE_COMPONENTS) {
+      this.buffers[component].fill(0, 0, count * 2);
+    }
+  }
+
+  /**
+   * Add a force to a bird's component.
+   */
+  add(component: ForceComponent, index: number, x: number, y: number): void {
+    const buffer = this.buffers[component];
+    buffer[index * 2] += x;
+    buffer[index * 2 + 1] += y;
+  }
+
+  /**
+   * Remember a bird's accumulated force before a rule adds to it.
+   */
+  mark(index: number, forceX: Float32Array, forceY: Float32Array): void {
+    this.markX = forceX[index];
+    this.markY = forceY[index];
+  }
+
+  /**
+   * Record what the rules since the last mark added to a bird's accumulated
+   * force, and mark again.
+   */
+  record(component: ForceComponent, index: number, forceX: Float32Array, forceY: Float32Array): void {
+    this.add(component, index, forceX[index] - this.markX, forceY[index] - this.markY);
+    this.mark(index, forceX, forceY);
+  }
+
+  /**
+   * Scale every component recorded so far for a bird (e.g. wall damping).
+   */
+  scale(index: number, factor: number): void {
+    for (const component of FORCE_COMPONENTS) {
+      const buffer = this.buffers[component];
+      buffer[index * 2] *= factor;
+      buffer[index * 2 + 1] *= factor;
+    }
+  }
+
+  /**
+   * Read one component of a bird's force.
+   */
+  get(component: ForceComponent, index: number, out: IVector2 = { x: 0, y: 0 }): IVector2 {
+    const buffer = this.buffers[component];
+    out.x = buffer[index * 2];
+    out.y = buffer[index * 2 + 1];
+    return out;
+  }
+
+  /**
+   * Follow a swap-remove: the bird at fromIndex moved to toIndex.
+   */
+  moveBird(fromIndex: number, toIndex: number): void {
+    if (fromIndex < 0) return;
+    for (const component of FORCE_COMPONENTS) {
+      const buffer = this.buffers[component];
+      buffer[toIndex * 2] = buffer[fromIndex * 2];
+      buffer[toIndex * 2 + 1] = buffer[fromIndex * 2 + 1];
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { Flock, FIXED_TIMESTEP } from './Flock';
+import {
+  AttractorManager,
+  BasePredator,
+  DayNightCycle,
+  FoodSourceManager,
+  TerritoryManager,
+  Wind,
+  clearOrcaPacks,
+  createAttractor,
+  createPredator
+} from '../environment';
+import { Random } from '../utils/Random';
+import type {
+  IAttractor,
+  IEnvironmentConfig,
+  IHeadlessMetrics,
+  IHeadlessOptions,
+  ILoadedConfig,
+  ISimulationConfig
+} from '../types';
+
+// Default world size and capacity when the caller doesn't set them
+const DEFAULT_WIDTH = 1920;
+const DEFAULT_HEIGHT = 1080;
+const DEFAULT_MAX_BIRDS = 10000;
+
+// Predators spawn this far from the walls
+const PREDATOR_SPAWN_MARGIN = 100;
+
+/**
+ * Simulation without DOM, canvas or GPU, for Node scripts, batch experiments and CI.
+ *
+ * Composes the same systems as App (flock, wind, day/night, food, territories,
+ * predators, attractors) and advances them one fixed timestep at a time, so a
+ * seeded run is reproducible step for step.
+ */
+export class HeadlessSimulation {
+  private config: ILoadedConfig;
+  private simConfig: ISimulationConfig;
+  private envConfig: IEnvironmentConfig;
+  private width: number;
+  private height: number;
+  private seed: number | null;
+  private maxBirds: number;
+  private startTimeOfDay: number;
+
+  // Own random source, so simulations sharing a process stay independent
+  private rng: Random;
+
+  private flock: Flock;
+  private wind: Wind;
+  private attractors: AttractorManager;
+  private dayNight: DayNightCycle;
+  private foodManager: FoodSourceManager | null = null;
+  private territoryManager: TerritoryManager | null = null;
+  private predators: BasePredator[] = [];
+
+  private steps: number = 0;
+  private initialBirdCount: number = 0;
+
+  constructor(config: ILoadedConfig, options: IHeadlessOptions = {}) {
+    this.config = config;
+    this.width = options.width ?? DEFAULT_WIDTH;
+    this.height = options.height ?? DEFAULT_HEIGHT;
+    this.seed = options.seed ?? config.simulation.seed ?? null;
+    this.maxBirds = options.maxBirds ?? DEFAULT_MAX_BIRDS;
+
+    // Own copies: the day/night clock and UI-style edits mutate the config
+    this.simConfig = structuredClone(config.simulation);
+    this.envConfig = structuredClone(config.environment);
+    this.startTimeOfDay = this.envConfig.dayNight?.timeOfDay ?? 0;
+
+    // Seed before anything draws random numbers
+    this.rng = new Random(this.seed);
+
+    this.flock = this.createFlock();
+    this.wind = new Wind(this.envConfig, this.rng);
+    this.attractors = new AttractorManager();
+    this.dayNight = new DayNightCycle(this.envConfig.dayNight, this.width, this.height, this.rng);
+    this.flock.setDayNightCycle(this.dayNight);
+
+    this.populate();
+  }
+
+  /**
+   * Advance by one fixed timestep.
+   */
+  step(): void {
+    const dt = FIXED_TIMESTEP;
+
+    this.flock.update(dt);
+    this.wind.update(dt);
+
+    // Day/night cycle and the predators' night edge
+    this.dayNight.update(dt);
+    const darkness = this.dayNight.getDarkness();
+    const nightBoost = this.dayNight.getProfile().nightPredatorBoost;
+
+    this.attractors.update(dt);
+    this.flock.updateAttractors(dt);
+
+    if (this.predators.length > 0 && this.envConfig.predatorEnabled) {
+      const birdArrays = this.flock.getBirdArrays();
+      for (const predator of this.predators) {
+        predator.setDarkness(darkness, nightBoost);
+        predator.setBoundaryMode(this.simConfig.boundaryMode ?? 'reflect');
+        predator.update(dt, birdArrays, this.width, this.height);
+      }
+      this.flock.setPredators(this.predators);
+    } else {
+      this.flock.setPredators([]);
+    }
+
+    if (this.foodManager && this.envConfig.foodEnabled) {
+      this.foodManager.update(dt, this.flock.getBirdArrays());
+    }
+
+    this.steps++;
+  }
+
+  /**
+   * Simulate for a number of seconds (rounded to whole timesteps).
+   * @returns Metrics at the end of the run
+   */
+  run(seconds: number): IHeadlessMetrics {
+    const steps = Math.round(seconds / FIXED_TIMESTEP);
+    for (let i = 0; i < steps; i++) {
+      this.step();
+    }
+    return this.getMetrics();
+  }
+
+  /**
+   * Snapshot of flock, order, predator, food and population metrics.
+   */
+  getMetrics(): IHeadlessMetrics {
+    const stats = this.flock.getExtendedStats();
+    const lifecycle = this.flock.getLifecycleStats();
+    const order = this.flock.getOrderMetrics();
+
+    let successfulHunts = 0;
+    let failedHunts = 0;
+    for (const predator of this.predators) {
+      successfulHunts += predator.successfulHunts;
+      failedHunts += predator.failedHunts;
+    }
+    const strikes = successfulHunts + failedHunts;
+
+    return {
+      time: this.steps * FIXED_TIMESTEP,
+      steps: this.steps,
+      birdCount: this.flock.birdCount,
+      avgDensity: stats.avgDensity,
+      avgSpeed: stats.avgSpeed,
+      avgEnergy: stats.avgEnergy,
+      avgPanic: stats.avgPanic,
+      matingPairs: stats.matingPairs,
+      fightingPairs: stats.fightingPairs,
+      feedingBirds: stats.feedingBirds,
+      activeFoodSources: this.foodManager?.getActiveFoodCount() ?? 0,
+      successfulHunts,
+      failedHunts,
+      births: lifecycle.births,
+      deaths: lifecycle.deaths,
+      deathsByCause: { ...lifecycle.deathsByCause },
+      polarization: order.polarization,
+      milling: order.milling,
+      collectiveState: order.state,
+      nearestNeighborMean: order.nearestNeighborMean,
+      nearestNeighborMedian: order.nearestNeighborMedian,
+      clusterCount: order.clusterCount,
+      largestClusterFraction: order.largestClusterFraction,
+      survival: this.initialBirdCount > 0 ? this.countInitialSurvivors() / this.initialBirdCount : 0,
+      huntSuccess: strikes > 0 ? successfulHunts / strikes : 0,
+      timeOfDay: this.envConfig.dayNight?.enabled ? this.envConfig.dayNight.timeOfDay : undefined
+    };
+  }
+
+  /**
+   * Add an attractor or repulsor, the same as a left/right click in the browser.
+   */
+  addAttractor(x: number, y: number, isRepulsor: boolean = false): IAttractor {
+    const attractor = createAttractor(x, y, isRepulsor ? 2.0 : 1.5, 200, 3.0, isRepulsor);
+    this.flock.addAttractor(attractor);
+    this.attractors.add(attractor);
+
+    // Repulsors also startle nearby birds
+    if (isRepulsor) {
+      this.flock.applyPanicAtPosition(x, y, 200, 0.8);
+    }
+    return attractor;
+  }
+
+  /**
+   * Restart from the initial state (same scenario again when seeded).
+   * Config edits are kept; the flock and all systems are rebuilt.
+   */
+  reset(): void {
+    // Same construction order as the constructor, so a seeded run repeats exactly
+    this.rng.setSeed(this.seed);
+    if (this.envConfig.dayNight) {
+      this.envConfig.dayNight.timeOfDay = this.startTimeOfDay;
+    }
+
+    this.foodManager = null;
+    this.territoryManager = null;
+    this.flock = this.createFlock();
+    this.wind = new Wind(this.envConfig, this.rng);
+    this.attractors = new AttractorManager();
+    this.dayNight = new DayNightCycle(this.envConfig.dayNight, this.width, this.height, this.rng);
+    this.flock.setDayNightCycle(this.dayNight);
+
+    this.steps = 0;
+    this.populate();
+  }
+
+  /**
+   * Get the flock.
+   */
+  getFlock(): Flock {
+    return this.flock;
+  }
+
+  /**
+   * Get the active predators.
+   */
+  getPredators(): BasePredator[] {
+    return this.predators;
+  }
+
+  /**
+   * Get the simulation config (edits take effect on the next step).
+   */
+  getSimulationConfig(): ISimulationConfig {
+    return this.simConfig;
+  }
+
+  /**
+   * Get the environment config (edits take effect on the next step).
+   */
+  getEnvironmentConfig(): IEnvironmentConfig {
+    return this.envConfig;
+  }
+
+  /**
+   * Create the flock and keep index-based references valid when birds die.
+   */
+  private createFlock(): Flock {
+    const flock = new Flock(this.width, this.height, this.maxBirds, this.simConfig, this.envConfig, this.rng);
+    flock.addBirdRemovedListener((removedIndex, movedFromIndex) => {
+      this.foodManager?.remapBirdIndex(removedIndex, movedFromIndex);
+      for (const predator of this.predators) {
+        predator.remapBirdIndex(removedIndex, movedFromIndex);
+      }
+    });
+    return flock;
+  }
+
+  /**
+   * Birds of the initial population still alive. Spawned birds get ids from 0
+   * and newborns from the initial count up, so deaths of newborns don't count.
+   */
+  private countInitialSurvivors(): number {
+    const birdArrays = this.flock.getBirdArrays();
+    let survivors = 0;
+    for (let i = 0; i < birdArrays.count; i++) {
+      if (birdArrays.id[i] < this.initialBirdCount) survivors++;
+    }
+    return survivors;
+  }
+
+  /**
+   * Spawn birds and set up the optional systems enabled in the config.
+   */
+  private populate(): void {
+    this.flock.spawnBirds(this.simConfig.birdCount);
+    this.initialBirdCount = this.flock.birdCount;
+
+    if (this.envConfig.foodEnabled) {
+      this.foodManager = new FoodSourceManager(this.width, this.height, {
+        respawnTime: this.envConfig.foodRespawnTime,
+        maxFeeders: this.envConfig.maxFeedersPerFood,
+        gatherRadius: this.envConfig.gatherRadius,
+        feedingDuration: this.envConfig.feedingDuration,
+        attractionRadius: this.envConfig.foodAttractionRadius,
+        foodEnergyRestore: this.simConfig.foodEnergyRestore
+      }, this.rng);
+      this.foodManager.spawnFood(this.envConfig.foodCount, this.envConfig.foodRadius);
+      this.flock.setFoodManager(this.foodManager);
+    }
+
+    if (this.envConfig.territories?.enabled) {
+      this.territoryManager = new TerritoryManager(this.envConfig.territories, this.width, this.height, this.rng);
+      this.flock.setTerritoryManager(this.territoryManager);
+    }
+
+    this.spawnPredators();
+  }
+
+  /**
+   * Spawn predators based on predatorCount config.
+   */
+  private spawnPredators(): void {
+    this.predators = [];
+    clearOrcaPacks();
+    if (!this.envConfig.predatorEnabled) return;
+
+    const count = this.envConfig.predatorCount || 1;
+    const preset = this.config.predatorPresets[this.envConfig.predatorType];
+
+    for (let i = 0; i < count; i++) {
+      const x = PREDATOR_SPAWN_MARGIN + this.rng.next() * (this.width - PREDATOR_SPAWN_MARGIN * 2);
+      const y = PREDATOR_SPAWN_MARGIN + this.rng.next() * (this.height - PREDATOR_SPAWN_MARGIN * 2);
+      const predator = createPredator(i, this.envConfig.predatorType, x, y, this.rng, preset);
+      predator.setLethal(this.envConfig.lethalPredation);
+      predator.setKillCallback((event) => this.flock.killBird(event.birdIndex, 'predation'));
+      predator.setObstacles(this.flock.getObstacles());
+      this.predators.push(predator);
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import type { Random } from '../utils/Random';
+import type { BirdArrays } from './Bird';
+import type { ILifecycleConfig, DeathCause, BirdRemovedCallback } from '../types';
+
+// Offspring spawn spread around the mother
+const NEWBORN_SPREAD = 8;
+
+// Newborns start with partial energy
+const NEWBORN_ENERGY = 0.6;
+
+// Energy a mother spends per offspring
+const BIRTH_ENERGY_COST = 0.15;
+
+// Death probability per second once a bird is older than maxAge
+const OLD_AGE_HAZARD = 0.5;
+
+/**
+ * Population lifecycle: ageing, births from completed matings and deaths.
+ *
+ * Deaths swap-remove the bird from BirdArrays, so the last bird changes index.
+ * Systems holding bird indices (food feeders, predator targets) register a
+ * BirdRemovedCallback to stay in sync.
+ */
+export class LifecycleManager {
+  private config: ILifecycleConfig;
+  private energyEnabled: boolean;
+  private rng: Random;
+  private listeners: BirdRemovedCallback[] = [];
+
+  // Running totals
+  private births: number = 0;
+  private deaths: Record<DeathCause, number> = {
+    starvation: 0,
+    predation: 0,
+    'old-age': 0,
+    natural: 0
+  };
+
+  constructor(config: ILifecycleConfig, energyEnabled: boolean, rng: Random) {
+    this.config = config;
+    this.energyEnabled = energyEnabled;
+    this.rng = rng;
+  }
+
+  /**
+   * Register a listener for bird removals.
+   */
+  addBirdRemovedListener(callback: BirdRemovedCallback): void {
+    this.listeners.push(callback);
+  }
+
+  /**
+   * Unregister a bird removal listener.
+   */
+  removeBirdRemovedListener(callback: BirdRemovedCallback): void {
+    this.listeners = this.listeners.filter(l => l !== callback);
+  }
+
+  /**
+   * Age birds, spawn offspring and apply mortality.
+   * @param completedMatings Flat [female, male] index pairs from the mating system
+   * @returns True if the population changed
+   */
+  update(dt: number, birdArrays: BirdArrays, completedMatings: readonly number[]): boolean {
+    const count = birdArrays.count;
+    for (let i = 0; i < count; i++) {
+      birdArrays.age[i] += dt;
+    }
+
+    if (!this.config?.enabled) return false;
+
+    let changed = false;
+
+    // Births first, while mating indices are still valid
+    for (let p = 0; p < completedMatings.length; p += 2) {
+      if (this.spawnOffspring(completedMatings[p], completedMatings[p + 1], birdArrays) > 0) {
+        changed = true;
+      }
+    }
+
+    // Deaths - iterate backwards so the bird swapped in has already been checked
+    const starvationRate = this.energyEnabled ? this.config.starvationRate : 0;
+    const mortalityRate = this.config.mortalityRate;
+    const maxAge = this.config.maxAge;
+
+    for (let i = birdArrays.count - 1; i >= 0; i--) {
+      let cause: DeathCause | null = null;
+
+      if (starvationRate > 0 && birdArrays.energy[i] <= 0 && this.rng.next() < starvationRate * dt) {
+        cause = 'starvation';
+      } else if (maxAge > 0 && birdArrays.age[i] > maxAge && this.rng.next() < OLD_AGE_HAZARD * dt) {
+        cause = 'old-age';
+      } else if (mortalityRate > 0 && this.rng.next() < mortalityRate * dt) {
+        cause = 'natural';
+      }
+
+      if (cause) {
+        this.removeBird(birdArrays, i, cause);
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Remove a bird and notify listeners of the index change.
+   */
+  removeBird(birdArrays: BirdArrays, index: number, cause: DeathCause): void {
+    if (index < 0 || index >= birdArrays.count) return;
+
+    const movedFrom = birdArrays.removeAt(index);
+    this.deaths[cause]++;
+
+    for (const listener of this.listeners) {
+      listener(index, movedFrom, cause);
+    }
+  }
+
+  /**
+   * Spread initial ages so old-age deaths do not all happen at once.
+   */
+  randomizeAges(birdArrays: BirdArrays): void {
+    const maxAge = this.config?.maxAge ?? 0;
+    if (maxAge <= 0) return;
+
+    for (let i = 0; i < birdArrays.count; i++) {
+      birdArrays.age[i] = this.rng.next() * maxAge;
+    }
+  }
+
+  /**
+   * Get running birth and death totals.
+   */
+  getStats(): { births: number; deaths: number; deathsByCause: Record<DeathCause, number> } {
+    const deaths = this.deaths.starvation + this.deaths.predation + this.deaths['old-age'] + this.deaths.natural;
+    return {
+      births: this.births,
+      deaths,
+      deathsByCause: { ...this.deaths }
+    };
+  }
+
+  /**
+   * Reset running totals.
+   */
+  resetStats(): void {
+    this.births = 0;
+    this.deaths = { starvation: 0, predation: 0, 'old-age': 0, natural: 0 };
+  }
+
+  /**
+   * Update configuration.
+   */
+  updateConfig(config: ILifecycleConfig, energyEnabled: boolean): void {
+    this.config = config;
+    this.energyEnabled = energyEnabled;
+  }
+
+  /**
+   * Append offspring next to the mother.
+   * @returns Number of birds born
+   */
+  private spawnOffspring(mother: number, father: number, birdArrays: BirdArrays): number {
+    if (mother < 0 || mother >= birdArrays.count) return 0;
+    const maxLitter = Math.floor(this.config.offspringPerMating);
+    if (maxLitter <= 0 || this.rng.next() >= this.config.birthChance) return 0;
+
+    const litter = 1 + Math.floor(this.rng.next() * maxLitter);
+    const mx = birdArrays.positionX[mother];
+    const my = birdArrays.positionY[mother];
+    const vx = father >= 0 && father < birdArrays.count
+      ? (birdArrays.velocityX[mother] + birdArrays.velocityX[father]) * 0.5
+      : birdArrays.velocityX[mother];
+    const vy = father >= 0 && father < birdArrays.count
+      ? (birdArrays.velocityY[mother] + birdArrays.velocityY[father]) * 0.5
+      : birdArrays.velocityY[mother];
+
+    let born = 0;
+    for (let k = 0; k < litter; k++) {
+      const angle = this.rng.next() * Math.PI * 2;
+      const index = birdArrays.append(
+        mx + Math.cos(angle) * NEWBORN_SPREAD,
+        my + Math.sin(angle) * NEWBORN_SPREAD,
+        vx + Math.cos(angle),
+        vy + Math.sin(angle),
+        birdArrays.speciesId[mother]
+      );
+      if (index < 0) break;
+
+      birdArrays.energy[index] = NEWBORN_ENERGY;
+      born++;
+    }
+
+    if (born > 0 && this.energyEnabled) {
+      birdArrays.energy[mother] = Math.max(0, birdArrays.energy[mother] - BIRTH_ENERGY_COST * born);
+    }
+
+    this.births += born;
+    return born;
+  }
+}
@@ -0,0 +1,670 @@
+import type { Random } from '../utils/Random';
+import type { WorldWrap } from '../utils/WorldWrap';
+import type { BirdArrays } from './Bird';
+import type { SpatialGrid } from './SpatialGrid';
+import type { ISimulationConfig, IEnvironmentConfig, ISteeringTarget } from '../types';
+
+// Mating state encoding (matches MatingStateMap)
+const STATE_NONE = 0;
+const STATE_SEEKING = 1;
+const STATE_APPROACHING = 2;
+const STATE_COURTING = 3;
+const STATE_MATING = 4;
+const STATE_FIGHTING = 5;
+const STATE_COOLDOWN = 6;
+
+// Chance per second that an idle bird starts looking for a mate (~2% per frame at 60fps)
+const SEEK_CHANCE_PER_SECOND = 1.2;
+
+// Give up on a mate that cannot be reached in time
+const APPROACH_TIMEOUT = 10;
+const COURTING_TIMEOUT = 6;
+
+// Panic level above which mating behavior is abandoned
+const PANIC_THRESHOLD = 0.5;
+
+// Energy drained per second while fighting
+const FIGHT_ENERGY_DRAIN = 0.05;
+
+/**
+ * Drives the mating and male competition state machine on SoA bird data.
+ *
+ * none → seeking → approaching → courting → mating → cooldown → none.
+ * Males approaching the same female within fightRadius switch to fighting;
+ * the winner resumes approaching, the losers go into a short cooldown.
+ */
+export class MatingManager {
+  private simConfig: ISimulationConfig;
+  private envConfig: IEnvironmentConfig;
+  private rng: Random;
+  private worldWrap: WorldWrap;
+
+  // True while any bird may hold a non-idle mating state
+  private active: boolean = false;
+
+  // Matings completed since the last clear, as flat [female, male] index pairs
+  private completedMatings: number[] = [];
+
+  constructor(simConfig: ISimulationConfig, envConfig: IEnvironmentConfig, rng: Random, worldWrap: WorldWrap) {
+    this.simConfig = simConfig;
+    this.envConfig = envConfig;
+    this.rng = rng;
+    this.worldWrap = worldWrap;
+  }
+
+  /**
+   * Advance mating states and accumulate steering forces.
+   * Spatial grid must already contain the current positions.
+   */
+  update(
+    dt: number,
+    birdArrays: BirdArrays,
+    spatialGrid: SpatialGrid,
+    outForceX: Float32Array,
+    outForceY: Float32Array
+  ): void {
+    if (!this.envConfig.matingEnabled) {
+      if (this.active) {
+        this.clear(birdArrays);
+      }
+      return;
+    }
+    this.active = true;
+
+    const count = birdArrays.count;
+
+    for (let i = 0; i < count; i++) {
+      // Cooldown ticks down regardless of state
+      if (birdArrays.matingCooldown[i] > 0) {
+        birdArrays.matingCooldown[i] = Math.max(0, birdArrays.matingCooldown[i] - dt);
+      }
+
+      const state = birdArrays.matingState[i];
+
+      // Predator nearby - drop everything
+      if (
+        this.envConfig.panicSuppressesMating &&
+        birdArrays.panicLevel[i] > PANIC_THRESHOLD &&
+        state !== STATE_NONE &&
+        state !== STATE_COOLDOWN
+      ) {
+        this.release(i, birdArrays);
+        continue;
+      }
+
+      switch (state) {
+        case STATE_NONE:
+          if (
+            birdArrays.matingCooldown[i] <= 0 &&
+            this.hasEnergyForMating(i, birdArrays) &&
+            this.rng.next() < SEEK_CHANCE_PER_SECOND * dt
+          ) {
+            birdArrays.matingState[i] = STATE_SEEKING;
+            birdArrays.targetMateId[i] = -1;
+            birdArrays.matingTimer[i] = 0;
+          }
+          break;
+
+        case STATE_SEEKING:
+          if (!this.hasEnergyForMating(i, birdArrays)) {
+            this.clearBird(i, birdArrays);
+            break;
+          }
+          this.seekMate(i, birdArrays, spatialGrid);
+          break;
+
+        case STATE_APPROACHING:
+          this.approachMate(i, dt, birdArrays, spatialGrid, outForceX, outForceY);
+          break;
+
+        case STATE_COURTING:
+          this.courtMate(i, dt, birdArrays, outForceX, outForceY);
+          break;
+
+        case STATE_MATING:
+          this.maintainMating(i, dt, birdArrays, outForceX, outForceY);
+          break;
+
+        case STATE_FIGHTING:
+          this.resolveFight(i, dt, birdArrays, spatialGrid, outForceX, outForceY);
+          break;
+
+        case STATE_COOLDOWN:
+          if (birdArrays.matingCooldown[i] <= 0) {
+            this.clearBird(i, birdArrays);
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Steering toward the partner as a target, for the GPU flocking pass that
+   * cannot take the forces accumulated by update(). Mirrors the seek/arrive
+   * part of approaching, courting and mating; velocity matching and fight
+   * repulsion stay CPU-only.
+   * @returns False if the bird is not steering toward a mate
+   */
+  getSteeringTarget(i: number, birdArrays: BirdArrays, out: ISteeringTarget): boolean {
+    out.mode = 'none';
+    if (!this.active) return false;
+
+    const target = birdArrays.targetMateId[i];
+    if (!this.isValidPartner(i, target, birdArrays)) return false;
+    const mutual = birdArrays.targetMateId[target] === i;
+
+    switch (birdArrays.matingState[i]) {
+      case STATE_APPROACHING:
+        // Males close in on a female who has not reciprocated yet; she holds position
+        if (!mutual && birdArrays.gender[i] !== 1) return false;
+        out.radius = mutual ? this.envConfig.courtingDistance : 0;
+        out.weight = this.envConfig.mateAttractionStrength;
+        break;
+      case STATE_COURTING:
+        if (!mutual) return false;
+        out.radius = this.envConfig.courtingDistance;
+        out.weight = this.envConfig.mateAttractionStrength * 0.5;
+        break;
+      case STATE_MATING:
+        if (!mutual) return false;
+        out.radius = this.envConfig.matingDistance;
+        out.weight = this.envConfig.mateAttractionStrength;
+        break;
+      default:
+        return false;
+    }
+
+    out.mode = 'arrive';
+    out.x = birdArrays.positionX[target];
+    out.y = birdArrays.positionY[target];
+    return true;
+  }
+
+  /**
+   * Update configuration.
+   */
+  updateConfig(simConfig: ISimulationConfig, envConfig: IEnvironmentConfig): void {
+    this.simConfig = simConfig;
+    this.envConfig = envConfig;
+  }
+
+  /**
+   * Matings completed since the last clear, as flat [female, male] index pairs.
+   */
+  getCompletedMatings(): readonly number[] {
+    return this.completedMatings;
+  }
+
+  clearCompletedMatings(): void {
+    this.completedMatings.length = 0;
+  }
+
+  /**
+   * Reset all birds to the idle mating state.
+   */
+  clear(birdArrays: BirdArrays): void {
+    const count = birdArrays.count;
+    for (let i = 0; i < count; i++) {
+      this.clearBird(i, birdArrays);
+      birdArrays.matingCooldown[i] = 0;
+    }
+    this.completedMatings.length = 0;
+    this.active = false;
+  }
+
+  // ============================================================================
+  // State Handlers
+  // ============================================================================
+
+  /**
+   * Look for the nearest available partner of the opposite gender.
+   */
+  private seekMate(i: number, birdArrays: BirdArrays, spatialGrid: SpatialGrid): void {
+    const radius = this.envConfig.mateSearchRadius;
+    const px = birdArrays.positionX[i];
+    const py = birdArrays.positionY[i];
+    const isMale = birdArrays.gender[i] === 1;
+
+    const neighborIds = spatialGrid.getNeighborIds(px, py, radius, i);
+    let best = -1;
+    let bestDistSq = radius * radius;
+
+    for (const j of neighborIds) {
+      if (birdArrays.gender[j] === birdArrays.gender[i]) continue;
+      if (birdArrays.speciesId[j] !== birdArrays.speciesId[i]) continue;
+      if (birdArrays.matingCooldown[j] > 0) continue;
+
+      // Males may contest a female who is already being approached
+      const otherState = birdArrays.matingState[j];
+      const available = otherState === STATE_SEEKING ||
+        (isMale && otherState === STATE_APPROACHING);
+      if (!available) continue;
+
+      const dx = this.worldWrap.deltaX(birdArrays.positionX[j] - px);
+      const dy = this.worldWrap.deltaY(birdArrays.positionY[j] - py);
+      const distSq = dx * dx + dy * dy;
+      if (distSq >= bestDistSq) continue;
+
+      // Female selectivity: she may turn this male down
+      if (isMale && this.rng.next() < this.envConfig.femaleSelectivity) continue;
+
+      bestDistSq = distSq;
+      best = j;
+    }
+
+    if (best < 0) return;
+
+    birdArrays.matingState[i] = STATE_APPROACHING;
+    birdArrays.targetMateId[i] = best;
+    birdArrays.matingTimer[i] = 0;
+
+    // An unclaimed partner reciprocates
+    if (birdArrays.matingState[best] === STATE_SEEKING) {
+      birdArrays.matingState[best] = STATE_APPROACHING;
+      birdArrays.targetMateId[best] = i;
+      birdArrays.matingTimer[best] = 0;
+    }
+  }
+
+  /**
+   * Steer toward the chosen mate, watching for rival males.
+   */
+  private approachMate(
+    i: number,
+    dt: number,
+    birdArrays: BirdArrays,
+    spatialGrid: SpatialGrid,
+    outForceX: Float32Array,
+    outForceY: Float32Array
+  ): void {
+    const target = birdArrays.targetMateId[i];
+    if (!this.isValidPartner(i, target, birdArrays)) {
+      this.returnToSeeking(i, birdArrays);
+      return;
+    }
+
+    birdArrays.matingTimer[i] += dt;
+    if (birdArrays.matingTimer[i] > APPROACH_TIMEOUT) {
+      this.returnToSeeking(i, birdArrays);
+      return;
+    }
+
+    // Rival males heading for the same female start a fight
+    if (birdArrays.gender[i] === 1 && this.startFightWithRivals(i, target, birdArrays, spatialGrid)) {
+      return;
+    }
+
+    const dist = this.distance(i, target, birdArrays);
+    if (dist > this.envConfig.mateSearchRadius * 2) {
+      this.returnToSeeking(i, birdArrays);
+      return;
+    }
+
+    // Only steer toward a partner that is interested back
+    const mutual = birdArrays.targetMateId[target] === i;
+    if (!mutual) {
+      // Female holds position while males settle who gets to approach
+      if (birdArrays.gender[i] === 1) {
+        this.steerToward(i, target, this.envConfig.mateAttractionStrength, 0, birdArrays, outForceX, outForceY);
+      }
+      return;
+    }
+
+    this.steerToward(
+      i,
+      target,
+      this.envConfig.mateAttractionStrength,
+      this.envConfig.courtingDistance,
+      birdArrays,
+      outForceX,
+      outForceY
+    );
+
+    if (dist < this.envConfig.courtingDistance && birdArrays.matingState[target] === STATE_APPROACHING) {
+      this.setPairState(i, target, STATE_COURTING, birdArrays);
+    }
+  }
+
+  /**
+   * Close-range courtship: slow down and drift together.
+   */
+  private courtMate(
+    i: number,
+    dt: number,
+    birdArrays: BirdArrays,
+    outForceX: Float32Array,
+    outForceY: Float32Array
+  ): void {
+    const target = birdArrays.targetMateId[i];
+    if (!this.isValidPartner(i, target, birdArrays) || birdArrays.targetMateId[target] !== i) {
+      this.returnToSeeking(i, birdArrays);
+      return;
+    }
+
+    birdArrays.matingTimer[i] += dt;
+    if (birdArrays.matingTimer[i] > COURTING_TIMEOUT) {
+      this.returnToSeeking(target, birdArrays);
+      this.returnToSeeking(i, birdArrays);
+      return;
+    }
+
+    this.steerToward(
+      i,
+      target,
+      this.envConfig.mateAttractionStrength * 0.5,
+      this.envConfig.courtingDistance,
+      birdArrays,
+      outForceX,
+      outForceY
+    );
+    this.matchVelocity(i, target, 0.5, birdArrays, outForceX, outForceY);
+
+    if (this.distance(i, target, birdArrays) < this.envConfig.matingDistance) {
+      this.setPairState(i, target, STATE_MATING, birdArrays);
+    }
+  }
+
+  /**
+   * Keep the pair together until the mating duration elapses.
+   */
+  private maintainMating(
+    i: number,
+    dt: number,
+    birdArrays: BirdArrays,
+    outForceX: Float32Array,
+    outForceY: Float32Array
+  ): void {
+    const target = birdArrays.targetMateId[i];
+    if (!this.isValidPartner(i, target, birdArrays) || birdArrays.targetMateId[target] !== i) {
+      this.endMating(i, this.envConfig.matingCooldown * 0.5, birdArrays);
+      return;
+    }
+
+    birdArrays.matingTimer[i] += dt;
+
+    this.steerToward(
+      i,
+      target,
+      this.envConfig.mateAttractionStrength,
+      this.envConfig.matingDistance,
+      birdArrays,
+      outForceX,
+      outForceY
+    );
+    this.matchVelocity(i, target, 1.0, birdArrays, outForceX, outForceY);
+
+    if (birdArrays.matingTimer[i] >= this.envConfig.matingDuration) {
+      if (birdArrays.gender[i] === 0) {
+        this.completedMatings.push(i, target);
+      } else {
+        this.completedMatings.push(target, i);
+      }
+      this.endMating(target, this.envConfig.matingCooldown, birdArrays);
+      this.endMating(i, this.envConfig.matingCooldown, birdArrays);
+    }
+  }
+
+  /**
+   * Push away from rivals and settle the contest after fightDuration.
+   */
+  private resolveFight(
+    i: number,
+    dt: number,
+    birdArrays: BirdArrays,
+    spatialGrid: SpatialGrid,
+    outForceX: Float32Array,
+    outForceY: Float32Array
+  ): void {
+    const target = birdArrays.targetMateId[i];
+    if (!this.isValidPartner(i, target, birdArrays)) {
+      this.endMating(i, this.envConfig.matingCooldown * 0.5, birdArrays);
+      return;
+    }
+
+    birdArrays.matingTimer[i] += dt;
+
+    const rivals = this.findRivals(i, target, birdArrays, spatialGrid, true);
+
+    // Rivals gone - nothing left to contest
+    if (rivals.length === 0) {
+      birdArrays.matingState[i] = STATE_APPROACHING;
+      birdArrays.matingTimer[i] = 0;
+      return;
+    }
+
+    // Repulsion between rivals
+    const px = birdArrays.positionX[i];
+    const py = birdArrays.positionY[i];
+    const fightRadius = this.envConfig.fightRadius;
+    const maxForce = this.simConfig.maxForce * this.envConfig.fightStrength;
+    for (const r of rivals) {
+      const dx = this.worldWrap.deltaX(px - birdArrays.positionX[r]);
+      const dy = this.worldWrap.deltaY(py - birdArrays.positionY[r]);
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist < 0.01) continue;
+      const strength = maxForce * (1 - Math.min(1, dist / fightRadius));
+      outForceX[i] += (dx / dist) * strength;
+      outForceY[i] += (dy / dist) * strength;
+    }
+
+    if (this.simConfig.energyEnabled) {
+      birdArrays.energy[i] = Math.max(0, birdArrays.energy[i] - FIGHT_ENERGY_DRAIN * dt);
+    }
+
+    if (birdArrays.matingTimer[i] < this.envConfig.fightDuration) return;
+
+    // Score every contestant once so the outcome is consistent for all of them
+    let winner = i;
+    let bestScore = this.fightScore(i, birdArrays);
+    for (const r of rivals) {
+      const score = this.fightScore(r, birdArrays);
+      if (score > bestScore) {
+        bestScore = score;
+        winner = r;
+      }
+    }
+
+    const loserCooldown = this.envConfig.matingCooldown * 0.5;
+    for (const r of rivals) {
+      if (r !== winner) this.endMating(r, loserCooldown, birdArrays);
+    }
+    if (winner !== i) this.endMating(i, loserCooldown, birdArrays);
+
+    birdArrays.matingState[winner] = STATE_APPROACHING;
+    birdArrays.matingTimer[winner] = 0;
+
+    // The female accepts the winner
+    if (birdArrays.matingState[target] === STATE_APPROACHING || birdArrays.matingState[target] === STATE_SEEKING) {
+      birdArrays.matingState[target] = STATE_APPROACHING;
+      birdArrays.targetMateId[target] = winner;
+      birdArrays.matingTimer[target] = 0;
+    }
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  /**
+   * Switch male i and any nearby rivals for the same female into fighting.
+   */
+  private startFightWithRivals(
+    i: number,
+    target: number,
+    birdArrays: BirdArrays,
+    spatialGrid: SpatialGrid
+  ): boolean {
+    const rivals = this.findRivals(i, target, birdArrays, spatialGrid, false);
+    if (rivals.length === 0) return false;
+
+    birdArrays.matingState[i] = STATE_FIGHTING;
+    birdArrays.matingTimer[i] = 0;
+    for (const r of rivals) {
+      if (birdArrays.matingState[r] !== STATE_FIGHTING) {
+        birdArrays.matingState[r] = STATE_FIGHTING;
+        birdArrays.matingTimer[r] = 0;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Males within fightRadius contesting the same female.
+   */
+  private findRivals(
+    i: number,
+    target: number,
+    birdArrays: BirdArrays,
+    spatialGrid: SpatialGrid,
+    includeFighting: boolean
+  ): number[] {
+    const fightRadius = this.envConfig.fightRadius;
+    const fightRadiusSq = fightRadius * fightRadius;
+    const px = birdArrays.positionX[i];
+    const py = birdArrays.positionY[i];
+    const rivals: number[] = [];
+
+    const neighborIds = spatialGrid.getNeighborIds(px, py, fightRadius, i);
+    for (const j of neighborIds) {
+      if (birdArrays.gender[j] !== 1) continue;
+      if (birdArrays.targetMateId[j] !== target) continue;
+
+      const state = birdArrays.matingState[j];
+      if (state !== STATE_APPROACHING && !(includeFighting && state === STATE_FIGHTING)) continue;
+
+      const dx = this.worldWrap.deltaX(birdArrays.positionX[j] - px);
+      const dy = this.worldWrap.deltaY(birdArrays.positionY[j] - py);
+      if (dx * dx + dy * dy < fightRadiusSq) {
+        rivals.push(j);
+      }
+    }
+
+    return rivals;
+  }
+
+  private fightScore(i: number, birdArrays: BirdArrays): number {
+    return birdArrays.aggressionLevel[i] + birdArrays.energy[i] + this.rng.next() * 0.3;
+  }
+
+  private hasEnergyForMating(i: number, birdArrays: BirdArrays): boolean {
+    return !this.simConfig.energyEnabled ||
+      birdArrays.energy[i] >= this.envConfig.energyThresholdForMating;
+  }
+
+  /**
+   * Partner index is in range, of the opposite gender and still engaged.
+   */
+  private isValidPartner(i: number, j: number, birdArrays: BirdArrays): boolean {
+    if (j < 0 || j >= birdArrays.count || j === i) return false;
+    if (birdArrays.gender[j] === birdArrays.gender[i]) return false;
+    const state = birdArrays.matingState[j];
+    return state !== STATE_NONE && state !== STATE_COOLDOWN;
+  }
+
+  private distance(i: number, j: number, birdArrays: BirdArrays): number {
+    const dx = this.worldWrap.deltaX(birdArrays.positionX[j] - birdArrays.positionX[i]);
+    const dy = this.worldWrap.deltaY(birdArrays.positionY[j] - birdArrays.positionY[i]);
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  private setPairState(i: number, j: number, state: number, birdArrays: BirdArrays): void {
+    birdArrays.matingState[i] = state;
+    birdArrays.matingState[j] = state;
+    birdArrays.matingTimer[i] = 0;
+    birdArrays.matingTimer[j] = 0;
+  }
+
+  private returnToSeeking(i: number, birdArrays: BirdArrays): void {
+    birdArrays.matingState[i] = STATE_SEEKING;
+    birdArrays.targetMateId[i] = -1;
+    birdArrays.matingTimer[i] = 0;
+  }
+
+  private endMating(i: number, cooldown: number, birdArrays: BirdArrays): void {
+    birdArrays.matingState[i] = STATE_COOLDOWN;
+    birdArrays.targetMateId[i] = -1;
+    birdArrays.matingTimer[i] = 0;
+    birdArrays.matingCooldown[i] = cooldown;
+  }
+
+  private clearBird(i: number, birdArrays: BirdArrays): void {
+    birdArrays.matingState[i] = STATE_NONE;
+    birdArrays.targetMateId[i] = -1;
+    birdArrays.matingTimer[i] = 0;
+  }
+
+  /**
+   * Abandon mating behavior, freeing a committed partner too.
+   */
+  private release(i: number, birdArrays: BirdArrays): void {
+    const partner = birdArrays.targetMateId[i];
+    if (
+      partner >= 0 &&
+      partner < birdArrays.count &&
+      birdArrays.targetMateId[partner] === i &&
+      birdArrays.matingState[partner] !== STATE_FIGHTING
+    ) {
+      this.returnToSeeking(partner, birdArrays);
+    }
+    this.clearBird(i, birdArrays);
+  }
+
+  /**
+   * Reynolds seek/arrive toward bird j, scaled by strength.
+   */
+  private steerToward(
+    i: number,
+    j: number,
+    strength: number,
+    slowRadius: number,
+    birdArrays: BirdArrays,
+    outForceX: Float32Array,
+    outForceY: Float32Array
+  ): void {
+    const dx = this.worldWrap.deltaX(birdArrays.positionX[j] - birdArrays.positionX[i]);
+    const dy = this.worldWrap.deltaY(birdArrays.positionY[j] - birdArrays.positionY[i]);
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < 0.01) return;
+
+    const maxSpeed = this.simConfig.maxSpeed;
+    const speed = slowRadius > 0 && dist < slowRadius ? maxSpeed * (dist / slowRadius) : maxSpeed;
+
+    let steerX = (dx / dist) * speed - birdArrays.velocityX[i];
+    let steerY = (dy / dist) * speed - birdArrays.velocityY[i];
+
+    const maxForce = this.simConfig.maxForce * strength;
+    const steerMag = Math.sqrt(steerX * steerX + steerY * steerY);
+    if (steerMag > maxForce) {
+      steerX = (steerX / steerMag) * maxForce;
+      steerY = (steerY / steerMag) * maxForce;
+    }
+
+    outForceX[i] += steerX;
+    outForceY[i] += steerY;
+  }
+
+  /**
+   * Steer toward the partner's velocity so the pair moves as one.
+   */
+  private matchVelocity(
+    i: number,
+    j: number,
+    strength: number,
+    birdArrays: BirdArrays,
+    outForceX: Float32Array,
+    outForceY: Float32Array
+  ): void {
+    let steerX = birdArrays.velocityX[j] - birdArrays.velocityX[i];
+    let steerY = birdArrays.velocityY[j] - birdArrays.velocityY[i];
+
+    const maxForce = this.simConfig.maxForce * strength;
+    const steerMag = Math.sqrt(steerX * steerX + steerY * steerY);
+    if (steerMag > maxForce) {
+      steerX = (steerX / steerMag) * maxForce;
+      steerY = (steerY / steerMag) * maxForce;
+    }
+
+    outForceX[i] += steerX;
+    outForceY[i] += steerY;
+  }
+}
@@ -0,0 +1,215 @@
+import type { BirdArrays } from './Bird';
+import type { SpatialGrid } from './SpatialGrid';
+import type { WorldWrap } from '../utils/WorldWrap';
+import type { CollectiveState, IOrderMetrics } from '../types';
+
+// Nearest-neighbour histogram bins over 0..linkRadius
+const NN_HISTOGRAM_BINS = 10;
+
+// Order parameter thresholds for the collective state (Couzin et al. / Tunstrøm et al.)
+const ORDERED_THRESHOLD = 0.65;
+const DISORDERED_THRESHOLD = 0.35;
+
+// Below this speed a bird has no heading and is left out of polarization and milling
+const MIN_SPEED = 0.0001;
+
+/**
+ * Classify the collective state from polarization and milling.
+ * Polarized and milling need one parameter high and the other low,
+ * a swarm has both low; anything else is in between.
+ */
+export function classifyCollectiveState(polarization: number, milling: number): CollectiveState {
+  if (polarization > ORDERED_THRESHOLD && milling < DISORDERED_THRESHOLD) return 'polarized';
+  if (milling > ORDERED_THRESHOLD && polarization < DISORDERED_THRESHOLD) return 'milling';
+  if (polarization < DISORDERED_THRESHOLD && milling < DISORDERED_THRESHOLD) return 'swarm';
+  return 'transitional';
+}
+
+/**
+ * Collective-motion order metrics: polarization, milling, nearest-neighbour
+ * distances and connected clusters.
+ *
+ * Neighbours come from the spatial grid; birds closer than the link radius are
+ * connected, and clusters are the connected components of that graph.
+ * Scratch arrays are reused between calls.
+ */
+export class OrderMetrics {
+  private nearest: Float32Array;
+  private parent: Int32Array;
+  private clusterSize: Int32Array;
+  private worldWrap: WorldWrap;
+
+  constructor(maxBirds: number, worldWrap: WorldWrap) {
+    this.worldWrap = worldWrap;
+    this.nearest = new Float32Array(maxBirds);
+    this.parent = new Int32Array(maxBirds);
+    this.clusterSize = new Int32Array(maxBirds);
+  }
+
+  /**
+   * Compute the metrics for the current bird positions.
+   * @param grid Spatial grid rebuilt from the current positions
+   * @param linkRadius Neighbour distance for links and nearest-neighbour search
+   */
+  compute(birdArrays: BirdArrays, grid: SpatialGrid, linkRadius: number): IOrderMetrics {
+    const count = birdArrays.count;
+    const histogram = new Array<number>(NN_HISTOGRAM_BINS).fill(0);
+
+    if (count === 0 || linkRadius <= 0) {
+      return {
+        polarization: 0,
+        milling: 0,
+        state: 'swarm',
+        nearestNeighborMean: 0,
+        nearestNeighborMedian: 0,
+        nearestNeighborHistogram: histogram,
+        clusterCount: 0,
+        largestClusterFraction: 0,
+        linkRadius
+      };
+    }
+
+    const { polarization, milling } = this.computeOrder(birdArrays);
+
+    // Nearest neighbours and cluster links in one pass over the grid
+    const posX = birdArrays.positionX;
+    const posY = birdArrays.positionY;
+    const linkRadiusSq = linkRadius * linkRadius;
+
+    for (let i = 0; i < count; i++) {
+      this.parent[i] = i;
+    }
+
+    // Nearest distances of birds with a neighbour in range, packed from 0
+    let paired = 0;
+
+    for (let i = 0; i < count; i++) {
+      const px = posX[i];
+      const py = posY[i];
+      let nearestSq = Infinity;
+
+      for (const j of grid.getNeighborIds(px, py, linkRadius, i)) {
+        const dx = this.worldWrap.deltaX(posX[j] - px);
+        const dy = this.worldWrap.deltaY(posY[j] - py);
+        const distSq = dx * dx + dy * dy;
+        if (distSq >= linkRadiusSq) continue;
+
+        nearestSq = Math.min(nearestSq, distSq);
+        if (j > i) this.union(i, j);
+      }
+
+      // Isolated birds have no nearest neighbour within range and are left out
+      if (nearestSq < Infinity) {
+        this.nearest[paired++] = Math.sqrt(nearestSq);
+      }
+    }
+
+    // Nearest-neighbour distribution
+    let sum = 0;
+    let median = 0;
+    if (paired > 0) {
+      for (let i = 0; i < paired; i++) {
+        const distance = this.nearest[i];
+        sum += distance;
+        histogram[Math.min(NN_HISTOGRAM_BINS - 1, Math.floor((distance / linkRadius) * NN_HISTOGRAM_BINS))]++;
+      }
+      for (let b = 0; b < NN_HISTOGRAM_BINS; b++) {
+        histogram[b] /= paired;
+      }
+
+      const sorted = this.nearest.slice(0, paired).sort();
+      const mid = paired >> 1;
+      median = paired % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+
+    // Cluster sizes
+    this.clusterSize.fill(0, 0, count);
+    let clusterCount = 0;
+    let largest = 0;
+    for (let i = 0; i < count; i++) {
+      const root = this.find(i);
+      if (this.clusterSize[root] === 0) clusterCount++;
+      largest = Math.max(largest, ++this.clusterSize[root]);
+    }
+
+    return {
+      polarization,
+      milling,
+      state: classifyCollectiveState(polarization, milling),
+      nearestNeighborMean: paired > 0 ? sum / paired : 0,
+      nearestNeighborMedian: median,
+      nearestNeighborHistogram: histogram,
+      clusterCount,
+      largestClusterFraction: largest / count,
+      linkRadius
+    };
+  }
+
+  /**
+   * Polarization (length of the mean unit heading) and milling index
+   * (mean of r̂ x v̂ about the flock centroid, as a magnitude).
+   * In a wrapped world the centroid is the circular mean and r the shortest
+   * offset to it, so a flock straddling an edge stays whole.
+   */
+  private computeOrder(birdArrays: BirdArrays): { polarization: number; milling: number } {
+    const count = birdArrays.count;
+    const posX = birdArrays.positionX;
+    const posY = birdArrays.positionY;
+
+    const centerX = this.worldWrap.meanX(posX, count);
+    const centerY = this.worldWrap.meanY(posY, count);
+
+    let headingX = 0;
+    let headingY = 0;
+    let angularMomentum = 0;
+    let moving = 0;
+
+    for (let i = 0; i < count; i++) {
+      const vx = birdArrays.velocityX[i];
+      const vy = birdArrays.velocityY[i];
+      const speed = Math.sqrt(vx * vx + vy * vy);
+      if (speed < MIN_SPEED) continue;
+
+      const ux = vx / speed;
+      const uy = vy / speed;
+      headingX += ux;
+      headingY += uy;
+      moving++;
+
+      const rx = this.worldWrap.deltaX(posX[i] - centerX);
+      const ry = this.worldWrap.deltaY(posY[i] - centerY);
+      const r = Math.sqrt(rx * rx + ry * ry);
+      if (r > 0) {
+        angularMomentum += (rx * uy - ry * ux) / r;
+      }
+    }
+
+    if (moving === 0) return { polarization: 0, milling: 0 };
+    return {
+      polarization: Math.sqrt(headingX * headingX + headingY * headingY) / moving,
+      milling: Math.abs(angularMomentum) / moving
+    };
+  }
+
+  /**
+   * Root of a bird's cluster, halving the path on the way up.
+   */
+  private find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+
+  /**
+   * Join the clusters of two birds.
+   */
+  private union(a: number, b: number): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) {
+      this.parent[rootB] = rootA;
+    }
+  }
+}
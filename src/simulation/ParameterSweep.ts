@@ -0,0 +1,252 @@
+import { HeadlessSimulation } from './HeadlessSimulation';
+import { createSeededRandom } from '../utils/MathUtils';
+import type {
+  IHeadlessMetrics,
+  ILoadedConfig,
+  ISweepRange,
+  ISweepResult,
+  ISweepSpec,
+  SweepValue
+} from '../types';
+
+// Combinations drawn by a random sweep when the spec doesn't say
+const DEFAULT_SAMPLES = 20;
+
+// Grid steps for a range without an explicit step count
+const DEFAULT_RANGE_STEPS = 5;
+
+// Seed of the sampler that picks random-sweep combinations
+const SAMPLER_SEED = 1;
+
+// Metric columns written to CSV, in order (scalar metrics only)
+const METRIC_COLUMNS: Exclude<keyof IHeadlessMetrics, 'deathsByCause'>[] = [
+  'time',
+  'birdCount',
+  'polarization',
+  'milling',
+  'collectiveState',
+  'nearestNeighborMean',
+  'nearestNeighborMedian',
+  'clusterCount',
+  'largestClusterFraction',
+  'avgDensity',
+  'avgSpeed',
+  'avgEnergy',
+  'avgPanic',
+  'survival',
+  'huntSuccess',
+  'successfulHunts',
+  'failedHunts',
+  'births',
+  'deaths',
+  'feedingBirds',
+  'matingPairs'
+];
+
+/** One planned run: a parameter combination and the seed to run it with */
+interface ISweepRun {
+  parameters: Record<string, SweepValue>;
+  seed: number;
+}
+
+/**
+ * Batch experiments over simulation and environment parameters.
+ *
+ * Expands a sweep spec into grid or random combinations, runs each combination
+ * headless for every seed and collects the end-of-run metrics. Parameters are
+ * config paths such as 'simulation.cohesionWeight' or 'environment.predatorType'.
+ */
+export class ParameterSweep {
+  private spec: ISweepSpec;
+  private config: ILoadedConfig;
+  private runs: ISweepRun[];
+
+  constructor(spec: ISweepSpec, config: ILoadedConfig) {
+    this.spec = spec;
+    this.config = config;
+
+    // Fail on typos before spending time on runs
+    for (const path of [...Object.keys(spec.parameters), ...Object.keys(spec.base ?? {})]) {
+      ParameterSweep.resolvePath(config, path);
+    }
+
+    this.runs = this.planRuns();
+  }
+
+  /**
+   * Number of runs (combinations x seeds).
+   */
+  get runCount(): number {
+    return this.runs.length;
+  }
+
+  /**
+   * Run every combination and seed.
+   * @param onRun Called after each run with its result
+   */
+  run(onRun?: (result: ISweepResult, index: number, total: number) => void): ISweepResult[] {
+    const results: ISweepResult[] = [];
+
+    this.runs.forEach((planned, index) => {
+      const result: ISweepResult = {
+        run: index,
+        seed: planned.seed,
+        parameters: planned.parameters,
+        metrics: this.runOne(planned)
+      };
+      results.push(result);
+      onRun?.(result, index, this.runs.length);
+    });
+
+    return results;
+  }
+
+  /**
+   * Format results as CSV: run, seed, one column per parameter, then the metrics.
+   */
+  static toCSV(results: ISweepResult[]): string {
+    const parameterNames = results.length > 0 ? Object.keys(results[0].parameters) : [];
+    const header = ['run', 'seed', ...parameterNames, ...METRIC_COLUMNS];
+    const rows = results.map(result => [
+      result.run,
+      result.seed,
+      ...parameterNames.map(name => result.parameters[name]),
+      ...METRIC_COLUMNS.map(column => result.metrics[column] ?? '')
+    ]);
+
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  /**
+   * Simulate one planned run and return its metrics.
+   */
+  private runOne(planned: ISweepRun): IHeadlessMetrics {
+    const config = structuredClone(this.config);
+    for (const [path, value] of Object.entries(this.spec.base ?? {})) {
+      ParameterSweep.setPath(config, path, value);
+    }
+    for (const [path, value] of Object.entries(planned.parameters)) {
+      ParameterSweep.setPath(config, path, value);
+    }
+
+    const simulation = new HeadlessSimulation(config, {
+      width: this.spec.width,
+      height: this.spec.height,
+      seed: planned.seed
+    });
+    return simulation.run(this.spec.duration);
+  }
+
+  /**
+   * Expand the spec into parameter combinations, each repeated per seed.
+   */
+  private planRuns(): ISweepRun[] {
+    const seeds = this.getSeeds();
+    const combinations = this.spec.mode === 'random'
+      ? this.sampleCombinations()
+      : this.gridCombinations();
+
+    const runs: ISweepRun[] = [];
+    for (const parameters of combinations) {
+      for (const seed of seeds) {
+        runs.push({ parameters, seed });
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Every combination of the parameter values (cartesian product).
+   */
+  private gridCombinations(): Record<string, SweepValue>[] {
+    let combinations: Record<string, SweepValue>[] = [{}];
+
+    for (const [path, values] of Object.entries(this.spec.parameters)) {
+      const options = Array.isArray(values) ? values : gridValues(values);
+      combinations = combinations.flatMap(combination =>
+        options.map(value => ({ ...combination, [path]: value }))
+      );
+    }
+    return combinations;
+  }
+
+  /**
+   * Random combinations from a fixed-seed sampler, so the same spec draws the same runs.
+   */
+  private sampleCombinations(): Record<string, SweepValue>[] {
+    const sample = createSeededRandom(SAMPLER_SEED);
+    const count = Math.max(1, Math.floor(this.spec.samples ?? DEFAULT_SAMPLES));
+    const combinations: Record<string, SweepValue>[] = [];
+
+    for (let n = 0; n < count; n++) {
+      const combination: Record<string, SweepValue> = {};
+      for (const [path, values] of Object.entries(this.spec.parameters)) {
+        combination[path] = Array.isArray(values)
+          ? values[Math.floor(sample() * values.length)]
+          : values.min + sample() * (values.max - values.min);
+      }
+      combinations.push(combination);
+    }
+    return combinations;
+  }
+
+  /**
+   * Seeds per combination: 1..n for a count, or the explicit list.
+   */
+  private getSeeds(): number[] {
+    const seeds = this.spec.seeds ?? 1;
+    if (Array.isArray(seeds)) return seeds;
+    return Array.from({ length: Math.max(1, Math.floor(seeds)) }, (_, i) => i + 1);
+  }
+
+  /**
+   * Find the object and key a config path points at.
+   * @throws Error if the path doesn't name an existing simulation/environment field
+   */
+  private static resolvePath(config: ILoadedConfig, path: string): { target: Record<string, unknown>; key: string } {
+    const [section, ...keys] = path.split('.');
+    if ((section !== 'simulation' && section !== 'environment') || keys.length === 0) {
+      throw new Error(`Sweep parameter "${path}" must start with "simulation." or "environment."`);
+    }
+
+    let target = config[section] as unknown as Record<string, unknown>;
+    for (const key of keys.slice(0, -1)) {
+      const next = target[key];
+      if (!next || typeof next !== 'object') {
+        throw new Error(`Unknown sweep parameter "${path}"`);
+      }
+      target = next as Record<string, unknown>;
+    }
+
+    const key = keys[keys.length - 1];
+    if (!(key in target)) {
+      throw new Error(`Unknown sweep parameter "${path}"`);
+    }
+    return { target, key };
+  }
+
+  /**
+   * Set a config field by path.
+   */
+  private static setPath(config: ILoadedConfig, path: string, value: SweepValue): void {
+    const { target, key } = ParameterSweep.resolvePath(config, path);
+    target[key] = value;
+  }
+}
+
+/**
+ * Evenly spaced values across a range, ends included.
+ */
+function gridValues(range: ISweepRange): number[] {
+  const steps = Math.max(1, Math.floor(range.steps ?? DEFAULT_RANGE_STEPS));
+  if (steps === 1) return [range.min];
+  return Array.from({ length: steps }, (_, i) => range.min + (range.max - range.min) * (i / (steps - 1)));
+}
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or newline.
+ */
+function csvCell(value: SweepValue | undefined): string {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
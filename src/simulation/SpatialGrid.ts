@@ -3,6 +3,7 @@ import type { IGridCell } from '../types';
 /**
  * Uniform spatial grid for efficient neighbor queries.
  * Reduces neighbor lookup from O(N²) to O(N×k) where k is average neighbors per cell.
+ * With wrapping on, queries near an edge also cover the cells across it.
  */
 export class SpatialGrid {
   private cellSize: number;
@@ -11,9 +12,12 @@ export class SpatialGrid {
   private width: number;
   private height: number;
   private cells: IGridCell[];
+  private wrap: boolean = false;
   
   // Reusable array for cell indices
   private _neighborCells: number[] = [];
+  private _colRange: number[] = [];
+  private _rowRange: number[] = [];
 
   constructor(width: number, height: number, cellSize: number) {
     this.width = width;
@@ -39,6 +43,13 @@ export class SpatialGrid {
     return row * this.cols + col;
   }
 
+  /**
+   * Make neighbor queries periodic across the world edges.
+   */
+  setWrap(wrap: boolean): void {
+    this.wrap = wrap;
+  }
+
   /**
    * Get cell from position.
    */
@@ -93,14 +104,12 @@ export class SpatialGrid {
     const result: number[] = [];
     
     // Calculate cell range to check
-    const minCol = Math.max(0, Math.floor((x - radius) / this.cellSize));
-    const maxCol = Math.min(this.cols - 1, Math.floor((x + radius) / this.cellSize));
-    const minRow = Math.max(0, Math.floor((y - radius) / this.cellSize));
-    const maxRow = Math.min(this.rows - 1, Math.floor((y + radius) / this.cellSize));
+    const cols = this.collectRange(x - radius, x + radius, this.width, this.cols, this._colRange);
+    const rows = this.collectRange(y - radius, y + radius, this.height, this.rows, this._rowRange);
 
     // Iterate over cells in range
-    for (let row = minRow; row <= maxRow; row++) {
-      for (let col = minCol; col <= maxCol; col++) {
+    for (const row of rows) {
+      for (const col of cols) {
         const cellIdx = row * this.cols + col;
         const birds = this.cells[cellIdx].birdIds;
         
@@ -122,13 +131,11 @@ export class SpatialGrid {
   getNeighborCellIndices(x: number, y: number, radius: number): number[] {
     this._neighborCells.length = 0;
     
-    const minCol = Math.max(0, Math.floor((x - radius) / this.cellSize));
-    const maxCol = Math.min(this.cols - 1, Math.floor((x + radius) / this.cellSize));
-    const minRow = Math.max(0, Math.floor((y - radius) / this.cellSize));
-    const maxRow = Math.min(this.rows - 1, Math.floor((y + radius) / this.cellSize));
+    const cols = this.collectRange(x - radius, x + radius, this.width, this.cols, this._colRange);
+    const rows = this.collectRange(y - radius, y + radius, this.height, this.rows, this._rowRange);
 
-    for (let row = minRow; row <= maxRow; row++) {
-      for (let col = minCol; col <= maxCol; col++) {
+    for (const row of rows) {
+      for (const col of cols) {
         this._neighborCells.push(row * this.cols + col);
       }
     }
@@ -205,6 +212,46 @@ export class SpatialGrid {
   get gridWidth(): number { return this.cols; }
   get gridHeight(): number { return this.rows; }
   get getCellSize(): number { return this.cellSize; }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Collect the cell columns (or rows) covering [min, max] along one axis.
+   * Clamped to the grid normally; with wrapping the interval is taken modulo
+   * the world size, so it may split into a run at each end of the axis.
+   */
+  private collectRange(min: number, max: number, size: number, count: number, out: number[]): number[] {
+    out.length = 0;
+
+    if (!this.wrap) {
+      const first = Math.max(0, Math.floor(min / this.cellSize));
+      const last = Math.min(count - 1, Math.floor(max / this.cellSize));
+      for (let i = first; i <= last; i++) out.push(i);
+      return out;
+    }
+
+    // The interval covers the whole axis
+    if (max - min >= size) {
+      for (let i = 0; i < count; i++) out.push(i);
+      return out;
+    }
+
+    const wrappedMin = min - size * Math.floor(min / size);
+    const wrappedMax = max - size * Math.floor(max / size);
+    const first = Math.min(count - 1, Math.floor(wrappedMin / this.cellSize));
+    const last = Math.min(count - 1, Math.floor(wrappedMax / this.cellSize));
+
+    if (wrappedMin <= wrappedMax) {
+      for (let i = first; i <= last; i++) out.push(i);
+    } else {
+      // Runs from min to the far edge, then from the near edge to max
+      for (let i = first; i < count; i++) out.push(i);
+      for (let i = 0; i <= Math.min(last, first - 1); i++) out.push(i);
+    }
+    return out;
+  }
 }
 
 
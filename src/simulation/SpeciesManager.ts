@@ -0,0 +1,258 @@
+import type { BirdArrays } from './Bird';
+import { SwarmRules } from './SwarmRules';
+import type { WorldWrap } from '../utils/WorldWrap';
+import type { IEcosystemConfig, ISimulationConfig, ISpeciesProfile } from '../types';
+
+// Species supported by the GPU species table
+export const MAX_SPECIES = 8;
+
+// Floats per species in the GPU species table (8 flocking params + 8 food-web relations)
+export const SPECIES_TABLE_STRIDE = 16;
+
+/**
+ * Multi-species ecosystem: species assignment, per-species flocking
+ * parameters and food-web driven hunting/fleeing between species.
+ *
+ * Profiles missing from the config fall back to the global simulation config,
+ * so only the fields a species overrides need to be set.
+ */
+export class SpeciesManager {
+  private config: IEcosystemConfig;
+  private simConfig: ISimulationConfig;
+  private worldWrap: WorldWrap;
+
+  // Merged simulation config per species, rebuilt by refresh()
+  private speciesConfigs: ISimulationConfig[] = [];
+
+  constructor(config: IEcosystemConfig, simConfig: ISimulationConfig, worldWrap: WorldWrap) {
+    this.config = config;
+    this.simConfig = simConfig;
+    this.worldWrap = worldWrap;
+    this.refresh();
+  }
+
+  /**
+   * Check if the ecosystem is active.
+   */
+  isEnabled(): boolean {
+    return this.config?.enabled ?? false;
+  }
+
+  /**
+   * Number of active species (1 while the ecosystem is disabled).
+   */
+  getSpeciesCount(): number {
+    if (!this.isEnabled()) return 1;
+    return Math.max(1, Math.min(MAX_SPECIES, Math.floor(this.config.speciesCount)));
+  }
+
+  /**
+   * Distribute birds across species in proportion to their population share.
+   * Birds are spawned at random positions, so contiguous index blocks still mix spatially.
+   */
+  assign(birdArrays: BirdArrays): void {
+    const count = birdArrays.count;
+    const speciesCount = this.getSpeciesCount();
+
+    if (speciesCount === 1) {
+      birdArrays.speciesId.fill(0, 0, count);
+      return;
+    }
+
+    // Cumulative population shares
+    const cumulative: number[] = [];
+    let total = 0;
+    for (let s = 0; s < speciesCount; s++) {
+      total += Math.max(0, this.getProfile(s)?.share ?? 1);
+      cumulative.push(total);
+    }
+
+    let species = 0;
+    for (let i = 0; i < count; i++) {
+      const t = total > 0 ? ((i + 0.5) / count) * total : 0;
+      while (species < speciesCount - 1 && t >= cumulative[species]) {
+        species++;
+      }
+      birdArrays.speciesId[i] = species;
+    }
+  }
+
+  /**
+   * Rebuild the per-species configs from the current simulation config.
+   * Call once per step so UI changes to shared settings carry through.
+   * @param perceptionScale Multiplier for species perception (e.g. reduced at night)
+   * @param speedScale Multiplier for species max speed (e.g. roosting at night)
+   */
+  refresh(perceptionScale: number = 1, speedScale: number = 1): void {
+    const speciesCount = this.getSpeciesCount();
+    this.speciesConfigs.length = speciesCount;
+
+    for (let s = 0; s < speciesCount; s++) {
+      const profile = this.isEnabled() ? this.getProfile(s) : undefined;
+      this.speciesConfigs[s] = profile
+        ? {
+            ...this.simConfig,
+            maxSpeed: profile.maxSpeed * speedScale,
+            maxForce: profile.maxForce,
+            perceptionRadius: profile.perceptionRadius * perceptionScale,
+            separationRadius: profile.separationRadius,
+            alignmentWeight: profile.alignmentWeight,
+            cohesionWeight: profile.cohesionWeight,
+            separationWeight: profile.separationWeight,
+            fieldOfView: profile.fieldOfView
+          }
+        : this.simConfig;
+    }
+  }
+
+  /**
+   * Get the simulation config for a species.
+   */
+  getConfig(speciesId: number): ISimulationConfig {
+    return this.speciesConfigs[speciesId] ?? this.simConfig;
+  }
+
+  /**
+   * Largest perception radius of any species or the interaction range,
+   * whichever is bigger. Used for the neighbor query radius.
+   */
+  getQueryRadius(): number {
+    let radius = this.simConfig.perceptionRadius;
+    for (const config of this.speciesConfigs) {
+      radius = Math.max(radius, config.perceptionRadius);
+    }
+    return this.isEnabled() ? Math.max(radius, this.config.interactionRange) : radius;
+  }
+
+  /**
+   * How strongly a hunter species chases a prey species (0 = not at all).
+   */
+  getRelation(hunter: number, prey: number): number {
+    return Math.max(0, this.config?.foodWeb?.[hunter]?.[prey] ?? 0);
+  }
+
+  /**
+   * Apply hunting and fleeing forces between species.
+   * Hunters chase the nearest prey in range; prey flee the proximity-weighted
+   * center of nearby hunters.
+   */
+  applyInteractions(
+    birdIndex: number,
+    birdArrays: BirdArrays,
+    neighborIds: number[],
+    outForceX: Float32Array,
+    outForceY: Float32Array
+  ): void {
+    const range = this.config.interactionRange;
+    const rangeSq = range * range;
+    const own = birdArrays.speciesId[birdIndex];
+    const px = birdArrays.positionX[birdIndex];
+    const py = birdArrays.positionY[birdIndex];
+
+    let preyIndex = -1;
+    let preyRelation = 0;
+    let preyDistSq = rangeSq;
+
+    let threatX = 0, threatY = 0, threatWeight = 0, maxThreat = 0;
+
+    for (const other of neighborIds) {
+      const otherSpecies = birdArrays.speciesId[other];
+      if (otherSpecies === own) continue;
+
+      const dx = this.worldWrap.deltaX(birdArrays.positionX[other] - px);
+      const dy = this.worldWrap.deltaY(birdArrays.positionY[other] - py);
+      const distSq = dx * dx + dy * dy;
+      if (distSq >= rangeSq || distSq < 0.0001) continue;
+
+      // Nearest prey
+      const relation = this.getRelation(own, otherSpecies);
+      if (relation > 0 && distSq < preyDistSq) {
+        preyDistSq = distSq;
+        preyIndex = other;
+        preyRelation = relation;
+      }
+
+      // Hunters weighted by proximity
+      const danger = this.getRelation(otherSpecies, own);
+      if (danger > 0) {
+        const threat = (1 - Math.sqrt(distSq) / range) * danger;
+        threatX += (px + dx) * threat;
+        threatY += (py + dy) * threat;
+        threatWeight += threat;
+        maxThreat = Math.max(maxThreat, threat);
+      }
+    }
+
+    const config = this.getConfig(own);
+
+    if (preyIndex >= 0) {
+      SwarmRules.arriveOptimized(
+        birdIndex,
+        birdArrays.positionX, birdArrays.positionY,
+        birdArrays.velocityX, birdArrays.velocityY,
+        birdArrays.positionX[preyIndex], birdArrays.positionY[preyIndex],
+        config.maxSpeed, config.maxForce, 0,
+        this.config.huntingForce * preyRelation,
+        outForceX, outForceY, this.worldWrap
+      );
+    }
+
+    if (threatWeight > 0) {
+      SwarmRules.fleeOptimized(
+        birdIndex,
+        birdArrays.positionX, birdArrays.positionY,
+        birdArrays.velocityX, birdArrays.velocityY,
+        threatX / threatWeight, threatY / threatWeight,
+        config.maxSpeed, config.maxForce,
+        this.config.fleeingForce * Math.min(1, maxThreat),
+        outForceX, outForceY, this.worldWrap
+      );
+    }
+  }
+
+  /**
+   * Pack the species table for the GPU: flocking params plus the food-web row per species.
+   * Layout per species: maxSpeed, maxForce, perceptionRadius, separationRadius,
+   * alignmentWeight, cohesionWeight, separationWeight, fovCos, relation[0..7].
+   */
+  packSpeciesTable(out: Float32Array): void {
+    out.fill(0);
+    const speciesCount = this.getSpeciesCount();
+
+    for (let s = 0; s < speciesCount; s++) {
+      const config = this.getConfig(s);
+      const offset = s * SPECIES_TABLE_STRIDE;
+      out[offset] = config.maxSpeed;
+      out[offset + 1] = config.maxForce;
+      out[offset + 2] = config.perceptionRadius;
+      out[offset + 3] = config.separationRadius;
+      out[offset + 4] = config.alignmentWeight;
+      out[offset + 5] = config.cohesionWeight;
+      out[offset + 6] = config.separationWeight;
+      out[offset + 7] = Math.cos((config.fieldOfView * Math.PI) / 360);
+
+      for (let prey = 0; prey < speciesCount; prey++) {
+        out[offset + 8 + prey] = this.getRelation(s, prey);
+      }
+    }
+  }
+
+  /**
+   * Update configuration.
+   * @returns True if birds need to be reassigned to species
+   */
+  updateConfig(config: IEcosystemConfig, simConfig: ISimulationConfig): boolean {
+    const previousCount = this.getSpeciesCount();
+    this.config = config;
+    this.simConfig = simConfig;
+    this.refresh();
+    return this.getSpeciesCount() !== previousCount;
+  }
+
+  /**
+   * Profile for a species, if configured.
+   */
+  private getProfile(speciesId: number): ISpeciesProfile | undefined {
+    return this.config?.species?.[speciesId];
+  }
+}
@@ -1,4 +1,6 @@
 import { Vector2, tempVec1 } from '../utils/Vector2';
+import type { Random } from '../utils/Random';
+import type { WorldWrap } from '../utils/WorldWrap';
 import type { ISimulationConfig, IVector2, IAttractor } from '../types';
 import type { Bird } from './Bird';
 
@@ -7,6 +9,9 @@ import type { Bird } from './Bird';
 // Temporary vectors for calculations
 const steerVec = new Vector2();
 
+// Orbit cruise speed as a fraction of max speed
+const ORBIT_SPEED_FACTOR = 0.5;
+
 /**
  * Implements Reynolds' Boids flocking algorithm with additional behaviors.
  * Version: 1.1.0 - Enhanced with distance-weighted alignment, density-adaptive
@@ -251,12 +256,13 @@ export class SwarmRules {
     bird: Bird,
     wanderStrength: number,
     noiseStrength: number,
-    time: number
+    time: number,
+    rng: Random
   ): Vector2 {
     // Use heading + noise to create smooth wandering
     const heading = bird.heading;
     const noise = Math.sin(time + bird.id * 0.1) * noiseStrength;
-    const wanderAngle = heading + (Math.random() - 0.5) * wanderStrength + noise;
+    const wanderAngle = heading + (rng.next() - 0.5) * wanderStrength + noise;
 
     return Vector2.fromAngle(wanderAngle).mult(wanderStrength);
   }
@@ -339,6 +345,10 @@ export class SwarmRules {
    * Operates directly on BirdArrays for GPU-style parallelism.
    * Enhanced with distance-weighted alignment, density-adaptive cohesion,
    * and inverse-square separation per documentation.
+   * When speciesId is given, alignment and cohesion only consider same-species
+   * neighbors while separation still applies to everyone.
+   * outRuleForces, when given, receives the weighted alignment, cohesion and
+   * separation forces (x, y each) that make up the total.
    */
   static calculateForcesOptimized(
     birdIndex: number,
@@ -350,7 +360,10 @@ export class SwarmRules {
     neighborIds: number[],
     config: ISimulationConfig,
     outForceX: Float32Array,
-    outForceY: Float32Array
+    outForceY: Float32Array,
+    wrap: WorldWrap,
+    speciesId?: Int32Array,
+    outRuleForces?: Float32Array
   ): number {
     const px = posX[birdIndex];
     const py = posY[birdIndex];
@@ -367,13 +380,14 @@ export class SwarmRules {
     const percRadSq = percRad * percRad;
     const sepRadSq = config.separationRadius * config.separationRadius;
     const fovCos = Math.cos(config.fieldOfView * Math.PI / 360);
+    const ownSpecies = speciesId ? speciesId[birdIndex] : 0;
 
     // Check neighbors
     for (const otherId of neighborIds) {
       if (otherId === birdIndex) continue;
 
-      const dx = posX[otherId] - px;
-      const dy = posY[otherId] - py;
+      const dx = wrap.deltaX(posX[otherId] - px);
+      const dy = wrap.deltaY(posY[otherId] - py);
       const distSq = dx * dx + dy * dy;
 
       if (distSq < percRadSq && distSq > 0.0001) {
@@ -391,15 +405,18 @@ export class SwarmRules {
         // Distance weight: closer = stronger influence (1 at center, 0 at edge)
         const weight = 1 - (dist / percRad);
 
-        // Alignment: distance-weighted velocity averaging
-        alignX += velX[otherId] * weight;
-        alignY += velY[otherId] * weight;
-        alignWeight += weight;
-
-        // Cohesion: distance-weighted position averaging
-        cohX += posX[otherId] * weight;
-        cohY += posY[otherId] * weight;
-        cohWeight += weight;
+        // Only flockmates of the same species align and cohere
+        if (!speciesId || speciesId[otherId] === ownSpecies) {
+          // Alignment: distance-weighted velocity averaging
+          alignX += velX[otherId] * weight;
+          alignY += velY[otherId] * weight;
+          alignWeight += weight;
+
+          // Cohesion: distance-weighted position averaging (nearest image across wrapped edges)
+          cohX += (px + dx) * weight;
+          cohY += (py + dy) * weight;
+          cohWeight += weight;
+        }
 
         // Separation: inverse-square weighting for strong close-range repulsion
         if (distSq < sepRadSq) {
@@ -430,6 +447,9 @@ export class SwarmRules {
         forceY += alignY * config.alignmentWeight;
       }
     }
+    // Running totals after each rule split the sum for outRuleForces
+    const alignForceX = forceX;
+    const alignForceY = forceY;
 
     // Process cohesion (distance-weighted with density adaptation)
     if (cohWeight > 0) {
@@ -458,6 +478,8 @@ export class SwarmRules {
         forceY += cohY * config.cohesionWeight;
       }
     }
+    const cohForceX = forceX - alignForceX;
+    const cohForceY = forceY - alignForceY;
 
     // Process separation (inverse-square weighted)
     if (sepCount > 0) {
@@ -480,8 +502,219 @@ export class SwarmRules {
     outForceX[birdIndex] = forceX;
     outForceY[birdIndex] = forceY;
 
+    if (outRuleForces) {
+      outRuleForces[0] = alignForceX;
+      outRuleForces[1] = alignForceY;
+      outRuleForces[2] = cohForceX;
+      outRuleForces[3] = cohForceY;
+      outRuleForces[4] = forceX - alignForceX - cohForceX;
+      outRuleForces[5] = forceY - alignForceY - cohForceY;
+    }
+
     return neighborCount;
   }
-}
 
+  /**
+   * Arrive (SoA version): seek a target, slowing down within slowRadius.
+   * Adds the weighted steering force to the output arrays.
+   * A slowRadius of 0 gives plain seek.
+   */
+  static arriveOptimized(
+    birdIndex: number,
+    posX: Float32Array,
+    posY: Float32Array,
+    velX: Float32Array,
+    velY: Float32Array,
+    targetX: number,
+    targetY: number,
+    maxSpeed: number,
+    maxForce: number,
+    slowRadius: number,
+    weight: number,
+    outForceX: Float32Array,
+    outForceY: Float32Array,
+    wrap: WorldWrap
+  ): void {
+    const dx = wrap.deltaX(targetX - posX[birdIndex]);
+    const dy = wrap.deltaY(targetY - posY[birdIndex]);
+    const d = Math.sqrt(dx * dx + dy * dy);
+    if (d < 0.001) return;
+
+    // Ramp down speed within slow radius
+    const desiredSpeed = d < slowRadius ? maxSpeed * (d / slowRadius) : maxSpeed;
+
+    let steerX = (dx / d) * desiredSpeed - velX[birdIndex];
+    let steerY = (dy / d) * desiredSpeed - velY[birdIndex];
+    const steerMag = Math.sqrt(steerX * steerX + steerY * steerY);
+    if (steerMag > maxForce) {
+      steerX = steerX / steerMag * maxForce;
+      steerY = steerY / steerMag * maxForce;
+    }
+
+    outForceX[birdIndex] += steerX * weight;
+    outForceY[birdIndex] += steerY * weight;
+  }
+
+  /**
+   * Flee (SoA version): steer directly away from a threat point.
+   * Adds the weighted steering force to the output arrays.
+   */
+  static fleeOptimized(
+    birdIndex: number,
+    posX: Float32Array,
+    posY: Float32Array,
+    velX: Float32Array,
+    velY: Float32Array,
+    threatX: number,
+    threatY: number,
+    maxSpeed: number,
+    maxForce: number,
+    weight: number,
+    outForceX: Float32Array,
+    outForceY: Float32Array,
+    wrap: WorldWrap
+  ): void {
+    const dx = wrap.deltaX(posX[birdIndex] - threatX);
+    const dy = wrap.deltaY(posY[birdIndex] - threatY);
+    const d = Math.sqrt(dx * dx + dy * dy);
+    if (d < 0.001) return;
+
+    let steerX = (dx / d) * maxSpeed - velX[birdIndex];
+    let steerY = (dy / d) * maxSpeed - velY[birdIndex];
+    const steerMag = Math.sqrt(steerX * steerX + steerY * steerY);
+    if (steerMag > maxForce) {
+      steerX = steerX / steerMag * maxForce;
+      steerY = steerY / steerMag * maxForce;
+    }
+
+    outForceX[birdIndex] += steerX * weight;
+    outForceY[birdIndex] += steerY * weight;
+  }
 
+  /**
+   * Panic spread (SoA version): panic a bird picks up from panicked neighbors.
+   * Returns the strongest distance-attenuated neighbor panic, so spread fades
+   * with every hop instead of compounding.
+   */
+  static propagatePanicOptimized(
+    birdIndex: number,
+    posX: Float32Array,
+    posY: Float32Array,
+    panicLevel: Float32Array,
+    neighborIds: number[],
+    panicSpread: number,
+    perceptionRadius: number,
+    wrap: WorldWrap
+  ): number {
+    const px = posX[birdIndex];
+    const py = posY[birdIndex];
+    const radiusSq = perceptionRadius * perceptionRadius;
+    let received = 0;
+
+    for (const other of neighborIds) {
+      const otherPanic = panicLevel[other];
+      if (otherPanic < 0.1) continue;
+
+      const dx = wrap.deltaX(posX[other] - px);
+      const dy = wrap.deltaY(posY[other] - py);
+      const distSq = dx * dx + dy * dy;
+      if (distSq >= radiusSq || distSq <= 0.0001) continue;
+
+      const spread = otherPanic * panicSpread * (1 - Math.sqrt(distSq) / perceptionRadius);
+      received = Math.max(received, spread);
+    }
+
+    return received;
+  }
+
+  /**
+   * Orbit (SoA version): circle a center point at the given radius.
+   * Keeps the bird's current turning direction and corrects radial drift.
+   */
+  static orbitOptimized(
+    birdIndex: number,
+    posX: Float32Array,
+    posY: Float32Array,
+    velX: Float32Array,
+    velY: Float32Array,
+    centerX: number,
+    centerY: number,
+    radius: number,
+    maxSpeed: number,
+    maxForce: number,
+    weight: number,
+    outForceX: Float32Array,
+    outForceY: Float32Array,
+    wrap: WorldWrap
+  ): void {
+    const dx = wrap.deltaX(posX[birdIndex] - centerX);
+    const dy = wrap.deltaY(posY[birdIndex] - centerY);
+    const d = Math.sqrt(dx * dx + dy * dy);
+    if (d < 0.001 || radius <= 0) return;
+
+    const vx = velX[birdIndex];
+    const vy = velY[birdIndex];
+
+    // Radial unit vector and tangent in the current direction of travel
+    const rx = dx / d;
+    const ry = dy / d;
+    const dir = rx * vy - ry * vx >= 0 ? 1 : -1;
+    const tx = -ry * dir;
+    const ty = rx * dir;
+
+    // Tangential cruise plus radial correction toward the orbit radius
+    const radialError = Math.max(-1, Math.min(1, (radius - d) / radius));
+    const desiredX = (tx * ORBIT_SPEED_FACTOR + rx * radialError) * maxSpeed;
+    const desiredY = (ty * ORBIT_SPEED_FACTOR + ry * radialError) * maxSpeed;
+
+    let steerX = desiredX - vx;
+    let steerY = desiredY - vy;
+    const steerMag = Math.sqrt(steerX * steerX + steerY * steerY);
+    if (steerMag > maxForce) {
+      steerX = steerX / steerMag * maxForce;
+      steerY = steerY / steerMag * maxForce;
+    }
+
+    outForceX[birdIndex] += steerX * weight;
+    outForceY[birdIndex] += steerY * weight;
+  }
+
+  /**
+   * Home pull (SoA version): steer back toward a center once outside radius.
+   * Force grows with distance beyond the radius, reaching full weight at twice the radius.
+   */
+  static homePullOptimized(
+    birdIndex: number,
+    posX: Float32Array,
+    posY: Float32Array,
+    velX: Float32Array,
+    velY: Float32Array,
+    centerX: number,
+    centerY: number,
+    radius: number,
+    maxSpeed: number,
+    maxForce: number,
+    weight: number,
+    outForceX: Float32Array,
+    outForceY: Float32Array,
+    wrap: WorldWrap
+  ): void {
+    const dx = wrap.deltaX(centerX - posX[birdIndex]);
+    const dy = wrap.deltaY(centerY - posY[birdIndex]);
+    const d = Math.sqrt(dx * dx + dy * dy);
+    if (d <= radius || radius <= 0) return;
+
+    const excess = Math.min(1, (d - radius) / radius);
+
+    let steerX = (dx / d) * maxSpeed - velX[birdIndex];
+    let steerY = (dy / d) * maxSpeed - velY[birdIndex];
+    const steerMag = Math.sqrt(steerX * steerX + steerY * steerY);
+    if (steerMag > maxForce) {
+      steerX = steerX / steerMag * maxForce;
+      steerY = steerY / steerMag * maxForce;
+    }
+
+    outForceX[birdIndex] += steerX * weight * excess;
+    outForceY[birdIndex] += steerY * weight * excess;
+  }
+}
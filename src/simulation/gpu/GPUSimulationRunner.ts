@@ -1,12 +1,54 @@
 import type { Flux } from '@flux-gpu/core';
-import type { ISimulationConfig, IEnvironmentConfig, IGPUCapabilities } from '../../types';
+import type { BoundaryMode, ISimulationConfig, IEnvironmentConfig, IGPUCapabilities, IGPUSimulationBuffers } from '../../types';
 import { BirdArrays } from '../Bird';
+import { MAX_SPECIES, SPECIES_TABLE_STRIDE } from '../SpeciesManager';
+import { MAX_OBSTACLE_SEGMENTS, OBSTACLE_SEGMENT_STRIDE, OBSTACLE_CLEARANCE } from '../../environment/Obstacle';
 
 // Version: 2.0.0 - Smooth steering-based boundary avoidance
 
 // Workgroup size (must match shader)
 const WORKGROUP_SIZE = 64;
 
+// Upper bound on spatial grid cells (cells grow when the world is too fine-grained)
+const MAX_GRID_CELLS = 65536;
+
+// Threads in the single-workgroup prefix sum (must match shader)
+const SCAN_WORKGROUP_SIZE = 256;
+
+// Byte offsets of the sections in the grid buffer: birds per cell, cell start
+// offsets, then sorted bird indices (256-byte aligned for sub-range bindings)
+const GRID_COUNT_OFFSET = 0;
+const GRID_START_OFFSET = MAX_GRID_CELLS * 4;
+const GRID_SORTED_OFFSET = 2 * MAX_GRID_CELLS * 4;
+
+// Predator/panic-pulse slots in the threat buffer
+export const MAX_THREATS = 16;
+
+// Floats per threat: x, y, vx, vy, panic radius, panic strength, flee weight, lookahead
+export const THREAT_STRIDE = 8;
+
+// Attractor/repulsor slots in the attractor buffer
+export const MAX_ATTRACTORS = 64;
+
+// Floats per attractor: x, y, radius, strength (negative for repulsors)
+export const ATTRACTOR_STRIDE = 4;
+
+// Byte offsets of the read-only tables packed into one buffer (matches struct Tables),
+// keeping the flocking stage within WebGPU's default of 8 storage buffers
+const SPECIES_TABLE_OFFSET = 0;
+const THREAT_TABLE_OFFSET = SPECIES_TABLE_OFFSET + MAX_SPECIES * SPECIES_TABLE_STRIDE * 4;
+const ATTRACTOR_TABLE_OFFSET = THREAT_TABLE_OFFSET + MAX_THREATS * THREAT_STRIDE * 4;
+const OBSTACLE_TABLE_OFFSET = ATTRACTOR_TABLE_OFFSET + MAX_ATTRACTORS * ATTRACTOR_STRIDE * 4;
+const TABLES_SIZE = OBSTACLE_TABLE_OFFSET + MAX_OBSTACLE_SEGMENTS * OBSTACLE_SEGMENT_STRIDE * 4;
+
+// Boundary mode encoding in the config uniform (matches the BOUNDARY_* shader constants)
+const BOUNDARY_MODE_INDEX: Record<BoundaryMode, number> = {
+  reflect: 0,
+  wrap: 1,
+  soft: 2,
+  open: 3
+};
+
 /**
  * GPU Simulation Runner using @flux-gpu/core
  * Version: 2.0.0
@@ -15,6 +57,13 @@ const WORKGROUP_SIZE = 64;
  * - Smooth steering-based boundary avoidance with look-ahead anticipation
  * - Distance-weighted alignment, density-adaptive cohesion
  * - Inverse-square separation, and gradient noise for natural movement
+ * - Neighbour-coupled firefly oscillators (pulse-coupled, same radius as the CPU path)
+ * - GPU spatial grid (count, prefix sum, scatter) so neighbour loops only visit adjacent cells
+ * - GPU-resident bird data: renderers bind the simulation buffers, removals are mirrored on the GPU
+ * - Predator threat buffer: panic, flee steering and neighbour panic spread run in the flocking pass
+ * - Attractor buffer: click-spawned attractors and repulsors steer birds in the flocking pass
+ * - Obstacle buffer: capsule segments birds steer around (flocking pass) and bounce off (physics pass)
+ * - Boundary modes: reflecting walls, a toroidal world with periodic neighbours, steering-only or open edges
  */
 export class GPUSimulationRunner {
   private device: GPUDevice | null = null;
@@ -22,17 +71,47 @@ export class GPUSimulationRunner {
   private physicsPipeline: GPUComputePipeline | null = null;
   private bindGroup: GPUBindGroup | null = null;
 
+  // Firefly synchronization (separate bind group: flash detection + phase update)
+  private fireflyDetectPipeline: GPUComputePipeline | null = null;
+  private fireflyPipeline: GPUComputePipeline | null = null;
+  private fireflyBindGroup: GPUBindGroup | null = null;
+
+  // Spatial grid build (cell count, prefix sum, scatter)
+  private gridCountPipeline: GPUComputePipeline | null = null;
+  private gridScanPipeline: GPUComputePipeline | null = null;
+  private gridScatterPipeline: GPUComputePipeline | null = null;
+  private gridBindGroup: GPUBindGroup | null = null;
+
   // GPU Buffers
   private positionBuffer: GPUBuffer | null = null;
   private velocityBuffer: GPUBuffer | null = null;
   private accelerationBuffer: GPUBuffer | null = null;
   private stateBuffer: GPUBuffer | null = null;
+  private steeringBuffer: GPUBuffer | null = null;
+  private speciesBuffer: GPUBuffer | null = null;
+  private tablesBuffer: GPUBuffer | null = null;
   private configBuffer: GPUBuffer | null = null;
+  private glowPhaseBuffer: GPUBuffer | null = null;
+  private naturalFrequencyBuffer: GPUBuffer | null = null;
+  private glowIntensityBuffer: GPUBuffer | null = null;
+  private flashingBuffer: GPUBuffer | null = null;
+  private fireflyConfigBuffer: GPUBuffer | null = null;
+  private gridBuffer: GPUBuffer | null = null;
+  private birdCellBuffer: GPUBuffer | null = null;
+  private birdRankBuffer: GPUBuffer | null = null;
+
+  // Scratch slot for swap-removal (a buffer can't copy onto itself)
+  private swapBuffer: GPUBuffer | null = null;
+
+  // Buffers shared with the renderers (only when the device is shared with Flux)
+  private simulationBuffers: IGPUSimulationBuffers | null = null;
 
   // Staging buffers for readback
   private positionReadBuffer: GPUBuffer | null = null;
   private velocityReadBuffer: GPUBuffer | null = null;
   private stateReadBuffer: GPUBuffer | null = null;
+  private glowPhaseReadBuffer: GPUBuffer | null = null;
+  private glowIntensityReadBuffer: GPUBuffer | null = null;
 
   // State
   private maxBirds: number = 0;
@@ -40,7 +119,17 @@ export class GPUSimulationRunner {
   private worldWidth: number = 1920;
   private worldHeight: number = 1080;
   private time: number = 0;
+  private threatCount: number = 0;
+  private attractorCount: number = 0;
+  private obstacleCount: number = 0;
+  private wrapWorld: boolean = false;
   private _isReady: boolean = false;
+  private sharedDevice: boolean = false;
+
+  // Spatial grid dimensions (recomputed from the neighbour radius each config update)
+  private gridCols: number = 1;
+  private gridRows: number = 1;
+  private cellSize: number = 1;
 
   get isReady(): boolean {
     return this._isReady;
@@ -121,6 +210,7 @@ export class GPUSimulationRunner {
       // Create bind group
       this.createBindGroup();
 
+      this.sharedDevice = true;
       this._isReady = true;
       console.log(`GPU Simulation initialized for ${maxBirds} birds (using Flux context)`);
       return true;
@@ -189,8 +279,12 @@ export class GPUSimulationRunner {
 
     const posSize = this.maxBirds * 2 * 4; // x,y per bird, 4 bytes per float
     const velSize = this.maxBirds * 2 * 4;
-    const accelSize = this.maxBirds * 2 * 4;
+    const accelSize = this.maxBirds * 4 * 4; // ax, ay, panic target, pad
     const stateSize = this.maxBirds * 4 * 4; // panicLevel, localDensity, energy, heading
+    const steeringSize = this.maxBirds * 8 * 4; // targetX, targetY, mode, radius, weight, pad x3
+    const speciesSize = this.maxBirds * 4; // species id per bird
+    const glowSize = this.maxBirds * 4; // one float (or flag) per bird
+    const perBirdIndexSize = this.maxBirds * 4; // one u32 per bird
 
     // Position buffer (read/write in shader)
     this.positionBuffer = this.device.createBuffer({
@@ -206,7 +300,8 @@ export class GPUSimulationRunner {
       label: 'velocity'
     });
 
-    // Acceleration buffer (output from flocking, input to physics)
+    // Acceleration buffer (output from flocking, input to physics); z carries
+    // the panic picked up this step, raised into the state by the physics pass
     this.accelerationBuffer = this.device.createBuffer({
       size: accelSize,
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
@@ -220,15 +315,96 @@ export class GPUSimulationRunner {
       label: 'state'
     });
 
+    // Steering target buffer (per-bird food/territory targets written by CPU)
+    this.steeringBuffer = this.device.createBuffer({
+      size: steeringSize,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'steering'
+    });
+
+    // Species id buffer (per-bird, written by CPU on spawn and reassignment)
+    this.speciesBuffer = this.device.createBuffer({
+      size: speciesSize,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+      label: 'species'
+    });
+
+    // Read-only tables written by CPU: species params and food web, predator
+    // threats (each step), attractors and obstacle segments (when they change)
+    this.tablesBuffer = this.device.createBuffer({
+      size: TABLES_SIZE,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'tables'
+    });
+
     // Config uniform buffer
     this.configBuffer = this.device.createBuffer({
       // NOTE: Must match what updateConfig() writes.
-      // We write 24 floats (96 bytes) and WGSL uniforms are 16-byte aligned.
-      size: 96, // 24 floats * 4 bytes
+      // We write 40 floats (160 bytes) and WGSL uniforms are 16-byte aligned.
+      size: 160, // 40 floats * 4 bytes
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
       label: 'config'
     });
 
+    // Firefly oscillator buffers (phase, natural frequency, glow, flash flags)
+    this.glowPhaseBuffer = this.device.createBuffer({
+      size: glowSize,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+      label: 'glow-phase'
+    });
+
+    this.naturalFrequencyBuffer = this.device.createBuffer({
+      size: glowSize,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+      label: 'natural-frequency'
+    });
+
+    this.glowIntensityBuffer = this.device.createBuffer({
+      size: glowSize,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
+      label: 'glow-intensity'
+    });
+
+    this.flashingBuffer = this.device.createBuffer({
+      size: glowSize,
+      usage: GPUBufferUsage.STORAGE,
+      label: 'flashing'
+    });
+
+    // Spatial grid: birds per cell, cell start offsets and sorted bird indices
+    // in one buffer (sections at GRID_*_OFFSET), per-bird cell/rank on their own
+    this.gridBuffer = this.device.createBuffer({
+      size: GRID_SORTED_OFFSET + perBirdIndexSize,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      label: 'grid'
+    });
+
+    this.birdCellBuffer = this.device.createBuffer({
+      size: perBirdIndexSize,
+      usage: GPUBufferUsage.STORAGE,
+      label: 'bird-cell'
+    });
+
+    this.birdRankBuffer = this.device.createBuffer({
+      size: perBirdIndexSize,
+      usage: GPUBufferUsage.STORAGE,
+      label: 'bird-rank'
+    });
+
+    // Firefly config uniform (12 floats, see updateFireflyConfig)
+    this.fireflyConfigBuffer = this.device.createBuffer({
+      size: 48,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+      label: 'firefly-config'
+    });
+
+    // Swap-removal scratch slot (largest per-bird stride: one vec4 state)
+    this.swapBuffer = this.device.createBuffer({
+      size: 16,
+      usage: GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
+      label: 'swap'
+    });
+
     // Read-back staging buffers
     this.positionReadBuffer = this.device.createBuffer({
       size: posSize,
@@ -247,6 +423,26 @@ export class GPUSimulationRunner {
       usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
       label: 'state-read'
     });
+
+    this.glowPhaseReadBuffer = this.device.createBuffer({
+      size: glowSize,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+      label: 'glow-phase-read'
+    });
+
+    this.glowIntensityReadBuffer = this.device.createBuffer({
+      size: glowSize,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+      label: 'glow-intensity-read'
+    });
+
+    this.simulationBuffers = {
+      position: this.positionBuffer,
+      velocity: this.velocityBuffer,
+      state: this.stateBuffer,
+      glowIntensity: this.glowIntensityBuffer,
+      species: this.speciesBuffer
+    };
   }
 
   /**
@@ -294,6 +490,26 @@ export class GPUSimulationRunner {
           binding: 4,
           visibility: GPUShaderStage.COMPUTE,
           buffer: { type: 'uniform' } // config
+        },
+        {
+          binding: 5,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' } // steering targets
+        },
+        {
+          binding: 6,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' } // species ids
+        },
+        {
+          binding: 7,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' } // tables (species, threats, attractors, obstacles)
+        },
+        {
+          binding: 8,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' } // spatial grid
         }
       ]
     });
@@ -319,6 +535,146 @@ export class GPUSimulationRunner {
         entryPoint: 'main'
       }
     });
+
+    // Firefly shader (flash detection + pulse-coupled phase update)
+    const fireflyShader = this.device.createShaderModule({
+      label: 'firefly',
+      code: this.getFireflyShaderCode()
+    });
+
+    const fireflyBindGroupLayout = this.device.createBindGroupLayout({
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' } // position
+        },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' } // glow phase
+        },
+        {
+          binding: 2,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' } // natural frequency
+        },
+        {
+          binding: 3,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' } // glow intensity
+        },
+        {
+          binding: 4,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' } // flashing flags
+        },
+        {
+          binding: 5,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'uniform' } // firefly config
+        },
+        {
+          binding: 6,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' } // spatial grid
+        }
+      ]
+    });
+
+    const fireflyPipelineLayout = this.device.createPipelineLayout({
+      bindGroupLayouts: [fireflyBindGroupLayout]
+    });
+
+    this.fireflyDetectPipeline = this.device.createComputePipeline({
+      layout: fireflyPipelineLayout,
+      compute: {
+        module: fireflyShader,
+        entryPoint: 'detectFlashes'
+      }
+    });
+
+    this.fireflyPipeline = this.device.createComputePipeline({
+      layout: fireflyPipelineLayout,
+      compute: {
+        module: fireflyShader,
+        entryPoint: 'main'
+      }
+    });
+
+    // Spatial grid shader (count birds per cell, prefix sum, scatter)
+    const gridShader = this.device.createShaderModule({
+      label: 'spatial-grid',
+      code: this.getGridShaderCode()
+    });
+
+    const gridBindGroupLayout = this.device.createBindGroupLayout({
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' } // position
+        },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'uniform' } // config
+        },
+        {
+          binding: 2,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' } // cell count (atomic)
+        },
+        {
+          binding: 3,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' } // cell start
+        },
+        {
+          binding: 4,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' } // bird cell
+        },
+        {
+          binding: 5,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' } // bird rank within cell
+        },
+        {
+          binding: 6,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' } // sorted bird indices
+        }
+      ]
+    });
+
+    const gridPipelineLayout = this.device.createPipelineLayout({
+      bindGroupLayouts: [gridBindGroupLayout]
+    });
+
+    this.gridCountPipeline = this.device.createComputePipeline({
+      layout: gridPipelineLayout,
+      compute: {
+        module: gridShader,
+        entryPoint: 'countCells'
+      }
+    });
+
+    this.gridScanPipeline = this.device.createComputePipeline({
+      layout: gridPipelineLayout,
+      compute: {
+        module: gridShader,
+        entryPoint: 'prefixSum'
+      }
+    });
+
+    this.gridScatterPipeline = this.device.createComputePipeline({
+      layout: gridPipelineLayout,
+      compute: {
+        module: gridShader,
+        entryPoint: 'scatter'
+      }
+    });
   }
 
   /**
@@ -334,7 +690,42 @@ export class GPUSimulationRunner {
         { binding: 1, resource: { buffer: this.velocityBuffer! } },
         { binding: 2, resource: { buffer: this.accelerationBuffer! } },
         { binding: 3, resource: { buffer: this.stateBuffer! } },
-        { binding: 4, resource: { buffer: this.configBuffer! } }
+        { binding: 4, resource: { buffer: this.configBuffer! } },
+        { binding: 5, resource: { buffer: this.steeringBuffer! } },
+        { binding: 6, resource: { buffer: this.speciesBuffer! } },
+        { binding: 7, resource: { buffer: this.tablesBuffer! } },
+        { binding: 8, resource: { buffer: this.gridBuffer! } }
+      ]
+    });
+
+    if (!this.gridCountPipeline) return;
+
+    // Sections of the grid buffer bound separately (non-overlapping) for writing
+    this.gridBindGroup = this.device.createBindGroup({
+      layout: this.gridCountPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.positionBuffer! } },
+        { binding: 1, resource: { buffer: this.configBuffer! } },
+        { binding: 2, resource: { buffer: this.gridBuffer!, offset: GRID_COUNT_OFFSET, size: GRID_START_OFFSET - GRID_COUNT_OFFSET } },
+        { binding: 3, resource: { buffer: this.gridBuffer!, offset: GRID_START_OFFSET, size: GRID_SORTED_OFFSET - GRID_START_OFFSET } },
+        { binding: 4, resource: { buffer: this.birdCellBuffer! } },
+        { binding: 5, resource: { buffer: this.birdRankBuffer! } },
+        { binding: 6, resource: { buffer: this.gridBuffer!, offset: GRID_SORTED_OFFSET, size: this.maxBirds * 4 } }
+      ]
+    });
+
+    if (!this.fireflyPipeline) return;
+
+    this.fireflyBindGroup = this.device.createBindGroup({
+      layout: this.fireflyPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.positionBuffer! } },
+        { binding: 1, resource: { buffer: this.glowPhaseBuffer! } },
+        { binding: 2, resource: { buffer: this.naturalFrequencyBuffer! } },
+        { binding: 3, resource: { buffer: this.glowIntensityBuffer! } },
+        { binding: 4, resource: { buffer: this.flashingBuffer! } },
+        { binding: 5, resource: { buffer: this.fireflyConfigBuffer! } },
+        { binding: 6, resource: { buffer: this.gridBuffer! } }
       ]
     });
   }
@@ -360,6 +751,14 @@ export class GPUSimulationRunner {
     return this.stateBuffer;
   }
 
+  /**
+   * Get the per-bird buffers for zero-copy rendering.
+   * Null in standalone mode, where the buffers live on a device the renderer can't bind.
+   */
+  getSimulationBuffers(): IGPUSimulationBuffers | null {
+    return this._isReady && this.sharedDevice ? this.simulationBuffers : null;
+  }
+
   /**
    * Get current bird count.
    */
@@ -401,15 +800,126 @@ export class GPUSimulationRunner {
     }
     this.device.queue.writeBuffer(this.stateBuffer!, 0, stateData);
 
-    // Clear acceleration
-    const accelData = new Float32Array(birdArrays.count * 2);
+    // Clear acceleration (and panic target)
+    const accelData = new Float32Array(birdArrays.count * 4);
     this.device.queue.writeBuffer(this.accelerationBuffer!, 0, accelData);
+
+    this.uploadSpecies(birdArrays);
+    this.uploadGlow(birdArrays);
+  }
+
+  /**
+   * Upload firefly oscillator state (phase, natural frequency, glow).
+   */
+  uploadGlow(birdArrays: BirdArrays): void {
+    if (!this.device || !this._isReady || birdArrays.count === 0) return;
+
+    const size = birdArrays.count * 4;
+    const { glowPhase, naturalFrequency, glowIntensity } = birdArrays;
+    this.device.queue.writeBuffer(this.glowPhaseBuffer!, 0, glowPhase.buffer, glowPhase.byteOffset, size);
+    this.device.queue.writeBuffer(this.naturalFrequencyBuffer!, 0, naturalFrequency.buffer, naturalFrequency.byteOffset, size);
+    this.device.queue.writeBuffer(this.glowIntensityBuffer!, 0, glowIntensity.buffer, glowIntensity.byteOffset, size);
+  }
+
+  /**
+   * Upload per-bird species ids.
+   */
+  uploadSpecies(birdArrays: BirdArrays): void {
+    if (!this.device || !this._isReady || birdArrays.count === 0) return;
+
+    const ids = birdArrays.speciesId;
+    this.device.queue.writeBuffer(this.speciesBuffer!, 0, ids.buffer, ids.byteOffset, birdArrays.count * 4);
+  }
+
+  /**
+   * Upload the species table (16 floats per species, see SpeciesManager.packSpeciesTable).
+   */
+  uploadSpeciesTable(data: Float32Array): void {
+    if (!this.device || !this._isReady) return;
+
+    this.device.queue.writeBuffer(this.tablesBuffer!, SPECIES_TABLE_OFFSET, data.buffer, data.byteOffset, MAX_SPECIES * SPECIES_TABLE_STRIDE * 4);
+  }
+
+  /**
+   * Upload per-bird steering targets (x, y, mode, radius, weight + 3 pad floats).
+   * Mode: 0 = none, 1 = arrive, 2 = orbit, 3 = home.
+   */
+  uploadSteeringTargets(data: Float32Array, count: number): void {
+    if (!this.device || !this._isReady) return;
+
+    this.device.queue.writeBuffer(this.steeringBuffer!, 0, data.buffer, data.byteOffset, count * 8 * 4);
+  }
+
+  /**
+   * Upload predator threats (THREAT_STRIDE floats each, see Flock.packThreats).
+   */
+  uploadThreats(data: Float32Array, count: number): void {
+    if (!this.device || !this._isReady) return;
+
+    this.threatCount = Math.min(count, MAX_THREATS);
+    if (this.threatCount === 0) return;
+    this.device.queue.writeBuffer(this.tablesBuffer!, THREAT_TABLE_OFFSET, data.buffer, data.byteOffset, this.threatCount * THREAT_STRIDE * 4);
+  }
+
+  /**
+   * Upload attractors and repulsors (ATTRACTOR_STRIDE floats each, see Flock.packAttractors).
+   */
+  uploadAttractors(data: Float32Array, count: number): void {
+    if (!this.device || !this._isReady) return;
+
+    this.attractorCount = Math.min(count, MAX_ATTRACTORS);
+    if (this.attractorCount === 0) return;
+    this.device.queue.writeBuffer(this.tablesBuffer!, ATTRACTOR_TABLE_OFFSET, data.buffer, data.byteOffset, this.attractorCount * ATTRACTOR_STRIDE * 4);
+  }
+
+  /**
+   * Upload obstacle segments (OBSTACLE_SEGMENT_STRIDE floats each, see ObstacleField).
+   */
+  uploadObstacles(data: Float32Array, count: number): void {
+    if (!this.device || !this._isReady) return;
+
+    this.obstacleCount = Math.min(count, MAX_OBSTACLE_SEGMENTS);
+    if (this.obstacleCount === 0) return;
+    this.device.queue.writeBuffer(this.tablesBuffer!, OBSTACLE_TABLE_OFFSET, data.buffer, data.byteOffset, this.obstacleCount * OBSTACLE_SEGMENT_STRIDE * 4);
+  }
+
+  /**
+   * Remove a bird on the GPU the same way BirdArrays.removeAt does: the last
+   * bird is copied into the freed slot. Keeps the resident data current
+   * without re-uploading the (possibly stale) CPU copy.
+   */
+  removeBird(index: number): void {
+    if (!this.device || !this._isReady) return;
+    if (index < 0 || index >= this.currentBirdCount) return;
+
+    const last = this.currentBirdCount - 1;
+    this.currentBirdCount = last;
+    if (index === last) return;
+
+    // Per-bird buffers and their stride in bytes (acceleration and steering are rewritten every step)
+    const perBird: [GPUBuffer, number][] = [
+      [this.positionBuffer!, 8],
+      [this.velocityBuffer!, 8],
+      [this.stateBuffer!, 16],
+      [this.speciesBuffer!, 4],
+      [this.glowPhaseBuffer!, 4],
+      [this.naturalFrequencyBuffer!, 4],
+      [this.glowIntensityBuffer!, 4]
+    ];
+
+    const commandEncoder = this.device.createCommandEncoder();
+    for (const [buffer, stride] of perBird) {
+      commandEncoder.copyBufferToBuffer(buffer, last * stride, this.swapBuffer!, 0, stride);
+      commandEncoder.copyBufferToBuffer(this.swapBuffer!, 0, buffer, index * stride, stride);
+    }
+    this.device.queue.submit([commandEncoder.finish()]);
   }
 
   /**
    * Download bird data from GPU.
+   * @param includeGlow Also read back firefly phase and glow intensity
    */
-  async downloadData(birdArrays: BirdArrays): Promise<void> {
+  async downloadData(birdArrays: BirdArrays, includeGlow: boolean = false): Promise<void> {
     if (!this.device || !this._isReady) return;
 
     const count = this.currentBirdCount;
@@ -437,6 +947,10 @@ export class GPUSimulationRunner {
       0,
       count * 4 * 4
     );
+    if (includeGlow) {
+      commandEncoder.copyBufferToBuffer(this.glowPhaseBuffer!, 0, this.glowPhaseReadBuffer!, 0, count * 4);
+      commandEncoder.copyBufferToBuffer(this.glowIntensityBuffer!, 0, this.glowIntensityReadBuffer!, 0, count * 4);
+    }
     this.device.queue.submit([commandEncoder.finish()]);
 
     // Map and read position
@@ -465,19 +979,33 @@ export class GPUSimulationRunner {
       birdArrays.energy[i] = stateData[i * 4 + 2];
       birdArrays.heading[i] = stateData[i * 4 + 3];
     }
+
+    if (includeGlow) {
+      await this.glowPhaseReadBuffer!.mapAsync(GPUMapMode.READ);
+      birdArrays.glowPhase.set(new Float32Array(this.glowPhaseReadBuffer!.getMappedRange(0, count * 4)));
+      this.glowPhaseReadBuffer!.unmap();
+
+      await this.glowIntensityReadBuffer!.mapAsync(GPUMapMode.READ);
+      birdArrays.glowIntensity.set(new Float32Array(this.glowIntensityReadBuffer!.getMappedRange(0, count * 4)));
+      this.glowIntensityReadBuffer!.unmap();
+    }
   }
 
   /**
    * Update config uniform buffer.
+   * @param neighborRadius Widest neighbour query radius; sets the spatial grid cell size
    */
   updateConfig(
     simConfig: ISimulationConfig,
     envConfig: IEnvironmentConfig,
-    deltaTime: number
+    deltaTime: number,
+    neighborRadius: number = simConfig.perceptionRadius
   ): void {
     if (!this.device || !this._isReady) return;
 
     this.time += deltaTime;
+    this.updateGridDimensions(neighborRadius);
+    this.wrapWorld = simConfig.boundaryMode === 'wrap';
 
     // Calculate wind vector
     const windAngle = (envConfig.windDirection * Math.PI) / 180;
@@ -511,7 +1039,23 @@ export class GPUSimulationRunner {
       simConfig.boundaryCurvePower ?? 1.5, // 20
       simConfig.boundaryLookAhead ?? 0.8, // 21
       simConfig.wallDampingFactor ?? 0.8, // 22
-      simConfig.minEscapeSpeed ?? 0.3  // 23
+      simConfig.minEscapeSpeed ?? 0.3, // 23
+      envConfig.ecosystem?.enabled ? 1 : 0, // 24
+      envConfig.ecosystem?.interactionRange ?? 100, // 25
+      envConfig.ecosystem?.huntingForce ?? 0, // 26
+      envConfig.ecosystem?.fleeingForce ?? 0, // 27
+      this.gridCols, // 28
+      this.gridRows, // 29
+      this.cellSize, // 30
+      this.threatCount, // 31
+      envConfig.panicSpread ?? 0, // 32
+      envConfig.panicDecay ?? 0, // 33
+      this.attractorCount, // 34
+      envConfig.obstacles?.enabled ? this.obstacleCount : 0, // 35
+      envConfig.obstacles?.avoidanceForce ?? 0, // 36
+      envConfig.obstacles?.avoidanceMargin ?? 0, // 37
+      envConfig.obstacles?.lookAhead ?? 0, // 38
+      BOUNDARY_MODE_INDEX[simConfig.boundaryMode ?? 'reflect'] // 39
     ]);
 
     this.device.queue.writeBuffer(this.configBuffer!, 0, configData);
@@ -527,6 +1071,9 @@ export class GPUSimulationRunner {
 
     const commandEncoder = this.device.createCommandEncoder();
 
+    // Build the spatial grid from current positions
+    this.encodeGridBuild(commandEncoder, workgroupCount);
+
     // Pass 1: Flocking (calculate forces)
     const flockingPass = commandEncoder.beginComputePass();
     flockingPass.setPipeline(this.flockingPipeline);
@@ -544,6 +1091,105 @@ export class GPUSimulationRunner {
     this.device.queue.submit([commandEncoder.finish()]);
   }
 
+  /**
+   * Size grid cells to cover the neighbour radius, growing them if the grid would exceed MAX_GRID_CELLS.
+   * Cells tile the world exactly (rounding the count down, so each side is at least
+   * the cell size), which keeps the 3x3 search valid across wrapped edges.
+   */
+  private updateGridDimensions(neighborRadius: number): void {
+    let cellSize = Math.max(1, neighborRadius);
+    const cellsFor = (size: number) => Math.ceil(this.worldWidth / size) * Math.ceil(this.worldHeight / size);
+
+    if (cellsFor(cellSize) > MAX_GRID_CELLS) {
+      cellSize = Math.sqrt((this.worldWidth * this.worldHeight) / MAX_GRID_CELLS);
+      while (cellsFor(cellSize) > MAX_GRID_CELLS) {
+        cellSize *= 1.05;
+      }
+    }
+
+    this.gridCols = Math.max(1, Math.floor(this.worldWidth / cellSize));
+    this.gridRows = Math.max(1, Math.floor(this.worldHeight / cellSize));
+    this.cellSize = Math.min(this.worldWidth / this.gridCols, this.worldHeight / this.gridRows);
+  }
+
+  /**
+   * Encode the spatial grid passes: clear, count birds per cell, prefix sum, scatter.
+   */
+  private encodeGridBuild(commandEncoder: GPUCommandEncoder, workgroupCount: number): void {
+    commandEncoder.clearBuffer(this.gridBuffer!, GRID_COUNT_OFFSET, this.gridCols * this.gridRows * 4);
+
+    const countPass = commandEncoder.beginComputePass();
+    countPass.setPipeline(this.gridCountPipeline!);
+    countPass.setBindGroup(0, this.gridBindGroup!);
+    countPass.dispatchWorkgroups(workgroupCount);
+    countPass.end();
+
+    const scanPass = commandEncoder.beginComputePass();
+    scanPass.setPipeline(this.gridScanPipeline!);
+    scanPass.setBindGroup(0, this.gridBindGroup!);
+    scanPass.dispatchWorkgroups(1);
+    scanPass.end();
+
+    const scatterPass = commandEncoder.beginComputePass();
+    scatterPass.setPipeline(this.gridScatterPipeline!);
+    scatterPass.setBindGroup(0, this.gridBindGroup!);
+    scatterPass.dispatchWorkgroups(workgroupCount);
+    scatterPass.end();
+  }
+
+  /**
+   * Update firefly config uniform buffer.
+   * @param syncRadius Neighbour radius for seeing flashes
+   * @param visibility Glow multiplier (day/night), applied before flash detection like the CPU path
+   */
+  updateFireflyConfig(envConfig: IEnvironmentConfig, syncRadius: number, deltaTime: number, visibility: number): void {
+    if (!this.device || !this._isReady) return;
+
+    const fireflyData = new Float32Array([
+      this.currentBirdCount, // 0
+      syncRadius, // 1
+      envConfig.fireflyCouplingStrength ?? 0.5, // 2
+      envConfig.fireflyBaseFrequency ?? 1.0, // 3
+      envConfig.fireflyFlashDuration ?? 0.2, // 4
+      deltaTime, // 5
+      visibility, // 6
+      this.wrapWorld ? 1 : 0, // 7
+      this.gridCols, // 8
+      this.gridRows, // 9
+      this.worldWidth, // 10
+      this.worldHeight // 11
+    ]);
+
+    this.device.queue.writeBuffer(this.fireflyConfigBuffer!, 0, fireflyData);
+  }
+
+  /**
+   * Run the firefly synchronization passes (after compute(), which builds the grid they use).
+   */
+  computeFireflies(): void {
+    if (!this.device || !this._isReady || !this.fireflyDetectPipeline || !this.fireflyPipeline) return;
+
+    const workgroupCount = Math.ceil(this.currentBirdCount / WORKGROUP_SIZE);
+
+    const commandEncoder = this.device.createCommandEncoder();
+
+    // Pass 1: Flag fireflies that are flashing this step
+    const detectPass = commandEncoder.beginComputePass();
+    detectPass.setPipeline(this.fireflyDetectPipeline);
+    detectPass.setBindGroup(0, this.fireflyBindGroup!);
+    detectPass.dispatchWorkgroups(workgroupCount);
+    detectPass.end();
+
+    // Pass 2: Advance phases from neighbour flashes and compute glow
+    const phasePass = commandEncoder.beginComputePass();
+    phasePass.setPipeline(this.fireflyPipeline);
+    phasePass.setBindGroup(0, this.fireflyBindGroup!);
+    phasePass.dispatchWorkgroups(workgroupCount);
+    phasePass.end();
+
+    this.device.queue.submit([commandEncoder.finish()]);
+  }
+
   /**
    * Resize world dimensions.
    */
@@ -562,11 +1208,26 @@ export class GPUSimulationRunner {
     this.velocityBuffer?.destroy();
     this.accelerationBuffer?.destroy();
     this.stateBuffer?.destroy();
+    this.steeringBuffer?.destroy();
+    this.speciesBuffer?.destroy();
+    this.tablesBuffer?.destroy();
     this.configBuffer?.destroy();
+    this.glowPhaseBuffer?.destroy();
+    this.naturalFrequencyBuffer?.destroy();
+    this.glowIntensityBuffer?.destroy();
+    this.flashingBuffer?.destroy();
+    this.fireflyConfigBuffer?.destroy();
+    this.gridBuffer?.destroy();
+    this.birdCellBuffer?.destroy();
+    this.birdRankBuffer?.destroy();
+    this.swapBuffer?.destroy();
     this.positionReadBuffer?.destroy();
     this.velocityReadBuffer?.destroy();
     this.stateReadBuffer?.destroy();
+    this.glowPhaseReadBuffer?.destroy();
+    this.glowIntensityReadBuffer?.destroy();
 
+    this.simulationBuffers = null;
     this.device = null;
     this._isReady = false;
   }
@@ -602,13 +1263,59 @@ struct Config {
   boundaryLookAhead: f32,
   wallDampingFactor: f32,
   minEscapeSpeed: f32,
+  ecosystemEnabled: f32,
+  interactionRange: f32,
+  huntingForce: f32,
+  fleeingForce: f32,
+  gridCols: f32,
+  gridRows: f32,
+  cellSize: f32,
+  threatCount: f32,
+  panicSpread: f32,
+  panicDecay: f32,
+  attractorCount: f32,
+  obstacleCount: f32,
+  obstacleForce: f32,
+  obstacleMargin: f32,
+  obstacleLookAhead: f32,
+  boundaryMode: f32,
 }
 
 @group(0) @binding(0) var<storage, read_write> positions: array<vec2<f32>>;
 @group(0) @binding(1) var<storage, read_write> velocities: array<vec2<f32>>;
-@group(0) @binding(2) var<storage, read_write> accelerations: array<vec2<f32>>;
+// Acceleration (xy) and panic picked up this step (z), raised into states[].x by the physics pass
+@group(0) @binding(2) var<storage, read_write> accelerations: array<vec4<f32>>;
 @group(0) @binding(3) var<storage, read_write> states: array<vec4<f32>>;
 @group(0) @binding(4) var<uniform> config: Config;
+struct SteeringTarget {
+  position: vec2<f32>,
+  mode: f32,      // 0 = none, 1 = arrive, 2 = orbit, 3 = home
+  radius: f32,
+  weight: f32,
+  _pad0: f32,
+  _pad1: f32,
+  _pad2: f32,
+}
+
+@group(0) @binding(5) var<storage, read> steeringTargets: array<SteeringTarget>;
+@group(0) @binding(6) var<storage, read> speciesIds: array<u32>;
+${this.getTablesShaderCode()}
+${this.getGridLookupShaderCode(8)}
+${this.getObstacleShaderCode()}
+${this.getBoundaryShaderCode()}
+
+// Grid cell containing a position (clamped to the grid)
+fn gridCoords(pos: vec2<f32>) -> vec2<i32> {
+  return gridCell(pos, vec2<f32>(config.worldWidth, config.worldHeight), vec2<f32>(config.gridCols, config.gridRows));
+}
+
+// Offset between two positions, across the edges in a wrapped world
+fn worldOffset(d: vec2<f32>) -> vec2<f32> {
+  return minimumImage(d, vec2<f32>(config.worldWidth, config.worldHeight), u32(config.boundaryMode) == BOUNDARY_WRAP);
+}
+
+// Orbit cruise speed as a fraction of max speed
+const orbitSpeedFactor = 0.5;
 
 // Calculate wall proximity factor for damping flocking forces near walls
 fn calculateWallProximity(pos: vec2<f32>, margin: f32, worldWidth: f32, worldHeight: f32) -> f32 {
@@ -752,6 +1459,111 @@ fn calculateBoundaryForce(
   return vec2<f32>(0.0);
 }
 
+// Limit a steering vector to maxForce
+fn limitForce(steer: vec2<f32>, maxForce: f32) -> vec2<f32> {
+  let mag = length(steer);
+  if (mag > maxForce) {
+    return steer / mag * maxForce;
+  }
+  return steer;
+}
+
+// Obstacle avoidance, mirroring ObstacleField.avoid on the CPU: the nearer of
+// the surfaces at the bird and at the look-ahead probe turns the heading along
+// the surface, with a smoothstep weight growing towards it
+fn obstacleAvoidance(pos: vec2<f32>, vel: vec2<f32>, maxSpeed: f32, maxForce: f32) -> vec2<f32> {
+  let speed = length(vel);
+  var contact = obstacleSample(pos);
+  if (speed > 0.1) {
+    let probe = config.obstacleLookAhead * config.obstacleMargin * min(1.0, speed / maxSpeed);
+    let ahead = obstacleSample(pos + vel / speed * probe);
+    if (ahead.z < contact.z) { contact = ahead; }
+  }
+  if (contact.z >= config.obstacleMargin) { return vec2<f32>(0.0); }
+
+  var strength = 1.0;
+  if (contact.z > 0.0) {
+    strength = smoothstep(0.0, 1.0, 1.0 - contact.z / config.obstacleMargin);
+  }
+
+  var dir = contact.xy;
+  if (speed > 0.1) { dir = vel / speed; }
+  let into = min(0.0, dot(dir, contact.xy));
+  dir += contact.xy * (strength - into);
+  let dirLen = length(dir);
+  if (dirLen < 1e-6) { return vec2<f32>(0.0); }
+
+  return limitForce(dir / dirLen * maxSpeed - vel, maxForce) * config.obstacleForce * strength;
+}
+
+// Steering toward a per-bird target (food foraging and territories)
+fn calculateTargetSteering(pos: vec2<f32>, vel: vec2<f32>, goal: SteeringTarget) -> vec2<f32> {
+  let mode = u32(goal.mode + 0.5);
+  let radius = goal.radius;
+
+  if (mode == 1u) {
+    // Arrive: seek with slowing inside radius
+    let toTarget = worldOffset(goal.position - pos);
+    let d = length(toTarget);
+    if (d < 0.001) { return vec2<f32>(0.0); }
+    var desiredSpeed = config.maxSpeed;
+    if (d < radius) {
+      desiredSpeed = config.maxSpeed * (d / radius);
+    }
+    return limitForce((toTarget / d) * desiredSpeed - vel, config.maxForce) * goal.weight;
+  }
+
+  if (mode == 2u) {
+    // Orbit: tangential cruise in the current turning direction plus radial correction
+    let fromCenter = worldOffset(pos - goal.position);
+    let d = length(fromCenter);
+    if (d < 0.001 || radius <= 0.0) { return vec2<f32>(0.0); }
+    let radial = fromCenter / d;
+    let dir = select(-1.0, 1.0, radial.x * vel.y - radial.y * vel.x >= 0.0);
+    let tangent = vec2<f32>(-radial.y, radial.x) * dir;
+    let radialError = clamp((radius - d) / radius, -1.0, 1.0);
+    let desired = (tangent * orbitSpeedFactor + radial * radialError) * config.maxSpeed;
+    return limitForce(desired - vel, config.maxForce) * goal.weight;
+  }
+
+  if (mode == 3u) {
+    // Home pull: only outside radius, growing to full weight at twice the radius
+    let toCenter = worldOffset(goal.position - pos);
+    let d = length(toCenter);
+    if (d <= radius || radius <= 0.0) { return vec2<f32>(0.0); }
+    let excess = min(1.0, (d - radius) / radius);
+    return limitForce((toCenter / d) * config.maxSpeed - vel, config.maxForce) * goal.weight * excess;
+  }
+
+  return vec2<f32>(0.0);
+}
+
+// Species flocking params (global config while the ecosystem is off)
+fn speciesParamsFor(species: u32) -> SpeciesParams {
+  if (config.ecosystemEnabled > 0.5) {
+    return tables.species[min(species, 7u)]; // MAX_SPECIES - 1
+  }
+  return SpeciesParams(
+    config.maxSpeed,
+    config.maxForce,
+    config.perceptionRadius,
+    config.separationRadius,
+    config.alignmentWeight,
+    config.cohesionWeight,
+    config.separationWeight,
+    config.fieldOfViewCos,
+    vec4<f32>(0.0),
+    vec4<f32>(0.0)
+  );
+}
+
+// Food-web entry: how strongly a species hunts the given prey species
+fn dietRelation(hunter: SpeciesParams, prey: u32) -> f32 {
+  if (prey < 4u) { return hunter.diet0[prey]; }
+  if (prey < 8u) { return hunter.diet1[prey - 4u]; }
+  return 0.0;
+}
+
 @compute @workgroup_size(64)
 fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   let idx = gid.x;
@@ -763,6 +1575,23 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   let vel = velocities[idx];
   let state = states[idx];
 
+  // Multi-species: own flocking params, flockmates are same-species only
+  let ecosystemOn = config.ecosystemEnabled > 0.5;
+  let ownSpecies = speciesIds[idx];
+  let params = speciesParamsFor(ownSpecies);
+  let rangeSq = config.interactionRange * config.interactionRange;
+
+  // Nearest prey and proximity-weighted hunters
+  var preyPos = vec2<f32>(0.0);
+  var preyRelation = 0.0;
+  var preyDistSq = rangeSq;
+  var threatCenter = vec2<f32>(0.0);
+  var threatWeight = 0.0;
+  var maxThreat = 0.0;
+
+  // Strongest panic spread from panicked neighbours
+  var receivedPanic = 0.0;
+
   // Accumulate forces with distance weighting
   var separation = vec2<f32>(0.0);
   var alignment = vec2<f32>(0.0);
@@ -772,43 +1601,87 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   var alignWeight = 0.0;
   var cohWeight = 0.0;
 
-  let percRad = config.perceptionRadius;
+  let percRad = params.perceptionRadius;
   let percRadSq = percRad * percRad;
-  let sepRadSq = config.separationRadius * config.separationRadius;
-
-  // Check all other birds
-  for (var i = 0u; i < count; i++) {
-    if (i == idx) { continue; }
-
-    let otherPos = positions[i];
-    let otherVel = velocities[i];
-    let diff = otherPos - pos;
-    let distSq = dot(diff, diff);
-
-    // Perception check
-    if (distSq < percRadSq && distSq > 0.0001) {
-      // FOV check
-      if (inFOV(vel, diff, config.fieldOfViewCos)) {
-        let dist = sqrt(distSq);
-        neighborCount += 1u;
-
-        // Distance weight: closer = stronger (1 at center, 0 at edge)
-        let weight = 1.0 - (dist / percRad);
-
-        // Alignment - distance-weighted velocity averaging
-        alignment += otherVel * weight;
-        alignWeight += weight;
-
-        // Cohesion - distance-weighted position averaging
-        cohesion += otherPos * weight;
-        cohWeight += weight;
-
-        // Separation - inverse-square weighting for strong close-range repulsion
-        if (distSq < sepRadSq) {
-          let away = pos - otherPos;
-          let invDistSq = 1.0 / distSq;
-          separation += (away / dist) * invDistSq;
-          separationCount += 1u;
+  let sepRadSq = params.separationRadius * params.separationRadius;
+
+  // Visit birds in the 3x3 block of grid cells around this bird
+  // (cells are at least as large as the widest perception/interaction radius)
+  let cell = gridCoords(pos);
+  let gridCols = i32(config.gridCols);
+  let gridRows = i32(config.gridRows);
+  let wrapped = u32(config.boundaryMode) == BOUNDARY_WRAP;
+  let colRange = cellRange(cell.x, 1, gridCols, wrapped);
+  let rowRange = cellRange(cell.y, 1, gridRows, wrapped);
+  for (var cy = rowRange.x; cy <= rowRange.y; cy++) {
+    for (var cx = colRange.x; cx <= colRange.y; cx++) {
+      let cellIdx = u32(wrapCell(cy, gridRows) * gridCols + wrapCell(cx, gridCols));
+      let start = gridCellStart(cellIdx);
+      let end = start + gridCellCount(cellIdx);
+      for (var k = start; k < end; k++) {
+        let i = gridSortedBird(k);
+        if (i == idx) { continue; }
+
+        // Nearest image of the neighbour when the world wraps
+        let diff = worldOffset(positions[i] - pos);
+        let otherPos = pos + diff;
+        let otherVel = velocities[i];
+        let distSq = dot(diff, diff);
+        let otherSpecies = speciesIds[i];
+        let sameSpecies = !ecosystemOn || otherSpecies == ownSpecies;
+
+        // Hunting and fleeing between species
+        if (!sameSpecies && distSq < rangeSq && distSq > 0.0001) {
+          let relation = dietRelation(params, otherSpecies);
+          if (relation > 0.0 && distSq < preyDistSq) {
+            preyDistSq = distSq;
+            preyPos = otherPos;
+            preyRelation = relation;
+          }
+
+          let danger = dietRelation(tables.species[min(otherSpecies, 7u)], ownSpecies);
+          if (danger > 0.0) {
+            let threat = (1.0 - sqrt(distSq) / config.interactionRange) * danger;
+            threatCenter += otherPos * threat;
+            threatWeight += threat;
+            maxThreat = max(maxThreat, threat);
+          }
+        }
+
+        // Perception check
+        if (distSq < percRadSq && distSq > 0.0001) {
+          // Panic spreads from any panicked neighbour, seen or not
+          let otherPanic = states[i].x;
+          if (otherPanic >= 0.1) {
+            receivedPanic = max(receivedPanic, otherPanic * config.panicSpread * (1.0 - sqrt(distSq) / percRad));
+          }
+
+          // FOV check
+          if (inFOV(vel, diff, params.fieldOfViewCos)) {
+            let dist = sqrt(distSq);
+            neighborCount += 1u;
+
+            // Distance weight: closer = stronger (1 at center, 0 at edge)
+            let weight = 1.0 - (dist / percRad);
+
+            if (sameSpecies) {
+              // Alignment - distance-weighted velocity averaging
+              alignment += otherVel * weight;
+              alignWeight += weight;
+
+              // Cohesion - distance-weighted position averaging
+              cohesion += otherPos * weight;
+              cohWeight += weight;
+            }
+
+            // Separation - inverse-square weighting for strong close-range repulsion
+            if (distSq < sepRadSq) {
+              let away = pos - otherPos;
+              let invDistSq = 1.0 / distSq;
+              separation += (away / dist) * invDistSq;
+              separationCount += 1u;
+            }
+          }
         }
       }
     }
@@ -823,10 +1696,10 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
     alignment = alignment / alignWeight;
     let alignMag = length(alignment);
     if (alignMag > 0.0) {
-      let alignTarget = (alignment / alignMag) * config.maxSpeed - vel;
+      let alignTarget = (alignment / alignMag) * params.maxSpeed - vel;
       let steerMag = length(alignTarget);
       if (steerMag > 0.0) {
-        accel += (alignTarget / steerMag) * min(steerMag, config.maxForce) * config.alignmentWeight;
+        accel += (alignTarget / steerMag) * min(steerMag, params.maxForce) * params.alignmentWeight;
       }
     }
   }
@@ -843,11 +1716,11 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
     
     let cohMag = length(cohTarget);
     if (cohMag > 0.0) {
-      let desired = (cohTarget / cohMag) * config.maxSpeed;
+      let desired = (cohTarget / cohMag) * params.maxSpeed;
       let steer = desired - vel;
       let steerMag = length(steer);
       if (steerMag > 0.0) {
-        accel += (steer / steerMag) * min(steerMag, config.maxForce) * config.cohesionWeight;
+        accel += (steer / steerMag) * min(steerMag, params.maxForce) * params.cohesionWeight;
       }
     }
   }
@@ -857,44 +1730,86 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
     separation = separation / f32(separationCount);
     let sepMag = length(separation);
     if (sepMag > 0.0) {
-      let desired = (separation / sepMag) * config.maxSpeed;
+      let desired = (separation / sepMag) * params.maxSpeed;
       let steer = desired - vel;
       let steerMag = length(steer);
       if (steerMag > 0.0) {
-        accel += (steer / steerMag) * min(steerMag, config.maxForce) * config.separationWeight;
+        accel += (steer / steerMag) * min(steerMag, params.maxForce) * params.separationWeight;
       }
     }
   }
 
-  // Wall proximity damping: reduce flocking forces when near walls
-  // This prevents neighbors from pulling birds into walls
-  let wallProximity = calculateWallProximity(pos, config.boundaryMargin, config.worldWidth, config.worldHeight);
-  let dampedProximity = wallProximity * config.wallDampingFactor + (1.0 - config.wallDampingFactor);
-  accel = accel * dampedProximity;
-  
-  // Anti-cluster jitter: add random perturbation when very close to wall
-  let minDistToWall = min(min(pos.x, config.worldWidth - pos.x), min(pos.y, config.worldHeight - pos.y));
-  if (minDistToWall < config.boundaryMargin * 0.3) {
-    let jitterStrength = (1.0 - minDistToWall / (config.boundaryMargin * 0.3)) * 0.5;
-    let jitterX = (hash(f32(idx) + config.time * 100.0) - 0.5) * jitterStrength;
-    let jitterY = (hash(f32(idx) + config.time * 100.0 + 1000.0) - 0.5) * jitterStrength;
-    accel += vec2<f32>(jitterX, jitterY);
-  }
-
-  // Boundary avoidance - smooth steering-based with look-ahead
-  let boundarySteer = calculateBoundaryForce(
-    pos,
-    vel,
-    config.boundaryMargin,
-    config.boundaryForce,
-    config.maxSpeed,
-    config.maxForce,
-    config.worldWidth,
-    config.worldHeight,
-    config.boundaryCurvePower,
-    config.boundaryLookAhead
-  );
-  accel += boundarySteer;
+  // Hunting: chase the nearest prey in range
+  if (preyRelation > 0.0) {
+    let toPrey = preyPos - pos;
+    let preyDist = length(toPrey);
+    if (preyDist > 0.001) {
+      accel += limitForce((toPrey / preyDist) * params.maxSpeed - vel, params.maxForce) * config.huntingForce * preyRelation;
+    }
+  }
+
+  // Fleeing: away from the proximity-weighted center of nearby hunters
+  if (threatWeight > 0.0) {
+    let away = pos - threatCenter / threatWeight;
+    let awayDist = length(away);
+    if (awayDist > 0.001) {
+      accel += limitForce((away / awayDist) * params.maxSpeed - vel, params.maxForce) * config.fleeingForce * min(1.0, maxThreat);
+    }
+  }
+
+  // Predators: panic falls off to the panic radius, flee the predicted position
+  var threatPanic = 0.0;
+  for (var t = 0u; t < u32(config.threatCount); t++) {
+    let threat = tables.threats[t];
+    let toBird = worldOffset(pos - threat.position);
+    let threatDist = length(toBird);
+    if (threatDist >= threat.radius) { continue; }
+
+    let intensity = threat.strength * (1.0 - threatDist / threat.radius);
+    threatPanic = max(threatPanic, intensity);
+
+    let away = worldOffset(pos - (threat.position + threat.velocity * threat.lookahead));
+    let awayDist = length(away);
+    if (awayDist > 0.001) {
+      accel += limitForce((away / awayDist) * params.maxSpeed - vel, params.maxForce) * threat.fleeWeight * intensity;
+    }
+  }
+  let panicTarget = max(receivedPanic, threatPanic);
+
+  let boundaryMode = u32(config.boundaryMode);
+  if (boundaryMode == BOUNDARY_REFLECT) {
+    // Wall proximity damping: reduce flocking forces when near walls
+    // This prevents neighbors from pulling birds into walls
+    let wallProximity = calculateWallProximity(pos, config.boundaryMargin, config.worldWidth, config.worldHeight);
+    let dampedProximity = wallProximity * config.wallDampingFactor + (1.0 - config.wallDampingFactor);
+    accel = accel * dampedProximity;
+    
+    // Anti-cluster jitter: add random perturbation when very close to wall
+    let minDistToWall = min(min(pos.x, config.worldWidth - pos.x), min(pos.y, config.worldHeight - pos.y));
+    if (minDistToWall < config.boundaryMargin * 0.3) {
+      let jitterStrength = (1.0 - minDistToWall / (config.boundaryMargin * 0.3)) * 0.5;
+      let jitterX = (hash(f32(idx) + config.time * 100.0) - 0.5) * jitterStrength;
+      let jitterY = (hash(f32(idx) + config.time * 100.0 + 1000.0) - 0.5) * jitterStrength;
+      accel += vec2<f32>(jitterX, jitterY);
+    }
+  }
+
+  // Boundary avoidance - smooth steering-based with look-ahead (walls and soft edges only)
+  if (boundaryMode == BOUNDARY_REFLECT || boundaryMode == BOUNDARY_SOFT) {
+    let boundarySteer = calculateBoundaryForce(
+      pos,
+      vel,
+      config.boundaryMargin,
+      config.boundaryForce,
+      config.maxSpeed,
+      config.maxForce,
+      config.worldWidth,
+      config.worldHeight,
+      config.boundaryCurvePower,
+      config.boundaryLookAhead
+    );
+    accel += boundarySteer;
+  }
 
   // Wind force with position-based turbulence
   let windBase = vec2<f32>(config.windX, config.windY);
@@ -911,8 +1826,26 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   let wanderAngle = heading + wanderNoise * config.noiseStrength * 3.14159;
   accel += vec2<f32>(cos(wanderAngle), sin(wanderAngle)) * config.wanderStrength;
 
-  // Store acceleration
-  accelerations[idx] = accel;
+  // Attractors and repulsors: strength falls off linearly to the radius
+  for (var a = 0u; a < u32(config.attractorCount); a++) {
+    let attractor = tables.attractors[a];
+    let toAttractor = worldOffset(attractor.position - pos);
+    let attractorDist = length(toAttractor);
+    if (attractorDist > attractor.radius || attractorDist < 0.1) { continue; }
+
+    accel += toAttractor * (attractor.strength * (1.0 - attractorDist / attractor.radius) / attractorDist);
+  }
+
+  // Steer around obstacles near the bird or in its path
+  if (config.obstacleCount > 0.5) {
+    accel += obstacleAvoidance(pos, vel, params.maxSpeed, params.maxForce);
+  }
+
+  // Food seeking, gathering orbit and territory steering (targets written by CPU)
+  accel += calculateTargetSteering(pos, vel, steeringTargets[idx]);
+
+  // Store acceleration and the panic target
+  accelerations[idx] = vec4<f32>(accel, panicTarget, 0.0);
 
   // Update local density in state (normalized)
   let normalizedDensity = f32(neighborCount) / max(20.0, f32(neighborCount));
@@ -921,6 +1854,191 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
 `;
   }
 
+  /**
+   * Obstacle segments (read from the tables buffer) and signed distance field,
+   * shared by the flocking and physics shaders (both declare the Config uniform
+   * and tables it reads).
+   */
+  private getObstacleShaderCode(): string {
+    return `
+// Obstacle capsule segments (OBSTACLE_SEGMENT_STRIDE floats each, packed by ObstacleField)
+struct ObstacleSegment {
+  a: vec2<f32>,
+  b: vec2<f32>,
+  radius: f32,
+  filled: f32, // polygon edge (inside found by crossing parity)
+  last: f32,   // last segment of its obstacle
+  _pad0: f32,
+}
+
+// Distance birds are kept from obstacle surfaces
+const obstacleClearance: f32 = ${OBSTACLE_CLEARANCE};
+
+// Signed distance to the nearest obstacle surface (z, negative inside) and the
+// outward normal there (xy), mirroring ObstacleField.sample on the CPU
+fn obstacleSample(p: vec2<f32>) -> vec3<f32> {
+  var best = vec3<f32>(0.0, 0.0, 1e9);
+  var current = vec3<f32>(1.0, 0.0, 1e9);
+  var inside = false;
+
+  for (var s = 0u; s < u32(config.obstacleCount); s++) {
+    let segment = tables.obstacles[s];
+    let ab = segment.b - segment.a;
+    let lenSq = dot(ab, ab);
+    var t = 0.0;
+    if (lenSq > 0.0) {
+      t = clamp(dot(p - segment.a, ab) / lenSq, 0.0, 1.0);
+    }
+    let d = p - (segment.a + ab * t);
+    let len = length(d);
+    let dist = len - segment.radius;
+    if (dist < current.z) {
+      var normal = vec2<f32>(1.0, 0.0);
+      if (len > 1e-6) { normal = d / len; }
+      current = vec3<f32>(normal, dist);
+    }
+
+    // Polygon edges crossed by a ray towards +x
+    if (segment.filled > 0.5 && (segment.a.y > p.y) != (segment.b.y > p.y) &&
+        p.x < segment.a.x + (p.y - segment.a.y) * ab.x / ab.y) {
+      inside = !inside;
+    }
+
+    if (segment.last > 0.5) {
+      // Inside a polygon the nearest edge lies outwards
+      if (inside) { current = -current; }
+      if (current.z < best.z) { best = current; }
+      current = vec3<f32>(1.0, 0.0, 1e9);
+      inside = false;
+    }
+  }
+
+  return best;
+}
+`;
+  }
+
+  /**
+   * Read-only tables packed into one buffer (see the *_TABLE_OFFSET constants),
+   * shared by the flocking and physics shaders.
+   */
+  private getTablesShaderCode(): string {
+    return `
+struct SpeciesParams {
+  maxSpeed: f32,
+  maxForce: f32,
+  perceptionRadius: f32,
+  separationRadius: f32,
+  alignmentWeight: f32,
+  cohesionWeight: f32,
+  separationWeight: f32,
+  fieldOfViewCos: f32,
+  diet0: vec4<f32>, // hunting strength against species 0-3
+  diet1: vec4<f32>, // hunting strength against species 4-7
+}
+
+// Predators and panic pulses (THREAT_STRIDE floats each, packed by the CPU)
+struct Threat {
+  position: vec2<f32>,
+  velocity: vec2<f32>,
+  radius: f32,
+  strength: f32,
+  fleeWeight: f32,
+  lookahead: f32,
+}
+
+// Attractors and repulsors (strength < 0 repels)
+struct Attractor {
+  position: vec2<f32>,
+  radius: f32,
+  strength: f32,
+}
+
+struct Tables {
+  species: array<SpeciesParams, ${MAX_SPECIES}>,
+  threats: array<Threat, ${MAX_THREATS}>,
+  attractors: array<Attractor, ${MAX_ATTRACTORS}>,
+  obstacles: array<ObstacleSegment, ${MAX_OBSTACLE_SEGMENTS}>,
+}
+
+@group(0) @binding(7) var<storage, read> tables: Tables;
+`;
+  }
+
+  /**
+   * Read access to the spatial grid built each step by the grid shader (birds
+   * sorted by cell), with the sections at the GRID_*_OFFSET constants.
+   */
+  private getGridLookupShaderCode(binding: number): string {
+    return `
+@group(0) @binding(${binding}) var<storage, read> spatialGrid: array<u32>;
+
+fn gridCellCount(cell: u32) -> u32 {
+  return spatialGrid[${GRID_COUNT_OFFSET / 4}u + cell];
+}
+
+fn gridCellStart(cell: u32) -> u32 {
+  return spatialGrid[${GRID_START_OFFSET / 4}u + cell];
+}
+
+fn gridSortedBird(k: u32) -> u32 {
+  return spatialGrid[${GRID_SORTED_OFFSET / 4}u + k];
+}
+`;
+  }
+
+  /**
+   * Boundary mode constants, grid cell lookup and periodic offsets, shared by
+   * the flocking, physics, firefly and grid shaders.
+   */
+  private getBoundaryShaderCode(): string {
+    return `
+// Boundary modes (config.boundaryMode, see BOUNDARY_MODE_INDEX)
+const BOUNDARY_REFLECT = 0u;
+const BOUNDARY_WRAP = 1u;
+const BOUNDARY_SOFT = 2u;
+const BOUNDARY_OPEN = 3u;
+
+// Grid cell containing a position, clamped to the grid (cells tile the world exactly)
+fn gridCell(pos: vec2<f32>, world: vec2<f32>, grid: vec2<f32>) -> vec2<i32> {
+  let cell = vec2<i32>(floor(pos * grid / world));
+  return clamp(cell, vec2<i32>(0), vec2<i32>(grid) - 1);
+}
+
+// First and last cell to visit within reach of a cell along one axis: clamped
+// to the grid, or running past the edges when wrapped (see wrapCell) without
+// visiting a cell twice
+fn cellRange(center: i32, reach: i32, count: i32, wrapped: bool) -> vec2<i32> {
+  if (!wrapped) {
+    return vec2<i32>(max(center - reach, 0), min(center + reach, count - 1));
+  }
+  if (2 * reach + 1 >= count) {
+    return vec2<i32>(0, count - 1);
+  }
+  return vec2<i32>(center - reach, center + reach);
+}
+
+// Cell index along one axis, wrapped into the grid
+fn wrapCell(c: i32, count: i32) -> i32 {
+  return ((c % count) + count) % count;
+}
+
+// Shortest offset across the edges of a wrapped world (minimum image)
+fn minimumImage(d: vec2<f32>, world: vec2<f32>, wrapped: bool) -> vec2<f32> {
+  if (!wrapped) {
+    return d;
+  }
+  return d - world * round(d / world);
+}
+
+// Wrap a position into [lo, hi): leaving one side re-enters at the other
+fn wrapPosition(p: vec2<f32>, lo: vec2<f32>, hi: vec2<f32>) -> vec2<f32> {
+  let range = hi - lo;
+  return p - range * floor((p - lo) / range);
+}
+`;
+  }
+
   private getPhysicsShaderCode(): string {
     return `
 struct Config {
@@ -948,14 +2066,34 @@ struct Config {
   boundaryLookAhead: f32,
   wallDampingFactor: f32,
   minEscapeSpeed: f32,
+  ecosystemEnabled: f32,
+  interactionRange: f32,
+  huntingForce: f32,
+  fleeingForce: f32,
+  gridCols: f32,
+  gridRows: f32,
+  cellSize: f32,
+  threatCount: f32,
+  panicSpread: f32,
+  panicDecay: f32,
+  attractorCount: f32,
+  obstacleCount: f32,
+  obstacleForce: f32,
+  obstacleMargin: f32,
+  obstacleLookAhead: f32,
+  boundaryMode: f32,
 }
 
 @group(0) @binding(0) var<storage, read_write> positions: array<vec2<f32>>;
 @group(0) @binding(1) var<storage, read_write> velocities: array<vec2<f32>>;
-@group(0) @binding(2) var<storage, read_write> accelerations: array<vec2<f32>>;
+// Acceleration (xy) and panic picked up this step (z), raised into states[].x by the physics pass
+@group(0) @binding(2) var<storage, read_write> accelerations: array<vec4<f32>>;
 @group(0) @binding(3) var<storage, read_write> states: array<vec4<f32>>;
 @group(0) @binding(4) var<uniform> config: Config;
-
+@group(0) @binding(6) var<storage, read> speciesIds: array<u32>;
+${this.getTablesShaderCode()}
+${this.getObstacleShaderCode()}
+${this.getBoundaryShaderCode()}
 @compute @workgroup_size(64)
 fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   let idx = gid.x;
@@ -965,15 +2103,24 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
 
   var pos = positions[idx];
   var vel = velocities[idx];
-  let accel = accelerations[idx];
+  let accel = accelerations[idx].xy;
   var state = states[idx];
 
+  // Panic from this step's predators and neighbours (gathered by the flocking pass)
+  state.x = max(state.x, min(1.0, accelerations[idx].z));
+
   // Apply acceleration
   vel += accel * config.deltaTime * 60.0;
 
+  // Per-species top speed when the ecosystem is on
+  var maxSpeed = config.maxSpeed;
+  if (config.ecosystemEnabled > 0.5) {
+    maxSpeed = tables.species[min(speciesIds[idx], 7u)].maxSpeed; // MAX_SPECIES - 1
+  }
+
   // Panic boost (state.x = panicLevel)
   let panicBoost = 1.0 + state.x * 0.5;
-  let effectiveMaxSpeed = config.maxSpeed * panicBoost;
+  let effectiveMaxSpeed = maxSpeed * panicBoost;
 
   // Limit velocity
   let speed = length(vel);
@@ -984,41 +2131,67 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   // Update position (with simulation speed multiplier)
   pos += vel * config.deltaTime * config.simulationSpeed;
 
-  // Boundary handling (prevents border "sticking"):
-  // - Clamp position
-  // - Reflect velocity component when hitting a wall
-  let pad = 10.0;
-  let minX = pad;
-  let maxX = config.worldWidth - pad;
-  let minY = pad;
-  let maxY = config.worldHeight - pad;
+  // Boundary handling, mirroring Flock.stepCPU:
+  // - reflect: clamp position and reflect the velocity component at a wall
+  //   (prevents border "sticking")
+  // - wrap: leave one edge, enter at the opposite one
+  // - open: return from the opposite side once a margin out of view
+  // - soft: no walls, the boundary force turns birds back
   let restitution = 0.8;
   let wallFriction = 0.98;
+  let boundaryMode = u32(config.boundaryMode);
+  let world = vec2<f32>(config.worldWidth, config.worldHeight);
+
+  if (boundaryMode == BOUNDARY_REFLECT) {
+    let pad = 10.0;
+    let minX = pad;
+    let maxX = config.worldWidth - pad;
+    let minY = pad;
+    let maxY = config.worldHeight - pad;
+
+    // Left/right walls
+    if (pos.x <= minX) {
+      pos.x = minX;
+      vel.x = abs(vel.x) * restitution;
+      vel.y = vel.y * wallFriction;
+    } else if (pos.x >= maxX) {
+      pos.x = maxX;
+      vel.x = -abs(vel.x) * restitution;
+      vel.y = vel.y * wallFriction;
+    }
 
-  // Left/right walls
-  if (pos.x <= minX) {
-    pos.x = minX;
-    vel.x = abs(vel.x) * restitution;
-    vel.y = vel.y * wallFriction;
-  } else if (pos.x >= maxX) {
-    pos.x = maxX;
-    vel.x = -abs(vel.x) * restitution;
-    vel.y = vel.y * wallFriction;
+    // Top/bottom walls
+    if (pos.y <= minY) {
+      pos.y = minY;
+      vel.y = abs(vel.y) * restitution;
+      vel.x = vel.x * wallFriction;
+    } else if (pos.y >= maxY) {
+      pos.y = maxY;
+      vel.y = -abs(vel.y) * restitution;
+      vel.x = vel.x * wallFriction;
+    }
+  } else if (boundaryMode == BOUNDARY_WRAP) {
+    pos = wrapPosition(pos, vec2<f32>(0.0), world);
+  } else if (boundaryMode == BOUNDARY_OPEN) {
+    let margin = vec2<f32>(config.boundaryMargin);
+    pos = wrapPosition(pos, -margin, world + margin);
   }
 
-  // Top/bottom walls
-  if (pos.y <= minY) {
-    pos.y = minY;
-    vel.y = abs(vel.y) * restitution;
-    vel.x = vel.x * wallFriction;
-  } else if (pos.y >= maxY) {
-    pos.y = maxY;
-    vel.y = -abs(vel.y) * restitution;
-    vel.x = vel.x * wallFriction;
+  // Obstacles: push out to the clearance and bounce off the surface
+  if (config.obstacleCount > 0.5) {
+    let contact = obstacleSample(pos);
+    if (contact.z < obstacleClearance) {
+      let normal = contact.xy;
+      pos += normal * (obstacleClearance - contact.z);
+      let normalSpeed = dot(vel, normal);
+      if (normalSpeed < 0.0) {
+        vel = (vel - normal * normalSpeed) * wallFriction - normal * normalSpeed * restitution;
+      }
+    }
   }
 
   // Minimum escape velocity: ensure birds have enough speed to escape walls
-  let minEscapeVel = config.minEscapeSpeed * config.maxSpeed;
+  let minEscapeVel = config.minEscapeSpeed * maxSpeed;
   let currentSpeed = length(vel);
   if (currentSpeed > 0.01 && currentSpeed < minEscapeVel) {
     vel = normalize(vel) * minEscapeVel;
@@ -1030,8 +2203,12 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
     state.w = atan2(vel.y, vel.x);
   }
 
-  // Decay panic
-  state.x = state.x * 0.98;
+  // Decay panic (faster once no threat is around)
+  var panicDecay = 0.98;
+  if (config.threatCount < 0.5) {
+    panicDecay = panicDecay * (1.0 - config.panicDecay * 0.5);
+  }
+  state.x = state.x * panicDecay;
   if (state.x < 0.01) { state.x = 0.0; }
 
   // Write back
@@ -1039,6 +2216,259 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   velocities[idx] = vel;
   states[idx] = state;
 }
+`;
+  }
+
+  /**
+   * Firefly synchronization shader.
+   * Mirrors Flock.updateFireflySynchronization: pulse-coupled oscillators with a
+   * quadratic phase response curve, coupled to neighbours within the sync radius.
+   */
+  private getFireflyShaderCode(): string {
+    return `
+struct FireflyConfig {
+  birdCount: f32,
+  syncRadius: f32,
+  couplingStrength: f32,
+  baseFrequency: f32,
+  flashDuration: f32,
+  deltaTime: f32,
+  visibility: f32,
+  wrapped: f32,
+  gridCols: f32,
+  gridRows: f32,
+  worldWidth: f32,
+  worldHeight: f32,
+}
+
+@group(0) @binding(0) var<storage, read> positions: array<vec2<f32>>;
+@group(0) @binding(1) var<storage, read_write> glowPhase: array<f32>;
+@group(0) @binding(2) var<storage, read> naturalFrequency: array<f32>;
+@group(0) @binding(3) var<storage, read_write> glowIntensity: array<f32>;
+@group(0) @binding(4) var<storage, read_write> flashing: array<u32>;
+@group(0) @binding(5) var<uniform> config: FireflyConfig;
+${this.getGridLookupShaderCode(6)}
+
+${this.getBoundaryShaderCode()}
+
+// Phase at which a firefly flashes and resets
+const FLASH_THRESHOLD = 1.0;
+
+// Glow above this counts as a visible flash for neighbours
+const FLASH_VISIBLE = 0.8;
+
+@compute @workgroup_size(64)
+fn detectFlashes(@builtin(global_invocation_id) globalId: vec3<u32>) {
+  let idx = globalId.x;
+  if (idx >= u32(config.birdCount)) {
+    return;
+  }
+
+  flashing[idx] = select(0u, 1u, glowIntensity[idx] > FLASH_VISIBLE);
+}
+
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) globalId: vec3<u32>) {
+  let idx = globalId.x;
+  let count = u32(config.birdCount);
+  if (idx >= count) {
+    return;
+  }
+
+  let pos = positions[idx];
+  let myPhase = glowPhase[idx];
+  let syncRadiusSq = config.syncRadius * config.syncRadius;
+
+  // Quadratic phase response: more advance when closer to flashing
+  let prc = myPhase * myPhase;
+
+  // Phase advance from seeing neighbour flashes (inverse-square light falloff),
+  // visiting every grid cell the sync radius can reach
+  let gridCols = i32(config.gridCols);
+  let gridRows = i32(config.gridRows);
+  let world = vec2<f32>(config.worldWidth, config.worldHeight);
+  let grid = vec2<f32>(config.gridCols, config.gridRows);
+  let wrapped = config.wrapped > 0.5;
+  let reach = vec2<i32>(ceil(config.syncRadius * grid / world));
+  let cell = gridCell(pos, world, grid);
+  let colRange = cellRange(cell.x, reach.x, gridCols, wrapped);
+  let rowRange = cellRange(cell.y, reach.y, gridRows, wrapped);
+
+  var totalAdvance = 0.0;
+  for (var cy = rowRange.x; cy <= rowRange.y; cy++) {
+    for (var cx = colRange.x; cx <= colRange.y; cx++) {
+      let cellIdx = u32(wrapCell(cy, gridRows) * gridCols + wrapCell(cx, gridCols));
+      let start = gridCellStart(cellIdx);
+      let end = start + gridCellCount(cellIdx);
+      for (var k = start; k < end; k++) {
+        let i = gridSortedBird(k);
+        if (i == idx || flashing[i] == 0u) {
+          continue;
+        }
+
+        let delta = minimumImage(positions[i] - pos, world, wrapped);
+        let distSq = dot(delta, delta);
+        if (distSq < syncRadiusSq && distSq > 0.01) {
+          let lightIntensity = 1.0 / (1.0 + distSq * 0.001);
+          totalAdvance += lightIntensity * prc * config.couplingStrength * 0.1;
+        }
+      }
+    }
+  }
+
+  // Natural progression + response to neighbour flashes
+  var newPhase = myPhase + naturalFrequency[idx] * config.baseFrequency * config.deltaTime + totalAdvance;
+
+  var justFlashed = false;
+  if (newPhase >= FLASH_THRESHOLD) {
+    justFlashed = true;
+    newPhase = newPhase - FLASH_THRESHOLD;
+  }
+
+  // Keep phase in [0, 1)
+  newPhase = fract(newPhase);
+  glowPhase[idx] = newPhase;
+
+  // Sharp rise, gradual fall while flashing; faint glow building up otherwise
+  let flashDuration = config.flashDuration;
+  var intensity = 0.0;
+  if (newPhase < flashDuration || justFlashed) {
+    let t = newPhase / flashDuration;
+    if (t < 0.3) {
+      intensity = t / 0.3;
+    } else {
+      intensity = 1.0 - ((t - 0.3) / 0.7) * 0.8;
+    }
+  } else {
+    let dimProgress = (newPhase - flashDuration) / (1.0 - flashDuration);
+    intensity = 0.02 + dimProgress * 0.08;
+  }
+
+  glowIntensity[idx] = intensity * config.visibility;
+}
+`;
+  }
+
+  /**
+   * Spatial grid shader, mirroring SpatialGrid on the CPU.
+   * countCells bins birds and records their rank within the cell, prefixSum turns
+   * counts into cell start offsets and scatter writes bird indices sorted by cell.
+   */
+  private getGridShaderCode(): string {
+    return `
+struct Config {
+  birdCount: f32,
+  maxSpeed: f32,
+  maxForce: f32,
+  perceptionRadius: f32,
+  separationRadius: f32,
+  alignmentWeight: f32,
+  cohesionWeight: f32,
+  separationWeight: f32,
+  fieldOfViewCos: f32,
+  boundaryMargin: f32,
+  boundaryForce: f32,
+  noiseStrength: f32,
+  wanderStrength: f32,
+  worldWidth: f32,
+  worldHeight: f32,
+  deltaTime: f32,
+  time: f32,
+  windX: f32,
+  windY: f32,
+  simulationSpeed: f32,
+  boundaryCurvePower: f32,
+  boundaryLookAhead: f32,
+  wallDampingFactor: f32,
+  minEscapeSpeed: f32,
+  ecosystemEnabled: f32,
+  interactionRange: f32,
+  huntingForce: f32,
+  fleeingForce: f32,
+  gridCols: f32,
+  gridRows: f32,
+  cellSize: f32,
+  threatCount: f32,
+  panicSpread: f32,
+  panicDecay: f32,
+  attractorCount: f32,
+  obstacleCount: f32,
+  obstacleForce: f32,
+  obstacleMargin: f32,
+  obstacleLookAhead: f32,
+  boundaryMode: f32,
+}
+
+@group(0) @binding(0) var<storage, read> positions: array<vec2<f32>>;
+@group(0) @binding(1) var<uniform> config: Config;
+@group(0) @binding(2) var<storage, read_write> cellCounts: array<atomic<u32>>;
+@group(0) @binding(3) var<storage, read_write> cellStart: array<u32>;
+@group(0) @binding(4) var<storage, read_write> birdCells: array<u32>;
+@group(0) @binding(5) var<storage, read_write> birdRanks: array<u32>;
+@group(0) @binding(6) var<storage, read_write> sortedIndices: array<u32>;
+
+const SCAN_SIZE = ${SCAN_WORKGROUP_SIZE}u;
+
+var<workgroup> partialSums: array<u32, ${SCAN_WORKGROUP_SIZE}>;
+${this.getBoundaryShaderCode()}
+
+// Flat index of the cell containing a position (clamped to the grid)
+fn cellIndex(pos: vec2<f32>) -> u32 {
+  let cell = gridCell(pos, vec2<f32>(config.worldWidth, config.worldHeight), vec2<f32>(config.gridCols, config.gridRows));
+  return u32(cell.y * i32(config.gridCols) + cell.x);
+}
+
+@compute @workgroup_size(64)
+fn countCells(@builtin(global_invocation_id) gid: vec3<u32>) {
+  let idx = gid.x;
+  if (idx >= u32(config.birdCount)) { return; }
+
+  let cell = cellIndex(positions[idx]);
+  birdCells[idx] = cell;
+  birdRanks[idx] = atomicAdd(&cellCounts[cell], 1u);
+}
+
+// Exclusive prefix sum over all cells in one workgroup:
+// each thread sums a contiguous chunk, chunk totals are scanned in shared memory
+@compute @workgroup_size(${SCAN_WORKGROUP_SIZE})
+fn prefixSum(@builtin(local_invocation_id) lid: vec3<u32>) {
+  let cellTotal = u32(config.gridCols * config.gridRows);
+  let chunk = (cellTotal + SCAN_SIZE - 1u) / SCAN_SIZE;
+  let first = lid.x * chunk;
+  let last = min(first + chunk, cellTotal);
+
+  var chunkSum = 0u;
+  for (var c = first; c < last; c++) {
+    chunkSum += atomicLoad(&cellCounts[c]);
+  }
+  partialSums[lid.x] = chunkSum;
+  workgroupBarrier();
+
+  // Inclusive Hillis-Steele scan of the chunk totals
+  for (var offset = 1u; offset < SCAN_SIZE; offset *= 2u) {
+    var add = 0u;
+    if (lid.x >= offset) {
+      add = partialSums[lid.x - offset];
+    }
+    workgroupBarrier();
+    partialSums[lid.x] += add;
+    workgroupBarrier();
+  }
+
+  var running = partialSums[lid.x] - chunkSum;
+  for (var c = first; c < last; c++) {
+    cellStart[c] = running;
+    running += atomicLoad(&cellCounts[c]);
+  }
+}
+
+@compute @workgroup_size(64)
+fn scatter(@builtin(global_invocation_id) gid: vec3<u32>) {
+  let idx = gid.x;
+  if (idx >= u32(config.birdCount)) { return; }
+
+  sortedIndices[cellStart[birdCells[idx]] + birdRanks[idx]] = idx;
+}
 `;
   }
 }
@@ -2,6 +2,13 @@ export { Bird, BirdArrays } from './Bird';
 export { Flock } from './Flock';
 export { SpatialGrid } from './SpatialGrid';
 export { SwarmRules } from './SwarmRules';
+export { MatingManager } from './MatingManager';
+export { LifecycleManager } from './LifecycleManager';
+export { SpeciesManager } from './SpeciesManager';
+export { OrderMetrics, classifyCollectiveState } from './OrderMetrics';
+export { ForceRecorder, FORCE_COMPONENTS } from './ForceRecorder';
+export { HeadlessSimulation } from './HeadlessSimulation';
+export { ParameterSweep } from './ParameterSweep';
 export { GPUSimulationRunner } from './gpu';
 
 
@@ -0,0 +1,145 @@
+import type { ISnapshotSlotInfo, IWorldSnapshot } from '../types';
+
+// Snapshot format version, bumped when the layout changes
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+// Number of localStorage quick-save slots
+export const QUICK_SAVE_SLOTS = 3;
+
+const SLOT_KEY_PREFIX = 'swarm-simulator-snapshot-';
+const INDEX_KEY = 'swarm-simulator-snapshot-slots';
+
+/**
+ * Parses world snapshots and keeps quick-save slots in localStorage.
+ *
+ * Each slot holds one snapshot as JSON; a small index records when each slot
+ * was saved so the slots can be listed without parsing them. Large flocks can
+ * exceed the storage quota, in which case saving fails and the slot keeps its
+ * previous contents.
+ */
+export class SnapshotStore {
+  private index: Record<number, Omit<ISnapshotSlotInfo, 'slot'>>;
+
+  constructor() {
+    this.index = this.loadIndex();
+  }
+
+  /**
+   * Parse and validate a snapshot exported as JSON.
+   * @throws Error if the text is not a world snapshot of a supported version
+   */
+  static parse(json: string): IWorldSnapshot {
+    const snapshot = JSON.parse(json) as Partial<IWorldSnapshot>;
+
+    if (!snapshot || typeof snapshot !== 'object') {
+      throw new Error('Invalid world snapshot');
+    }
+    if (snapshot.version !== SNAPSHOT_FORMAT_VERSION) {
+      throw new Error(`Unsupported world snapshot version: ${snapshot.version}`);
+    }
+    if (
+      typeof snapshot.width !== 'number' ||
+      typeof snapshot.height !== 'number' ||
+      !snapshot.config?.simulation ||
+      !snapshot.config.environment ||
+      typeof snapshot.flock?.birds?.count !== 'number' ||
+      !snapshot.flock.birds.arrays ||
+      !Array.isArray(snapshot.predators) ||
+      !Array.isArray(snapshot.attractors) ||
+      typeof snapshot.wind?.time !== 'number' ||
+      typeof snapshot.dayNight?.timeOfDay !== 'number' ||
+      !Array.isArray(snapshot.dayNight.roosts)
+    ) {
+      throw new Error('Invalid world snapshot');
+    }
+
+    return snapshot as IWorldSnapshot;
+  }
+
+  /**
+   * Save a snapshot to a quick-save slot.
+   * @returns False if the slot is out of range or storage is full
+   */
+  save(slot: number, snapshot: IWorldSnapshot): boolean {
+    if (!this.isValidSlot(slot)) return false;
+
+    try {
+      localStorage.setItem(SLOT_KEY_PREFIX + slot, JSON.stringify(snapshot));
+    } catch (error) {
+      console.warn(`Failed to save snapshot to slot ${slot + 1}:`, error);
+      return false;
+    }
+
+    this.index[slot] = { savedAt: snapshot.savedAt, birdCount: snapshot.flock.birds.count };
+    this.saveIndex();
+    return true;
+  }
+
+  /**
+   * Load the snapshot in a quick-save slot.
+   * @returns Null if the slot is empty or its contents are invalid
+   */
+  load(slot: number): IWorldSnapshot | null {
+    if (!this.isValidSlot(slot)) return null;
+
+    try {
+      const stored = localStorage.getItem(SLOT_KEY_PREFIX + slot);
+      return stored ? SnapshotStore.parse(stored) : null;
+    } catch (error) {
+      console.warn(`Failed to load snapshot from slot ${slot + 1}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Empty a quick-save slot.
+   */
+  clear(slot: number): void {
+    if (!this.isValidSlot(slot)) return;
+
+    try {
+      localStorage.removeItem(SLOT_KEY_PREFIX + slot);
+    } catch (error) {
+      console.warn(`Failed to clear snapshot slot ${slot + 1}:`, error);
+    }
+    delete this.index[slot];
+    this.saveIndex();
+  }
+
+  /**
+   * Describe every quick-save slot.
+   */
+  listSlots(): ISnapshotSlotInfo[] {
+    return Array.from({ length: QUICK_SAVE_SLOTS }, (_, slot) => ({
+      slot,
+      savedAt: this.index[slot]?.savedAt ?? null,
+      birdCount: this.index[slot]?.birdCount ?? 0
+    }));
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private isValidSlot(slot: number): boolean {
+    return Number.isInteger(slot) && slot >= 0 && slot < QUICK_SAVE_SLOTS;
+  }
+
+  private loadIndex(): Record<number, Omit<ISnapshotSlotInfo, 'slot'>> {
+    try {
+      const stored = localStorage.getItem(INDEX_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.warn('Failed to load snapshot slots:', error);
+      return {};
+    }
+  }
+
+  private saveIndex(): void {
+    try {
+      localStorage.setItem(INDEX_KEY, JSON.stringify(this.index));
+    } catch (error) {
+      console.warn('Failed to save snapshot slots:', error);
+    }
+  }
+}
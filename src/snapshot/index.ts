@@ -0,0 +1 @@
+export { SnapshotStore, SNAPSHOT_FORMAT_VERSION, QUICK_SAVE_SLOTS } from './SnapshotStore';
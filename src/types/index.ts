@@ -24,6 +24,8 @@ export type MatingState =
   | 'fighting' 
   | 'cooldown';
 
+export type DeathCause = 'starvation' | 'predation' | 'old-age' | 'natural';
+
 export interface IBirdState {
   id: number;
   speciesId: string;
@@ -49,6 +51,31 @@ export interface IBirdState {
   glowIntensity: number;
 }
 
+/**
+ * Live state of one bird as shown by the bird inspector. Radii and field of
+ * view are the values the flocking rules use for it (species, night).
+ */
+export interface IBirdInspection {
+  index: number;
+  id: number;
+  speciesId: number;
+  gender: Gender;
+  position: IVector2;
+  velocity: IVector2;
+  speed: number;
+  heading: number;            // Radians
+  panicLevel: number;
+  energy: number;
+  feedingState: FeedingState;
+  targetFoodId: number;       // Food source id, -1 = none
+  matingState: MatingState;
+  targetMateId: number;       // Bird index, -1 = none
+  neighborCount: number;      // Within perception radius and field of view
+  perceptionRadius: number;
+  separationRadius: number;
+  fieldOfView: number;        // Degrees
+}
+
 // GPU Enum Mappings
 export const FeedingStateMap: Record<FeedingState, number> = {
   'none': 0,
@@ -98,6 +125,13 @@ export const ReverseGenderMap: Record<number, Gender> = {
 // Configuration Types
 // ============================================================================
 
+/**
+ * How the world edges treat birds and predators:
+ * reflect bounces off walls, wrap makes the world toroidal, soft only steers
+ * back from the edges, open lets birds leave and return from the opposite side.
+ */
+export type BoundaryMode = 'reflect' | 'wrap' | 'soft' | 'open';
+
 export interface ISimulationConfig {
   birdCount: number;
   particleSize: number;
@@ -109,6 +143,8 @@ export interface ISimulationConfig {
   cohesionWeight: number;
   separationWeight: number;
   fieldOfView: number;
+  /** World edge behaviour (default 'reflect') */
+  boundaryMode?: BoundaryMode;
   boundaryMargin: number;
   boundaryForce: number;
   /** Power for boundary force curve (2.0 = quadratic, higher = sharper response near edge) */
@@ -120,6 +156,14 @@ export interface ISimulationConfig {
   /** Minimum escape speed as fraction of maxSpeed after wall collision (default 0.3) */
   minEscapeSpeed?: number;
   simulationSpeed: number;
+  /** CPU readbacks per second while the simulation runs on the GPU (default 10) */
+  gpuReadbackRate?: number;
+  /** Random seed for reproducible runs (null = unseeded); ?seed= in the URL overrides it */
+  seed?: number | null;
+  /** World width in pixels (0 = follow the window) */
+  worldWidth?: number;
+  /** World height in pixels (0 = follow the window) */
+  worldHeight?: number;
   noiseStrength: number;
   wanderStrength: number;
   energyEnabled: boolean;
@@ -134,6 +178,20 @@ export interface IDayNightConfig {
   cycleDuration: number;    // seconds for full day/night cycle
   timeOfDay: number;        // 0-1 (0=midnight, 0.5=noon, 1=midnight)
   freezeTime: boolean;      // pause time progression
+  profile: IDayNightProfile; // behaviour modulation of the active creature preset
+}
+
+// Time-of-day behaviour profile (declared per creature preset)
+export interface IDayNightProfile {
+  roosting: boolean;            // converge on roost points from dusk until dawn
+  roostCount: number;           // number of roost points
+  roostRadius: number;          // radius birds settle within around a roost
+  roostStrength: number;        // pull toward the roost at full night
+  nightSpeedFactor: number;     // max speed multiplier while roosting (0-1)
+  nightPerception: number;      // perception radius multiplier at full night (0-1)
+  nightPredatorBoost: number;   // speed and strike multiplier for nocturnal predators at full night
+  fireflyNightOnly: boolean;    // fireflies only flash after dark
+  nightBackgroundColor: number; // background at full night (day uses the rendering background)
 }
 
 // Territory Configuration
@@ -142,6 +200,8 @@ export interface ITerritoryConfig {
   showZones: boolean;       // visualize territory boundaries
   defaultRadius: number;    // territory radius
   pullStrength: number;     // force pulling birds to home territory
+  count: number;            // territories to form when birds are not split by species
+  defenseStrength: number;  // force residents use to chase off intruders
 }
 
 // Multi-Species Ecosystem Configuration
@@ -151,6 +211,43 @@ export interface IEcosystemConfig {
   interactionRange: number; // range for inter-species interactions
   huntingForce: number;     // predator species attraction force
   fleeingForce: number;     // prey species fleeing force
+  species: ISpeciesProfile[]; // flocking parameters per species (index = speciesId)
+  foodWeb: number[][];      // foodWeb[hunter][prey] > 0: hunter chases prey with this strength
+}
+
+// Per-species flocking parameters for the ecosystem
+export interface ISpeciesProfile extends Pick<
+  ICreaturePreset,
+  | 'name'
+  | 'maxSpeed'
+  | 'maxForce'
+  | 'perceptionRadius'
+  | 'separationRadius'
+  | 'alignmentWeight'
+  | 'cohesionWeight'
+  | 'separationWeight'
+  | 'fieldOfView'
+> {
+  share: number;            // relative share of the population
+}
+
+// Population Lifecycle Configuration
+export interface ILifecycleConfig {
+  enabled: boolean;
+  offspringPerMating: number; // max newborns per completed mating
+  birthChance: number;        // probability a completed mating produces offspring
+  starvationRate: number;     // death probability per second at zero energy
+  mortalityRate: number;      // baseline death probability per second
+  maxAge: number;             // lifespan in seconds (0 = unlimited)
+}
+
+// Obstacle Configuration
+export interface IObstacleConfig {
+  enabled: boolean;
+  avoidanceForce: number;   // steering weight away from obstacles
+  avoidanceMargin: number;  // distance at which birds start steering away
+  lookAhead: number;        // look-ahead at full speed, as a fraction of the margin
+  items: IObstacle[];       // placed obstacles in world pixels
 }
 
 export interface IEnvironmentConfig {
@@ -161,6 +258,7 @@ export interface IEnvironmentConfig {
   predatorEnabled: boolean;
   predatorType: PredatorType;
   predatorCount: number;
+  lethalPredation: boolean;
   panicRadius: number;
   panicDecay: number;
   panicSpread: number;
@@ -196,6 +294,8 @@ export interface IEnvironmentConfig {
   dayNight: IDayNightConfig;
   territories: ITerritoryConfig;
   ecosystem: IEcosystemConfig;
+  lifecycle: ILifecycleConfig;
+  obstacles: IObstacleConfig;
 }
 
 export interface IRenderingConfig {
@@ -204,7 +304,7 @@ export interface IRenderingConfig {
   particleSize: number;
   particleShape: 'arrow' | 'circle' | 'triangle' | 'dot';
   antialias: boolean;
-  colorMode: 'solid' | 'density' | 'speed' | 'panic' | 'gender' | 'mating' | 'firefly';
+  colorMode: 'solid' | 'density' | 'speed' | 'panic' | 'gender' | 'mating' | 'firefly' | 'species';
   lowDensityColor: number;
   highDensityColor: number;
   slowColor: number;
@@ -213,6 +313,7 @@ export interface IRenderingConfig {
   panicColor: number;
   maleColor: number;
   femaleColor: number;
+  speciesColors: number[];    // Color per species, cycled when there are more species
   trailEnabled: boolean;
   trailLength: number;
   trailColor: number;
@@ -227,6 +328,17 @@ export interface IRenderingConfig {
   showPredatorRange: boolean;
   showFoodSources: boolean;
   showTerritories: boolean;
+  // Statistics history charts
+  showCharts: boolean;
+  chartWindow: number;        // Seconds of history kept by the charts
+  // Overview of the whole world with the visible area
+  showMinimap: boolean;
+  // Force-vector debug overlay (CPU simulation only)
+  showForceVectors: boolean;
+  forceVectorBirds: ForceVectorSelection;
+  forceVectorSamples: number; // Birds drawn in sample mode
+  forceVectorRadius: number;  // Region radius (world units)
+  forceVectorScale: number;   // Arrow length per unit of force
 }
 
 export interface ILoadedConfig {
@@ -271,6 +383,7 @@ export type CreaturePresetEnvironmentOverrides = Partial<
     | 'fireflySyncRadius'
     | 'fireflyFlashDuration'
     | 'dayNight'
+    | 'obstacles'
   >
 >;
 
@@ -298,6 +411,11 @@ export interface ICreaturePreset {
    * Applied when selecting a creature preset (type change).
    */
   environment?: CreaturePresetEnvironmentOverrides;
+  /**
+   * Optional time-of-day behaviour profile. Unset fields use the defaults.
+   * Applied when selecting a creature preset (type change).
+   */
+  dayNightProfile?: Partial<IDayNightProfile>;
 }
 
 export interface IPredatorPreset {
@@ -358,6 +476,15 @@ export interface IPredatorState {
   failedHunts: number;
 }
 
+export interface IPredatorKillEvent {
+  predatorId: number;
+  predatorType: PredatorType;
+  x: number;
+  y: number;
+  birdIndex: number;
+  preyEnergy: number;
+}
+
 export interface ITargetScore {
   birdId: number;
   position: IVector2;
@@ -385,6 +512,63 @@ export interface IFoodSource {
   consumptionRate: number;
 }
 
+// ============================================================================
+// Territory Types
+// ============================================================================
+
+export interface ITerritory {
+  id: number;
+  x: number;
+  y: number;
+  radius: number;
+  color: number;
+  residents: number;
+  intruders: number;
+}
+
+// ============================================================================
+// Obstacle Types
+// ============================================================================
+
+export type ObstacleShape = 'circle' | 'polygon' | 'wall';
+
+/** Obstacle placement tool ('none' = clicks add attractors) */
+export type ObstacleTool = 'none' | ObstacleShape;
+
+/** Built-in obstacle arrangements */
+export type ObstacleLayout = 'buildings' | 'reef' | 'forest';
+
+/**
+ * Static obstacle in world pixels.
+ * - circle: points[0] is the centre, radius the circle radius
+ * - polygon: points outline a closed shape (radius unused)
+ * - wall: points form a polyline, radius is half the wall thickness
+ */
+export interface IObstacle {
+  id: number;
+  shape: ObstacleShape;
+  points: IVector2[];
+  radius: number;
+}
+
+// ============================================================================
+// Steering Types
+// ============================================================================
+
+/**
+ * Per-bird steering request from food and territory systems.
+ * - arrive: seek the target, slowing inside radius
+ * - orbit: circle the target at radius
+ * - home: pull toward the target only while outside radius
+ */
+export interface ISteeringTarget {
+  mode: 'none' | 'arrive' | 'orbit' | 'home';
+  x: number;
+  y: number;
+  radius: number;
+  weight: number;
+}
+
 // ============================================================================
 // Spatial Grid Types
 // ============================================================================
@@ -417,6 +601,7 @@ export interface ISimulationStats {
   avgDensity: number;
   avgVelocity: number;
   avgEnergy: number;
+  avgPanic?: number;
   simulationTime: number;
   predatorState?: PredatorBehaviorState;
   predatorType?: PredatorType;
@@ -436,8 +621,314 @@ export interface ISimulationStats {
   activeFights?: number;
   foodConsumed?: number;
   timeOfDay?: number;
+  // Population lifecycle
+  totalBirths?: number;
+  totalDeaths?: number;
+  // Collective order
+  order?: IOrderMetrics;
+}
+
+/** Collective state classified from polarization and milling */
+export type CollectiveState = 'swarm' | 'polarized' | 'milling' | 'transitional';
+
+/** Standard collective-motion order metrics for the current flock */
+export interface IOrderMetrics {
+  /** Alignment order parameter: length of the mean heading vector (0-1) */
+  polarization: number;
+  /** Milling index: mean angular momentum of headings about the centroid (0-1) */
+  milling: number;
+  state: CollectiveState;
+  /** Nearest-neighbour distances of birds with a neighbour within the link radius (0 when none has) */
+  nearestNeighborMean: number;
+  nearestNeighborMedian: number;
+  /** Fraction of those birds per nearest-neighbour distance bin, evenly spaced over 0..linkRadius */
+  nearestNeighborHistogram: number[];
+  /** Groups of birds connected by links shorter than linkRadius (single birds count) */
+  clusterCount: number;
+  /** Share of the flock in the biggest cluster (0-1) */
+  largestClusterFraction: number;
+  /** Distance that links neighbours (the perception radius) */
+  linkRadius: number;
+}
+
+// ============================================================================
+// Headless Types
+// ============================================================================
+
+export interface IHeadlessOptions {
+  /** World width (default 1920) */
+  width?: number;
+  /** World height (default 1080) */
+  height?: number;
+  /** Bird capacity (default 10000) */
+  maxBirds?: number;
+  /** Random seed; overrides simulation.seed when set */
+  seed?: number | null;
+}
+
+export interface IHeadlessMetrics {
+  /** Simulated seconds since the last reset */
+  time: number;
+  steps: number;
+  birdCount: number;
+  avgDensity: number;
+  avgSpeed: number;
+  avgEnergy: number;
+  avgPanic: number;
+  matingPairs: number;
+  fightingPairs: number;
+  feedingBirds: number;
+  activeFoodSources: number;
+  successfulHunts: number;
+  failedHunts: number;
+  births: number;
+  deaths: number;
+  deathsByCause: Record<DeathCause, number>;
+  /** Order metrics, flattened from IOrderMetrics */
+  polarization: number;
+  milling: number;
+  collectiveState: CollectiveState;
+  nearestNeighborMean: number;
+  nearestNeighborMedian: number;
+  clusterCount: number;
+  largestClusterFraction: number;
+  /** Fraction of the initial population still alive (newborns and their deaths don't count) */
+  survival: number;
+  /** Successful strikes / all strikes (0 without strikes) */
+  huntSuccess: number;
+  timeOfDay?: number;
+}
+
+/** Value a sweep parameter can take */
+export type SweepValue = number | string | boolean;
+
+/** Numeric range: evenly spaced steps in a grid sweep, uniform samples in a random sweep */
+export interface ISweepRange {
+  min: number;
+  max: number;
+  steps?: number;
+}
+
+export interface ISweepSpec {
+  /** 'grid' runs every combination, 'random' draws `samples` combinations */
+  mode?: 'grid' | 'random';
+  /** Combinations drawn in a random sweep (default 20) */
+  samples?: number;
+  /** Simulated seconds per run */
+  duration: number;
+  /** Seeds per combination: a count (1..n) or an explicit list */
+  seeds?: number | number[];
+  /** Config paths ('simulation.alignmentWeight', 'environment.predatorType') to value lists or ranges */
+  parameters: Record<string, SweepValue[] | ISweepRange>;
+  /** Fixed overrides applied to every run, same paths as parameters */
+  base?: Record<string, SweepValue>;
+  width?: number;
+  height?: number;
+  /** Output file; .json writes JSON, anything else CSV */
+  output?: string;
+}
+
+export interface ISweepResult {
+  run: number;
+  seed: number;
+  parameters: Record<string, SweepValue>;
+  metrics: IHeadlessMetrics;
+}
+
+// ============================================================================
+// Session Types
+// ============================================================================
+
+/** Live configuration captured by a session recording */
+export interface ISessionConfig {
+  simulation: ISimulationConfig;
+  environment: IEnvironmentConfig;
+  rendering: IRenderingConfig;
+}
+
+/** Control panel callbacks replayed from a recording (pause/resume is not recorded) */
+export type SessionPanelAction = Exclude<keyof IControlPanelCallbacks, 'onPauseResume' | SessionControlAction>;
+
+/**
+ * Control panel callbacks that drive recording, playback, snapshots and
+ * capture themselves, or only move the camera
+ */
+export type SessionControlAction =
+  | 'onRecordToggle'
+  | 'onRecordingExport'
+  | 'onRecordingLoad'
+  | 'onPlaybackToggle'
+  | 'onPlaybackSeek'
+  | 'onPlaybackSpeedChange'
+  | 'onPlaybackStop'
+  | 'onSnapshotExport'
+  | 'onSnapshotLoad'
+  | 'onQuickSave'
+  | 'onQuickLoad'
+  | 'onScreenshot'
+  | 'onFrameCaptureToggle'
+  | 'onVideoCaptureToggle'
+  | 'onCameraFollow'
+  | 'onCameraReset';
+
+/** One recorded user input */
+export type SessionInput =
+  | { type: 'config'; config: ISessionConfig }
+  | { type: 'panel'; action: SessionPanelAction; args: unknown[] }
+  | { type: 'click'; x: number; y: number; repulsor: boolean; shift: boolean }
+  | { type: 'key'; key: string }
+  | { type: 'resize'; width: number; height: number };
+
+/** Recorded input, applied before the simulation frame with the same index */
+export type SessionEvent = SessionInput & { frame: number };
+
+export interface ISessionRecording {
+  version: number;
+  seed: number;
+  /** World size at the start of the recording */
+  width: number;
+  height: number;
+  config: ISessionConfig;
+  /** Seconds passed to the simulation on each recorded frame */
+  frames: number[];
+  events: SessionEvent[];
 }
 
+// ============================================================================
+// Snapshot Types
+// ============================================================================
+
+/** Per-bird arrays up to count, each stored as base64 of its raw bytes */
+export interface IBirdArraysSnapshot {
+  count: number;
+  nextId: number;
+  arrays: Record<string, string>;
+}
+
+export interface IFlockSnapshot {
+  birds: IBirdArraysSnapshot;
+  time: number;
+  accumulator: number;
+}
+
+export interface IPredatorSnapshot {
+  id: number;
+  type: PredatorType;
+  position: IVector2;
+  velocity: IVector2;
+  targetVelocity: IVector2;
+  state: PredatorBehaviorState;
+  energy: number;
+  target: IVector2 | null;
+  targetBirdId: number;
+  successfulHunts: number;
+  failedHunts: number;
+  stateTimer: number;
+  recoveryTimer: number;
+  targetLockTime: number;
+  elapsedTime: number;
+  maxSpeed: number;
+  silentMode: boolean;
+  visualIntensity: number;
+  speedStretch: number;
+  smoothedHeading: number;
+  /** Pack the predator hunts with (null for solitary hunters) */
+  packId: string | null;
+  /** Whether the predator holds its pack's attack slot */
+  hasAttackSlot: boolean;
+  /** Species-specific hunting state */
+  behavior: Record<string, number>;
+}
+
+/** Food source with its feeders as a list of bird indices */
+export interface IFoodSourceSnapshot extends Omit<IFoodSource, 'position' | 'feeders'> {
+  position: IVector2;
+  feeders: number[];
+}
+
+export interface IFoodSnapshot {
+  nextId: number;
+  sources: IFoodSourceSnapshot[];
+}
+
+export interface IWindSnapshot {
+  time: number;
+}
+
+export interface IDayNightSnapshot {
+  timeOfDay: number;
+  roosts: IVector2[];
+}
+
+/** Full world state at one moment, restorable in place of a restart */
+export interface IWorldSnapshot {
+  version: number;
+  /** ISO timestamp of the save */
+  savedAt: string;
+  width: number;
+  height: number;
+  config: ISessionConfig;
+  flock: IFlockSnapshot;
+  predators: IPredatorSnapshot[];
+  food: IFoodSnapshot | null;
+  territories: ITerritory[] | null;
+  attractors: IAttractor[];
+  wind: IWindSnapshot;
+  dayNight: IDayNightSnapshot;
+}
+
+/** Summary of a quick-save slot (savedAt is null while the slot is empty) */
+export interface ISnapshotSlotInfo {
+  slot: number;
+  savedAt: string | null;
+  birdCount: number;
+}
+
+// ============================================================================
+// Capture Types
+// ============================================================================
+
+/** Output settings for screenshots, frame sequences and video */
+export interface ICaptureSettings {
+  /** Frame rate of frame sequences and video */
+  fps: number;
+  /** Output size in pixels (0 = window size); the world is fitted inside */
+  width: number;
+  height: number;
+  /** Leave the background transparent instead of filling it */
+  transparent: boolean;
+  /** Frame sequence length in seconds (0 = until stopped) */
+  duration: number;
+}
+
+// ============================================================================
+// Camera Types
+// ============================================================================
+
+/** What the camera keeps centered ('none' = free pan and zoom) */
+export type CameraFollowMode = 'none' | 'bird' | 'predator';
+
+// ============================================================================
+// Force Overlay Types
+// ============================================================================
+
+/** Steering force recorded per bird for the force-vector overlay */
+export type ForceComponent =
+  | 'alignment'
+  | 'cohesion'
+  | 'separation'
+  | 'boundary'
+  | 'wind'
+  | 'wander'
+  | 'attractor'
+  | 'flee';
+
+/**
+ * Birds the force-vector overlay draws: an evenly sampled subset of the
+ * flock, or every bird around the inspected bird (the view center without one)
+ */
+export type ForceVectorSelection = 'sample' | 'region';
+
 // ============================================================================
 // GPU Types
 // ============================================================================
@@ -448,6 +939,19 @@ export interface IGPUCapabilities {
   reason?: string;
 }
 
+/**
+ * Per-bird simulation buffers bound directly by the renderers.
+ * Layouts: position/velocity vec2f, state vec4f (panic, density, energy, heading),
+ * glowIntensity f32, species u32.
+ */
+export interface IGPUSimulationBuffers {
+  position: GPUBuffer;
+  velocity: GPUBuffer;
+  state: GPUBuffer;
+  glowIntensity: GPUBuffer;
+  species: GPUBuffer;
+}
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -473,5 +977,71 @@ export type PauseResumeCallback = (paused: boolean) => void;
 export type ResetCallback = () => void;
 export type PredatorTypeChangeCallback = (type: PredatorType) => void;
 export type PredatorCountChangeCallback = (count: number) => void;
+export type PredatorKillCallback = (event: IPredatorKillEvent) => void;
+export type RecordToggleCallback = (recording: boolean) => void;
+export type RecordingExportCallback = () => string | null;
+export type RecordingLoadCallback = (json: string) => void;
+export type PlaybackToggleCallback = (playing: boolean) => void;
+export type PlaybackSeekCallback = (position: number) => void;
+export type PlaybackSpeedChangeCallback = (speed: number) => void;
+export type PlaybackStopCallback = () => void;
+export type SnapshotExportCallback = () => string | null;
+export type SnapshotLoadCallback = (json: string) => void;
+export type QuickSaveCallback = (slot: number) => void;
+export type QuickLoadCallback = (slot: number) => void;
+export type ScreenshotCallback = (settings: ICaptureSettings) => void;
+export type FrameCaptureToggleCallback = (capturing: boolean, settings: ICaptureSettings) => void;
+export type VideoCaptureToggleCallback = (recording: boolean, settings: ICaptureSettings) => void;
+export type ObstacleLayoutCallback = (layout: ObstacleLayout) => void;
+export type ObstaclesClearCallback = () => void;
+export type CameraFollowCallback = (mode: CameraFollowMode) => void;
+export type CameraResetCallback = () => void;
+
+export interface IControlPanelCallbacks {
+  onPresetChange?: PresetChangeCallback;
+  onBirdCountChange?: BirdCountChangeCallback;
+  onPredatorToggle?: PredatorToggleCallback;
+  onPredatorTypeChange?: PredatorTypeChangeCallback;
+  onPredatorCountChange?: PredatorCountChangeCallback;
+  onFoodToggle?: FoodToggleCallback;
+  onConfigChange?: ConfigChangeCallback;
+  onPauseResume?: PauseResumeCallback;
+  onReset?: ResetCallback;
+  onPerceptionRadiusChange?: PerceptionRadiusChangeCallback;
+  onTrailsToggle?: TrailsToggleCallback;
+  onDayNightToggle?: DayNightToggleCallback;
+  onTerritoryToggle?: TerritoryToggleCallback;
+  onEcosystemToggle?: EcosystemToggleCallback;
+  // Session recording and playback
+  onRecordToggle?: RecordToggleCallback;
+  onRecordingExport?: RecordingExportCallback;
+  onRecordingLoad?: RecordingLoadCallback;
+  onPlaybackToggle?: PlaybackToggleCallback;
+  onPlaybackSeek?: PlaybackSeekCallback;
+  onPlaybackSpeedChange?: PlaybackSpeedChangeCallback;
+  onPlaybackStop?: PlaybackStopCallback;
+  // World snapshots
+  onSnapshotExport?: SnapshotExportCallback;
+  onSnapshotLoad?: SnapshotLoadCallback;
+  onQuickSave?: QuickSaveCallback;
+  onQuickLoad?: QuickLoadCallback;
+  // Canvas capture
+  onScreenshot?: ScreenshotCallback;
+  onFrameCaptureToggle?: FrameCaptureToggleCallback;
+  onVideoCaptureToggle?: VideoCaptureToggleCallback;
+  // Obstacles
+  onObstacleLayout?: ObstacleLayoutCallback;
+  onObstaclesClear?: ObstaclesClearCallback;
+  // Camera
+  onCameraFollow?: CameraFollowCallback;
+  onCameraReset?: CameraResetCallback;
+}
+
+/**
+ * Called after a bird is swap-removed from BirdArrays.
+ * The bird previously at movedFromIndex now lives at removedIndex
+ * (movedFromIndex is -1 when the removed bird was the last one).
+ */
+export type BirdRemovedCallback = (removedIndex: number, movedFromIndex: number, cause: DeathCause) => void;
 
 
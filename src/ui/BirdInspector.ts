@@ -0,0 +1,101 @@
+import type { IBirdInspection } from '../types';
+
+/** Called when the inspector's follow button is toggled */
+export type InspectorFollowCallback = (follow: boolean) => void;
+
+/** Called when the inspector is closed */
+export type InspectorCloseCallback = () => void;
+
+/**
+ * Floating panel showing the live state of the selected bird, with buttons
+ * to follow it with the camera and to clear the selection.
+ */
+export class BirdInspector {
+  private panelElement: HTMLElement | null;
+  private titleElement: HTMLElement | null;
+  private bodyElement: HTMLElement | null;
+  private followButton: HTMLButtonElement | null;
+  private onFollow: InspectorFollowCallback | null = null;
+  private onClose: InspectorCloseCallback | null = null;
+
+  // Whether the camera follows the shown bird (the follow button toggles it)
+  private following: boolean = false;
+
+  constructor() {
+    this.panelElement = document.getElementById('inspector');
+    this.titleElement = document.getElementById('inspector-title');
+    this.bodyElement = document.getElementById('inspector-body');
+    this.followButton = document.getElementById('inspector-follow') as HTMLButtonElement | null;
+
+    this.followButton?.addEventListener('click', () => {
+      this.onFollow?.(!this.following);
+    });
+    document.getElementById('inspector-close')?.addEventListener('click', () => {
+      this.onClose?.();
+    });
+  }
+
+  /**
+   * Set the handler for the follow button.
+   */
+  setFollowCallback(callback: InspectorFollowCallback | null): void {
+    this.onFollow = callback;
+  }
+
+  /**
+   * Set the handler for the close button.
+   */
+  setCloseCallback(callback: InspectorCloseCallback | null): void {
+    this.onClose = callback;
+  }
+
+  /**
+   * Show a bird's state.
+   * @param following Whether the camera follows this bird
+   */
+  show(inspection: IBirdInspection, following: boolean): void {
+    if (!this.panelElement) return;
+    this.panelElement.style.display = '';
+
+    this.following = following;
+    if (this.followButton) {
+      this.followButton.textContent = following ? '📷 Following' : '📷 Follow';
+    }
+    if (this.titleElement) {
+      this.titleElement.textContent = `Bird #${inspection.id}`;
+    }
+    if (!this.bodyElement) return;
+
+    const gender = inspection.gender === 'male' ? '♂ Male' : '♀ Female';
+    const food = inspection.targetFoodId >= 0 ? ` → food ${inspection.targetFoodId}` : '';
+    const mate = inspection.targetMateId >= 0 ? ` → bird ${inspection.targetMateId}` : '';
+    const heading = (inspection.heading * 180 / Math.PI + 360) % 360;
+
+    this.bodyElement.innerHTML = [
+      this.row('Species', inspection.speciesId.toString()),
+      this.row('Gender', gender),
+      this.row('Velocity', `${inspection.velocity.x.toFixed(1)}, ${inspection.velocity.y.toFixed(1)}`),
+      this.row('Speed', `${inspection.speed.toFixed(1)} @ ${heading.toFixed(0)}°`),
+      this.row('Panic', `${(inspection.panicLevel * 100).toFixed(0)}%`),
+      this.row('Energy', `${(inspection.energy * 100).toFixed(0)}%`),
+      this.row('Feeding', `${inspection.feedingState}${food}`),
+      this.row('Mating', `${inspection.matingState}${mate}`),
+      this.row('Neighbors', inspection.neighborCount.toString())
+    ].join('');
+  }
+
+  /**
+   * Hide the panel.
+   */
+  hide(): void {
+    if (!this.panelElement) return;
+    this.panelElement.style.display = 'none';
+  }
+
+  /**
+   * Format one label/value row.
+   */
+  private row(label: string, value: string): string {
+    return `<div class="stat-row"><span class="stat-label">${label}:</span><span class="stat-value">${value}</span></div>`;
+  }
+}
@@ -18,9 +18,37 @@ import type {
   PauseResumeCallback,
   ResetCallback,
   PredatorTypeChangeCallback,
-  PredatorCountChangeCallback
+  PredatorCountChangeCallback,
+  RecordToggleCallback,
+  RecordingExportCallback,
+  RecordingLoadCallback,
+  PlaybackToggleCallback,
+  PlaybackSeekCallback,
+  PlaybackSpeedChangeCallback,
+  PlaybackStopCallback,
+  SnapshotExportCallback,
+  SnapshotLoadCallback,
+  QuickSaveCallback,
+  QuickLoadCallback,
+  ScreenshotCallback,
+  FrameCaptureToggleCallback,
+  VideoCaptureToggleCallback,
+  ObstacleLayoutCallback,
+  ObstaclesClearCallback,
+  ObstacleLayout,
+  ObstacleTool,
+  CameraFollowCallback,
+  CameraResetCallback,
+  CameraFollowMode,
+  ISnapshotSlotInfo,
+  ICaptureSettings,
+  IControlPanelCallbacks
 } from '../types';
 import { getPresetManager } from '../config/PresetManager';
+import { assignConfig } from '../config/ConfigLoader';
+import { DEFAULT_DAY_NIGHT_PROFILE } from '../environment/DayNightCycle';
+import { QUICK_SAVE_SLOTS } from '../snapshot/SnapshotStore';
+import { DEFAULT_CAPTURE_SETTINGS } from '../capture/CaptureManager';
 
 // Tweakpane v4 types - using any for flexible API compatibility
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -51,6 +79,24 @@ export class ControlPanel {
   private onDayNightToggle: DayNightToggleCallback | null = null;
   private onTerritoryToggle: TerritoryToggleCallback | null = null;
   private onEcosystemToggle: EcosystemToggleCallback | null = null;
+  private onRecordToggle: RecordToggleCallback | null = null;
+  private onRecordingExport: RecordingExportCallback | null = null;
+  private onRecordingLoad: RecordingLoadCallback | null = null;
+  private onPlaybackToggle: PlaybackToggleCallback | null = null;
+  private onPlaybackSeek: PlaybackSeekCallback | null = null;
+  private onPlaybackSpeedChange: PlaybackSpeedChangeCallback | null = null;
+  private onPlaybackStop: PlaybackStopCallback | null = null;
+  private onSnapshotExport: SnapshotExportCallback | null = null;
+  private onSnapshotLoad: SnapshotLoadCallback | null = null;
+  private onQuickSave: QuickSaveCallback | null = null;
+  private onQuickLoad: QuickLoadCallback | null = null;
+  private onScreenshot: ScreenshotCallback | null = null;
+  private onFrameCaptureToggle: FrameCaptureToggleCallback | null = null;
+  private onVideoCaptureToggle: VideoCaptureToggleCallback | null = null;
+  private onObstacleLayout: ObstacleLayoutCallback | null = null;
+  private onObstaclesClear: ObstaclesClearCallback | null = null;
+  private onCameraFollow: CameraFollowCallback | null = null;
+  private onCameraReset: CameraResetCallback | null = null;
 
   // Presets
   private creaturePresets: Record<string, ICreaturePreset>;
@@ -60,6 +106,56 @@ export class ControlPanel {
   private isPaused: boolean = false;
   private pauseButton: TweakpaneAny = null;
 
+  // Session recording and playback (status updated by the app every frame;
+  // the seek slider is only written by the user, so refreshes never seek)
+  private sessionState = {
+    status: 'Idle',
+    recording: false,
+    playing: false,
+    seek: 0,
+    speed: 1
+  };
+  private recordButton: TweakpaneAny = null;
+  private playButton: TweakpaneAny = null;
+  private sessionStatusBinding: TweakpaneAny = null;
+
+  // World snapshots (slot summaries supplied by the app)
+  private snapshotState = {
+    slot: 0,
+    saved: 'Empty'
+  };
+  private snapshotSlots: ISnapshotSlotInfo[] = [];
+  private snapshotSavedBinding: TweakpaneAny = null;
+
+  // Canvas capture (status updated by the app every frame)
+  private captureSettings: ICaptureSettings = { ...DEFAULT_CAPTURE_SETTINGS };
+  private captureState = {
+    status: 'Idle',
+    frames: false,
+    video: false
+  };
+  private frameCaptureButton: TweakpaneAny = null;
+  private videoCaptureButton: TweakpaneAny = null;
+  private captureStatusBinding: TweakpaneAny = null;
+
+  // Obstacle placement (read by the app when the canvas is clicked)
+  private obstacleState: { tool: ObstacleTool; size: number; layout: ObstacleLayout } = {
+    tool: 'none',
+    size: 20,
+    layout: 'buildings'
+  };
+
+  // Camera follow target (also changed by the app, e.g. when panning stops it)
+  private cameraState: { follow: CameraFollowMode } = {
+    follow: 'none'
+  };
+  private cameraFollowBinding: TweakpaneAny = null;
+
+  // Bird picking (read by the app when the canvas is clicked)
+  private inspectorState = {
+    pick: false
+  };
+
   constructor(
     simConfig: ISimulationConfig,
     envConfig: IEnvironmentConfig,
@@ -89,6 +185,15 @@ export class ControlPanel {
     // Custom Presets folder
     this.buildCustomPresetsFolder();
 
+    // Session recording and playback
+    this.buildSessionFolder();
+
+    // World snapshots
+    this.buildSnapshotFolder();
+
+    // Screenshots, frame sequences and video
+    this.buildCaptureFolder();
+
     // Simulation folder
     this.buildSimulationFolder();
 
@@ -102,6 +207,15 @@ export class ControlPanel {
     this.buildDayNightFolder();
     this.buildTerritoriesFolder();
     this.buildEcosystemFolder();
+    this.buildLifecycleFolder();
+    this.buildObstaclesFolder();
+
+    // Camera and world size
+    this.buildCameraFolder();
+
+    // Bird inspector and force-vector overlay
+    this.buildInspectorFolder();
+    this.buildForceVectorsFolder();
 
     // Rendering folder
     this.buildRenderingFolder();
@@ -139,7 +253,7 @@ export class ControlPanel {
     // Bird count (quick access)
     folder.addBinding(this.simConfig, 'birdCount', {
       min: 100,
-      max: 20000,
+      max: 100000,
       step: 100,
       label: 'Population'
     }).on('change', (ev: TweakpaneAny) => {
@@ -259,14 +373,7 @@ export class ControlPanel {
     folder.addButton({
       title: '📤 Export All'
     }).on('click', () => {
-      const json = presetManager.exportPresets();
-      const blob = new Blob([json], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'swarm-presets.json';
-      a.click();
-      URL.revokeObjectURL(url);
+      this.downloadFile('swarm-presets.json', presetManager.exportPresets());
       console.log('Presets exported');
     });
 
@@ -298,6 +405,287 @@ export class ControlPanel {
     });
   }
 
+  /**
+   * Build session folder: record, export, load and play back sessions.
+   */
+  private buildSessionFolder(): void {
+    const folder = this.pane.addFolder({
+      title: '🎥 Session',
+      expanded: false
+    });
+
+    this.sessionStatusBinding = folder.addBinding(this.sessionState, 'status', {
+      label: 'Status',
+      readonly: true
+    });
+
+    this.recordButton = folder.addButton({
+      title: '⏺ Record'
+    }).on('click', () => {
+      this.onRecordToggle?.(!this.sessionState.recording);
+    });
+
+    folder.addButton({
+      title: '📤 Export Recording'
+    }).on('click', () => {
+      const json = this.onRecordingExport?.();
+      if (!json) {
+        console.warn('No recording to export');
+        return;
+      }
+      this.downloadFile('swarm-session.json', json);
+      console.log('Recording exported');
+    });
+
+    folder.addButton({
+      title: '📥 Load Recording'
+    }).on('click', () => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.json';
+      input.onchange = async (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) return;
+        this.onRecordingLoad?.(await file.text());
+      };
+      input.click();
+    });
+
+    folder.addBlade({ view: 'separator' });
+
+    this.playButton = folder.addButton({
+      title: '▶ Play'
+    }).on('click', () => {
+      this.onPlaybackToggle?.(!this.sessionState.playing);
+    });
+
+    // Seek once the slider is released
+    folder.addBinding(this.sessionState, 'seek', {
+      min: 0,
+      max: 1,
+      step: 0.001,
+      label: 'Seek'
+    }).on('change', (ev: TweakpaneAny) => {
+      if (ev.last === false) return;
+      this.onPlaybackSeek?.(ev.value);
+    });
+
+    folder.addBinding(this.sessionState, 'speed', {
+      options: {
+        '0.25x': 0.25,
+        '0.5x': 0.5,
+        '1x': 1,
+        '2x': 2,
+        '4x': 4
+      },
+      label: 'Speed'
+    }).on('change', (ev: TweakpaneAny) => {
+      this.onPlaybackSpeedChange?.(ev.value);
+    });
+
+    folder.addButton({
+      title: '⏹ Stop Playback'
+    }).on('click', () => {
+      this.onPlaybackStop?.();
+    });
+  }
+
+  /**
+   * Build world snapshot folder with file export/load and quick-save slots.
+   */
+  private buildSnapshotFolder(): void {
+    const folder = this.pane.addFolder({
+      title: '📸 Snapshots',
+      expanded: false
+    });
+
+    folder.addButton({
+      title: '📤 Export Snapshot'
+    }).on('click', () => {
+      const json = this.onSnapshotExport?.();
+      if (!json) return;
+      this.downloadFile('swarm-snapshot.json', json);
+      console.log('Snapshot exported');
+    });
+
+    folder.addButton({
+      title: '📥 Load Snapshot'
+    }).on('click', () => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = '.json';
+      input.onchange = async (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) return;
+        this.onSnapshotLoad?.(await file.text());
+      };
+      input.click();
+    });
+
+    folder.addBlade({ view: 'separator' });
+
+    const slotOptions: Record<string, number> = {};
+    for (let slot = 0; slot < QUICK_SAVE_SLOTS; slot++) {
+      slotOptions[`Slot ${slot + 1}`] = slot;
+    }
+
+    folder.addBinding(this.snapshotState, 'slot', {
+      options: slotOptions,
+      label: 'Quick Slot'
+    }).on('change', () => {
+      this.updateSnapshotSlotLabel();
+    });
+
+    this.snapshotSavedBinding = folder.addBinding(this.snapshotState, 'saved', {
+      label: 'Saved',
+      readonly: true
+    });
+
+    folder.addButton({
+      title: '💾 Quick Save'
+    }).on('click', () => {
+      this.onQuickSave?.(this.snapshotState.slot);
+    });
+
+    folder.addButton({
+      title: '📂 Quick Load'
+    }).on('click', () => {
+      this.onQuickLoad?.(this.snapshotState.slot);
+    });
+  }
+
+  /**
+   * Show which quick-save slots hold a snapshot.
+   */
+  setSnapshotSlots(slots: ISnapshotSlotInfo[]): void {
+    this.snapshotSlots = slots;
+    this.updateSnapshotSlotLabel();
+  }
+
+  /**
+   * Show the selected slot's save time and population.
+   */
+  private updateSnapshotSlotLabel(): void {
+    const info = this.snapshotSlots.find(slot => slot.slot === this.snapshotState.slot);
+    this.snapshotState.saved = info?.savedAt
+      ? `${new Date(info.savedAt).toLocaleString()} (${info.birdCount} birds)`
+      : 'Empty';
+    this.snapshotSavedBinding?.refresh?.();
+  }
+
+  /**
+   * Show the recording/playback state in the session folder.
+   */
+  setSessionState(status: string, recording: boolean, playing: boolean): void {
+    const state = this.sessionState;
+    if (state.status === status && state.recording === recording && state.playing === playing) {
+      return;
+    }
+
+    state.status = status;
+    state.recording = recording;
+    state.playing = playing;
+
+    if (this.recordButton) {
+      this.recordButton.title = recording ? '⏹ Stop Recording' : '⏺ Record';
+    }
+    if (this.playButton) {
+      this.playButton.title = playing ? '⏸ Pause' : '▶ Play';
+    }
+    this.sessionStatusBinding?.refresh?.();
+  }
+
+  /**
+   * Build capture folder: output settings, screenshots, frame sequences and video.
+   */
+  private buildCaptureFolder(): void {
+    const folder = this.pane.addFolder({
+      title: '🎬 Capture',
+      expanded: false
+    });
+
+    this.captureStatusBinding = folder.addBinding(this.captureState, 'status', {
+      label: 'Status',
+      readonly: true
+    });
+
+    folder.addBinding(this.captureSettings, 'fps', {
+      options: {
+        '24': 24,
+        '30': 30,
+        '60': 60
+      },
+      label: 'FPS'
+    });
+
+    // 0 = window size; with one side set, the other follows the window aspect
+    folder.addBinding(this.captureSettings, 'width', {
+      min: 0,
+      step: 1,
+      label: 'Width'
+    });
+
+    folder.addBinding(this.captureSettings, 'height', {
+      min: 0,
+      step: 1,
+      label: 'Height'
+    });
+
+    folder.addBinding(this.captureSettings, 'transparent', {
+      label: 'Transparent'
+    });
+
+    // Frame sequence length, 0 = until stopped
+    folder.addBinding(this.captureSettings, 'duration', {
+      min: 0,
+      max: 600,
+      step: 1,
+      label: 'Duration (s)'
+    });
+
+    folder.addBlade({ view: 'separator' });
+
+    folder.addButton({
+      title: '📷 Screenshot'
+    }).on('click', () => {
+      this.onScreenshot?.({ ...this.captureSettings });
+    });
+
+    this.frameCaptureButton = folder.addButton({
+      title: '🎞 Export Frames'
+    }).on('click', () => {
+      this.onFrameCaptureToggle?.(!this.captureState.frames, { ...this.captureSettings });
+    });
+
+    this.videoCaptureButton = folder.addButton({
+      title: '⏺ Record Video'
+    }).on('click', () => {
+      this.onVideoCaptureToggle?.(!this.captureState.video, { ...this.captureSettings });
+    });
+  }
+
+  /**
+   * Show the capture state in the capture folder.
+   */
+  setCaptureState(status: string, frames: boolean, video: boolean): void {
+    const state = this.captureState;
+    if (state.status === status && state.frames === frames && state.video === video) {
+      return;
+    }
+
+    state.status = status;
+    state.frames = frames;
+    state.video = video;
+
+    if (this.frameCaptureButton) {
+      this.frameCaptureButton.title = frames ? '⏹ Stop Frames' : '🎞 Export Frames';
+    }
+    if (this.videoCaptureButton) {
+      this.videoCaptureButton.title = video ? '⏹ Stop Video' : '⏺ Record Video';
+    }
+    this.captureStatusBinding?.refresh?.();
+  }
+
   /**
    * Build simulation parameters folder.
    */
@@ -324,6 +712,17 @@ export class ControlPanel {
       this.onReset?.();
     });
 
+    // CPU readbacks per second while the flock runs on the GPU
+    if (this.simConfig.gpuReadbackRate === undefined) {
+      this.simConfig.gpuReadbackRate = 10;
+    }
+    controls.addBinding(this.simConfig, 'gpuReadbackRate', {
+      min: 1,
+      max: 60,
+      step: 1,
+      label: 'GPU Readback/s'
+    });
+
     // Movement
     const movement = folder.addFolder({ title: 'Movement', expanded: true });
 
@@ -399,6 +798,20 @@ export class ControlPanel {
     // Boundary
     const boundary = folder.addFolder({ title: 'Boundary', expanded: false });
 
+    // Reflect bounces off walls, wrap makes the world toroidal, soft only
+    // steers back from the edges, open lets birds fly out and come back
+    boundary.addBinding(this.simConfig, 'boundaryMode', {
+      options: {
+        'Reflect': 'reflect',
+        'Wrap': 'wrap',
+        'Soft': 'soft',
+        'Open': 'open'
+      },
+      label: 'Mode'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
     boundary.addBinding(this.simConfig, 'boundaryMargin', {
       min: 20,
       max: 300,
@@ -516,6 +929,12 @@ export class ControlPanel {
       }
     });
 
+    predator.addBinding(this.envConfig, 'lethalPredation', {
+      label: 'Lethal'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
     predator.addBinding(this.envConfig, 'panicRadius', {
       min: 50,
       max: 300,
@@ -532,6 +951,15 @@ export class ControlPanel {
       this.onConfigChange?.();
     });
 
+    predator.addBinding(this.envConfig, 'panicSpread', {
+      label: 'Panic Spread',
+      min: 0,
+      max: 1,
+      step: 0.05
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
     // Food
     const food = folder.addFolder({ title: '🍎 Food', expanded: true });
 
@@ -761,9 +1189,14 @@ export class ControlPanel {
         enabled: false,
         cycleDuration: 120,
         timeOfDay: 0.5,
-        freezeTime: false
+        freezeTime: false,
+        profile: { ...DEFAULT_DAY_NIGHT_PROFILE }
       };
     }
+    if (!this.envConfig.dayNight.profile) {
+      this.envConfig.dayNight.profile = { ...DEFAULT_DAY_NIGHT_PROFILE };
+    }
+    const profile = this.envConfig.dayNight.profile;
 
     folder.addBinding(this.envConfig.dayNight, 'enabled', {
       label: 'Enabled'
@@ -796,6 +1229,64 @@ export class ControlPanel {
       this.onConfigChange?.();
     });
 
+    // Night-time behaviour (profile values are replaced by creature presets)
+    folder.addBinding(profile, 'roosting', {
+      label: 'Roosting'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(profile, 'roostCount', {
+      min: 1,
+      max: 8,
+      step: 1,
+      label: 'Roosts'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(profile, 'roostStrength', {
+      min: 0,
+      max: 3,
+      step: 0.1,
+      label: 'Roost Pull'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(profile, 'nightSpeedFactor', {
+      min: 0.1,
+      max: 1,
+      step: 0.05,
+      label: 'Night Speed'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(profile, 'nightPerception', {
+      min: 0.1,
+      max: 1,
+      step: 0.05,
+      label: 'Night Vision'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(profile, 'nightPredatorBoost', {
+      min: 1,
+      max: 3,
+      step: 0.1,
+      label: 'Owl Boost'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(profile, 'fireflyNightOnly', {
+      label: 'Fireflies at Night'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
     // Quick buttons
     folder.addButton({
       title: '☀️ Skip to Day'
@@ -826,7 +1317,9 @@ export class ControlPanel {
         enabled: false,
         showZones: true,
         defaultRadius: 150,
-        pullStrength: 0.5
+        pullStrength: 0.5,
+        count: 4,
+        defenseStrength: 1.0
       };
     }
 
@@ -860,6 +1353,24 @@ export class ControlPanel {
     }).on('change', () => {
       this.onConfigChange?.();
     });
+
+    folder.addBinding(this.envConfig.territories, 'count', {
+      min: 1,
+      max: 8,
+      step: 1,
+      label: 'Count'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.territories, 'defenseStrength', {
+      min: 0,
+      max: 3,
+      step: 0.1,
+      label: 'Defense'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
   }
 
   /**
@@ -875,15 +1386,23 @@ export class ControlPanel {
         speciesCount: 2,
         interactionRange: 100,
         huntingForce: 1.0,
-        fleeingForce: 1.5
+        fleeingForce: 1.5,
+        species: [],
+        foodWeb: []
       };
     }
 
     folder.addBinding(this.envConfig.ecosystem, 'enabled', {
       label: 'Enabled'
     }).on('change', (ev: TweakpaneAny) => {
+      // Color birds by species so the populations are distinguishable
+      if (ev.value) {
+        this.renderConfig.colorMode = 'species';
+      }
       this.onEcosystemToggle?.(ev.value);
       this.onConfigChange?.();
+      // Refresh the pane to update colorMode dropdown
+      this.pane?.refresh();
     });
 
     folder.addBinding(this.envConfig.ecosystem, 'speciesCount', {
@@ -923,6 +1442,342 @@ export class ControlPanel {
     });
   }
 
+  /**
+   * Build Lifecycle folder (root level).
+   */
+  private buildLifecycleFolder(): void {
+    const folder = this.pane.addFolder({ title: '🧬 Lifecycle', expanded: false });
+
+    // Ensure lifecycle config exists with defaults
+    if (!this.envConfig.lifecycle) {
+      this.envConfig.lifecycle = {
+        enabled: false,
+        offspringPerMating: 2,
+        birthChance: 0.5,
+        starvationRate: 0.5,
+        mortalityRate: 0,
+        maxAge: 0
+      };
+    }
+
+    folder.addBinding(this.envConfig.lifecycle, 'enabled', {
+      label: 'Enabled'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.lifecycle, 'offspringPerMating', {
+      min: 0,
+      max: 4,
+      step: 1,
+      label: 'Max Offspring'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.lifecycle, 'birthChance', {
+      min: 0,
+      max: 1,
+      step: 0.05,
+      label: 'Birth Chance'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.lifecycle, 'starvationRate', {
+      min: 0,
+      max: 2,
+      step: 0.05,
+      label: 'Starvation Rate'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.lifecycle, 'mortalityRate', {
+      min: 0,
+      max: 0.1,
+      step: 0.001,
+      label: 'Mortality /s'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.lifecycle, 'maxAge', {
+      min: 0,
+      max: 600,
+      step: 10,
+      label: 'Max Age (s)'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+  }
+
+  /**
+   * Build Obstacles folder (root level): avoidance settings, placement tools
+   * and built-in layouts.
+   */
+  private buildObstaclesFolder(): void {
+    const folder = this.pane.addFolder({ title: '🧱 Obstacles', expanded: false });
+
+    // Ensure obstacle config exists with defaults
+    if (!this.envConfig.obstacles) {
+      this.envConfig.obstacles = {
+        enabled: true,
+        avoidanceForce: 1.5,
+        avoidanceMargin: 60,
+        lookAhead: 1.0,
+        items: []
+      };
+    }
+
+    folder.addBinding(this.envConfig.obstacles, 'enabled', {
+      label: 'Enabled'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.obstacles, 'avoidanceForce', {
+      min: 0,
+      max: 5,
+      step: 0.1,
+      label: 'Avoidance'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.obstacles, 'avoidanceMargin', {
+      min: 10,
+      max: 200,
+      step: 5,
+      label: 'Margin'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.envConfig.obstacles, 'lookAhead', {
+      min: 0,
+      max: 3,
+      step: 0.1,
+      label: 'Look Ahead'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBlade({ view: 'separator' });
+
+    // Clicks place the selected shape instead of an attractor; polygons and
+    // walls take a click per point, Enter finishes and Escape cancels
+    folder.addBinding(this.obstacleState, 'tool', {
+      options: {
+        'Off (attractors)': 'none',
+        'Circle': 'circle',
+        'Polygon': 'polygon',
+        'Wall': 'wall'
+      },
+      label: 'Place'
+    });
+
+    folder.addBinding(this.obstacleState, 'size', {
+      min: 4,
+      max: 100,
+      step: 1,
+      label: 'Size'
+    });
+
+    folder.addBlade({ view: 'separator' });
+
+    folder.addBinding(this.obstacleState, 'layout', {
+      options: {
+        'Buildings': 'buildings',
+        'Reef': 'reef',
+        'Forest': 'forest'
+      },
+      label: 'Layout'
+    });
+
+    folder.addButton({
+      title: '🏙 Apply Layout'
+    }).on('click', () => {
+      this.onObstacleLayout?.(this.obstacleState.layout);
+    });
+
+    folder.addButton({
+      title: '🗑 Clear Obstacles'
+    }).on('click', () => {
+      this.onObstaclesClear?.();
+    });
+  }
+
+  /**
+   * Get the selected obstacle placement tool and its size (circle radius or
+   * half the wall thickness).
+   */
+  getObstacleTool(): { tool: ObstacleTool; size: number } {
+    return { tool: this.obstacleState.tool, size: this.obstacleState.size };
+  }
+
+  /**
+   * Build camera folder: follow target, view reset, minimap and world size.
+   */
+  private buildCameraFolder(): void {
+    const folder = this.pane.addFolder({ title: '📷 Camera', expanded: false });
+
+    // Ensure camera and world size properties exist with defaults
+    if (this.renderConfig.showMinimap === undefined) {
+      this.renderConfig.showMinimap = true;
+    }
+    if (this.simConfig.worldWidth === undefined) {
+      this.simConfig.worldWidth = 0;
+    }
+    if (this.simConfig.worldHeight === undefined) {
+      this.simConfig.worldHeight = 0;
+    }
+
+    // Following starts with the bird or predator nearest the view center
+    this.cameraFollowBinding = folder.addBinding(this.cameraState, 'follow', {
+      options: {
+        'Off': 'none',
+        'Bird': 'bird',
+        'Predator': 'predator'
+      },
+      label: 'Follow'
+    }).on('change', (ev: TweakpaneAny) => {
+      this.onCameraFollow?.(ev.value);
+    });
+
+    folder.addButton({
+      title: '🔍 Reset View'
+    }).on('click', () => {
+      this.onCameraReset?.();
+    });
+
+    folder.addBinding(this.renderConfig, 'showMinimap', {
+      label: 'Minimap'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBlade({ view: 'separator' });
+
+    // 0 follows the window size
+    folder.addBinding(this.simConfig, 'worldWidth', {
+      min: 0,
+      max: 8000,
+      step: 100,
+      label: 'World Width'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.simConfig, 'worldHeight', {
+      min: 0,
+      max: 8000,
+      step: 100,
+      label: 'World Height'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+  }
+
+  /**
+   * Show the camera follow target chosen outside the panel.
+   */
+  setCameraFollow(mode: CameraFollowMode): void {
+    if (this.cameraState.follow === mode) return;
+    this.cameraState.follow = mode;
+    this.cameraFollowBinding?.refresh();
+  }
+
+  /**
+   * Build inspector folder: picking birds to inspect.
+   */
+  private buildInspectorFolder(): void {
+    const folder = this.pane.addFolder({ title: '🔎 Inspector', expanded: false });
+
+    // Left clicks select the nearest bird instead of placing attractors or
+    // obstacles; Escape clears the selection
+    folder.addBinding(this.inspectorState, 'pick', {
+      label: 'Pick Birds'
+    });
+  }
+
+  /**
+   * Check if left clicks pick birds to inspect.
+   */
+  isPickingBirds(): boolean {
+    return this.inspectorState.pick;
+  }
+
+  /**
+   * Build force vectors folder: per-rule steering arrows for a sample of the
+   * flock or the birds around the inspected bird.
+   */
+  private buildForceVectorsFolder(): void {
+    const folder = this.pane.addFolder({ title: '🧭 Force Vectors', expanded: false });
+
+    // Ensure overlay properties exist with defaults
+    if (this.renderConfig.showForceVectors === undefined) {
+      this.renderConfig.showForceVectors = false;
+    }
+    if (this.renderConfig.forceVectorBirds === undefined) {
+      this.renderConfig.forceVectorBirds = 'sample';
+    }
+    if (this.renderConfig.forceVectorSamples === undefined) {
+      this.renderConfig.forceVectorSamples = 100;
+    }
+    if (this.renderConfig.forceVectorRadius === undefined) {
+      this.renderConfig.forceVectorRadius = 150;
+    }
+    if (this.renderConfig.forceVectorScale === undefined) {
+      this.renderConfig.forceVectorScale = 60;
+    }
+
+    // Forces are only recorded by the CPU simulation
+    folder.addBinding(this.renderConfig, 'showForceVectors', {
+      label: 'Show (CPU)'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.renderConfig, 'forceVectorBirds', {
+      options: {
+        'Sample': 'sample',
+        'Region': 'region'
+      },
+      label: 'Birds'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.renderConfig, 'forceVectorSamples', {
+      min: 10,
+      max: 500,
+      step: 10,
+      label: 'Samples'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    // Around the inspected bird, or the view center without one
+    folder.addBinding(this.renderConfig, 'forceVectorRadius', {
+      min: 25,
+      max: 1000,
+      step: 25,
+      label: 'Region Radius'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.renderConfig, 'forceVectorScale', {
+      min: 5,
+      max: 300,
+      step: 5,
+      label: 'Arrow Scale'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+  }
+
   /**
    * Build rendering folder.
    */
@@ -1007,7 +1862,8 @@ export class ControlPanel {
       'Panic': 'panic',
       'Gender': 'gender',
       'Mating': 'mating',
-      'Firefly': 'firefly'
+      'Firefly': 'firefly',
+      'Species': 'species'
     };
 
     colors.addBinding(this.renderConfig, 'colorMode', {
@@ -1097,6 +1953,12 @@ export class ControlPanel {
     if (this.renderConfig.showTerritories === undefined) {
       this.renderConfig.showTerritories = true;
     }
+    if (this.renderConfig.showCharts === undefined) {
+      this.renderConfig.showCharts = false;
+    }
+    if (this.renderConfig.chartWindow === undefined) {
+      this.renderConfig.chartWindow = 60;
+    }
 
     folder.addBinding(this.renderConfig, 'motionBlurEnabled', {
       label: 'Motion Blur'
@@ -1127,6 +1989,34 @@ export class ControlPanel {
     }).on('change', () => {
       this.onConfigChange?.();
     });
+
+    folder.addBinding(this.renderConfig, 'showCharts', {
+      label: 'History Charts'
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+
+    folder.addBinding(this.renderConfig, 'chartWindow', {
+      label: 'Chart Window (s)',
+      min: 10,
+      max: 600,
+      step: 10
+    }).on('change', () => {
+      this.onConfigChange?.();
+    });
+  }
+
+  /**
+   * Save text as a file through a temporary download link.
+   */
+  private downloadFile(filename: string, text: string): void {
+    const blob = new Blob([text], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
   }
 
   /**
@@ -1192,6 +2082,18 @@ export class ControlPanel {
       if (env.fireflyFlashDuration !== undefined) this.envConfig.fireflyFlashDuration = env.fireflyFlashDuration;
 
       if (env.dayNight !== undefined) this.envConfig.dayNight = env.dayNight;
+
+      // In place, so the panel bindings stay attached
+      if (env.obstacles !== undefined) assignConfig(this.envConfig.obstacles, env.obstacles);
+    }
+
+    // Apply time-of-day profile in place so the panel bindings stay attached
+    if (this.envConfig.dayNight) {
+      this.envConfig.dayNight.profile = Object.assign(
+        this.envConfig.dayNight.profile ?? {},
+        DEFAULT_DAY_NIGHT_PROFILE,
+        preset.dayNightProfile
+      );
     }
 
     // Apply rendering overrides
@@ -1223,22 +2125,7 @@ export class ControlPanel {
   /**
    * Set callbacks.
    */
-  setCallbacks(callbacks: {
-    onPresetChange?: PresetChangeCallback;
-    onBirdCountChange?: BirdCountChangeCallback;
-    onPredatorToggle?: PredatorToggleCallback;
-    onPredatorTypeChange?: PredatorTypeChangeCallback;
-    onPredatorCountChange?: PredatorCountChangeCallback;
-    onFoodToggle?: FoodToggleCallback;
-    onConfigChange?: ConfigChangeCallback;
-    onPauseResume?: PauseResumeCallback;
-    onReset?: ResetCallback;
-    onPerceptionRadiusChange?: PerceptionRadiusChangeCallback;
-    onTrailsToggle?: TrailsToggleCallback;
-    onDayNightToggle?: DayNightToggleCallback;
-    onTerritoryToggle?: TerritoryToggleCallback;
-    onEcosystemToggle?: EcosystemToggleCallback;
-  }): void {
+  setCallbacks(callbacks: IControlPanelCallbacks): void {
     this.onPresetChange = callbacks.onPresetChange || null;
     this.onBirdCountChange = callbacks.onBirdCountChange || null;
     this.onPredatorToggle = callbacks.onPredatorToggle || null;
@@ -1253,6 +2140,24 @@ export class ControlPanel {
     this.onDayNightToggle = callbacks.onDayNightToggle || null;
     this.onTerritoryToggle = callbacks.onTerritoryToggle || null;
     this.onEcosystemToggle = callbacks.onEcosystemToggle || null;
+    this.onRecordToggle = callbacks.onRecordToggle || null;
+    this.onRecordingExport = callbacks.onRecordingExport || null;
+    this.onRecordingLoad = callbacks.onRecordingLoad || null;
+    this.onPlaybackToggle = callbacks.onPlaybackToggle || null;
+    this.onPlaybackSeek = callbacks.onPlaybackSeek || null;
+    this.onPlaybackSpeedChange = callbacks.onPlaybackSpeedChange || null;
+    this.onPlaybackStop = callbacks.onPlaybackStop || null;
+    this.onSnapshotExport = callbacks.onSnapshotExport || null;
+    this.onSnapshotLoad = callbacks.onSnapshotLoad || null;
+    this.onQuickSave = callbacks.onQuickSave || null;
+    this.onQuickLoad = callbacks.onQuickLoad || null;
+    this.onScreenshot = callbacks.onScreenshot || null;
+    this.onFrameCaptureToggle = callbacks.onFrameCaptureToggle || null;
+    this.onVideoCaptureToggle = callbacks.onVideoCaptureToggle || null;
+    this.onObstacleLayout = callbacks.onObstacleLayout || null;
+    this.onObstaclesClear = callbacks.onObstaclesClear || null;
+    this.onCameraFollow = callbacks.onCameraFollow || null;
+    this.onCameraReset = callbacks.onCameraReset || null;
   }
 
   /**
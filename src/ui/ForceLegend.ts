@@ -0,0 +1,35 @@
+import { FORCE_COLORS } from '../rendering/ForceArrows';
+import { FORCE_COMPONENTS } from '../simulation/ForceRecorder';
+
+/**
+ * Color key for the force-vector overlay.
+ */
+export class ForceLegend {
+  private panelElement: HTMLElement | null;
+  private noteElement: HTMLElement | null;
+
+  constructor() {
+    this.panelElement = document.getElementById('force-legend');
+    this.noteElement = document.getElementById('force-legend-note');
+
+    const keys = document.getElementById('force-legend-keys');
+    if (keys) {
+      keys.innerHTML = FORCE_COMPONENTS.map((component) => {
+        const color = `#${FORCE_COLORS[component].toString(16).padStart(6, '0')}`;
+        return `<span class="force-key"><span class="force-swatch" style="background: ${color};"></span>${component}</span>`;
+      }).join('');
+    }
+  }
+
+  /**
+   * Show or hide the legend.
+   * @param note Shown next to the key, e.g. why no arrows are drawn
+   */
+  setVisible(visible: boolean, note: string = ''): void {
+    if (!this.panelElement) return;
+    this.panelElement.style.display = visible ? '' : 'none';
+    if (this.noteElement) {
+      this.noteElement.textContent = note;
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import type { BirdArrays } from '../simulation/Bird';
+import type { BasePredator } from '../environment';
+
+// Longest side of the map in CSS pixels
+const MAP_SIZE = 180;
+
+// Birds drawn at most; larger flocks are sampled evenly
+const MAX_MAP_BIRDS = 2000;
+
+/** Called with the world point picked on the map */
+export type MinimapNavigateCallback = (x: number, y: number) => void;
+
+/**
+ * Overview of the whole world: birds, predators and the area the camera shows.
+ * Clicking or dragging on the map moves the camera there.
+ */
+export class Minimap {
+  private panelElement: HTMLElement | null;
+  private canvas: HTMLCanvasElement | null;
+  private context: CanvasRenderingContext2D | null;
+  private onNavigate: MinimapNavigateCallback | null = null;
+
+  // Map scale of the last draw (map pixels per world unit)
+  private scale: number = 1;
+  private dragging: boolean = false;
+
+  constructor() {
+    this.panelElement = document.getElementById('minimap');
+    this.canvas = document.getElementById('minimap-canvas') as HTMLCanvasElement | null;
+    this.context = this.canvas?.getContext('2d') ?? null;
+
+    this.canvas?.addEventListener('mousedown', (e) => {
+      this.dragging = true;
+      this.navigate(e);
+    });
+    this.canvas?.addEventListener('mousemove', (e) => {
+      if (this.dragging) this.navigate(e);
+    });
+    window.addEventListener('mouseup', () => {
+      this.dragging = false;
+    });
+  }
+
+  /**
+   * Set the handler for clicks and drags on the map.
+   */
+  setNavigateCallback(callback: MinimapNavigateCallback | null): void {
+    this.onNavigate = callback;
+  }
+
+  /**
+   * Show or hide the map.
+   */
+  setVisible(visible: boolean): void {
+    if (!this.panelElement) return;
+    this.panelElement.style.display = visible ? '' : 'none';
+  }
+
+  /**
+   * Check if the map is shown.
+   */
+  isVisible(): boolean {
+    return this.panelElement !== null && this.panelElement.style.display !== 'none';
+  }
+
+  /**
+   * Draw the world at map scale with the camera's visible area.
+   */
+  draw(
+    birdArrays: BirdArrays,
+    predators: BasePredator[],
+    worldWidth: number,
+    worldHeight: number,
+    view: { x: number; y: number; width: number; height: number }
+  ): void {
+    const canvas = this.canvas;
+    const ctx = this.context;
+    if (!canvas || !ctx) return;
+
+    // Fit the world into the map, keeping its aspect ratio
+    this.scale = MAP_SIZE / Math.max(worldWidth, worldHeight);
+    const width = Math.max(1, Math.round(worldWidth * this.scale));
+    const height = Math.max(1, Math.round(worldHeight * this.scale));
+
+    // Match the canvas resolution to the display
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== width * dpr || canvas.height !== height * dpr) {
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+    }
+    const scale = this.scale;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.04)';
+    ctx.fillRect(0, 0, width, height);
+
+    // Birds, sampled evenly
+    const count = birdArrays.count;
+    const step = Math.max(1, Math.ceil(count / MAX_MAP_BIRDS));
+    ctx.fillStyle = '#00ff88';
+    for (let i = 0; i < count; i += step) {
+      ctx.fillRect(birdArrays.positionX[i] * scale - 0.5, birdArrays.positionY[i] * scale - 0.5, 1, 1);
+    }
+
+    // Predators
+    ctx.fillStyle = '#ff4444';
+    for (const predator of predators) {
+      ctx.fillRect(predator.position.x * scale - 2, predator.position.y * scale - 2, 4, 4);
+    }
+
+    // Visible area
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(view.x * scale + 0.5, view.y * scale + 0.5, view.width * scale - 1, view.height * scale - 1);
+  }
+
+  /**
+   * Report the world point under the cursor.
+   */
+  private navigate(e: MouseEvent): void {
+    if (!this.canvas) return;
+    const rect = this.canvas.getBoundingClientRect();
+    this.onNavigate?.((e.clientX - rect.left) / this.scale, (e.clientY - rect.top) / this.scale);
+  }
+}
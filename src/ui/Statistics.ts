@@ -1,4 +1,4 @@
-import type { ISimulationStats, PredatorBehaviorState } from '../types';
+import type { CollectiveState, ISimulationStats, PredatorBehaviorState } from '../types';
 
 // FPS color thresholds
 const FPS_GOOD = 55;
@@ -19,9 +19,17 @@ const PREDATOR_STATE_COLORS: Record<PredatorBehaviorState, string> = {
   recovering: '#888888'
 };
 
+// Collective state colors
+const COLLECTIVE_STATE_COLORS: Record<CollectiveState, string> = {
+  swarm: '#ffaa00',
+  polarized: '#00d4ff',
+  milling: '#ba68c8',
+  transitional: 'var(--text-muted, #888)'
+};
+
 /**
  * Updates the statistics display in the DOM.
- * Version: 3.0.0 - Added gender count, social status, time of day display
+ * Version: 3.1.0 - Added collective order and cluster display
  */
 export class Statistics {
   private fpsElement: HTMLElement | null;
@@ -36,6 +44,8 @@ export class Statistics {
   private genderCountElement: HTMLElement | null;
   private socialStatusElement: HTMLElement | null;
   private timeOfDayElement: HTMLElement | null;
+  private orderElement: HTMLElement | null;
+  private clusterElement: HTMLElement | null;
 
   // FPS calculation
   private frameCount: number = 0;
@@ -58,6 +68,8 @@ export class Statistics {
     this.genderCountElement = document.getElementById('gender-count');
     this.socialStatusElement = document.getElementById('social-status');
     this.timeOfDayElement = document.getElementById('time-of-day');
+    this.orderElement = document.getElementById('order-status');
+    this.clusterElement = document.getElementById('cluster-status');
   }
 
   /**
@@ -94,7 +106,7 @@ export class Statistics {
     this.simulationTime += deltaTime;
 
     if (this.birdCountElement) {
-      this.birdCountElement.textContent = stats.birdCount.toLocaleString();
+      this.updateBirdCount(stats);
     }
 
     if (this.avgDensityElement) {
@@ -124,10 +136,35 @@ export class Statistics {
     // Update social status (mating/fighting)
     this.updateSocialStatus(stats);
 
+    // Update collective order and clusters
+    this.updateOrderStatus(stats);
+
     // Update time of day
     this.updateTimeOfDay(stats);
   }
 
+  /**
+   * Update bird count, with births and deaths when the lifecycle is active.
+   */
+  private updateBirdCount(stats: ISimulationStats): void {
+    if (!this.birdCountElement) return;
+
+    const count = stats.birdCount.toLocaleString();
+
+    if (stats.totalBirths === undefined && stats.totalDeaths === undefined) {
+      this.birdCountElement.textContent = count;
+      return;
+    }
+
+    this.birdCountElement.innerHTML = `
+      ${count}
+      <span style="font-size: 10px;">
+        <span style="color: #88ff88;">+${stats.totalBirths ?? 0}</span>
+        <span style="color: #ff6666;">−${stats.totalDeaths ?? 0}</span>
+      </span>
+    `;
+  }
+
   /**
    * Update predator status display.
    */
@@ -276,6 +313,41 @@ export class Statistics {
     `;
   }
 
+  /**
+   * Update collective order (state, polarization, milling) and cluster display.
+   */
+  updateOrderStatus(stats: ISimulationStats): void {
+    const order = stats.order;
+
+    if (this.orderElement) {
+      if (order && stats.birdCount > 0) {
+        const color = COLLECTIVE_STATE_COLORS[order.state];
+        this.orderElement.innerHTML = `
+          <span style="color: ${color}; font-weight: 500;">${this.capitalizeFirst(order.state)}</span>
+          <span style="font-size: 10px;"> P ${order.polarization.toFixed(2)} · M ${order.milling.toFixed(2)}</span>
+        `;
+      } else {
+        this.orderElement.innerHTML = `
+          <span style="color: var(--text-muted, #888);">--</span>
+        `;
+      }
+    }
+
+    if (this.clusterElement) {
+      if (order && stats.birdCount > 0) {
+        const largest = Math.round(order.largestClusterFraction * 100);
+        this.clusterElement.innerHTML = `
+          <span>${order.clusterCount}</span>
+          <span style="font-size: 10px;"> (${largest}% largest) · NN ${order.nearestNeighborMean.toFixed(1)}</span>
+        `;
+      } else {
+        this.clusterElement.innerHTML = `
+          <span style="color: var(--text-muted, #888);">--</span>
+        `;
+      }
+    }
+  }
+
   /**
    * Update time of day display.
    */
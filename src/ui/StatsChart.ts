@@ -0,0 +1,291 @@
+import type { ISimulationStats } from '../types';
+
+// Seconds between recorded samples
+const SAMPLE_INTERVAL = 0.1;
+
+// Shortest visible window when zoomed in (seconds)
+const MIN_VISIBLE_WINDOW = 5;
+
+// Canvas layout in CSS pixels
+const CHART_WIDTH = 320;
+const ROW_HEIGHT = 26;
+const LABEL_WIDTH = 112;
+const ROW_PADDING = 4;
+
+/** One plotted statistic */
+interface IChartSeries {
+  label: string;
+  color: string;
+  read: (stats: ISimulationStats) => number | undefined;
+  format: (value: number) => string;
+  /** Fixed vertical range; the visible min/max is used otherwise */
+  range?: [number, number];
+}
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+// Plotted statistics, top to bottom
+const CHART_SERIES: IChartSeries[] = [
+  { label: 'FPS', color: '#00d4ff', read: s => s.fps, format: v => v.toFixed(0) },
+  { label: 'Birds', color: '#00ff88', read: s => s.birdCount, format: v => v.toFixed(0) },
+  { label: 'Speed', color: '#f9e79f', read: s => s.avgVelocity, format: v => v.toFixed(1) },
+  { label: 'Energy', color: '#88ff88', read: s => s.avgEnergy, format: percent, range: [0, 1] },
+  { label: 'Panic', color: '#ff6666', read: s => s.avgPanic, format: percent, range: [0, 1] },
+  { label: 'Feeding', color: '#aaffaa', read: s => s.feedingBirds, format: v => v.toFixed(0) },
+  { label: 'Hunt Success', color: '#ffaa00', read: huntSuccess, format: percent, range: [0, 1] },
+  { label: 'Polarization', color: '#5dade2', read: s => s.order?.polarization, format: v => v.toFixed(2), range: [0, 1] },
+  { label: 'Milling', color: '#ba68c8', read: s => s.order?.milling, format: v => v.toFixed(2), range: [0, 1] },
+  { label: 'Clusters', color: '#f0b27a', read: s => s.order?.clusterCount, format: v => v.toFixed(0) },
+  { label: 'Largest', color: '#f5b7b1', read: s => s.order?.largestClusterFraction, format: percent, range: [0, 1] },
+  { label: 'NN Dist', color: '#76d7c4', read: s => s.order?.nearestNeighborMean, format: v => v.toFixed(1) }
+];
+
+/**
+ * Share of predator strikes that caught a bird (undefined before the first strike).
+ */
+function huntSuccess(stats: ISimulationStats): number | undefined {
+  const strikes = (stats.successfulHunts ?? 0) + (stats.failedHunts ?? 0);
+  return strikes > 0 ? (stats.successfulHunts ?? 0) / strikes : undefined;
+}
+
+/**
+ * Rolling-history sparklines for the statistics panel.
+ *
+ * Samples the stats every SAMPLE_INTERVAL into a ring buffer covering the
+ * configured window and draws one sparkline per series on a canvas. The view
+ * can be paused to inspect a moment and zoomed to a shorter span of the history.
+ */
+export class StatsChart {
+  private panelElement: HTMLElement | null;
+  private canvas: HTMLCanvasElement | null;
+  private context: CanvasRenderingContext2D | null;
+  private windowElement: HTMLElement | null;
+  private pauseElement: HTMLElement | null;
+
+  // Ring buffer, one array per series (NaN where a value was unavailable)
+  private samples: Float32Array[] = [];
+  private capacity: number = 0;
+  private head: number = 0;
+  private length: number = 0;
+  private sampleTimer: number = 0;
+
+  // View state
+  private historyWindow: number = 0;
+  private visibleWindow: number = 0;
+  private paused: boolean = false;
+
+  constructor(historyWindow: number) {
+    this.panelElement = document.getElementById('charts');
+    this.canvas = document.getElementById('chart-canvas') as HTMLCanvasElement | null;
+    this.context = this.canvas?.getContext('2d') ?? null;
+    this.windowElement = document.getElementById('chart-window');
+    this.pauseElement = document.getElementById('chart-pause');
+
+    document.getElementById('chart-zoom-in')?.addEventListener('click', () => this.zoom(0.5));
+    document.getElementById('chart-zoom-out')?.addEventListener('click', () => this.zoom(2));
+    this.pauseElement?.addEventListener('click', () => this.setPaused(!this.paused));
+    this.canvas?.addEventListener('wheel', (e) => {
+      e.preventDefault();
+      this.zoom(e.deltaY < 0 ? 0.5 : 2);
+    }, { passive: false });
+
+    this.setWindow(historyWindow);
+  }
+
+  /**
+   * Record the latest stats. Samples are taken every SAMPLE_INTERVAL seconds.
+   */
+  record(stats: ISimulationStats, deltaTime: number): void {
+    if (this.paused) return;
+
+    this.sampleTimer += deltaTime;
+    if (this.sampleTimer < SAMPLE_INTERVAL) return;
+    this.sampleTimer %= SAMPLE_INTERVAL;
+
+    for (let s = 0; s < CHART_SERIES.length; s++) {
+      this.samples[s][this.head] = CHART_SERIES[s].read(stats) ?? NaN;
+    }
+    this.head = (this.head + 1) % this.capacity;
+    this.length = Math.min(this.length + 1, this.capacity);
+
+    if (this.isVisible()) {
+      this.draw();
+    }
+  }
+
+  /**
+   * Set the history length in seconds. Keeps the newest samples that still fit.
+   */
+  setWindow(seconds: number): void {
+    const historyWindow = Math.max(MIN_VISIBLE_WINDOW, seconds);
+    const capacity = Math.ceil(historyWindow / SAMPLE_INTERVAL);
+
+    if (capacity !== this.capacity) {
+      const kept = Math.min(this.length, capacity);
+      this.samples = CHART_SERIES.map((_, s) => {
+        const resized = new Float32Array(capacity);
+        for (let n = 0; n < kept; n++) {
+          resized[n] = this.getSample(s, kept - 1 - n);
+        }
+        return resized;
+      });
+      this.capacity = capacity;
+      this.length = kept;
+      this.head = kept % capacity;
+    }
+
+    // Keep the zoom level unless the visible span no longer fits
+    const wasFullWindow = this.visibleWindow === this.historyWindow;
+    this.historyWindow = historyWindow;
+    if (wasFullWindow || this.visibleWindow > historyWindow) {
+      this.visibleWindow = historyWindow;
+    }
+    this.refresh();
+  }
+
+  /**
+   * Show or hide the chart panel.
+   */
+  setVisible(visible: boolean): void {
+    if (!this.panelElement) return;
+    this.panelElement.style.display = visible ? '' : 'none';
+    if (visible) this.draw();
+  }
+
+  /**
+   * Freeze or resume the history.
+   */
+  setPaused(paused: boolean): void {
+    this.paused = paused;
+    if (this.pauseElement) {
+      this.pauseElement.textContent = paused ? '▶' : '⏸';
+    }
+  }
+
+  /**
+   * Drop all recorded samples.
+   */
+  clear(): void {
+    this.head = 0;
+    this.length = 0;
+    this.sampleTimer = 0;
+    this.draw();
+  }
+
+  /**
+   * Scale the visible span, clamped between MIN_VISIBLE_WINDOW and the history length.
+   */
+  private zoom(factor: number): void {
+    this.visibleWindow = Math.max(MIN_VISIBLE_WINDOW, Math.min(this.historyWindow, this.visibleWindow * factor));
+    this.refresh();
+  }
+
+  /**
+   * Update the window label and redraw.
+   */
+  private refresh(): void {
+    if (this.windowElement) {
+      this.windowElement.textContent = `${Math.round(this.visibleWindow)}s`;
+    }
+    this.draw();
+  }
+
+  /**
+   * Sample of a series, counting back from the newest (age 0).
+   */
+  private getSample(series: number, age: number): number {
+    return this.samples[series][(this.head - 1 - age + this.capacity) % this.capacity];
+  }
+
+  /**
+   * Check if the panel is shown.
+   */
+  private isVisible(): boolean {
+    return this.panelElement !== null && this.panelElement.style.display !== 'none';
+  }
+
+  /**
+   * Draw one labelled sparkline per series over the visible window.
+   */
+  private draw(): void {
+    const canvas = this.canvas;
+    const ctx = this.context;
+    if (!canvas || !ctx) return;
+
+    // Match the canvas resolution to the display
+    const dpr = window.devicePixelRatio || 1;
+    const height = ROW_HEIGHT * CHART_SERIES.length;
+    if (canvas.width !== CHART_WIDTH * dpr || canvas.height !== height * dpr) {
+      canvas.width = CHART_WIDTH * dpr;
+      canvas.height = height * dpr;
+      canvas.style.width = `${CHART_WIDTH}px`;
+      canvas.style.height = `${height}px`;
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, CHART_WIDTH, height);
+    ctx.font = "10px 'JetBrains Mono', monospace";
+    ctx.textBaseline = 'middle';
+
+    const slots = Math.max(2, Math.round(this.visibleWindow / SAMPLE_INTERVAL));
+    const visible = Math.min(this.length, slots);
+    const plotWidth = CHART_WIDTH - LABEL_WIDTH;
+    const stepX = plotWidth / (slots - 1);
+
+    CHART_SERIES.forEach((series, s) => {
+      const top = s * ROW_HEIGHT;
+      const middle = top + ROW_HEIGHT / 2;
+
+      // Vertical range
+      let min = Infinity;
+      let max = -Infinity;
+      for (let age = 0; age < visible; age++) {
+        const value = this.getSample(s, age);
+        if (Number.isNaN(value)) continue;
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+      if (series.range) {
+        [min, max] = series.range;
+      } else if (max - min < 1e-6) {
+        min -= 0.5;
+        max += 0.5;
+      }
+
+      // Label and latest value
+      const latest = visible > 0 ? this.getSample(s, 0) : NaN;
+      ctx.fillStyle = '#666';
+      ctx.textAlign = 'left';
+      ctx.fillText(series.label, 0, middle);
+      ctx.fillStyle = series.color;
+      ctx.textAlign = 'right';
+      ctx.fillText(Number.isNaN(latest) ? '--' : series.format(latest), LABEL_WIDTH - 8, middle);
+
+      // Baseline
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.05)';
+      ctx.fillRect(LABEL_WIDTH, top + ROW_PADDING, plotWidth, ROW_HEIGHT - ROW_PADDING * 2);
+
+      // Sparkline, newest sample at the right edge; gaps where values are missing
+      ctx.strokeStyle = series.color;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      let drawing = false;
+      for (let age = visible - 1; age >= 0; age--) {
+        const value = this.getSample(s, age);
+        if (Number.isNaN(value)) {
+          drawing = false;
+          continue;
+        }
+        const x = CHART_WIDTH - age * stepX;
+        const t = (value - min) / (max - min);
+        const y = top + ROW_HEIGHT - ROW_PADDING - Math.max(0, Math.min(1, t)) * (ROW_HEIGHT - ROW_PADDING * 2);
+        if (drawing) {
+          ctx.lineTo(x, y);
+        } else {
+          ctx.moveTo(x, y);
+          drawing = true;
+        }
+      }
+      ctx.stroke();
+    });
+  }
+}
@@ -1,3 +1,7 @@
 export { ControlPanel } from './ControlPanel';
 export { Statistics } from './Statistics';
+export { StatsChart } from './StatsChart';
+export { Minimap } from './Minimap';
 
+export { BirdInspector } from './BirdInspector';
+export { ForceLegend } from './ForceLegend';
@@ -0,0 +1,34 @@
+// Bytes per String.fromCharCode call (stays under the argument limit)
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * Encode the first `length` elements of a typed array as base64 of its raw
+ * bytes (platform byte order, little-endian on every supported platform).
+ */
+export function encodeTypedArray(array: Float32Array | Int32Array, length: number = array.length): string {
+  const bytes = new Uint8Array(array.buffer, array.byteOffset, length * array.BYTES_PER_ELEMENT);
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 from encodeTypedArray() into the start of a typed array.
+ * @returns Number of elements written
+ * @throws Error if the data doesn't fit the target or isn't whole elements
+ */
+export function decodeTypedArray(text: string, target: Float32Array | Int32Array): number {
+  const binary = atob(text);
+  const elementSize = target.BYTES_PER_ELEMENT;
+  if (binary.length % elementSize !== 0 || binary.length > target.byteLength) {
+    throw new Error(`Encoded array of ${binary.length} bytes doesn't fit the target`);
+  }
+
+  const bytes = new Uint8Array(target.buffer, target.byteOffset, binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return binary.length / elementSize;
+}
@@ -1,3 +1,5 @@
+import { Random } from './Random';
+
 /**
  * Mathematical utilities for the simulation.
  */
@@ -39,101 +41,57 @@ export function remap(
 // Random
 // ============================================================================
 
-export function randomRange(min: number, max: number): number {
-  return min + Math.random() * (max - min);
+/**
+ * Seedable PRNG (mulberry32). Same seed, same sequence on every platform.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
-export function randomInt(min: number, max: number): number {
-  return Math.floor(randomRange(min, max + 1));
-}
+// Unseeded source for callers without a simulation's own Random (created on
+// first use, as Random imports from this module)
+let sharedRandom: Random | null = null;
 
-export function randomSign(): number {
-  return Math.random() < 0.5 ? -1 : 1;
+function getSharedRandom(): Random {
+  if (!sharedRandom) {
+    sharedRandom = new Random();
+  }
+  return sharedRandom;
 }
 
-export function randomGaussian(mean: number = 0, stdDev: number = 1): number {
-  // Box-Muller transform
-  const u1 = Math.random();
-  const u2 = Math.random();
-  const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-  return z0 * stdDev + mean;
+export function randomRange(min: number, max: number, rng: Random = getSharedRandom()): number {
+  return rng.range(min, max);
 }
 
-// ============================================================================
-// Perlin Noise (Simplified 2D Implementation)
-// ============================================================================
-
-const PERLIN_SIZE = 256;
-const PERLIN_MASK = PERLIN_SIZE - 1;
-
-let perlinPermutation: number[] | null = null;
-let perlinGradients: Array<[number, number]> | null = null;
-
-function initPerlin(): void {
-  if (perlinPermutation) return;
-
-  // Initialize permutation table
-  perlinPermutation = [];
-  for (let i = 0; i < PERLIN_SIZE; i++) {
-    perlinPermutation[i] = i;
-  }
-
-  // Shuffle
-  for (let i = PERLIN_SIZE - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [perlinPermutation[i], perlinPermutation[j]] = [perlinPermutation[j], perlinPermutation[i]];
-  }
-
-  // Double for overflow
-  for (let i = 0; i < PERLIN_SIZE; i++) {
-    perlinPermutation[PERLIN_SIZE + i] = perlinPermutation[i];
-  }
-
-  // Initialize gradients
-  perlinGradients = [];
-  for (let i = 0; i < PERLIN_SIZE; i++) {
-    const angle = (i / PERLIN_SIZE) * Math.PI * 2;
-    perlinGradients[i] = [Math.cos(angle), Math.sin(angle)];
-  }
+export function randomInt(min: number, max: number, rng: Random = getSharedRandom()): number {
+  return rng.int(min, max);
 }
 
-function fade(t: number): number {
-  return t * t * t * (t * (t * 6 - 15) + 10);
+export function randomSign(rng: Random = getSharedRandom()): number {
+  return rng.sign();
 }
 
-function dotGrad(ix: number, iy: number, x: number, y: number): number {
-  if (!perlinPermutation || !perlinGradients) return 0;
-  const idx = perlinPermutation[(ix + perlinPermutation[iy & PERLIN_MASK]) & PERLIN_MASK] & PERLIN_MASK;
-  const grad = perlinGradients[idx];
-  const dx = x - ix;
-  const dy = y - iy;
-  return dx * grad[0] + dy * grad[1];
+export function randomGaussian(mean: number = 0, stdDev: number = 1, rng: Random = getSharedRandom()): number {
+  return rng.gaussian(mean, stdDev);
 }
 
+// ============================================================================
+// Perlin Noise
+// ============================================================================
+
 /**
  * 2D Perlin noise function.
  * Returns values in range [-1, 1]
  */
-export function noise(x: number, y: number): number {
-  initPerlin();
-
-  const x0 = Math.floor(x);
-  const x1 = x0 + 1;
-  const y0 = Math.floor(y);
-  const y1 = y0 + 1;
-
-  const sx = fade(x - x0);
-  const sy = fade(y - y0);
-
-  const n00 = dotGrad(x0, y0, x, y);
-  const n10 = dotGrad(x1, y0, x, y);
-  const n01 = dotGrad(x0, y1, x, y);
-  const n11 = dotGrad(x1, y1, x, y);
-
-  const ix0 = lerp(n00, n10, sx);
-  const ix1 = lerp(n01, n11, sx);
-
-  return lerp(ix0, ix1, sy);
+export function noise(x: number, y: number, rng: Random = getSharedRandom()): number {
+  return rng.noise(x, y);
 }
 
 /**
@@ -144,21 +102,56 @@ export function fbm(
   y: number,
   octaves: number = 4,
   lacunarity: number = 2,
-  gain: number = 0.5
+  gain: number = 0.5,
+  rng: Random = getSharedRandom()
 ): number {
-  let value = 0;
-  let amplitude = 1;
-  let frequency = 1;
-  let maxValue = 0;
-
-  for (let i = 0; i < octaves; i++) {
-    value += amplitude * noise(x * frequency, y * frequency);
-    maxValue += amplitude;
-    amplitude *= gain;
-    frequency *= lacunarity;
+  return rng.fbm(x, y, octaves, lacunarity, gain);
+}
+
+// ============================================================================
+// Periodic World
+// ============================================================================
+
+/**
+ * Shortest offset over a periodic axis of this length (the minimum image
+ * across the wrapped edges), or delta unchanged when period is 0.
+ */
+export function wrapDelta(delta: number, period: number): number {
+  return period > 0 ? delta - period * Math.round(delta / period) : delta;
+}
+
+/**
+ * Mean of the first count values on a periodic axis of this length, taken as
+ * the mean angle on a circle so points on both sides of an edge average to
+ * the edge. Plain arithmetic mean when period is 0.
+ */
+export function wrapMean(values: ArrayLike<number>, count: number, period: number): number {
+  if (count === 0) return 0;
+
+  if (period <= 0) {
+    let sum = 0;
+    for (let i = 0; i < count; i++) {
+      sum += values[i];
+    }
+    return sum / count;
   }
 
-  return value / maxValue;
+  const toAngle = (Math.PI * 2) / period;
+  let cos = 0;
+  let sin = 0;
+  for (let i = 0; i < count; i++) {
+    cos += Math.cos(values[i] * toAngle);
+    sin += Math.sin(values[i] * toAngle);
+  }
+  return wrapValue(Math.atan2(sin, cos) / toAngle, 0, period);
+}
+
+/**
+ * Wrap a value into [min, max): leaving one end re-enters at the other.
+ */
+export function wrapValue(value: number, min: number, max: number): number {
+  const range = max - min;
+  return value - range * Math.floor((value - min) / range);
 }
 
 // ============================================================================
@@ -233,21 +226,35 @@ export function distanceSq(x1: number, y1: number, x2: number, y2: number): numb
 }
 
 // ============================================================================
-// Array Utilities
+// Layout Utilities
 // ============================================================================
 
-export function shuffle<T>(array: T[]): T[] {
-  const result = [...array];
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
-  }
-  return result;
+/**
+ * Scale and offset that fit a width x height area centered inside an outer
+ * area, keeping its aspect ratio.
+ */
+export function fitRect(
+  width: number,
+  height: number,
+  outerWidth: number,
+  outerHeight: number
+): { scale: number; x: number; y: number } {
+  const scale = Math.min(outerWidth / width, outerHeight / height);
+  return {
+    scale,
+    x: (outerWidth - width * scale) / 2,
+    y: (outerHeight - height * scale) / 2
+  };
 }
 
-export function pickRandom<T>(array: T[]): T | undefined {
-  if (array.length === 0) return undefined;
-  return array[Math.floor(Math.random() * array.length)];
-}
+// ============================================================================
+// Array Utilities
+// ============================================================================
 
+export function shuffle<T>(array: T[], rng: Random = getSharedRandom()): T[] {
+  return rng.shuffle(array);
+}
 
+export function pickRandom<T>(array: T[], rng: Random = getSharedRandom()): T | undefined {
+  return rng.pick(array);
+}
@@ -0,0 +1,166 @@
+import { createSeededRandom, lerp } from './MathUtils';
+
+// ============================================================================
+// Perlin Noise Tables
+// ============================================================================
+
+const PERLIN_SIZE = 256;
+const PERLIN_MASK = PERLIN_SIZE - 1;
+
+// Gradient directions are fixed; only the permutation follows the seed
+const PERLIN_GRADIENTS: Array<[number, number]> = Array.from({ length: PERLIN_SIZE }, (_, i) => {
+  const angle = (i / PERLIN_SIZE) * Math.PI * 2;
+  return [Math.cos(angle), Math.sin(angle)];
+});
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+/**
+ * Random source of one simulation. Every system of a simulation draws from the
+ * same instance, so a seeded run is reproducible, and simulations sharing a
+ * process (sweeps, tests) never interleave their sequences.
+ */
+export class Random {
+  private source: () => number = Math.random;
+
+  // Noise permutation, shuffled from this source on first use
+  private permutation: number[] | null = null;
+
+  constructor(seed: number | null = null) {
+    this.setSeed(seed);
+  }
+
+  /**
+   * Reseed (null for Math.random). Also reshuffles the noise permutation so
+   * noise fields repeat with the seed.
+   */
+  setSeed(seed: number | null): void {
+    this.source = seed === null ? Math.random : createSeededRandom(seed);
+    this.permutation = null;
+  }
+
+  /**
+   * Uniform random number in [0, 1).
+   */
+  next(): number {
+    return this.source();
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  sign(): number {
+    return this.next() < 0.5 ? -1 : 1;
+  }
+
+  gaussian(mean: number = 0, stdDev: number = 1): number {
+    // Box-Muller transform
+    const u1 = this.next();
+    const u2 = this.next();
+    const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return z0 * stdDev + mean;
+  }
+
+  shuffle<T>(array: T[]): T[] {
+    const result = [...array];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  pick<T>(array: T[]): T | undefined {
+    if (array.length === 0) return undefined;
+    return array[Math.floor(this.next() * array.length)];
+  }
+
+  /**
+   * 2D Perlin noise.
+   * Returns values in range [-1, 1]
+   */
+  noise(x: number, y: number): number {
+    const permutation = this.getPermutation();
+
+    const x0 = Math.floor(x);
+    const x1 = x0 + 1;
+    const y0 = Math.floor(y);
+    const y1 = y0 + 1;
+
+    const sx = fade(x - x0);
+    const sy = fade(y - y0);
+
+    const n00 = this.dotGrad(permutation, x0, y0, x, y);
+    const n10 = this.dotGrad(permutation, x1, y0, x, y);
+    const n01 = this.dotGrad(permutation, x0, y1, x, y);
+    const n11 = this.dotGrad(permutation, x1, y1, x, y);
+
+    const ix0 = lerp(n00, n10, sx);
+    const ix1 = lerp(n01, n11, sx);
+
+    return lerp(ix0, ix1, sy);
+  }
+
+  /**
+   * Fractal Brownian Motion (multi-octave noise)
+   */
+  fbm(
+    x: number,
+    y: number,
+    octaves: number = 4,
+    lacunarity: number = 2,
+    gain: number = 0.5
+  ): number {
+    let value = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let maxValue = 0;
+
+    for (let i = 0; i < octaves; i++) {
+      value += amplitude * this.noise(x * frequency, y * frequency);
+      maxValue += amplitude;
+      amplitude *= gain;
+      frequency *= lacunarity;
+    }
+
+    return value / maxValue;
+  }
+
+  private getPermutation(): number[] {
+    if (this.permutation) return this.permutation;
+
+    const permutation: number[] = [];
+    for (let i = 0; i < PERLIN_SIZE; i++) {
+      permutation[i] = i;
+    }
+
+    // Shuffle
+    for (let i = PERLIN_SIZE - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+    }
+
+    // Double for overflow
+    for (let i = 0; i < PERLIN_SIZE; i++) {
+      permutation[PERLIN_SIZE + i] = permutation[i];
+    }
+
+    this.permutation = permutation;
+    return permutation;
+  }
+
+  private dotGrad(permutation: number[], ix: number, iy: number, x: number, y: number): number {
+    const idx = permutation[(ix + permutation[iy & PERLIN_MASK]) & PERLIN_MASK] & PERLIN_MASK;
+    const grad = PERLIN_GRADIENTS[idx];
+    const dx = x - ix;
+    const dy = y - iy;
+    return dx * grad[0] + dy * grad[1];
+  }
+}
@@ -1,4 +1,5 @@
 import type { IVector2 } from '../types';
+import type { Random } from './Random';
 
 /**
  * 2D Vector class with common operations.
@@ -21,8 +22,8 @@ export class Vector2 implements IVector2 {
     return new Vector2(x, y);
   }
 
-  static random(): Vector2 {
-    const angle = Math.random() * Math.PI * 2;
+  static random(rng?: Random): Vector2 {
+    const angle = (rng ? rng.next() : Math.random()) * Math.PI * 2;
     return new Vector2(Math.cos(angle), Math.sin(angle));
   }
 
@@ -0,0 +1,46 @@
+import { wrapDelta, wrapMean } from './MathUtils';
+
+/**
+ * Periodic world of one simulation. While wrapping is on, offsets between
+ * positions take the shortest way across the edges (the minimum image).
+ */
+export class WorldWrap {
+  private width: number = 0;
+  private height: number = 0;
+
+  /**
+   * Wrap over a world of this size (0 turns wrapping off).
+   */
+  set(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+
+  /**
+   * Shortest horizontal offset, or dx unchanged when wrapping is off.
+   */
+  deltaX(dx: number): number {
+    return wrapDelta(dx, this.width);
+  }
+
+  /**
+   * Shortest vertical offset, or dy unchanged when wrapping is off.
+   */
+  deltaY(dy: number): number {
+    return wrapDelta(dy, this.height);
+  }
+
+  /**
+   * Mean of the first count x positions (circular mean while wrapping).
+   */
+  meanX(values: ArrayLike<number>, count: number): number {
+    return wrapMean(values, count, this.width);
+  }
+
+  /**
+   * Mean of the first count y positions (circular mean while wrapping).
+   */
+  meanY(values: ArrayLike<number>, count: number): number {
+    return wrapMean(values, count, this.height);
+  }
+}
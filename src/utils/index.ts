@@ -1,5 +1,8 @@
 export { Vector2, tempVec1, tempVec2, tempVec3, tempVec4 } from './Vector2';
 export * from './MathUtils';
+export { Random } from './Random';
+export { WorldWrap } from './WorldWrap';
+export * from './Encoding';
 export { ObjectPool, PoolableValue } from './ObjectPool';
 
 